@@ -1,14 +1,19 @@
 "use client"
 
-import { Suspense } from "react"
-import type { Transaction } from "@/types/database"
+import { Suspense, useState } from "react"
+import type { PayoutRequestWithUser, Transaction } from "@/types/database"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { TransactionsTable } from "@/components/dashboard/transactions-table"
+import { PayoutsQueue } from "@/components/dashboard/payouts-queue"
 import { TransactionsSearch } from "@/components/dashboard/transactions-search"
 import { RevenueChart, TransactionBreakdown } from "@/components/dashboard/revenue-chart"
+import { Banknote, Receipt } from "lucide-react"
 
 interface FinancesPageClientProps {
   transactions: Transaction[]
+  payouts: PayoutRequestWithUser[]
   chartData: {
     date: string
     deposits: number
@@ -28,6 +33,7 @@ interface FinancesPageClientProps {
 
 export function FinancesPageClient({ 
   transactions, 
+  payouts,
   chartData,
   breakdownData,
   error, 
@@ -35,6 +41,9 @@ export function FinancesPageClient({
   totalTransactions,
   searchParams 
 }: FinancesPageClientProps) {
+  const [activeTab, setActiveTab] = useState<string>("transactions")
+  const openPayouts = payouts.filter((p) => p.status === "pending" || p.status === "approved").length
+
   return (
     <>
       {/* Charts Row */}
@@ -43,47 +52,87 @@ export function FinancesPageClient({
         <TransactionBreakdown data={breakdownData} />
       </div>
 
-      {/* Search and Filter */}
-      <Suspense fallback={<div className="h-10 bg-parchment animate-pulse rounded" />}>
-        <TransactionsSearch />
-      </Suspense>
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
+        <TabsList className="bg-parchment border border-saddle-light/30">
+          <TabsTrigger 
+            value="transactions"
+            className="data-[state=active]:bg-gold data-[state=active]:text-leather"
+          >
+            <Receipt className="h-4 w-4 mr-2" />
+            Transactions
+          </TabsTrigger>
+          <TabsTrigger 
+            value="payouts"
+            className="data-[state=active]:bg-gold data-[state=active]:text-leather"
+          >
+            <Banknote className="h-4 w-4 mr-2" />
+            Payouts
+            {openPayouts > 0 && (
+              <Badge className="ml-2 bg-fire text-white text-xs">{openPayouts}</Badge>
+            )}
+          </TabsTrigger>
+        </TabsList>
 
-      {/* Results info */}
-      {hasFilters && (
-        <p className="text-sm text-leather-light">
-          Showing {transactions.length} of {totalTransactions} transactions
-          {searchParams.type && searchParams.type !== "all" && (
-            <span> of type &quot;{searchParams.type}&quot;</span>
-          )}
-          {searchParams.status && searchParams.status !== "all" && (
-            <span> with status &quot;{searchParams.status}&quot;</span>
-          )}
-          {searchParams.range && searchParams.range !== "all" && (
-            <span> from {searchParams.range}</span>
-          )}
-        </p>
-      )}
+        {/* Transactions Tab */}
+        <TabsContent value="transactions" className="mt-4 space-y-4">
+          {/* Search and Filter */}
+          <Suspense fallback={<div className="h-10 bg-parchment animate-pulse rounded" />}>
+            <TransactionsSearch />
+          </Suspense>
 
-      {/* Transactions Table */}
-      <Card className="border-saddle-light/30">
-        <CardHeader>
-          <CardTitle className="text-saddle-dark">
-            {hasFilters ? "Filtered Transactions" : "Recent Transactions"}
-          </CardTitle>
-          <CardDescription>
-            {transactions.length} {hasFilters ? "matching" : "most recent"} transactions
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          {error ? (
-            <div className="text-fire text-sm p-4 bg-fire/10 rounded-lg">
-              Error loading transactions: {error}
-            </div>
-          ) : (
-            <TransactionsTable transactions={transactions} />
+          {/* Results info */}
+          {hasFilters && (
+            <p className="text-sm text-leather-light">
+              Showing {transactions.length} of {totalTransactions} transactions
+              {searchParams.type && searchParams.type !== "all" && (
+                <span> of type &quot;{searchParams.type}&quot;</span>
+              )}
+              {searchParams.status && searchParams.status !== "all" && (
+                <span> with status &quot;{searchParams.status}&quot;</span>
+              )}
+              {searchParams.range && searchParams.range !== "all" && (
+                <span> from {searchParams.range}</span>
+              )}
+            </p>
           )}
-        </CardContent>
-      </Card>
+
+          {/* Transactions Table */}
+          <Card className="border-saddle-light/30">
+            <CardHeader>
+              <CardTitle className="text-saddle-dark">
+                {hasFilters ? "Filtered Transactions" : "Recent Transactions"}
+              </CardTitle>
+              <CardDescription>
+                {transactions.length} {hasFilters ? "matching" : "most recent"} transactions
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {error ? (
+                <div className="text-fire text-sm p-4 bg-fire/10 rounded-lg">
+                  Error loading transactions: {error}
+                </div>
+              ) : (
+                <TransactionsTable transactions={transactions} />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Payouts Tab */}
+        <TabsContent value="payouts" className="mt-4">
+          <Card className="border-saddle-light/30">
+            <CardHeader>
+              <CardTitle className="text-saddle-dark">Payout Requests</CardTitle>
+              <CardDescription>
+                {openPayouts} awaiting review or payment
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PayoutsQueue payouts={payouts} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
     </>
   )
 }
@@ -67,6 +67,13 @@ export default async function FinancesPage({ searchParams }: FinancesPageProps)
     .from("transactions")
     .select("transaction_type, amount, status, created_at")
 
+  // Payout requests for the review queue
+  const { data: payouts } = await supabase
+    .from("payout_requests")
+    .select("*, user:profiles!payout_requests_user_id_fkey(*)")
+    .order("requested_at", { ascending: false })
+    .limit(100)
+
   // Calculate financial stats
   type TxRow = { status?: string; transaction_type?: string; amount?: number; created_at?: string }
   const confirmedTx = allTransactions?.filter((t: TxRow) => t.status === 'confirmed') || []
@@ -275,6 +282,7 @@ export default async function FinancesPage({ searchParams }: FinancesPageProps)
       {/* Charts and Transactions */}
       <FinancesPageClient 
         transactions={transactions || []}
+        payouts={payouts || []}
         chartData={chartData}
         breakdownData={breakdownData}
         error={error?.message}
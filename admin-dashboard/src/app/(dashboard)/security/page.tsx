@@ -7,8 +7,10 @@ import {
   Users,
   Activity,
   XCircle,
-  CheckCircle
+  CheckCircle,
+  Smartphone
 } from "lucide-react"
+import { ACTIVE_SESSION_HOURS } from "@/lib/player-sessions"
 import { SecurityPageClient } from "./security-client"
 
 // Force dynamic rendering - this page needs real data from Supabase
@@ -86,6 +88,18 @@ export default async function SecurityPage({ searchParams }: SecurityPageProps)
   const warningsToday = todayLogs?.filter((l: LogRow) => l.severity === 'warning' || l.severity === 'error' || l.severity === 'critical').length || 0
   const adminActionsToday = todayLogs?.filter((l: LogRow) => l.activity_type === 'admin_action').length || 0
 
+  // Active sessions: signed in and seen recently (player_sessions)
+  const activeSince = new Date()
+  activeSince.setHours(activeSince.getHours() - ACTIVE_SESSION_HOURS)
+  const { data: activeSessions } = await supabase
+    .from("player_sessions")
+    .select("user_id")
+    .is("signed_out_at", null)
+    .gte("last_seen_at", activeSince.toISOString())
+
+  const activeSessionCount = activeSessions?.length || 0
+  const activePlayerCount = new Set(activeSessions?.map((s: { user_id: string }) => s.user_id)).size
+
   // Get user stats
   const { count: totalUsers } = await supabase
     .from("profiles")
@@ -105,7 +119,7 @@ export default async function SecurityPage({ searchParams }: SecurityPageProps)
       </div>
 
       {/* Stats Cards */}
-      <div className="grid gap-4 md:grid-cols-6">
+      <div className="grid gap-4 md:grid-cols-4 xl:grid-cols-7">
         <Card className="border-saddle-light/30">
           <CardHeader className="flex flex-row items-center justify-between pb-2">
             <CardTitle className="text-sm font-medium text-leather-light">
@@ -171,6 +185,21 @@ export default async function SecurityPage({ searchParams }: SecurityPageProps)
           </CardContent>
         </Card>
 
+        <Card className="border-saddle-light/30">
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-leather-light">
+              Active Sessions
+            </CardTitle>
+            <Smartphone className="h-4 w-4 text-blue-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-blue-600">{activeSessionCount}</div>
+            <p className="text-xs text-leather-light">
+              {activePlayerCount} {activePlayerCount === 1 ? "player" : "players"} • last {ACTIVE_SESSION_HOURS}h
+            </p>
+          </CardContent>
+        </Card>
+
         <Card className="border-saddle-light/30">
           <CardHeader className="flex flex-row items-center justify-between pb-2">
             <CardTitle className="text-sm font-medium text-leather-light">
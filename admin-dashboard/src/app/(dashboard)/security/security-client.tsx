@@ -7,7 +7,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { ActivityLogsTable } from "@/components/dashboard/activity-logs-table"
 import { ActivitySearch } from "@/components/dashboard/activity-search"
 import { AntiCheatPanel } from "@/components/dashboard/anti-cheat-panel"
-import { Activity, Shield } from "lucide-react"
+import { AccountRingsPanel } from "@/components/dashboard/account-rings-panel"
+import { AppealsQueue } from "@/components/dashboard/appeals-queue"
+import { Activity, MessageSquareWarning, Network, Shield } from "lucide-react"
 
 interface SecurityPageClientProps {
   logs: ActivityLog[]
@@ -43,6 +45,20 @@ export function SecurityPageClient({
           <Shield className="h-4 w-4 mr-2" />
           Anti-Cheat
         </TabsTrigger>
+        <TabsTrigger 
+          value="rings"
+          className="data-[state=active]:bg-gold data-[state=active]:text-leather"
+        >
+          <Network className="h-4 w-4 mr-2" />
+          Account Rings
+        </TabsTrigger>
+        <TabsTrigger 
+          value="appeals"
+          className="data-[state=active]:bg-gold data-[state=active]:text-leather"
+        >
+          <MessageSquareWarning className="h-4 w-4 mr-2" />
+          Appeals
+        </TabsTrigger>
       </TabsList>
 
       {/* Activity Logs Tab */}
@@ -94,6 +110,16 @@ export function SecurityPageClient({
       <TabsContent value="anti-cheat" className="mt-4">
         <AntiCheatPanel />
       </TabsContent>
+
+      {/* Account Rings Tab */}
+      <TabsContent value="rings" className="mt-4">
+        <AccountRingsPanel />
+      </TabsContent>
+
+      {/* Appeals Tab */}
+      <TabsContent value="appeals" className="mt-4">
+        <AppealsQueue />
+      </TabsContent>
     </Tabs>
   )
 }
@@ -43,6 +43,27 @@ export default async function SettingsPage() {
     .from("activity_logs")
     .select("*", { count: 'exact', head: true })
 
+  // Game configuration (single row, migration 020)
+  const { data: gameSettings } = await supabase
+    .from("game_settings")
+    .select("*")
+    .eq("id", 1)
+    .maybeSingle()
+
+  // Sponsor zone fees (single row, migration 021)
+  const { data: sponsorZoneFees } = await supabase
+    .from("sponsor_zone_fee_config")
+    .select("*")
+    .eq("id", 1)
+    .maybeSingle()
+
+  // Settings history (migration 021)
+  const { data: settingsVersions } = await supabase
+    .from("settings_versions")
+    .select("*, author:profiles!settings_versions_changed_by_fkey(*)")
+    .order("created_at", { ascending: false })
+    .limit(300)
+
   const systemStats = {
     users: totalUsers || 0,
     coins: totalCoins || 0,
@@ -56,6 +77,9 @@ export default async function SettingsPage() {
       user={user}
       profile={profile}
       systemStats={systemStats}
+      gameSettings={gameSettings}
+      sponsorZoneFees={sponsorZoneFees}
+      settingsVersions={settingsVersions || []}
     />
   )
 }
@@ -4,7 +4,22 @@ import { useState } from "react"
 import { useRouter } from "next/navigation"
 import { createClient } from "@/lib/supabase/client"
 import type { User } from "@supabase/supabase-js"
-import type { UserProfile } from "@/types/database"
+import type { GameSettings, SettingsVersionWithAuthor, SponsorZoneFeeSettings, UserProfile } from "@/types/database"
+import {
+  DEFAULT_GAME_SETTINGS,
+  GAME_SETTING_FIELDS,
+  validateGameSettings,
+  type GameSettingKey,
+  type GameSettingsValues,
+} from "@/lib/game-settings"
+import {
+  SPONSOR_ZONE_FEE_FIELDS,
+  toSponsorZoneFees,
+  validateSponsorZoneFees,
+  type SponsorZoneFeeKey,
+  type SponsorZoneFeeValues,
+} from "@/lib/sponsor-zone-fees"
+import { SettingsHistory } from "@/components/dashboard/settings-history"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -33,7 +48,9 @@ import {
   Users,
   Building2,
   Activity,
-  CreditCard
+  CreditCard,
+  History,
+  Store
 } from "lucide-react"
 
 interface SettingsPageClientProps {
@@ -46,9 +63,35 @@ interface SettingsPageClientProps {
     sponsors: number
     logs: number
   }
+  gameSettings: GameSettings | null
+  sponsorZoneFees: SponsorZoneFeeSettings | null
+  settingsVersions: SettingsVersionWithAuthor[]
+}
+
+/**
+ * Form values (as typed) for each game setting
+ */
+function toGameConfigForm(settings: GameSettings | null): Record<GameSettingKey, string> {
+  const form = {} as Record<GameSettingKey, string>
+  for (const field of GAME_SETTING_FIELDS) {
+    form[field.key] = String(settings?.[field.key] ?? DEFAULT_GAME_SETTINGS[field.key])
+  }
+  return form
+}
+
+/**
+ * Form values (as typed) for each sponsor zone fee
+ */
+function toSponsorFeesForm(row: SponsorZoneFeeSettings | null): Record<SponsorZoneFeeKey, string> {
+  const fees = toSponsorZoneFees(row)
+  const form = {} as Record<SponsorZoneFeeKey, string>
+  for (const field of SPONSOR_ZONE_FEE_FIELDS) {
+    form[field.key] = String(fees[field.key])
+  }
+  return form
 }
 
-export function SettingsPageClient({ user, profile, systemStats }: SettingsPageClientProps) {
+export function SettingsPageClient({ user, profile, systemStats, gameSettings, sponsorZoneFees, settingsVersions }: SettingsPageClientProps) {
   const router = useRouter()
   const supabase = createClient()
   
@@ -71,6 +114,16 @@ export function SettingsPageClient({ user, profile, systemStats }: SettingsPageC
   // System actions
   const [isExporting, setIsExporting] = useState(false)
   const [isClearing, setIsClearing] = useState(false)
+  
+  // Game configuration
+  const [gameConfig, setGameConfig] = useState(() => toGameConfigForm(gameSettings))
+  const [configErrors, setConfigErrors] = useState<Partial<Record<GameSettingKey, string>>>({})
+  const [isSavingConfig, setIsSavingConfig] = useState(false)
+
+  // Sponsor zone fees
+  const [sponsorFees, setSponsorFees] = useState(() => toSponsorFeesForm(sponsorZoneFees))
+  const [feeErrors, setFeeErrors] = useState<Partial<Record<SponsorZoneFeeKey, string>>>({})
+  const [isSavingFees, setIsSavingFees] = useState(false)
 
   const handleSaveProfile = async () => {
     setIsSavingProfile(true)
@@ -105,6 +158,76 @@ export function SettingsPageClient({ user, profile, systemStats }: SettingsPageC
     router.refresh()
   }
 
+  const handleGameConfigChange = (key: GameSettingKey, value: string) => {
+    setGameConfig((prev) => ({ ...prev, [key]: value }))
+    setConfigErrors((prev) => ({ ...prev, [key]: undefined }))
+  }
+
+  const handleSaveGameConfig = async () => {
+    const values = {} as GameSettingsValues
+    for (const field of GAME_SETTING_FIELDS) {
+      values[field.key] = gameConfig[field.key].trim() === "" ? NaN : Number(gameConfig[field.key])
+    }
+
+    const errors = validateGameSettings(values)
+    setConfigErrors(errors)
+    if (Object.keys(errors).length > 0) {
+      toast.error("Please fix the highlighted settings")
+      return
+    }
+
+    setIsSavingConfig(true)
+    const { data, error } = await supabase.rpc("update_game_settings", { p_settings: values })
+    setIsSavingConfig(false)
+
+    if (error || !data?.success) {
+      toast.error("Failed to save configuration", { description: error?.message || data?.error })
+      return
+    }
+
+    const changed = Object.keys(data.changes ?? {}).length
+    toast.success("Configuration saved! ⚙️", {
+      description: changed > 0
+        ? `${changed} setting${changed === 1 ? "" : "s"} updated. Live within 30 seconds.`
+        : "No changes",
+    })
+    router.refresh()
+  }
+
+  const handleSponsorFeeChange = (key: SponsorZoneFeeKey, value: string) => {
+    setSponsorFees((prev) => ({ ...prev, [key]: value }))
+    setFeeErrors((prev) => ({ ...prev, [key]: undefined }))
+  }
+
+  const handleSaveSponsorFees = async () => {
+    const values = {} as SponsorZoneFeeValues
+    for (const field of SPONSOR_ZONE_FEE_FIELDS) {
+      values[field.key] = sponsorFees[field.key].trim() === "" ? NaN : Number(sponsorFees[field.key])
+    }
+
+    const errors = validateSponsorZoneFees(values)
+    setFeeErrors(errors)
+    if (Object.keys(errors).length > 0) {
+      toast.error("Please fix the highlighted fees")
+      return
+    }
+
+    // The versioning trigger (migration 021) records the change
+    setIsSavingFees(true)
+    const { error } = await supabase
+      .from("sponsor_zone_fee_config")
+      .upsert({ id: 1, ...values, updated_by: user.id })
+    setIsSavingFees(false)
+
+    if (error) {
+      toast.error("Failed to save sponsor zone fees", { description: error.message })
+      return
+    }
+
+    toast.success("Sponsor zone fees saved! 🏪")
+    router.refresh()
+  }
+
   const handleSignOut = async () => {
     await supabase.auth.signOut()
     router.push("/login")
@@ -509,102 +632,122 @@ export function SettingsPageClient({ user, profile, systemStats }: SettingsPageC
         </CardHeader>
         <CardContent>
           <div className="grid gap-6 md:grid-cols-3">
-            <div className="space-y-2">
-              <Label>Default Coin Value ($)</Label>
-              <Input
-                type="number"
-                defaultValue="5.00"
-                step="0.01"
-                className="border-saddle-light/30"
-              />
-              <p className="text-xs text-leather-light">
-                Default value for new coins
-              </p>
-            </div>
-            
-            <div className="space-y-2">
-              <Label>Gas Fee (%)</Label>
-              <Input
-                type="number"
-                defaultValue="10"
-                min="0"
-                max="50"
-                className="border-saddle-light/30"
-              />
-              <p className="text-xs text-leather-light">
-                Platform fee on transactions
-              </p>
-            </div>
-            
-            <div className="space-y-2">
-              <Label>Min Payout ($)</Label>
-              <Input
-                type="number"
-                defaultValue="20.00"
-                step="0.01"
-                className="border-saddle-light/30"
-              />
-              <p className="text-xs text-leather-light">
-                Minimum balance for withdrawals
-              </p>
-            </div>
-            
-            <div className="space-y-2">
-              <Label>Coin Radius (meters)</Label>
-              <Input
-                type="number"
-                defaultValue="50"
-                min="10"
-                max="500"
-                className="border-saddle-light/30"
-              />
-              <p className="text-xs text-leather-light">
-                How close users must be to collect
-              </p>
-            </div>
-            
-            <div className="space-y-2">
-              <Label>Coin Expiry (days)</Label>
-              <Input
-                type="number"
-                defaultValue="30"
-                min="1"
-                max="365"
-                className="border-saddle-light/30"
-              />
-              <p className="text-xs text-leather-light">
-                Days until uncollected coins expire
-              </p>
-            </div>
-            
-            <div className="space-y-2">
-              <Label>Max Daily Finds</Label>
-              <Input
-                type="number"
-                defaultValue="10"
-                min="1"
-                max="100"
-                className="border-saddle-light/30"
-              />
-              <p className="text-xs text-leather-light">
-                Limit per user per day
-              </p>
-            </div>
+            {GAME_SETTING_FIELDS.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`setting-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`setting-${field.key}`}
+                  type="number"
+                  value={gameConfig[field.key]}
+                  onChange={(e) => handleGameConfigChange(field.key, e.target.value)}
+                  min={field.min}
+                  max={field.max}
+                  step={field.step}
+                  className={configErrors[field.key] ? "border-fire" : "border-saddle-light/30"}
+                />
+                {configErrors[field.key] ? (
+                  <p className="text-xs text-fire">{configErrors[field.key]}</p>
+                ) : (
+                  <p className="text-xs text-leather-light">
+                    {field.description}
+                  </p>
+                )}
+              </div>
+            ))}
           </div>
           
           <Separator className="my-6" />
           
-          <div className="flex justify-end">
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-leather-light">
+              {gameSettings?.updated_at
+                ? `Last saved ${new Date(gameSettings.updated_at).toLocaleString()}`
+                : "Using default settings"}
+            </p>
             <Button 
               className="bg-gold hover:bg-gold-dark text-leather"
-              onClick={() => toast.success("Configuration saved! ⚙️")}
+              onClick={handleSaveGameConfig}
+              disabled={isSavingConfig}
             >
               <Save className="h-4 w-4 mr-2" />
-              Save Configuration
+              {isSavingConfig ? "Saving..." : "Save Configuration"}
             </Button>
           </div>
         </CardContent>
       </Card>
+
+      {/* Sponsor Zone Fees */}
+      <Card className="border-saddle-light/30">
+        <CardHeader>
+          <CardTitle className="text-saddle-dark flex items-center gap-2">
+            <Store className="h-5 w-5" />
+            Sponsor Zone Fees
+          </CardTitle>
+          <CardDescription>
+            Fees quoted when sponsors create zones and place coins
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-6 md:grid-cols-4">
+            {SPONSOR_ZONE_FEE_FIELDS.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`fee-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`fee-${field.key}`}
+                  type="number"
+                  value={sponsorFees[field.key]}
+                  onChange={(e) => handleSponsorFeeChange(field.key, e.target.value)}
+                  min={field.min}
+                  max={field.max}
+                  step={field.step}
+                  className={feeErrors[field.key] ? "border-fire" : "border-saddle-light/30"}
+                />
+                {feeErrors[field.key] ? (
+                  <p className="text-xs text-fire">{feeErrors[field.key]}</p>
+                ) : (
+                  <p className="text-xs text-leather-light">
+                    {field.description}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+          
+          <Separator className="my-6" />
+          
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-leather-light">
+              {sponsorZoneFees?.updated_at
+                ? `Last saved ${new Date(sponsorZoneFees.updated_at).toLocaleString()}`
+                : "Using default fees"}
+            </p>
+            <Button 
+              className="bg-gold hover:bg-gold-dark text-leather"
+              onClick={handleSaveSponsorFees}
+              disabled={isSavingFees}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {isSavingFees ? "Saving..." : "Save Fees"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Settings History */}
+      <Card className="border-saddle-light/30">
+        <CardHeader>
+          <CardTitle className="text-saddle-dark flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Settings History
+          </CardTitle>
+          <CardDescription>
+            Every saved change, who made it and when. Compare versions or roll back.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SettingsHistory versions={settingsVersions} />
+        </CardContent>
+      </Card>
     </div>
   )
 }
@@ -4,7 +4,7 @@
  * @file admin-dashboard/src/app/(dashboard)/zones/page.tsx
  * @description Zone management page with map-based visualization and controls
  * 
- * Character count: ~2,800
+ * Character count: ~5,400
  */
 
 import { createClient } from "@/lib/supabase/server"
@@ -17,98 +17,6 @@ import type { Zone } from "@/types/database"
 // Force dynamic rendering - this page needs real data from Supabase
 export const dynamic = 'force-dynamic'
 
-// Mock zones for development (until database table is created)
-const mockZones: Zone[] = [
-  {
-    id: "zone-1",
-    name: "Downtown SF",
-    description: "Main downtown area with high foot traffic",
-    zone_type: "player",
-    status: "active",
-    geometry: {
-      type: "circle",
-      center: { latitude: 37.7749, longitude: -122.4194 },
-      radius_meters: 1609, // 1 mile
-    },
-    owner_id: null,
-    sponsor_id: null,
-    auto_spawn_config: {
-      enabled: true,
-      min_coins: 3,
-      max_coins: 10,
-      coin_type: "pool",
-      min_value: 0.10,
-      max_value: 5.00,
-      tier_weights: { gold: 10, silver: 30, bronze: 60 },
-      respawn_delay_seconds: 60,
-    },
-    timed_release_config: null,
-    hunt_config: {
-      hunt_type: "direct_navigation",
-      show_distance: true,
-      enable_compass: true,
-      map_marker_type: "exact",
-      vibration_mode: "all",
-      multi_find_enabled: false,
-    },
-    start_time: null,
-    end_time: null,
-    coins_placed: 5,
-    coins_collected: 12,
-    total_value_distributed: 45.50,
-    active_players: 3,
-    fill_color: null,
-    border_color: null,
-    opacity: 0.3,
-    metadata: null,
-    created_at: new Date().toISOString(),
-    updated_at: new Date().toISOString(),
-  },
-  {
-    id: "zone-2",
-    name: "Golden Gate Park",
-    description: "Park area with nature trails",
-    zone_type: "hunt",
-    status: "active",
-    geometry: {
-      type: "circle",
-      center: { latitude: 37.7694, longitude: -122.4862 },
-      radius_meters: 2500,
-    },
-    owner_id: null,
-    sponsor_id: null,
-    auto_spawn_config: null,
-    timed_release_config: {
-      enabled: true,
-      total_coins: 50,
-      release_interval_seconds: 120,
-      coins_per_release: 5,
-      start_time: new Date().toISOString(),
-    },
-    hunt_config: {
-      hunt_type: "timed_release",
-      show_distance: true,
-      enable_compass: true,
-      map_marker_type: "zone_only",
-      vibration_mode: "last_100m",
-      multi_find_enabled: true,
-      max_finders: 3,
-    },
-    start_time: new Date().toISOString(),
-    end_time: null,
-    coins_placed: 25,
-    coins_collected: 18,
-    total_value_distributed: 125.00,
-    active_players: 8,
-    fill_color: null,
-    border_color: null,
-    opacity: 0.3,
-    metadata: null,
-    created_at: new Date().toISOString(),
-    updated_at: new Date().toISOString(),
-  },
-]
-
 export default async function ZonesPage() {
   const supabase = await createClient()
   
@@ -132,23 +40,28 @@ export default async function ZonesPage() {
     redirect("/")
   }
 
-  // TODO: Fetch zones from database when table is created
-  // const { data: zones, error: zonesError } = await supabase
-  //   .from("zones")
-  //   .select("*")
-  //   .order("created_at", { ascending: false })
+  // Sponsor admins only get their own sponsor's zones (RLS, migration 028)
+  const { data: zoneRows, error: zonesError } = await supabase
+    .from("zones")
+    .select("*")
+    .order("created_at", { ascending: false })
+
+  if (zonesError) {
+    console.error("Error fetching zones:", zonesError.message)
+  }
 
-  const zones = mockZones
+  const zones = (zoneRows || []) as Zone[]
+  const liveZones = zones.filter(z => z.status !== "archived")
 
   // Calculate stats
   const stats = {
-    total_zones: zones.length,
-    active_zones: zones.filter(z => z.status === "active").length,
-    player_zones: zones.filter(z => z.zone_type === "player").length,
-    sponsor_zones: zones.filter(z => z.zone_type === "sponsor").length,
-    hunt_zones: zones.filter(z => z.zone_type === "hunt").length,
-    total_coins_in_zones: zones.reduce((sum, z) => sum + z.coins_placed, 0),
-    total_active_players: zones.reduce((sum, z) => sum + z.active_players, 0),
+    total_zones: liveZones.length,
+    active_zones: liveZones.filter(z => z.status === "active").length,
+    player_zones: liveZones.filter(z => z.zone_type === "player").length,
+    sponsor_zones: liveZones.filter(z => z.zone_type === "sponsor").length,
+    hunt_zones: liveZones.filter(z => z.zone_type === "hunt").length,
+    total_coins_in_zones: liveZones.reduce((sum, z) => sum + z.coins_placed, 0),
+    total_active_players: liveZones.reduce((sum, z) => sum + z.active_players, 0),
   }
 
   return (
@@ -4,14 +4,17 @@
  * @file admin-dashboard/src/app/(dashboard)/zones/zones-client.tsx
  * @description Client-side zone management with map visualization and drawing tools
  * 
- * Character count: ~11,500
+ * Character count: ~20,000
  */
 
 "use client"
 
 import { useState, useCallback, useMemo } from "react"
 import dynamic from "next/dynamic"
-import type { Zone, ZoneType, ZoneGeometry, Coin } from "@/types/database"
+import { useRouter } from "next/navigation"
+import { createClient } from "@/lib/supabase/client"
+import type { Zone, ZoneType, ZoneGeometry, Coin, PolygonPoint } from "@/types/database"
+import { usePolygonEditor } from "@/hooks/use-polygon-editor"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Button } from "@/components/ui/button"
@@ -31,10 +34,25 @@ import {
   MapPinned,
   Zap,
   Calendar,
-  Building2
+  Building2,
+  Archive,
+  ArchiveRestore,
+  FileUp,
+  Download,
+  Check
 } from "lucide-react"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import { toast } from "sonner"
 import { ZoneDialog } from "@/components/maps/ZoneDialog"
+import { ZoneImportDialog } from "@/components/maps/ZoneImportDialog"
+import { downloadZones, type ZoneFileFormat } from "@/components/maps/zone-import-export"
 import { AutoDistributionPanel } from "@/components/dashboard/auto-distribution-panel"
 import { TimedReleasesPanel } from "@/components/dashboard/timed-releases-panel"
 import { SponsorFeaturesPanel } from "@/components/dashboard/sponsor-features-panel"
@@ -43,7 +61,9 @@ import {
   ZONE_STATUS_COLORS,
   formatRadius,
   formatArea,
-  calculateZoneArea
+  calculateZoneArea,
+  getExclusionGeometries,
+  validateZoneGeometry
 } from "@/components/maps/zone-config"
 
 // Dynamically import MapView to avoid SSR issues with Mapbox
@@ -65,10 +85,15 @@ interface ZonesPageClientProps {
 }
 
 export function ZonesPageClient({ zones, userId }: ZonesPageClientProps) {
+  const router = useRouter()
   const [activeTab, setActiveTab] = useState<string>("map")
   const [dialogOpen, setDialogOpen] = useState(false)
   const [editingZone, setEditingZone] = useState<Zone | null>(null)
   const [selectedZoneId, setSelectedZoneId] = useState<string | undefined>()
+  const [importOpen, setImportOpen] = useState(false)
+  
+  // Zones ticked in the list for export
+  const [exportSelection, setExportSelection] = useState<Set<string>>(new Set())
   
   // Zone draw mode: null = off, 'circle' = drawing circle, 'polygon' = drawing polygon
   const [zoneDrawMode, setZoneDrawMode] = useState<'circle' | 'polygon' | null>(null)
@@ -85,6 +110,11 @@ export function ZonesPageClient({ zones, userId }: ZonesPageClientProps) {
   // Initial geometry for the dialog (from map drawing)
   const [initialGeometry, setInitialGeometry] = useState<ZoneGeometry | null>(null)
 
+  // Polygon being reshaped on the map, and the zone it belongs to
+  // (null while fine-tuning a newly drawn polygon)
+  const polygonEditor = usePolygonEditor()
+  const [shapeZone, setShapeZone] = useState<Zone | null>(null)
+
   // Empty coins array for map (zones page doesn't show coins)
   const emptyCoins: Coin[] = []
 
@@ -100,22 +130,47 @@ export function ZonesPageClient({ zones, userId }: ZonesPageClientProps) {
     setDialogOpen(true)
   }, [])
 
-  // Handle zone delete
-  const handleZoneDelete = useCallback((zone: Zone) => {
-    // TODO: Implement delete with confirmation dialog
-    toast.info("Delete zone", {
-      description: `Would delete zone: ${zone.name}`,
-    })
-  }, [])
+  // Handle zone delete - zones are archived, never deleted (migration 028),
+  // so coins, releases and analytics keep their zone
+  const handleZoneDelete = useCallback(async (zone: Zone) => {
+    if (!confirm(`Archive "${zone.name}"? It stops spawning coins and is hidden from the map.`)) return
+
+    const supabase = createClient()
+    const { error } = await supabase
+      .from("zones")
+      .update({ status: "archived" })
+      .eq("id", zone.id)
+
+    if (error) {
+      toast.error("Failed to archive zone", { description: error.message })
+      return
+    }
 
-  // Handle zone status toggle
-  const handleZoneToggleStatus = useCallback((zone: Zone) => {
-    const newStatus = zone.status === 'active' ? 'inactive' : 'active'
-    toast.success(`Zone ${newStatus}`, {
+    toast.success("Zone archived 📦", { description: zone.name })
+    if (selectedZoneId === zone.id) setSelectedZoneId(undefined)
+    router.refresh()
+  }, [router, selectedZoneId])
+
+  // Handle zone status toggle (archived zones come back inactive)
+  const handleZoneToggleStatus = useCallback(async (zone: Zone) => {
+    const newStatus = zone.status === 'active' || zone.status === 'archived' ? 'inactive' : 'active'
+
+    const supabase = createClient()
+    const { error } = await supabase
+      .from("zones")
+      .update({ status: newStatus })
+      .eq("id", zone.id)
+
+    if (error) {
+      toast.error("Failed to update zone", { description: error.message })
+      return
+    }
+
+    toast.success(`Zone ${zone.status === 'archived' ? 'restored' : newStatus}`, {
       description: `${zone.name} is now ${newStatus}`,
     })
-    // TODO: Update in database
-  }, [])
+    router.refresh()
+  }, [router])
 
   // Handle map click for zone drawing
   const handleMapClick = useCallback((lat: number, lng: number) => {
@@ -170,11 +225,85 @@ export function ZonesPageClient({ zones, userId }: ZonesPageClientProps) {
     setZoneDrawMode('polygon')
     setNewZoneType(type)
     setZonePreview({ type: 'polygon', polygon: [] })
-    toast.info("📐 Click to add points, click first point to close", {
+    toast.info("📐 Click to add points, then Finish to fine-tune the shape", {
       duration: 5000,
     })
   }
 
+  // Finish a drawn polygon: fine-tune it in the polygon editor, then the
+  // zone dialog opens on save
+  const finishPolygonDraw = () => {
+    const points = zonePreview?.polygon ?? []
+    if (points.length < 3) {
+      toast.error("Add at least 3 points first")
+      return
+    }
+
+    setZoneDrawMode(null)
+    setZonePreview(null)
+    setShapeZone(null)
+    polygonEditor.start(points)
+    toast.dismiss()
+  }
+
+  // Reshape an existing polygon zone on the map
+  const startShapeEdit = (zone: Zone) => {
+    if (zone.geometry.type !== 'polygon' || !zone.geometry.polygon) return
+
+    setDialogOpen(false)
+    setSelectedZoneId(undefined)
+    setActiveTab("map")
+    setNewZoneType(zone.zone_type)
+    setShapeZone(zone)
+    polygonEditor.start(zone.geometry.polygon)
+  }
+
+  // Save the edited polygon: existing zones are updated in place, new ones
+  // go on to the zone dialog (PolygonEditorPanel reports thrown errors)
+  const handleShapeSave = async (polygon: PolygonPoint[]) => {
+    const geometry: ZoneGeometry = { type: 'polygon', polygon }
+    const invalid = validateZoneGeometry(geometry)
+    if (invalid) throw new Error(invalid)
+
+    if (shapeZone) {
+      const supabase = createClient()
+      const { error } = await supabase
+        .from("zones")
+        .update({ geometry })
+        .eq("id", shapeZone.id)
+
+      if (error) throw new Error(error.message)
+
+      toast.success("Zone shape saved 📐", {
+        description: `${shapeZone.name} • ${formatArea(calculateZoneArea(geometry))}`,
+      })
+      router.refresh()
+    } else {
+      setEditingZone(null)
+      setInitialGeometry(geometry)
+      setDialogOpen(true)
+    }
+
+    polygonEditor.stop()
+    setShapeZone(null)
+  }
+
+  // "Edit shape on map" from the zone dialog
+  const handleDialogEditShape = () => {
+    if (editingZone) {
+      startShapeEdit(editingZone)
+    } else if (initialGeometry?.polygon) {
+      setDialogOpen(false)
+      setShapeZone(null)
+      polygonEditor.start(initialGeometry.polygon)
+    }
+  }
+
+  const handleShapeCancel = () => {
+    polygonEditor.stop()
+    setShapeZone(null)
+  }
+
   // Cancel draw mode
   const cancelDrawMode = () => {
     setZoneDrawMode(null)
@@ -189,23 +318,79 @@ export function ZonesPageClient({ zones, userId }: ZonesPageClientProps) {
     setDialogOpen(true)
   }
 
-  // Save zone handler
+  // Save zone handler (ZoneDialog shows the success / error toast)
   const handleSaveZone = async (zoneData: Partial<Zone>) => {
-    // TODO: Save to database
-    console.log("Saving zone:", zoneData)
-    toast.success("Zone saved! 🗺️", {
-      description: zoneData.name,
-    })
+    const supabase = createClient()
+
+    if (editingZone) {
+      // Editing keeps the zone's owner and status
+      const changes = { ...zoneData }
+      delete changes.owner_id
+      delete changes.status
+      const { error } = await supabase
+        .from("zones")
+        .update(changes)
+        .eq("id", editingZone.id)
+
+      if (error) throw new Error(error.message)
+    } else {
+      const { error } = await supabase
+        .from("zones")
+        .insert({ ...zoneData, owner_id: userId })
+
+      if (error) throw new Error(error.message)
+    }
+
     setZonePreview(null)
+    router.refresh()
   }
 
-  // Zone type filter
+  // Import handler (ZoneImportDialog shows the success / error toast)
+  const handleImportZones = async (importedZones: Partial<Zone>[]) => {
+    const supabase = createClient()
+    const { error } = await supabase
+      .from("zones")
+      .insert(importedZones.map(zone => ({ ...zone, owner_id: userId })))
+
+    if (error) throw new Error(error.message)
+
+    router.refresh()
+  }
+
+  // Zone type filter (archived zones only when asked for)
   const [zoneTypeFilter, setZoneTypeFilter] = useState<ZoneType | 'all'>('all')
-  
+  const [showArchived, setShowArchived] = useState(false)
+
+  const liveZones = useMemo(() => zones.filter(z => z.status !== 'archived'), [zones])
+  const archivedCount = zones.length - liveZones.length
+  const exclusions = useMemo(() => getExclusionGeometries(zones), [zones])
+
   const filteredZones = useMemo(() => {
-    if (zoneTypeFilter === 'all') return zones
-    return zones.filter(z => z.zone_type === zoneTypeFilter)
-  }, [zones, zoneTypeFilter])
+    const visible = showArchived ? zones : liveZones
+    if (zoneTypeFilter === 'all') return visible
+    return visible.filter(z => z.zone_type === zoneTypeFilter)
+  }, [zones, liveZones, showArchived, zoneTypeFilter])
+
+  // Export the ticked zones, or every listed zone when none are ticked
+  const handleExportZones = (format: ZoneFileFormat) => {
+    const selected = filteredZones.filter(z => exportSelection.has(z.id))
+    const toExport = selected.length > 0 ? selected : filteredZones
+    if (toExport.length === 0) return
+
+    downloadZones(toExport, format)
+    toast.success(`Exported ${toExport.length} zone${toExport.length === 1 ? "" : "s"}`, {
+      description: format === "kml" ? "KML" : "GeoJSON",
+    })
+  }
+
+  const toggleExportSelection = (zoneId: string) => {
+    setExportSelection(prev => {
+      const next = new Set(prev)
+      if (next.has(zoneId)) next.delete(zoneId)
+      else next.add(zoneId)
+      return next
+    })
+  }
 
   return (
     <>
@@ -251,7 +436,7 @@ export function ZonesPageClient({ zones, userId }: ZonesPageClientProps) {
         {/* Map View Tab */}
         <TabsContent value="map" className="mt-4">
           <Card className={`border-saddle-light/30 ${
-            zoneDrawMode ? "ring-2 ring-fire ring-offset-2" : ""
+            zoneDrawMode || polygonEditor.isEditing ? "ring-2 ring-fire ring-offset-2" : ""
           }`}>
             <CardHeader className="pb-2">
               <div className="flex items-center justify-between flex-wrap gap-2">
@@ -264,13 +449,20 @@ export function ZonesPageClient({ zones, userId }: ZonesPageClientProps) {
                         {zoneDrawMode === 'circle' ? '⭕ Drawing Circle' : '📐 Drawing Polygon'}
                       </span>
                     )}
+                    {polygonEditor.isEditing && (
+                      <span className="ml-2 px-2 py-0.5 bg-fire/20 text-fire text-xs rounded-full">
+                        📐 Editing {shapeZone ? shapeZone.name : "New Polygon"}
+                      </span>
+                    )}
                   </CardTitle>
                   <CardDescription>
                     {zoneDrawMode 
                       ? zoneDrawMode === 'circle' 
                         ? "Click on the map to set the zone center"
-                        : "Click to add points, double-click to finish"
-                      : `${filteredZones.length} zones displayed • Click zones for details`
+                        : `Click to add points, then Finish (${zonePreview?.polygon?.length ?? 0} points)`
+                      : polygonEditor.isEditing
+                        ? "Drag points to reshape • Save or cancel in the editor panel"
+                        : `${filteredZones.length} zones displayed • Click zones for details`
                     }
                   </CardDescription>
                 </div>
@@ -278,16 +470,29 @@ export function ZonesPageClient({ zones, userId }: ZonesPageClientProps) {
                 {/* Action Buttons */}
                 <div className="flex gap-2 flex-wrap">
                   {zoneDrawMode ? (
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={cancelDrawMode}
-                      className="border-fire text-fire hover:bg-fire/10"
-                    >
-                      <X className="h-4 w-4 mr-1" />
-                      Cancel
-                    </Button>
-                  ) : (
+                    <>
+                      {zoneDrawMode === 'polygon' && (
+                        <Button
+                          size="sm"
+                          onClick={finishPolygonDraw}
+                          disabled={(zonePreview?.polygon?.length ?? 0) < 3}
+                          className="bg-gold hover:bg-gold-dark text-leather"
+                        >
+                          <Check className="h-4 w-4 mr-1" />
+                          Finish
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={cancelDrawMode}
+                        className="border-fire text-fire hover:bg-fire/10"
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Cancel
+                      </Button>
+                    </>
+                  ) : polygonEditor.isEditing ? null : (
                     <>
                       {/* Quick draw buttons */}
                       <div className="flex gap-1 border rounded-lg p-1 bg-parchment">
@@ -311,6 +516,16 @@ export function ZonesPageClient({ zones, userId }: ZonesPageClientProps) {
                         </Button>
                       </div>
                       
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setImportOpen(true)}
+                        className="border-saddle-light/30"
+                      >
+                        <FileUp className="h-4 w-4 mr-1" />
+                        Import
+                      </Button>
+                      
                       <Button
                         size="sm"
                         onClick={handleCreateZone}
@@ -331,10 +546,10 @@ export function ZonesPageClient({ zones, userId }: ZonesPageClientProps) {
                   className="cursor-pointer"
                   onClick={() => setZoneTypeFilter('all')}
                 >
-                  All ({zones.length})
+                  All ({liveZones.length})
                 </Badge>
-                {(['player', 'sponsor', 'hunt', 'grid'] as ZoneType[]).map(type => {
-                  const count = zones.filter(z => z.zone_type === type).length
+                {(['player', 'sponsor', 'hunt', 'grid', 'exclusion'] as ZoneType[]).map(type => {
+                  const count = liveZones.filter(z => z.zone_type === type).length
                   const colors = ZONE_TYPE_COLORS[type]
                   return (
                     <Badge 
@@ -352,23 +567,37 @@ export function ZonesPageClient({ zones, userId }: ZonesPageClientProps) {
                     </Badge>
                   )
                 })}
+                {archivedCount > 0 && (
+                  <Badge
+                    variant={showArchived ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => setShowArchived(!showArchived)}
+                  >
+                    <Archive className="h-3 w-3 mr-1" />
+                    Archived ({archivedCount})
+                  </Badge>
+                )}
               </div>
             </CardHeader>
             
             <CardContent className="p-0">
               <MapView
                 coins={emptyCoins}
-                zones={filteredZones}
+                zones={shapeZone ? filteredZones.filter(z => z.id !== shapeZone.id) : filteredZones}
                 height={500}
                 onMapClick={handleMapClick}
                 onZoneClick={handleZoneClick}
                 onZoneEdit={handleZoneEdit}
                 onZoneDelete={handleZoneDelete}
                 onZoneToggleStatus={handleZoneToggleStatus}
+                onZoneEditShape={startShapeEdit}
                 selectedZoneId={selectedZoneId}
                 zoneDrawMode={zoneDrawMode}
                 zonePreview={zonePreview}
                 previewZoneType={newZoneType}
+                polygonEditor={polygonEditor}
+                onPolygonEditSave={handleShapeSave}
+                onPolygonEditCancel={handleShapeCancel}
                 showZoneLabels={true}
                 className="rounded-b-lg"
               />
@@ -387,16 +616,61 @@ export function ZonesPageClient({ zones, userId }: ZonesPageClientProps) {
                 </CardTitle>
                 <CardDescription>
                   {filteredZones.length} zones
+                  {exportSelection.size > 0 && ` • ${filteredZones.filter(z => exportSelection.has(z.id)).length} selected`}
                 </CardDescription>
               </div>
-              <Button
-                size="sm"
-                onClick={handleCreateZone}
-                className="bg-gold hover:bg-gold-dark text-leather"
-              >
-                <Plus className="h-4 w-4 mr-1" />
-                Create Zone
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setImportOpen(true)}
+                  className="border-saddle-light/30"
+                >
+                  <FileUp className="h-4 w-4 mr-1" />
+                  Import
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={filteredZones.length === 0}
+                      className="border-saddle-light/30"
+                    >
+                      <Download className="h-4 w-4 mr-1" />
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="w-48">
+                    <DropdownMenuLabel className="text-xs text-muted-foreground">
+                      {exportSelection.size > 0 ? "Selected zones" : "All listed zones"}
+                    </DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => handleExportZones("geojson")}>
+                      GeoJSON (.geojson)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExportZones("kml")}>
+                      KML (.kml)
+                    </DropdownMenuItem>
+                    {exportSelection.size > 0 && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={() => setExportSelection(new Set())}>
+                          Clear selection
+                        </DropdownMenuItem>
+                      </>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <Button
+                  size="sm"
+                  onClick={handleCreateZone}
+                  className="bg-gold hover:bg-gold-dark text-leather"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Create Zone
+                </Button>
+              </div>
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
@@ -410,6 +684,15 @@ export function ZonesPageClient({ zones, userId }: ZonesPageClientProps) {
                       className="flex items-center justify-between p-4 rounded-lg border border-saddle-light/30 hover:bg-parchment/50 transition-colors"
                     >
                       <div className="flex items-center gap-4">
+                        {/* Export selection */}
+                        <input
+                          type="checkbox"
+                          checked={exportSelection.has(zone.id)}
+                          onChange={() => toggleExportSelection(zone.id)}
+                          className="h-4 w-4 accent-gold cursor-pointer"
+                          aria-label={`Select ${zone.name} for export`}
+                        />
+                        
                         {/* Zone type icon */}
                         <div 
                           className="w-10 h-10 rounded-full flex items-center justify-center"
@@ -465,7 +748,9 @@ export function ZonesPageClient({ zones, userId }: ZonesPageClientProps) {
                             onClick={() => handleZoneToggleStatus(zone)}
                             className="h-8 w-8 p-0"
                           >
-                            {zone.status === 'active' ? (
+                            {zone.status === 'archived' ? (
+                              <ArchiveRestore className="h-4 w-4" />
+                            ) : zone.status === 'active' ? (
                               <EyeOff className="h-4 w-4" />
                             ) : (
                               <Eye className="h-4 w-4" />
@@ -479,14 +764,17 @@ export function ZonesPageClient({ zones, userId }: ZonesPageClientProps) {
                           >
                             <Edit className="h-4 w-4" />
                           </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleZoneDelete(zone)}
-                            className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+                          {zone.status !== 'archived' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleZoneDelete(zone)}
+                              className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                              title="Archive zone"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -516,7 +804,7 @@ export function ZonesPageClient({ zones, userId }: ZonesPageClientProps) {
 
         {/* Sponsor Features Tab */}
         <TabsContent value="sponsor-features" className="mt-4">
-          <SponsorFeaturesPanel zones={filteredZones} />
+          <SponsorFeaturesPanel zones={filteredZones} exclusions={exclusions} />
         </TabsContent>
       </Tabs>
 
@@ -527,8 +815,16 @@ export function ZonesPageClient({ zones, userId }: ZonesPageClientProps) {
         onOpenChange={setDialogOpen}
         onSave={handleSaveZone}
         initialGeometry={initialGeometry}
+        onEditShape={handleDialogEditShape}
         userId={userId}
       />
+
+      {/* GeoJSON / KML Import */}
+      <ZoneImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onImport={handleImportZones}
+      />
     </>
   )
 }
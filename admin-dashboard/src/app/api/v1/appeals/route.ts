@@ -0,0 +1,123 @@
+/**
+ * POST /api/v1/appeals
+ *
+ * Appeal a cheat flag. The player explains what happened; an admin upholds
+ * or overturns the appeal from Security → Appeals, and the outcome shows up
+ * in /auth/me (`appeals`). Overturning clears the flag and reverses the
+ * suspension / ban it led to.
+ *
+ * Suspended and banned players can appeal - that's who it's for.
+ * One appeal per flag.
+ *
+ * Headers:
+ * - Authorization: Bearer <token>
+ *
+ * Request body:
+ * {
+ *   message: string,    // 10-2000 characters
+ *   flagId?: string,    // Defaults to the player's latest flag
+ * }
+ *
+ * @file admin-dashboard/src/app/api/v1/appeals/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { requireBearerUser } from '@/lib/api-auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { toAppealResponse } from '@/lib/cheat-appeals'
+import type { CheatAppeal } from '@/types/database'
+
+interface AppealRequest {
+  message?: string
+  flagId?: string
+}
+
+// Result of the submit_cheat_appeal() database function
+type SubmitAppealResult =
+  | { success: true; appeal: CheatAppeal }
+  | { success: false; code: string; error: string }
+
+// HTTP status for each submit_cheat_appeal() failure code
+const APPEAL_ERROR_STATUS: Record<string, number> = {
+  MESSAGE_TOO_SHORT: 400,
+  MESSAGE_TOO_LONG: 400,
+  FLAG_NOT_FOUND: 404,
+  FLAG_CLEARED: 409,
+  ALREADY_APPEALED: 409,
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response: unauthorized } = await requireBearerUser(request)
+    if (!user) return unauthorized
+
+    const limited = await checkRateLimit(request, 'appeal', user.id)
+    if (limited) return limited
+
+    let body: AppealRequest
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body', code: 'INVALID_BODY' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof body.message !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'message is required', code: 'MISSING_FIELDS' },
+        { status: 400 }
+      )
+    }
+
+    if (body.flagId !== undefined && (typeof body.flagId !== 'string' || !UUID_PATTERN.test(body.flagId))) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid flagId', code: 'INVALID_FLAG_ID' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createServiceRoleClient()
+    const { data, error } = await supabase.rpc('submit_cheat_appeal', {
+      p_user_id: user.id,
+      p_flag_id: body.flagId ?? null,
+      p_message: body.message,
+    })
+
+    if (error || !data) {
+      console.error('[API] Error submitting appeal:', error)
+      return NextResponse.json(
+        { success: false, error: 'Failed to submit appeal', code: 'INSERT_FAILED' },
+        { status: 500 }
+      )
+    }
+
+    const result = data as SubmitAppealResult
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, code: result.code },
+        { status: APPEAL_ERROR_STATUS[result.code] ?? 400 }
+      )
+    }
+
+    console.log(`[API] Appeal ${result.appeal.id} from ${user.id} on flag ${result.appeal.cheat_flag_id}`)
+
+    return NextResponse.json({
+      success: true,
+      appeal: toAppealResponse(result.appeal),
+      message: 'Appeal received. We\'ll review it and let you know.',
+    })
+
+  } catch (error) {
+    console.error('[API] Error in POST /appeals:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
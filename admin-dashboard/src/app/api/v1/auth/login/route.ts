@@ -4,10 +4,28 @@
 // ============================================================================
 // Authenticates users via email/password for the Unity mobile app.
 // Returns Supabase session token and user profile data.
+// Successful logins are recorded in activity_logs (with IP / user agent)
+// and start a row in the session registry (player_sessions). Failed logins
+// are logged as login_failed; too many for one email lock it out for a while
+// (see lib/rate-limit.ts).
+// Suspended / banned players can still log in (to see why, or appeal);
+// `restriction` tells the app, and gameplay routes refuse them.
+// Use /auth/refresh to renew the session and /auth/logout to end it.
 // ============================================================================
 
 import { NextRequest, NextResponse } from 'next/server'
-import { createPublicClient } from '@/lib/supabase/server'
+import { createPublicClient, createServiceRoleClient } from '@/lib/supabase/server'
+import { toAuthUserResponse, type AuthUserResponse } from '@/lib/api-auth'
+import { getClientIp, logActivity } from '@/lib/activity-log'
+import { touchPlayerSession } from '@/lib/player-sessions'
+import { getAccountRestriction, type AccountRestriction } from '@/lib/account-restriction'
+import {
+  checkRateLimit,
+  clearLoginFailures,
+  getLoginLockout,
+  recordLoginFailure,
+  tooManyRequestsResponse,
+} from '@/lib/rate-limit'
 
 interface LoginRequest {
   email: string
@@ -29,19 +47,17 @@ interface LoginResponse {
   token?: string
   refreshToken?: string
   expiresAt?: number
-  user?: {
-    id: string
-    email: string
-    displayName: string | null
-    avatarUrl: string | null
-    role: string
-    createdAt: string
-  }
+  user?: AuthUserResponse
+  restriction?: AccountRestriction | null
   error?: string
+  code?: string
 }
 
 export async function POST(request: NextRequest): Promise<NextResponse<LoginResponse>> {
   try {
+    const limited = await checkRateLimit(request, 'auth')
+    if (limited) return limited
+
     // Parse request body
     const body: LoginRequest = await request.json()
     const { email, password } = body
@@ -63,6 +79,16 @@ export async function POST(request: NextRequest): Promise<NextResponse<LoginResp
       )
     }
 
+    // Locked out after repeated failures
+    const lockout = await getLoginLockout(email)
+    if (lockout) {
+      return tooManyRequestsResponse(
+        'Too many failed login attempts. Please try again later',
+        'ACCOUNT_LOCKED',
+        lockout.resetAt
+      )
+    }
+
     // Create Supabase client (public client for mobile auth)
     const supabase = createPublicClient()
 
@@ -85,6 +111,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<LoginResp
         errorMessage = 'Too many login attempts. Please try again later'
       }
       
+      await recordLoginFailure(request, email, authError.message)
+      
       return NextResponse.json(
         { success: false, error: errorMessage },
         { status: 401 }
@@ -114,19 +142,31 @@ export async function POST(request: NextRequest): Promise<NextResponse<LoginResp
 
     console.log(`[Auth Login] User ${email} logged in successfully`)
 
+    await clearLoginFailures(email)
+
+    await logActivity(request, {
+      userId: authData.user.id,
+      type: 'login',
+      description: `Logged in from the mobile app (${email})`,
+      metadata: { source: 'mobile' },
+    })
+
+    const serviceClient = createServiceRoleClient()
+
+    await touchPlayerSession(serviceClient, {
+      userId: authData.user.id,
+      accessToken: authData.session.access_token,
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+    })
+
     return NextResponse.json({
       success: true,
       token: authData.session.access_token,
       refreshToken: authData.session.refresh_token,
       expiresAt: authData.session.expires_at,
-      user: {
-        id: authData.user.id,
-        email: authData.user.email || email,
-        displayName: userProfile?.full_name || authData.user.user_metadata?.full_name || null,
-        avatarUrl: userProfile?.avatar_url || authData.user.user_metadata?.avatar_url || null,
-        role: userProfile?.role || 'user',
-        createdAt: authData.user.created_at,
-      }
+      user: toAuthUserResponse(authData.user, userProfile),
+      restriction: await getAccountRestriction(serviceClient, authData.user.id),
     })
 
   } catch (error) {
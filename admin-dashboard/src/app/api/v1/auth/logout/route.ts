@@ -0,0 +1,96 @@
+// ============================================================================
+// POST /api/v1/auth/logout
+// Black Bart's Gold - Mobile App Sign Out
+// ============================================================================
+// Revokes the caller's Supabase session (its refresh token stops working;
+// the access token stays valid until it expires, at most an hour), marks it
+// signed out in the session registry and records a logout in activity_logs.
+//
+// Headers: Authorization: Bearer <token>
+// Request body (optional): { scope?: 'local' | 'global' }
+//   local  - this device only (default)
+//   global - every device the player is signed in on
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { getBearerToken, requireBearerUser } from '@/lib/api-auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { logActivity } from '@/lib/activity-log'
+import { getTokenSessionId } from '@/lib/player-sessions'
+
+interface LogoutRequest {
+  scope?: 'local' | 'global'
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response: unauthorized } = await requireBearerUser(request)
+    if (!user) return unauthorized
+
+    const limited = await checkRateLimit(request, 'session', user.id)
+    if (limited) return limited
+
+    let body: LogoutRequest = {}
+    try {
+      body = await request.json()
+    } catch {
+      // Body is optional
+    }
+
+    const scope = body.scope === 'global' ? 'global' : 'local'
+
+    const token = getBearerToken(request)!
+    const supabase = createServiceRoleClient()
+
+    const { error } = await supabase.auth.admin.signOut(token, scope)
+
+    if (error) {
+      console.error('[Auth Logout] Sign out error:', error.message)
+      return NextResponse.json(
+        { success: false, error: 'Failed to sign out', code: 'SIGN_OUT_FAILED' },
+        { status: 500 }
+      )
+    }
+
+    // Session registry: this session, or every open one for 'global'
+    const sessionId = getTokenSessionId(token)
+    if (scope === 'global' || sessionId) {
+      let sessions = supabase
+        .from('player_sessions')
+        .update({ signed_out_at: new Date().toISOString() })
+        .eq('user_id', user.id)
+        .is('signed_out_at', null)
+      if (scope === 'local') {
+        sessions = sessions.eq('auth_session_id', sessionId)
+      }
+      const { error: sessionError } = await sessions
+      if (sessionError) {
+        console.warn('[Auth Logout] Failed to update player sessions:', sessionError.message)
+      }
+    }
+
+    await logActivity(request, {
+      userId: user.id,
+      type: 'logout',
+      description: scope === 'global'
+        ? 'Logged out of all devices from the mobile app'
+        : 'Logged out from the mobile app',
+      metadata: { source: 'mobile', scope },
+    })
+
+    console.log(`[Auth Logout] User ${user.id} logged out (${scope})`)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Logged out',
+    })
+
+  } catch (error) {
+    console.error('[Auth Logout] Unexpected error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
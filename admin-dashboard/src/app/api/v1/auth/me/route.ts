@@ -4,43 +4,31 @@
 // ============================================================================
 // Validates the access token and returns current user data.
 // Used by Unity app to validate stored sessions on startup.
+// `restriction` is the player's active suspension / ban (null when none).
+// `appeals` are their pending and recently resolved cheat appeals.
 // ============================================================================
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createPublicClient } from '@/lib/supabase/server'
+import { getAuthSessionResponse, getBearerToken, unauthorizedResponse, type AuthSessionResponse } from '@/lib/api-auth'
+import { checkRateLimit } from '@/lib/rate-limit'
 
-interface MeResponse {
+interface MeResponse extends Partial<AuthSessionResponse> {
   success: boolean
-  user?: {
-    id: string
-    email: string
-    displayName: string | null
-    avatarUrl: string | null
-    role: string
-    createdAt: string
-  }
   error?: string
+  code?: string
 }
 
 export async function GET(request: NextRequest): Promise<NextResponse<MeResponse>> {
   try {
-    // Get token from Authorization header
-    const authHeader = request.headers.get('Authorization')
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { success: false, error: 'No authorization token provided' },
-        { status: 401 }
-      )
-    }
+    const limited = await checkRateLimit(request, 'session')
+    if (limited) return limited
 
-    const token = authHeader.replace('Bearer ', '')
+    // Get token from Authorization header
+    const token = getBearerToken(request)
 
     if (!token) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid authorization token' },
-        { status: 401 }
-      )
+      return unauthorizedResponse('No authorization token provided')
     }
 
     // Create Supabase client
@@ -57,17 +45,11 @@ export async function GET(request: NextRequest): Promise<NextResponse<MeResponse
         errorMessage = 'Session expired. Please login again'
       }
       
-      return NextResponse.json(
-        { success: false, error: errorMessage },
-        { status: 401 }
-      )
+      return unauthorizedResponse(errorMessage)
     }
 
     if (!userData.user) {
-      return NextResponse.json(
-        { success: false, error: 'User not found' },
-        { status: 401 }
-      )
+      return unauthorizedResponse('User not found')
     }
 
     // Fetch user profile
@@ -84,14 +66,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<MeResponse
 
     return NextResponse.json({
       success: true,
-      user: {
-        id: userData.user.id,
-        email: userData.user.email || '',
-        displayName: profile?.full_name || userData.user.user_metadata?.full_name || null,
-        avatarUrl: profile?.avatar_url || userData.user.user_metadata?.avatar_url || null,
-        role: profile?.role || 'user',
-        createdAt: userData.user.created_at,
-      }
+      ...(await getAuthSessionResponse(userData.user, profile)),
     })
 
   } catch (error) {
@@ -0,0 +1,91 @@
+// ============================================================================
+// POST /api/v1/auth/refresh
+// Black Bart's Gold - Session Refresh
+// ============================================================================
+// Exchanges the refreshToken from /auth/login (or a previous refresh) for a
+// new session. Supabase rotates refresh tokens, so the app must store the
+// refreshToken returned here; the old one stops working.
+//
+// Request body: { refreshToken: string }
+// Response: token, refreshToken, expiresAt, plus the same user, restriction
+// and appeals as /auth/me
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createPublicClient } from '@/lib/supabase/server'
+import { getAuthSessionResponse, unauthorizedResponse, type AuthSessionResponse } from '@/lib/api-auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+
+interface RefreshRequest {
+  refreshToken?: string
+}
+
+interface RefreshResponse extends Partial<AuthSessionResponse> {
+  success: boolean
+  token?: string
+  refreshToken?: string
+  expiresAt?: number
+  error?: string
+  code?: string
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<RefreshResponse>> {
+  try {
+    const limited = await checkRateLimit(request, 'auth')
+    if (limited) return limited
+
+    let body: RefreshRequest
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body', code: 'INVALID_BODY' },
+        { status: 400 }
+      )
+    }
+
+    if (!body.refreshToken) {
+      return NextResponse.json(
+        { success: false, error: 'refreshToken is required', code: 'MISSING_FIELDS' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createPublicClient()
+
+    const { data: authData, error: authError } = await supabase.auth.refreshSession({
+      refresh_token: body.refreshToken,
+    })
+
+    if (authError || !authData.session || !authData.user) {
+      console.error('[Auth Refresh] Refresh failed:', authError?.message)
+      return unauthorizedResponse('Session expired. Please login again')
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', authData.user.id)
+      .single()
+
+    if (profileError) {
+      console.error('[Auth Refresh] Profile fetch error:', profileError.message)
+      // Don't fail the refresh if the profile doesn't exist
+    }
+
+    return NextResponse.json({
+      success: true,
+      token: authData.session.access_token,
+      refreshToken: authData.session.refresh_token,
+      expiresAt: authData.session.expires_at,
+      ...(await getAuthSessionResponse(authData.user, profile)),
+    })
+
+  } catch (error) {
+    console.error('[Auth Refresh] Unexpected error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
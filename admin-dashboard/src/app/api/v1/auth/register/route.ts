@@ -9,6 +9,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createPublicClient, createServiceRoleClient } from '@/lib/supabase/server'
+import { checkRateLimit } from '@/lib/rate-limit'
 
 interface RegisterRequest {
   email: string
@@ -36,6 +37,9 @@ interface RegisterResponse {
 
 export async function POST(request: NextRequest): Promise<NextResponse<RegisterResponse>> {
   try {
+    const limited = await checkRateLimit(request, 'auth')
+    if (limited) return limited
+
     // Parse request body
     const body: RegisterRequest = await request.json()
     const { email, password, displayName, age } = body
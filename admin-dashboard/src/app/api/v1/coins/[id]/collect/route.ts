@@ -8,20 +8,57 @@
  * - Updating coin status to 'collected'
  * - Creating a transaction record
  * 
+ * The 'found' transaction starts out pending and is confirmed after the 24h
+ * verification window (migration 016), so the coin's value shows up in the
+ * wallet's pendingBalance first.
+ * 
+ * Players can only collect coins worth up to their find limit and only a
+ * capped number per day (see lib/find-limit.ts). collect_coin() checks both
+ * under a per-player lock and returns OVER_FIND_LIMIT /
+ * DAILY_FIND_LIMIT_REACHED before the coin is touched.
+ * The collection range and limits come from game settings (Settings page).
+ * 
+ * Range is checked against the player's tracked position from
+ * /player/location, not coordinates in the body: it must be from the last
+ * few seconds (NO_RECENT_LOCATION) and accurate enough (LOCATION_INACCURATE),
+ * and its accuracy radius (up to MAX_ACCURACY_ALLOWANCE_METERS) is added to
+ * the range. Submitted coordinates that disagree with it are flagged as a
+ * location_inconsistency (see lib/cheat-detection.ts).
+ * 
+ * All of the above runs inside the collect_coin() database function so it is
+ * all-or-nothing: two players racing for the same coin can't both be paid,
+ * and the loser always receives ALREADY_COLLECTED.
+ * 
+ * Headers:
+ * - Authorization: Bearer <token>   // The collecting player (from /auth/login)
+ * 
  * Request body:
  * {
- *   userId: string,       // The collecting user's ID
- *   latitude: number,     // User's current position (for validation)
- *   longitude: number,
+ *   userId?: string,      // Deprecated - must match the token's user if sent
+ *   latitude?: number,    // Position the app shows (cross-checked, not trusted)
+ *   longitude?: number,
  * }
  * 
  * @file admin-dashboard/src/app/api/v1/coins/[id]/collect/route.ts
- * Character count: ~5,200
+ * Character count: ~6,800
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createServiceRoleClient } from '@/lib/supabase/server'
 import { keysToCamelCase } from '@/lib/api-utils'
+import { requireBearerUser } from '@/lib/api-auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { checkAccountRestriction } from '@/lib/account-restriction'
+import { FOUND_HOLD_HOURS } from '@/lib/wallet'
+import { getGameSettings } from '@/lib/game-settings-server'
+import {
+  MAX_ACCURACY_ALLOWANCE_METERS,
+  checkSubmittedLocation,
+  getTrackedFixProblem,
+  getTrackedLocation,
+  recordCheatFlags,
+} from '@/lib/cheat-detection'
+import type { Coin, TransactionStatus } from '@/types/database'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -33,39 +70,46 @@ interface CollectRequest {
   longitude?: number
 }
 
-// Collection range in meters (must be within 5m to collect)
-const COLLECTION_RANGE_METERS = 5
-
-// Earth's radius for Haversine
-const EARTH_RADIUS_METERS = 6371000
+// Result of the collect_coin() database function
+type CollectCoinResult =
+  | {
+      success: true
+      coin: Coin
+      value: number
+      original_value: number
+      finds_remaining: number
+      fully_collected: boolean
+      transaction_id: string | null
+      transaction_status: TransactionStatus | null
+      balance_after: number | null
+    }
+  | {
+      success: false
+      code: string
+      error: string
+      [key: string]: unknown
+    }
 
-/**
- * Calculate Haversine distance between two points
- */
-function haversineDistance(
-  lat1: number, lng1: number,
-  lat2: number, lng2: number
-): number {
-  const dLat = (lat2 - lat1) * Math.PI / 180
-  const dLng = (lng2 - lng1) * Math.PI / 180
-  
-  const a = 
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-    Math.sin(dLng / 2) * Math.sin(dLng / 2)
-  
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-  
-  return EARTH_RADIUS_METERS * c
+// HTTP status for each collect_coin() failure code
+const COLLECT_ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  ALREADY_COLLECTED: 400,
+  COIN_EXPIRED: 400,
+  TOO_FAR: 400,
+  OVER_FIND_LIMIT: 403,
+  DAILY_FIND_LIMIT_REACHED: 429,
+  NO_RECENT_LOCATION: 409,
+  LOCATION_INACCURATE: 409,
 }
 
 /**
- * Calculate pool coin value using weighted random (slot machine)
- * Based on the game's pool coin algorithm
+ * Roll the pool coin multiplier using weighted random (slot machine)
+ * Based on the game's pool coin algorithm. The multiplier is applied to the
+ * coin's base value inside collect_coin() so the value is computed on the
+ * locked row.
  */
-function calculatePoolValue(baseValue: number): number {
+function rollPoolMultiplier(): number {
   const roll = Math.random()
-  let multiplier: number
   
   // Weighted distribution:
   // 50% chance: 0.2x - 0.8x (below base)
@@ -74,17 +118,13 @@ function calculatePoolValue(baseValue: number): number {
   // 2% chance:  3.0x - 5.0x (jackpot!)
   
   if (roll < 0.50) {
-    multiplier = 0.2 + Math.random() * 0.6 // 0.2 - 0.8
+    return 0.2 + Math.random() * 0.6 // 0.2 - 0.8
   } else if (roll < 0.85) {
-    multiplier = 0.8 + Math.random() * 0.7 // 0.8 - 1.5
+    return 0.8 + Math.random() * 0.7 // 0.8 - 1.5
   } else if (roll < 0.98) {
-    multiplier = 1.5 + Math.random() * 1.5 // 1.5 - 3.0
-  } else {
-    multiplier = 3.0 + Math.random() * 2.0 // 3.0 - 5.0
+    return 1.5 + Math.random() * 1.5 // 1.5 - 3.0
   }
-  
-  // Round to cents
-  return Math.round(baseValue * multiplier * 100) / 100
+  return 3.0 + Math.random() * 2.0 // 3.0 - 5.0
 }
 
 export async function POST(
@@ -109,175 +149,92 @@ export async function POST(
       // Body is optional for simple collection
     }
     
-    // Use service role so we can update/delete coins when mobile app collects (no cookie auth)
+    const { user, response: unauthorized } = await requireBearerUser(request, body.userId)
+    if (!user) return unauthorized
+    
+    const limited = await checkRateLimit(request, 'collect', user.id)
+    if (limited) return limited
+    
+    const restricted = await checkAccountRestriction(user.id)
+    if (restricted) return restricted
+    
+    // Use service role so we can update coins when mobile app collects (no cookie auth)
     const supabase = createServiceRoleClient()
+    const settings = await getGameSettings()
     
-    // Fetch the coin
-    const { data: coin, error: fetchError } = await supabase
+    // Coin expiry
+    const { data: target } = await supabase
       .from('coins')
-      .select('*')
+      .select('hidden_at')
       .eq('id', coinId)
-      .single()
+      .maybeSingle()
     
-    if (fetchError || !coin) {
+    const expiresAt = target?.hidden_at
+      ? new Date(target.hidden_at).getTime() + settings.coin_expiry_days * 24 * 60 * 60 * 1000
+      : null
+    if (expiresAt !== null && expiresAt <= Date.now()) {
       return NextResponse.json(
-        { success: false, error: 'Coin not found', code: 'NOT_FOUND' },
-        { status: 404 }
+        { success: false, error: 'This coin has expired', code: 'COIN_EXPIRED' },
+        { status: COLLECT_ERROR_STATUS.COIN_EXPIRED }
       )
     }
     
-    // Check if already collected
-    if (coin.status === 'collected') {
+    // Server-side position: the last /player/location fix
+    const fix = await getTrackedLocation(supabase, user.id)
+    const fixProblem = getTrackedFixProblem(fix)
+    if (!fix || fixProblem) {
       return NextResponse.json(
-        { 
-          success: false, 
-          error: 'Coin has already been collected',
-          code: 'ALREADY_COLLECTED'
-        },
-        { status: 400 }
+        { success: false, ...fixProblem },
+        { status: COLLECT_ERROR_STATUS[fixProblem?.code ?? 'NO_RECENT_LOCATION'] }
       )
     }
     
-    // Check if expired
-    if (coin.status === 'expired' || coin.status === 'recycled') {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: 'Coin is no longer available',
-          code: 'COIN_EXPIRED'
-        },
-        { status: 400 }
-      )
-    }
-    
-    // Validate distance if location provided
     if (body.latitude !== undefined && body.longitude !== undefined) {
-      const distance = haversineDistance(
-        body.latitude, body.longitude,
-        coin.latitude, coin.longitude
+      const mismatch = checkSubmittedLocation(
+        { latitude: body.latitude, longitude: body.longitude },
+        fix,
+        { coinId }
       )
-      
-      if (distance > COLLECTION_RANGE_METERS) {
-        return NextResponse.json(
-          { 
-            success: false, 
-            error: `Too far from coin. You are ${Math.round(distance)}m away, need to be within ${COLLECTION_RANGE_METERS}m`,
-            code: 'TOO_FAR',
-            distance: Math.round(distance),
-            required: COLLECTION_RANGE_METERS
-          },
-          { status: 400 }
-        )
+      if (mismatch) {
+        await recordCheatFlags(supabase, user.id, [mismatch])
       }
     }
     
-    // Calculate final value
-    let finalValue: number
-    if (coin.coin_type === 'pool') {
-      // Pool coins use slot machine algorithm
-      finalValue = calculatePoolValue(coin.value)
-    } else {
-      // Fixed coins have exact value
-      finalValue = coin.value
-    }
+    const accuracyAllowance = Math.min(fix.accuracyMeters ?? 0, MAX_ACCURACY_ALLOWANCE_METERS)
     
-    // Update coin status
-    const now = new Date().toISOString()
+    // Single atomic operation: row lock, find limit + daily cap,
+    // finds_remaining decrement and 'found' transaction (see migration 019)
+    const { data: result, error: rpcError } = await supabase.rpc('collect_coin', {
+      p_coin_id: coinId,
+      p_user_id: user.id,
+      p_latitude: fix.latitude,
+      p_longitude: fix.longitude,
+      p_range_meters: settings.collection_radius_meters + accuracyAllowance,
+      p_pool_multiplier: rollPoolMultiplier(),
+      p_default_find_limit: settings.default_find_limit,
+      p_max_daily_finds: settings.max_daily_finds,
+    })
     
-    // Calculate new finds_remaining for multi-find coins
-    const newFindsRemaining = coin.multi_find 
-      ? Math.max(0, (coin.finds_remaining || 1) - 1)
-      : 0
+    if (rpcError || !result) {
+      console.error('[API] Error collecting coin:', rpcError)
+      return NextResponse.json(
+        { success: false, error: 'Failed to collect coin', code: 'UPDATE_FAILED' },
+        { status: 500 }
+      )
+    }
     
-    // Only set status to 'collected' if:
-    // - It's not a multi-find coin, OR
-    // - It IS a multi-find coin but no finds remaining
-    const fullyConsumed = !(coin.multi_find && newFindsRemaining > 0)
-    const newStatus = fullyConsumed ? 'collected' : 'visible'
+    const collection = result as CollectCoinResult
     
-    if (fullyConsumed) {
-      // Remove coin from database when fully consumed (one-time find or last find of multi-find)
-      const { error: deleteError } = await supabase
-        .from('coins')
-        .delete()
-        .eq('id', coinId)
-      
-      if (deleteError) {
-        console.error('[API] Error deleting coin after collection:', deleteError)
-        // Fallback: mark as collected instead of deleting
-        const { error: updateError } = await supabase
-          .from('coins')
-          .update({
-            status: 'collected',
-            collected_at: now,
-            collected_by: body.userId || null,
-            finds_remaining: 0,
-          })
-          .eq('id', coinId)
-        if (updateError) {
-          return NextResponse.json(
-            { success: false, error: 'Failed to collect coin', code: 'UPDATE_FAILED' },
-            { status: 500 }
-          )
-        }
-      } else {
-        console.log(`[API] Coin removed after collection: ${coinId}, value: $${finalValue.toFixed(2)}, multiFind: ${coin.multi_find}`)
-      }
-    } else {
-      // Multi-find coin with finds still remaining - just update
-      const { error: updateError } = await supabase
-        .from('coins')
-        .update({
-          status: newStatus,
-          collected_at: now,
-          collected_by: body.userId || null,
-          finds_remaining: newFindsRemaining,
-        })
-        .eq('id', coinId)
-      
-      if (updateError) {
-        console.error('[API] Error updating coin:', updateError)
-        return NextResponse.json(
-          { success: false, error: 'Failed to collect coin', code: 'UPDATE_FAILED' },
-          { status: 500 }
-        )
-      }
-      console.log(`[API] Coin collected (multi-find): ${coinId}, value: $${finalValue.toFixed(2)}, remaining: ${newFindsRemaining}`)
+    if (!collection.success) {
+      const { success, code, error, ...details } = collection
+      return NextResponse.json(
+        { success, error, code, ...keysToCamelCase<Record<string, unknown>>(details) },
+        { status: COLLECT_ERROR_STATUS[code] ?? 400 }
+      )
     }
     
-    // Create a transaction record for tracking (if user provided)
-    if (body.userId) {
-      try {
-        const { error: txError } = await supabase
-          .from('transactions')
-          .insert({
-            user_id: body.userId,
-            transaction_type: 'found',
-            amount: finalValue,
-            balance_after: 0, // Will be updated by trigger or app
-            coin_id: coinId,
-            description: `Found ${coin.multi_find ? 'multi-find ' : ''}coin: $${finalValue.toFixed(2)}`,
-            status: 'confirmed',
-            metadata: {
-              coin_type: coin.coin_type,
-              original_value: coin.value,
-              tier: coin.tier,
-              multi_find: coin.multi_find,
-              finds_remaining: newFindsRemaining,
-              location: { lat: coin.latitude, lng: coin.longitude },
-            },
-          })
-        
-        if (txError) {
-          console.error('[API] Failed to create transaction record:', txError)
-          // Don't fail the collection if transaction logging fails
-        } else {
-          console.log(`[API] Transaction recorded for user ${body.userId}`)
-        }
-      } catch (txEx) {
-        console.error('[API] Exception creating transaction:', txEx)
-      }
-    }
+    const { coin, value: finalValue, finds_remaining: newFindsRemaining } = collection
+    console.log(`[API] Coin collected: ${coinId}, value: $${finalValue.toFixed(2)}, multiFind: ${coin.multi_find}, remaining: ${newFindsRemaining}`)
     
     // Generate congratulation message
     const messages = [
@@ -290,25 +247,24 @@ export async function POST(
     const message = messages[Math.floor(Math.random() * messages.length)]
     
     // Convert to camelCase for Unity compatibility
-    const updatedCoin = keysToCamelCase({
-      ...coin,
-      status: newStatus,
-      collected_at: now,
-      collected_by: body.userId || null,
-      finds_remaining: newFindsRemaining,
-    })
+    const updatedCoin = keysToCamelCase(coin)
     
     return NextResponse.json({
       success: true,
       coin: updatedCoin,
       value: finalValue,
-      originalValue: coin.value,
+      originalValue: collection.original_value,
       wasPoolCoin: coin.coin_type === 'pool',
       message,
       // Multi-find coin info
       isMultiFind: coin.multi_find || false,
       findsRemaining: newFindsRemaining,
-      fullyCollected: newStatus === 'collected',
+      fullyCollected: collection.fully_collected,
+      transactionId: collection.transaction_id,
+      transactionStatus: collection.transaction_status,
+      confirmsAt: collection.transaction_id
+        ? new Date(Date.now() + FOUND_HOLD_HOURS * 60 * 60 * 1000).toISOString()
+        : null,
     })
     
   } catch (error) {
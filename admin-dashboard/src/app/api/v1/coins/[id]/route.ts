@@ -2,29 +2,47 @@
  * Coin-specific API routes
  * 
  * GET /api/v1/coins/[id] - Get a specific coin by ID
- * DELETE /api/v1/coins/[id] - Delete a coin (admin only)
+ * DELETE /api/v1/coins/[id] - Delete a coin (hider or admin only)
  * 
  * @file admin-dashboard/src/app/api/v1/coins/[id]/route.ts
  * Character count: ~2,800
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server'
 import { keysToCamelCase } from '@/lib/api-utils'
+import { requireBearerUser } from '@/lib/api-auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { checkAccountRestriction } from '@/lib/account-restriction'
 
 interface RouteParams {
   params: Promise<{ id: string }>
 }
 
+// HTTP status for each delete_coin() failure code
+const DELETE_ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  ALREADY_COLLECTED: 400,
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
 /**
  * GET /api/v1/coins/[id]
- * Fetch a specific coin by ID
+ * Fetch a specific coin by ID (Authorization: Bearer <token> required)
  */
 export async function GET(
   request: NextRequest,
   { params }: RouteParams
 ) {
   try {
+    const { user, response: unauthorized } = await requireBearerUser(request)
+    if (!user) return unauthorized
+    
+    const limited = await checkRateLimit(request, 'coin', user.id)
+    if (limited) return limited
+    
     const { id } = await params
     
     if (!id) {
@@ -68,13 +86,23 @@ export async function GET(
 
 /**
  * DELETE /api/v1/coins/[id]
- * Delete a coin (owner or admin only)
+ * Delete a coin (hider or admin only, Authorization: Bearer <token> required).
+ * The hider gets back what the hide cost them (delete_coin, migration 030).
  */
 export async function DELETE(
   request: NextRequest,
   { params }: RouteParams
 ) {
   try {
+    const { user, response: unauthorized } = await requireBearerUser(request)
+    if (!user) return unauthorized
+    
+    const limited = await checkRateLimit(request, 'hide', user.id)
+    if (limited) return limited
+    
+    const restricted = await checkAccountRestriction(user.id)
+    if (restricted) return restricted
+    
     const { id } = await params
     
     if (!id) {
@@ -84,49 +112,45 @@ export async function DELETE(
       )
     }
     
-    const supabase = await createClient()
-    
-    // Check if coin exists first
-    const { data: existingCoin, error: fetchError } = await supabase
-      .from('coins')
-      .select('id, status, hider_id')
-      .eq('id', id)
-      .single()
-    
-    if (fetchError || !existingCoin) {
+    if (!UUID_PATTERN.test(id)) {
       return NextResponse.json(
         { success: false, error: 'Coin not found', code: 'NOT_FOUND' },
         { status: 404 }
       )
     }
     
-    // Don't allow deleting already collected coins
-    if (existingCoin.status === 'collected') {
-      return NextResponse.json(
-        { success: false, error: 'Cannot delete collected coin', code: 'ALREADY_COLLECTED' },
-        { status: 400 }
-      )
-    }
+    // Service role: ownership is checked by delete_coin itself
+    const supabase = createServiceRoleClient()
     
-    // Delete the coin
-    const { error: deleteError } = await supabase
-      .from('coins')
-      .delete()
-      .eq('id', id)
+    // Ownership check, refund of the hide charge and delete in one call
+    const { data: result, error } = await supabase.rpc('delete_coin', {
+      p_coin_id: id,
+      p_user_id: user.id,
+    })
     
-    if (deleteError) {
-      console.error('[API] Error deleting coin:', deleteError)
+    if (error || !result) {
+      console.error('[API] Error deleting coin:', error)
       return NextResponse.json(
         { success: false, error: 'Failed to delete coin', code: 'DELETE_FAILED' },
         { status: 500 }
       )
     }
     
-    console.log(`[API] Coin deleted: ${id}`)
+    if (!result.success) {
+      const { success, code, error: message, ...details } = result
+      return NextResponse.json(
+        { success, error: message, code, ...keysToCamelCase<Record<string, unknown>>(details) },
+        { status: DELETE_ERROR_STATUS[code] ?? 400 }
+      )
+    }
+    
+    console.log(`[API] Coin deleted: ${id} by ${user.id}, refunded: $${Number(result.refunded).toFixed(2)}`)
     
     return NextResponse.json({
       success: true,
       message: 'Coin deleted successfully',
+      refunded: result.refunded,
+      balanceAfter: result.hider_balance,
     })
     
   } catch (error) {
@@ -6,31 +6,45 @@
  * - Admin dashboard for manual coin placement
  * - Unity app when players hide their own coins
  * 
+ * Locations inside an active exclusion zone are rejected with
+ * EXCLUDED_LOCATION.
+ * 
+ * The coin's value is debited from the hider's found coins as a 'hidden'
+ * transaction (hide_coin, migration 014); INSUFFICIENT_FUNDS when they can't cover it.
+ * 
+ * Headers:
+ * - Authorization: Bearer <token>   // The hiding player (from /auth/login)
+ * 
  * Request body:
  * {
  *   type: 'fixed' | 'pool',
- *   value: number,
+ *   value?: number,          // Defaults to the Default Coin Value setting
  *   latitude: number,
  *   longitude: number,
- *   hiderId?: string,        // User hiding the coin
+ *   hiderId?: string,        // Deprecated - must match the token's user if sent
  *   message?: string,        // Optional message/hint
  *   tier?: 'gold' | 'silver' | 'bronze',
  *   isMythical?: boolean,
  * }
  * 
  * @file admin-dashboard/src/app/api/v1/coins/hide/route.ts
- * Character count: ~3,800
+ * Character count: ~5,000
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
 import { keysToCamelCase } from '@/lib/api-utils'
+import { requireBearerUser } from '@/lib/api-auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { checkAccountRestriction } from '@/lib/account-restriction'
+import { getGameSettings } from '@/lib/game-settings-server'
+import { findExclusionZoneAt } from '@/lib/zones'
 import type { CoinType, CoinTier } from '@/types/database'
 
 interface HideCoinRequest {
   type?: CoinType
   coin_type?: CoinType  // Alternative field name
-  value: number
+  value?: number
   latitude: number
   longitude: number
   hiderId?: string
@@ -66,10 +80,20 @@ export async function POST(request: NextRequest) {
       )
     }
     
+    const { user, response: unauthorized } = await requireBearerUser(request, body.hiderId || body.hider_id)
+    if (!user) return unauthorized
+    
+    const limited = await checkRateLimit(request, 'hide', user.id)
+    if (limited) return limited
+    
+    const restricted = await checkAccountRestriction(user.id)
+    if (restricted) return restricted
+    
     // Validate required fields
-    const { value, latitude, longitude } = body
+    const { latitude, longitude } = body
+    const value = body.value ?? (await getGameSettings()).default_coin_value
     
-    if (value === undefined || value <= 0) {
+    if (value <= 0) {
       return NextResponse.json(
         { success: false, error: 'Value must be greater than 0', code: 'INVALID_VALUE' },
         { status: 400 }
@@ -91,40 +115,39 @@ export async function POST(request: NextRequest) {
       )
     }
     
-    const supabase = await createClient()
+    // Service role: the mobile app has no cookie session for RLS
+    const supabase = createServiceRoleClient()
+    
+    // No hiding in no-spawn areas (schools, highways, water, private land)
+    const exclusion = await findExclusionZoneAt(supabase, latitude, longitude)
+    if (exclusion) {
+      return NextResponse.json(
+        { success: false, error: 'Coins can\'t be hidden here - this is a restricted area', code: 'EXCLUDED_LOCATION' },
+        { status: 400 }
+      )
+    }
     
     // Prepare coin data (handle both naming conventions)
     const coinType = body.type || body.coin_type || 'fixed'
     const tier = body.tier || determineTier(value)
     const isMythical = body.isMythical || body.is_mythical || false
-    const hiderId = body.hiderId || body.hider_id || null
     const description = body.message || body.description || null
     const locationName = body.locationName || body.location_name || null
     
-    const coinData = {
-      coin_type: coinType,
-      value,
-      tier,
-      is_mythical: isMythical,
-      latitude,
-      longitude,
-      location_name: locationName,
-      description,
-      status: 'hidden' as const,
-      hider_id: hiderId,
-      hidden_at: new Date().toISOString(),
-      multi_find: false,
-      finds_remaining: 1,
-    }
-    
-    // Insert the coin
-    const { data: coin, error } = await supabase
-      .from('coins')
-      .insert(coinData)
-      .select()
-      .single()
+    // Coin + 'hidden' debit in one call: the hider pays the value from found coins
+    const { data: result, error } = await supabase.rpc('hide_coin', {
+      p_user_id: user.id,
+      p_value: value,
+      p_latitude: latitude,
+      p_longitude: longitude,
+      p_coin_type: coinType,
+      p_tier: tier,
+      p_is_mythical: isMythical,
+      p_location_name: locationName,
+      p_description: description,
+    })
     
-    if (error) {
+    if (error || !result) {
       console.error('[API] Error creating coin:', error)
       return NextResponse.json(
         { success: false, error: 'Failed to create coin', code: 'INSERT_FAILED' },
@@ -132,6 +155,16 @@ export async function POST(request: NextRequest) {
       )
     }
     
+    if (!result.success) {
+      const { success, code, error: message, ...details } = result
+      return NextResponse.json(
+        { success, error: message, code, ...keysToCamelCase<Record<string, unknown>>(details) },
+        { status: 400 }
+      )
+    }
+    
+    const coin = result.coin
+    
     console.log(`[API] Coin hidden: ${coin.id}, value: $${value.toFixed(2)} at (${latitude}, ${longitude})`)
     
     // Convert to camelCase for Unity compatibility
@@ -140,6 +173,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       coin: camelCaseCoin,
+      balanceAfter: result.balance_after,
       message: 'Treasure hidden successfully! 🏴‍☠️',
     })
     
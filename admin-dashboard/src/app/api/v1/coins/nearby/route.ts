@@ -10,20 +10,34 @@
  * Query Parameters:
  * - lat: Latitude (required)
  * - lng: Longitude (required)  
- * - radius: Search radius in meters (optional, default 500)
+ * - radius: Search radius in meters (optional, defaults to the
+ *   Search Radius game setting, capped at Max Search Radius)
  * 
  * Returns coins that are:
  * - Within the specified radius
  * - Status is 'hidden' or 'visible' (not collected/expired)
+ * - Hidden less than Coin Expiry (days) ago
  * - Not already collected by this user
  * 
+ * Headers:
+ * - Authorization: Bearer <token>   // Required (from /auth/login)
+ * 
+ * The response also carries the player's findLimit / findsToday /
+ * maxDailyFinds, and each coin gets isLocked (above the find limit, or daily
+ * cap reached) so the app can grey it out.
+ * 
  * @file admin-dashboard/src/app/api/v1/coins/nearby/route.ts
  * Character count: ~4,500
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { createPublicClient } from '@/lib/supabase/server'
+import { createPublicClient, createServiceRoleClient } from '@/lib/supabase/server'
 import { keysToCamelCase } from '@/lib/api-utils'
+import { requireBearerUser } from '@/lib/api-auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { checkAccountRestriction } from '@/lib/account-restriction'
+import { getFindLimitStatus, isOverFindLimit } from '@/lib/find-limit'
+import { getGameSettings } from '@/lib/game-settings-server'
 
 // Type for coin data from database query
 interface CoinFromDB {
@@ -51,12 +65,9 @@ interface CoinWithDistance extends CoinFromDB {
   distanceMeters: number
   bearingDegrees: number
   isInRange: boolean
+  isLocked: boolean
 }
 
-// Default search radius in meters
-const DEFAULT_RADIUS = 500
-const MAX_RADIUS = 5000 // Maximum allowed radius to prevent abuse
-
 // Earth's radius in meters for Haversine calculation
 const EARTH_RADIUS_METERS = 6371000
 
@@ -123,6 +134,16 @@ function calculateBearing(
 
 export async function GET(request: NextRequest) {
   try {
+    // Auth + rate limit before any database work
+    const { user, response: unauthorized } = await requireBearerUser(request)
+    if (!user) return unauthorized
+    
+    const limited = await checkRateLimit(request, 'nearby', user.id)
+    if (limited) return limited
+    
+    const restricted = await checkAccountRestriction(user.id)
+    if (restricted) return restricted
+    
     // Parse query parameters
     const { searchParams } = new URL(request.url)
     const latStr = searchParams.get('lat')
@@ -141,11 +162,12 @@ export async function GET(request: NextRequest) {
       )
     }
     
+    const settings = await getGameSettings()
     const lat = parseFloat(latStr)
     const lng = parseFloat(lngStr)
     const radius = Math.min(
-      parseFloat(radiusStr || String(DEFAULT_RADIUS)),
-      MAX_RADIUS
+      parseFloat(radiusStr || String(settings.nearby_radius_meters)),
+      settings.max_nearby_radius_meters // Maximum allowed radius to prevent abuse
     )
     
     // Validate coordinate values
@@ -208,6 +230,12 @@ export async function GET(request: NextRequest) {
       )
     }
     
+    // Find limit for the player (service role: limits read other tables)
+    const limits = await getFindLimitStatus(createServiceRoleClient(), user.id, settings)
+    
+    // Coins hidden before this are past the Coin Expiry setting
+    const expiryCutoff = Date.now() - settings.coin_expiry_days * 24 * 60 * 60 * 1000
+    
     // Calculate precise distance and filter to actual radius
     // Also add distance and bearing for each coin
     const nearbyCoins: CoinWithDistance[] = (coins || [])
@@ -220,11 +248,13 @@ export async function GET(request: NextRequest) {
           // Add computed fields for the Unity app
           distanceMeters: Math.round(distance * 10) / 10, // 1 decimal place
           bearingDegrees: Math.round(bearing * 10) / 10,
-          // Determine if collectible (within 5m range as per game design)
-          isInRange: distance <= 5,
+          // Determine if collectible (within the collection radius setting)
+          isInRange: distance <= settings.collection_radius_meters,
+          isLocked: limits.dailyLimitReached || isOverFindLimit(coin.value, limits),
         }
       })
       .filter((coin: CoinWithDistance) => coin.distanceMeters <= radius)
+      .filter((coin: CoinWithDistance) => !coin.hidden_at || new Date(coin.hidden_at).getTime() > expiryCutoff)
       .sort((a: CoinWithDistance, b: CoinWithDistance) => a.distanceMeters - b.distanceMeters)
     
     // Log for debugging (remove in production)
@@ -239,6 +269,9 @@ export async function GET(request: NextRequest) {
       totalCount: nearbyCoins.length,
       searchCenter: { lat, lng },
       searchRadius: radius,
+      findLimit: limits.findLimit,
+      findsToday: limits.findsToday,
+      maxDailyFinds: limits.maxDailyFinds,
       timestamp: new Date().toISOString(),
     })
     
@@ -7,12 +7,19 @@
  * This endpoint:
  * 1. Accepts location data from Unity app
  * 2. Validates the request
- * 3. Upserts to player_locations table (one row per user)
- * 4. Triggers Supabase Realtime for admin dashboard
+ * 3. Runs the anti-cheat rules against the previous position (cheat_flags)
+ * 4. Upserts to player_locations table (one row per user)
+ * 5. Triggers Supabase Realtime for admin dashboard
+ * 6. Refreshes the player's session (player_sessions) with device info
+ * 7. Returns `restricted` ({ action, reason, expiresAt }) when the account
+ *    is suspended or banned, so the app can stop play (null otherwise)
+ * 
+ * Headers:
+ * - Authorization: Bearer <token>   // The player (from /auth/login)
  * 
  * Request Body (JSON):
  * {
- *   userId: string,           // User's profile ID (required)
+ *   userId?: string,          // Deprecated - must match the token's user if sent
  *   latitude: number,         // Current latitude (required)
  *   longitude: number,        // Current longitude (required)
  *   altitude?: number,        // Altitude in meters
@@ -29,16 +36,24 @@
  * }
  * 
  * @file admin-dashboard/src/app/api/v1/player/location/route.ts
- * Character count: ~5,500
+ * Character count: ~7,500
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createServiceRoleClient } from '@/lib/supabase/server'
 import { keysToSnakeCase } from '@/lib/api-utils'
+import { getBearerToken, requireBearerUser } from '@/lib/api-auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { getClientIp } from '@/lib/activity-log'
+import { touchPlayerSession } from '@/lib/player-sessions'
+import { getTrackedLocation, recordCheatFlags } from '@/lib/cheat-detection'
+import { evaluateAntiCheatRules } from '@/lib/anti-cheat-rules'
+import { getAntiCheatRules } from '@/lib/anti-cheat-rules-server'
+import { getAccountRestriction } from '@/lib/account-restriction'
 
 // Request body type (camelCase from Unity)
 interface LocationUpdateRequest {
-  userId: string
+  userId?: string
   latitude: number
   longitude: number
   altitude?: number
@@ -86,18 +101,13 @@ export async function POST(request: NextRequest) {
     // Parse request body
     const body: LocationUpdateRequest = await request.json()
     
-    // Validate required fields
-    if (!body.userId) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: 'Missing required field: userId',
-          code: 'MISSING_USER_ID'
-        },
-        { status: 400 }
-      )
-    }
+    const { user, response: unauthorized } = await requireBearerUser(request, body.userId)
+    if (!user) return unauthorized
+    
+    const limited = await checkRateLimit(request, 'location', user.id)
+    if (limited) return limited
     
+    // Validate required fields
     if (body.latitude === undefined || body.longitude === undefined) {
       return NextResponse.json(
         { 
@@ -129,12 +139,38 @@ export async function POST(request: NextRequest) {
     // Get service role client (bypasses RLS for this operation)
     const supabase = createServiceRoleClient()
     
-    // Determine movement type
-    const movementType = getMovementType(body.speedMps, body.isMockLocation || false)
+    const serverTimestamp = new Date().toISOString()
+    
+    // Previous position (before this upsert replaces it) for cheat detection
+    const previous = await getTrackedLocation(supabase, user.id)
+    
+    const detections = evaluateAntiCheatRules(
+      await getAntiCheatRules(),
+      {
+        latitude: body.latitude,
+        longitude: body.longitude,
+        accuracyMeters: body.accuracyMeters ?? null,
+        speedMps: body.speedMps ?? null,
+        timestamp: serverTimestamp,
+      },
+      previous,
+      {
+        isMockLocation: body.isMockLocation || false,
+        deviceId: body.deviceId || null,
+        deviceModel: body.deviceModel || null,
+        sessionId: body.sessionId || null,
+      }
+    )
+    await recordCheatFlags(supabase, user.id, detections)
+    
+    // Determine movement type (anything the detectors caught shows as suspicious)
+    const movementType = detections.length > 0
+      ? 'suspicious'
+      : getMovementType(body.speedMps, body.isMockLocation || false)
     
     // Build the location data for upsert
     const locationData = {
-      user_id: body.userId,
+      user_id: user.id,
       latitude: body.latitude,
       longitude: body.longitude,
       altitude: body.altitude || null,
@@ -148,9 +184,9 @@ export async function POST(request: NextRequest) {
       is_ar_active: body.isArActive || false,
       is_mock_location: body.isMockLocation || false,
       movement_type: movementType,
-      client_timestamp: body.clientTimestamp || new Date().toISOString(),
-      server_timestamp: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
+      client_timestamp: body.clientTimestamp || serverTimestamp,
+      server_timestamp: serverTimestamp,
+      updated_at: serverTimestamp,
     }
     
     // Upsert the location (one row per user)
@@ -206,7 +242,7 @@ export async function POST(request: NextRequest) {
     supabase
       .from('player_location_history')
       .insert({
-        user_id: body.userId,
+        user_id: user.id,
         latitude: body.latitude,
         longitude: body.longitude,
         accuracy_meters: body.accuracyMeters || 10,
@@ -219,14 +255,30 @@ export async function POST(request: NextRequest) {
         }
       })
     
+    // Session registry: last seen + device for the Users / Security pages
+    await touchPlayerSession(supabase, {
+      userId: user.id,
+      accessToken: getBearerToken(request)!,
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+      deviceId: body.deviceId,
+      deviceModel: body.deviceModel,
+      appVersion: body.appVersion,
+    })
+    
+    // Suspended / banned players keep reporting (for the admin map), but the
+    // app should stop play as soon as it sees this
+    const restricted = await getAccountRestriction(supabase, user.id)
+    
     // Log for debugging (can be removed in production)
-    console.log(`[API] Player location updated: ${body.userId} at (${body.latitude.toFixed(4)}, ${body.longitude.toFixed(4)}) - ${movementType}`)
+    console.log(`[API] Player location updated: ${user.id} at (${body.latitude.toFixed(4)}, ${body.longitude.toFixed(4)}) - ${movementType}`)
     
     return NextResponse.json({
       success: true,
       locationId: data?.id,
       movementType,
-      timestamp: new Date().toISOString(),
+      restricted,
+      timestamp: serverTimestamp,
     })
     
   } catch (error) {
@@ -260,22 +312,21 @@ export async function POST(request: NextRequest) {
  * 
  * Remove player's location when they go offline/logout.
  * This removes them from the live tracking map.
+ * 
+ * Requires Authorization: Bearer <token>. The userId query parameter is
+ * optional and must match the token's user if sent.
  */
 export async function DELETE(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
     
-    if (!userId) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: 'Missing required parameter: userId',
-          code: 'MISSING_USER_ID'
-        },
-        { status: 400 }
-      )
-    }
+    const { user, response: unauthorized } = await requireBearerUser(request, searchParams.get('userId'))
+    if (!user) return unauthorized
+    
+    const limited = await checkRateLimit(request, 'location', user.id)
+    if (limited) return limited
+    
+    const userId = user.id
     
     const supabase = createServiceRoleClient()
     
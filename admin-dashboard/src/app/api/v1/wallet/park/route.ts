@@ -0,0 +1,102 @@
+/**
+ * POST /api/v1/wallet/park
+ * 
+ * Park found coins: move them out of the gas tank so daily gas
+ * consumption can't touch them. Purchased BBG can't be parked.
+ * 
+ * Headers:
+ * - Authorization: Bearer <token>
+ * 
+ * Request body:
+ * {
+ *   amount: number,   // BBG to park (found coins in the gas tank)
+ * }
+ * 
+ * @file admin-dashboard/src/app/api/v1/wallet/park/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { requireBearerUser } from '@/lib/api-auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { checkAccountRestriction } from '@/lib/account-restriction'
+import { toWalletResponse } from '@/lib/wallet'
+import { getGameSettings } from '@/lib/game-settings-server'
+import type { Wallet } from '@/types/database'
+
+interface ParkRequest {
+  amount?: number
+}
+
+// Result of the park_coins() database function
+type ParkCoinsResult =
+  | { success: true; wallet: Wallet }
+  | { success: false; code: string; error: string; parkable?: number }
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response: unauthorized } = await requireBearerUser(request)
+    if (!user) return unauthorized
+    
+    const limited = await checkRateLimit(request, 'walletWrite', user.id)
+    if (limited) return limited
+    
+    const restricted = await checkAccountRestriction(user.id)
+    if (restricted) return restricted
+    
+    let body: ParkRequest
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body', code: 'INVALID_BODY' },
+        { status: 400 }
+      )
+    }
+    
+    const amount = Number(body.amount)
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Amount must be greater than 0', code: 'INVALID_AMOUNT' },
+        { status: 400 }
+      )
+    }
+    
+    const supabase = createServiceRoleClient()
+    
+    const { data, error } = await supabase.rpc('park_coins', {
+      p_user_id: user.id,
+      p_amount: Math.round(amount * 100) / 100,
+    })
+    
+    if (error || !data) {
+      console.error('[API] Error parking coins:', error)
+      return NextResponse.json(
+        { success: false, error: 'Failed to park coins', code: 'UPDATE_FAILED' },
+        { status: 500 }
+      )
+    }
+    
+    const result = data as ParkCoinsResult
+    
+    if (!result.success) {
+      const { success, code, error: message, ...details } = result
+      return NextResponse.json({ success, error: message, code, ...details }, { status: 400 })
+    }
+    
+    console.log(`[API] User ${user.id} parked $${amount.toFixed(2)}`)
+    
+    return NextResponse.json({
+      success: true,
+      wallet: toWalletResponse(result.wallet, (await getGameSettings()).gas_daily_fee),
+      message: `Parked $${amount.toFixed(2)} — safe from the gas tank 🏴‍☠️`,
+    })
+    
+  } catch (error) {
+    console.error('[API] Error in POST /wallet/park:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
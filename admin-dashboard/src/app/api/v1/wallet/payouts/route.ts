@@ -0,0 +1,131 @@
+/**
+ * POST /api/v1/wallet/payouts
+ *
+ * Request a cash payout of parked coins. The request goes into the
+ * Finances → Payouts queue where a super admin approves, rejects or marks
+ * it paid. The amount is held (pending 'payout' transaction) until then.
+ *
+ * Rules (enforced in request_payout(), migration 017):
+ * - amount must be at least the minimum payout
+ * - only confirmed, parked found coins can be paid out
+ * - no open cheat flags on the account
+ * - one payout in progress at a time
+ *
+ * Headers:
+ * - Authorization: Bearer <token>
+ *
+ * Request body:
+ * {
+ *   amount: number,                 // BBG to pay out
+ *   method?: string,                // e.g. 'paypal'
+ *   details?: Record<string, any>,  // e.g. { paypalEmail: '...' }
+ * }
+ *
+ * @file admin-dashboard/src/app/api/v1/wallet/payouts/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { keysToCamelCase, keysToSnakeCase } from '@/lib/api-utils'
+import { requireBearerUser } from '@/lib/api-auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { checkAccountRestriction } from '@/lib/account-restriction'
+import { toWalletResponse } from '@/lib/wallet'
+import { getGameSettings } from '@/lib/game-settings-server'
+import type { PayoutRequest, Wallet } from '@/types/database'
+
+interface PayoutBody {
+  amount?: number
+  method?: string
+  details?: Record<string, unknown>
+}
+
+// Result of the request_payout() database function
+type RequestPayoutResult =
+  | { success: true; payout: PayoutRequest; wallet: Wallet }
+  | { success: false; code: string; error: string; min_payout?: number; parked?: number }
+
+// HTTP status for each request_payout() failure code
+const PAYOUT_ERROR_STATUS: Record<string, number> = {
+  INVALID_AMOUNT: 400,
+  BELOW_MIN_PAYOUT: 400,
+  INSUFFICIENT_FUNDS: 400,
+  OPEN_CHEAT_FLAGS: 403,
+  PAYOUT_IN_PROGRESS: 409,
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response: unauthorized } = await requireBearerUser(request)
+    if (!user) return unauthorized
+
+    const limited = await checkRateLimit(request, 'walletWrite', user.id)
+    if (limited) return limited
+
+    const restricted = await checkAccountRestriction(user.id)
+    if (restricted) return restricted
+
+    let body: PayoutBody
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body', code: 'INVALID_BODY' },
+        { status: 400 }
+      )
+    }
+
+    const amount = Number(body.amount)
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Amount must be greater than 0', code: 'INVALID_AMOUNT' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createServiceRoleClient()
+    const settings = await getGameSettings()
+
+    const { data, error } = await supabase.rpc('request_payout', {
+      p_user_id: user.id,
+      p_amount: Math.round(amount * 100) / 100,
+      p_min_amount: settings.min_payout,
+      p_payout_method: body.method || null,
+      p_payout_details: body.details ? keysToSnakeCase(body.details) : {},
+    })
+
+    if (error || !data) {
+      console.error('[API] Error requesting payout:', error)
+      return NextResponse.json(
+        { success: false, error: 'Failed to request payout', code: 'INSERT_FAILED' },
+        { status: 500 }
+      )
+    }
+
+    const result = data as RequestPayoutResult
+
+    if (!result.success) {
+      const { success, code, error: message, ...details } = result
+      return NextResponse.json(
+        { success, error: message, code, ...keysToCamelCase<Record<string, unknown>>(details) },
+        { status: PAYOUT_ERROR_STATUS[code] ?? 400 }
+      )
+    }
+
+    console.log(`[API] Payout requested: user ${user.id}, $${amount.toFixed(2)}`)
+
+    return NextResponse.json({
+      success: true,
+      payout: keysToCamelCase(result.payout),
+      wallet: toWalletResponse(result.wallet, settings.gas_daily_fee),
+      message: "Payout requested! We'll let you know once it's on its way 💰",
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('[API] Error in POST /wallet/payouts:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * GET /api/v1/wallet
+ *
+ * Fetch the authenticated player's wallet balance and transaction history
+ * for the Unity mobile app (Wallet screen).
+ *
+ * Headers:
+ * - Authorization: Bearer <token>   // access token from /auth/login
+ *
+ * Query Parameters:
+ * - limit: Max transactions to return (optional, default 50, max 200)
+ * - offset: Pagination offset (optional, default 0)
+ *
+ * The balance comes from the wallets table, which is kept in sync with
+ * transactions.balance_after by the ledger trigger (migration 014), and is
+ * split into gas tank and parked coins (migration 015). gasRemainingDays
+ * tells the app when to disable the Prize Finder.
+ *
+ * Found coins stay pending for 24h (migration 016): pendingBalance is not
+ * part of balance/confirmedBalance, and nextConfirmationAt is when the
+ * oldest pending find is due to confirm (null when nothing is pending).
+ *
+ * @file admin-dashboard/src/app/api/v1/wallet/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { keysToCamelCase } from '@/lib/api-utils'
+import { requireBearerUser } from '@/lib/api-auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { checkAccountRestriction } from '@/lib/account-restriction'
+import { FOUND_HOLD_HOURS, emptyWallet, toWalletResponse } from '@/lib/wallet'
+import { getGameSettings } from '@/lib/game-settings-server'
+import type { Transaction, Wallet } from '@/types/database'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response: unauthorized } = await requireBearerUser(request)
+    if (!user) return unauthorized
+
+    const limited = await checkRateLimit(request, 'wallet', user.id)
+    if (limited) return limited
+
+    const restricted = await checkAccountRestriction(user.id)
+    if (restricted) return restricted
+
+    const userId = user.id
+
+    // Parse pagination
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT), 10) || DEFAULT_LIMIT, 1),
+      MAX_LIMIT
+    )
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0)
+
+    // Service role: the mobile app has no cookie session for RLS
+    const supabase = createServiceRoleClient()
+    const settings = await getGameSettings()
+
+    const { data: wallet, error: walletError } = await supabase
+      .from('wallets')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (walletError) {
+      console.error('[API] Error fetching wallet:', walletError)
+      return NextResponse.json(
+        { success: false, error: 'Database error', code: 'DB_ERROR' },
+        { status: 500 }
+      )
+    }
+
+    const { data: transactions, error: txError, count } = await supabase
+      .from('transactions')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (txError) {
+      console.error('[API] Error fetching transactions:', txError)
+      return NextResponse.json(
+        { success: false, error: 'Database error', code: 'DB_ERROR' },
+        { status: 500 }
+      )
+    }
+
+    const { data: oldestPending, error: pendingError } = await supabase
+      .from('transactions')
+      .select('created_at')
+      .eq('user_id', userId)
+      .eq('transaction_type', 'found')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle()
+
+    if (pendingError) {
+      console.error('[API] Error fetching pending finds:', pendingError)
+      return NextResponse.json(
+        { success: false, error: 'Database error', code: 'DB_ERROR' },
+        { status: 500 }
+      )
+    }
+
+    // May be in the past while a cheat flag review holds the find
+    const nextConfirmationAt = oldestPending
+      ? new Date(new Date(oldestPending.created_at).getTime() + FOUND_HOLD_HOURS * 60 * 60 * 1000).toISOString()
+      : null
+
+    return NextResponse.json({
+      success: true,
+      // Players without any transaction yet have no wallet row
+      wallet: {
+        ...toWalletResponse((wallet as Wallet | null) ?? emptyWallet(userId), settings.gas_daily_fee),
+        nextConfirmationAt,
+      },
+      transactions: keysToCamelCase((transactions || []) as Transaction[]),
+      totalCount: count ?? 0,
+      limit,
+      offset,
+    })
+
+  } catch (error) {
+    console.error('[API] Error in GET /wallet:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * POST /api/v1/wallet/transfer
+ *
+ * Send parked coins to another player. Both sides are written in one
+ * database transaction by transfer_coins() (migration 018): a transfer_out
+ * for the sender and a transfer_in for the recipient, linked through
+ * related_user_id.
+ *
+ * Rules:
+ * - only parked coins can be sent (they arrive parked)
+ * - daily limit on amount and number of transfers sent
+ * - banned / suspended players can't send or receive
+ *
+ * Headers:
+ * - Authorization: Bearer <token>
+ *
+ * Request body:
+ * {
+ *   amount: number,        // BBG to send
+ *   toUserId?: string,     // Recipient ID...
+ *   toEmail?: string,      // ...or email
+ *   note?: string,         // Optional message for the recipient
+ * }
+ *
+ * @file admin-dashboard/src/app/api/v1/wallet/transfer/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { keysToCamelCase } from '@/lib/api-utils'
+import { requireBearerUser } from '@/lib/api-auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { checkAccountRestriction } from '@/lib/account-restriction'
+import { TRANSFER_DAILY_COUNT, TRANSFER_DAILY_LIMIT, toWalletResponse } from '@/lib/wallet'
+import { getGameSettings } from '@/lib/game-settings-server'
+import type { Wallet } from '@/types/database'
+
+interface TransferRequest {
+  amount?: number
+  toUserId?: string
+  toEmail?: string
+  note?: string
+}
+
+// Result of the transfer_coins() database function
+type TransferCoinsResult =
+  | { success: true; transfer_id: string; amount: number; transaction_id: string; wallet: Wallet }
+  | { success: false; code: string; error: string; [key: string]: unknown }
+
+// HTTP status for each transfer_coins() failure code
+const TRANSFER_ERROR_STATUS: Record<string, number> = {
+  INVALID_AMOUNT: 400,
+  SELF_TRANSFER: 400,
+  INSUFFICIENT_FUNDS: 400,
+  RECIPIENT_NOT_FOUND: 404,
+  ACCOUNT_RESTRICTED: 403,
+  RECIPIENT_RESTRICTED: 403,
+  DAILY_LIMIT_EXCEEDED: 429,
+}
+
+const MAX_NOTE_LENGTH = 140
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response: unauthorized } = await requireBearerUser(request)
+    if (!user) return unauthorized
+
+    const limited = await checkRateLimit(request, 'walletWrite', user.id)
+    if (limited) return limited
+
+    const restricted = await checkAccountRestriction(user.id)
+    if (restricted) return restricted
+
+    let body: TransferRequest
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body', code: 'INVALID_BODY' },
+        { status: 400 }
+      )
+    }
+
+    const amount = Number(body.amount)
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Amount must be greater than 0', code: 'INVALID_AMOUNT' },
+        { status: 400 }
+      )
+    }
+
+    if (!body.toUserId && !body.toEmail) {
+      return NextResponse.json(
+        { success: false, error: 'toUserId or toEmail is required', code: 'MISSING_FIELDS' },
+        { status: 400 }
+      )
+    }
+
+    if (body.toUserId !== undefined && (typeof body.toUserId !== 'string' || !UUID_PATTERN.test(body.toUserId))) {
+      return NextResponse.json(
+        { success: false, error: 'toUserId must be a valid user ID', code: 'INVALID_RECIPIENT' },
+        { status: 400 }
+      )
+    }
+
+    if (body.toEmail !== undefined && typeof body.toEmail !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'toEmail must be a string', code: 'INVALID_RECIPIENT' },
+        { status: 400 }
+      )
+    }
+
+    if (body.note !== undefined && body.note !== null && typeof body.note !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'note must be a string', code: 'INVALID_NOTE' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createServiceRoleClient()
+
+    // Resolve the recipient by email when no ID was given
+    let recipientId = body.toUserId
+    if (!recipientId) {
+      const { data: recipient } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('email', body.toEmail!.trim().toLowerCase())
+        .maybeSingle()
+
+      if (!recipient) {
+        return NextResponse.json(
+          { success: false, error: 'Recipient not found', code: 'RECIPIENT_NOT_FOUND' },
+          { status: 404 }
+        )
+      }
+      recipientId = recipient.id
+    }
+
+    const { data, error } = await supabase.rpc('transfer_coins', {
+      p_from_user_id: user.id,
+      p_to_user_id: recipientId,
+      p_amount: Math.round(amount * 100) / 100,
+      p_note: body.note ? body.note.slice(0, MAX_NOTE_LENGTH) : null,
+      p_daily_amount_limit: TRANSFER_DAILY_LIMIT,
+      p_daily_count_limit: TRANSFER_DAILY_COUNT,
+    })
+
+    if (error || !data) {
+      console.error('[API] Error transferring coins:', error)
+      return NextResponse.json(
+        { success: false, error: 'Failed to transfer coins', code: 'UPDATE_FAILED' },
+        { status: 500 }
+      )
+    }
+
+    const result = data as TransferCoinsResult
+
+    if (!result.success) {
+      const { success, code, error: message, ...details } = result
+      return NextResponse.json(
+        { success, error: message, code, ...keysToCamelCase<Record<string, unknown>>(details) },
+        { status: TRANSFER_ERROR_STATUS[code] ?? 400 }
+      )
+    }
+
+    console.log(`[API] Transfer ${result.transfer_id}: ${user.id} -> ${recipientId}, $${Number(result.amount).toFixed(2)}`)
+
+    return NextResponse.json({
+      success: true,
+      transferId: result.transfer_id,
+      transactionId: result.transaction_id,
+      amount: Number(result.amount),
+      wallet: toWalletResponse(result.wallet, (await getGameSettings()).gas_daily_fee),
+      message: `Sent $${Number(result.amount).toFixed(2)} 🤝`,
+    })
+
+  } catch (error) {
+    console.error('[API] Error in POST /wallet/transfer:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * POST /api/v1/wallet/unpark
+ * 
+ * Move parked coins back into the gas tank. Unparking immediately charges
+ * one day of gas so players can't dodge the midnight charge by parking.
+ * 
+ * Headers:
+ * - Authorization: Bearer <token>
+ * 
+ * Request body:
+ * {
+ *   amount: number,   // Parked BBG to move into the gas tank
+ * }
+ * 
+ * @file admin-dashboard/src/app/api/v1/wallet/unpark/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { requireBearerUser } from '@/lib/api-auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { checkAccountRestriction } from '@/lib/account-restriction'
+import { toWalletResponse } from '@/lib/wallet'
+import { getGameSettings } from '@/lib/game-settings-server'
+import type { Wallet } from '@/types/database'
+
+interface UnparkRequest {
+  amount?: number
+}
+
+// Result of the unpark_coins() database function
+type UnparkCoinsResult =
+  | { success: true; wallet: Wallet; fee_charged: number; transaction_id: string | null }
+  | { success: false; code: string; error: string; parked?: number }
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response: unauthorized } = await requireBearerUser(request)
+    if (!user) return unauthorized
+    
+    const limited = await checkRateLimit(request, 'walletWrite', user.id)
+    if (limited) return limited
+    
+    const restricted = await checkAccountRestriction(user.id)
+    if (restricted) return restricted
+    
+    let body: UnparkRequest
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body', code: 'INVALID_BODY' },
+        { status: 400 }
+      )
+    }
+    
+    const amount = Number(body.amount)
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Amount must be greater than 0', code: 'INVALID_AMOUNT' },
+        { status: 400 }
+      )
+    }
+    
+    const supabase = createServiceRoleClient()
+    const settings = await getGameSettings()
+    
+    const { data, error } = await supabase.rpc('unpark_coins', {
+      p_user_id: user.id,
+      p_amount: Math.round(amount * 100) / 100,
+      p_daily_fee: settings.gas_daily_fee,
+    })
+    
+    if (error || !data) {
+      console.error('[API] Error unparking coins:', error)
+      return NextResponse.json(
+        { success: false, error: 'Failed to unpark coins', code: 'UPDATE_FAILED' },
+        { status: 500 }
+      )
+    }
+    
+    const result = data as UnparkCoinsResult
+    
+    if (!result.success) {
+      const { success, code, error: message, ...details } = result
+      return NextResponse.json({ success, error: message, code, ...details }, { status: 400 })
+    }
+    
+    console.log(`[API] User ${user.id} unparked $${amount.toFixed(2)}, gas charged $${Number(result.fee_charged).toFixed(2)}`)
+    
+    return NextResponse.json({
+      success: true,
+      wallet: toWalletResponse(result.wallet, settings.gas_daily_fee),
+      feeCharged: Number(result.fee_charged),
+      transactionId: result.transaction_id,
+      message: `Moved $${amount.toFixed(2)} into your gas tank ⛽`,
+    })
+    
+  } catch (error) {
+    console.error('[API] Error in POST /wallet/unpark:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
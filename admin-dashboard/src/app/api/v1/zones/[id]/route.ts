@@ -0,0 +1,261 @@
+/**
+ * Zone-specific API routes
+ *
+ * GET /api/v1/zones/[id] - Get a zone
+ * PATCH /api/v1/zones/[id] - Update a zone (any CreateZoneInput fields,
+ *   plus status; null clears an optional field)
+ * DELETE /api/v1/zones/[id] - Archive a zone
+ *
+ * Zones are never hard-deleted (migration 028): DELETE sets status to
+ * 'archived' so coins, releases and analytics keep their zone. PATCH
+ * status back to 'inactive' or 'active' to restore one.
+ *
+ * Headers:
+ * - Authorization: Bearer <token>
+ *
+ * @file admin-dashboard/src/app/api/v1/zones/[id]/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { requireBearerUser } from '@/lib/api-auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { checkAccountRestriction } from '@/lib/account-restriction'
+import { canManageZone, canViewZone, getZoneAccess, parseZoneInput, toZoneResponse } from '@/lib/zones'
+import type { Zone } from '@/types/database'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+function zoneNotFound() {
+  return NextResponse.json(
+    { success: false, error: 'Zone not found', code: 'NOT_FOUND' },
+    { status: 404 }
+  )
+}
+
+function zoneForbidden() {
+  return NextResponse.json(
+    { success: false, error: 'You cannot manage this zone', code: 'FORBIDDEN' },
+    { status: 403 }
+  )
+}
+
+/**
+ * GET /api/v1/zones/[id]
+ * Fetch a zone the caller can see
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { user, response: unauthorized } = await requireBearerUser(request)
+    if (!user) return unauthorized
+
+    const limited = await checkRateLimit(request, 'zones', user.id)
+    if (limited) return limited
+
+    const restricted = await checkAccountRestriction(user.id)
+    if (restricted) return restricted
+
+    const { id } = await params
+
+    const supabase = createServiceRoleClient()
+    const [{ data: zone }, access] = await Promise.all([
+      supabase.from('zones').select('*').eq('id', id).single(),
+      getZoneAccess(supabase, user.id),
+    ])
+
+    if (!zone || !canViewZone(access, zone as Zone)) {
+      return zoneNotFound()
+    }
+
+    return NextResponse.json({
+      success: true,
+      zone: toZoneResponse(zone as Zone),
+    })
+
+  } catch (error) {
+    console.error('[API] Error in GET /zones/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/v1/zones/[id]
+ * Update some of a zone's fields
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { user, response: unauthorized } = await requireBearerUser(request)
+    if (!user) return unauthorized
+
+    const limited = await checkRateLimit(request, 'zoneWrite', user.id)
+    if (limited) return limited
+
+    const restricted = await checkAccountRestriction(user.id)
+    if (restricted) return restricted
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body', code: 'INVALID_BODY' },
+        { status: 400 }
+      )
+    }
+
+    const { input, error: invalid } = parseZoneInput(body, true)
+    if (!input) {
+      return NextResponse.json(
+        { success: false, error: invalid.message, code: invalid.code },
+        { status: 400 }
+      )
+    }
+
+    if (Object.keys(input).length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No zone fields to update', code: 'MISSING_FIELDS' },
+        { status: 400 }
+      )
+    }
+
+    const { id } = await params
+
+    const supabase = createServiceRoleClient()
+    const [{ data: existing }, access] = await Promise.all([
+      supabase.from('zones').select('*').eq('id', id).single(),
+      getZoneAccess(supabase, user.id),
+    ])
+
+    if (!existing || !canViewZone(access, existing as Zone)) {
+      return zoneNotFound()
+    }
+
+    // Check both the zone as it is and as it would become, so a sponsor
+    // admin can't move a zone to another sponsor or out of sponsor zones
+    const updated = { ...(existing as Zone), ...input } as Zone
+    if (!canManageZone(access, existing as Zone) || !canManageZone(access, updated)) {
+      return zoneForbidden()
+    }
+
+    if (updated.start_time && updated.end_time && updated.end_time <= updated.start_time) {
+      return NextResponse.json(
+        { success: false, error: 'end_time must be after start_time', code: 'INVALID_SCHEDULE' },
+        { status: 400 }
+      )
+    }
+
+    const { data: zone, error } = await supabase
+      .from('zones')
+      .update(input)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error || !zone) {
+      console.error('[API] Error updating zone:', error)
+      return NextResponse.json(
+        { success: false, error: 'Failed to update zone', code: 'UPDATE_FAILED' },
+        { status: 500 }
+      )
+    }
+
+    console.log(`[API] Zone updated: ${id} (${Object.keys(input).join(', ')}) by ${user.id}`)
+
+    return NextResponse.json({
+      success: true,
+      zone: toZoneResponse(zone as Zone),
+    })
+
+  } catch (error) {
+    console.error('[API] Error in PATCH /zones/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/v1/zones/[id]
+ * Archive a zone
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { user, response: unauthorized } = await requireBearerUser(request)
+    if (!user) return unauthorized
+
+    const limited = await checkRateLimit(request, 'zoneWrite', user.id)
+    if (limited) return limited
+
+    const restricted = await checkAccountRestriction(user.id)
+    if (restricted) return restricted
+
+    const { id } = await params
+
+    const supabase = createServiceRoleClient()
+    const [{ data: existing }, access] = await Promise.all([
+      supabase.from('zones').select('*').eq('id', id).single(),
+      getZoneAccess(supabase, user.id),
+    ])
+
+    if (!existing || !canViewZone(access, existing as Zone)) {
+      return zoneNotFound()
+    }
+
+    if (!canManageZone(access, existing as Zone)) {
+      return zoneForbidden()
+    }
+
+    if ((existing as Zone).status === 'archived') {
+      return NextResponse.json({
+        success: true,
+        zone: toZoneResponse(existing as Zone),
+        message: 'Zone already archived',
+      })
+    }
+
+    const { data: zone, error } = await supabase
+      .from('zones')
+      .update({ status: 'archived' })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error || !zone) {
+      console.error('[API] Error archiving zone:', error)
+      return NextResponse.json(
+        { success: false, error: 'Failed to archive zone', code: 'UPDATE_FAILED' },
+        { status: 500 }
+      )
+    }
+
+    console.log(`[API] Zone archived: ${id} by ${user.id}`)
+
+    return NextResponse.json({
+      success: true,
+      zone: toZoneResponse(zone as Zone),
+      message: 'Zone archived',
+    })
+
+  } catch (error) {
+    console.error('[API] Error in DELETE /zones/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
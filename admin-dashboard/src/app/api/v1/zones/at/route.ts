@@ -0,0 +1,110 @@
+/**
+ * GET /api/v1/zones/at
+ *
+ * Which active zones contain a point - e.g. the zone the player is standing
+ * in, or whether a spot is inside a sponsor zone. Uses isPointInZone
+ * (zone-config.ts), the same test as the dashboard map.
+ *
+ * Headers:
+ * - Authorization: Bearer <token>
+ *
+ * Query Parameters:
+ * - lat: Latitude (required)
+ * - lng: Longitude (required)
+ * - type: Only this zone type (optional)
+ *
+ * Zones are returned smallest first, so zones[0] is the most specific one.
+ *
+ * @file admin-dashboard/src/app/api/v1/zones/at/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { requireBearerUser } from '@/lib/api-auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { checkAccountRestriction } from '@/lib/account-restriction'
+import { ZONE_TYPES, toZoneResponse } from '@/lib/zones'
+import { calculateZoneArea, isPointInZone } from '@/components/maps/zone-config'
+import type { Zone, ZoneType } from '@/types/database'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response: unauthorized } = await requireBearerUser(request)
+    if (!user) return unauthorized
+
+    const limited = await checkRateLimit(request, 'zones', user.id)
+    if (limited) return limited
+
+    const restricted = await checkAccountRestriction(user.id)
+    if (restricted) return restricted
+
+    const { searchParams } = new URL(request.url)
+    const latStr = searchParams.get('lat')
+    const lngStr = searchParams.get('lng')
+    const type = searchParams.get('type')
+
+    if (!latStr || !lngStr) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required parameters: lat and lng', code: 'MISSING_PARAMS' },
+        { status: 400 }
+      )
+    }
+
+    const lat = parseFloat(latStr)
+    const lng = parseFloat(lngStr)
+
+    if (isNaN(lat) || isNaN(lng) || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid coordinates', code: 'INVALID_COORDS' },
+        { status: 400 }
+      )
+    }
+
+    if (type && !ZONE_TYPES.includes(type as ZoneType)) {
+      return NextResponse.json(
+        { success: false, error: `type must be one of ${ZONE_TYPES.join(', ')}`, code: 'INVALID_ZONE_TYPE' },
+        { status: 400 }
+      )
+    }
+
+    // Service role: the mobile app has no cookie session for RLS
+    const supabase = createServiceRoleClient()
+
+    let query = supabase
+      .from('zones')
+      .select('*')
+      .eq('status', 'active')
+
+    if (type) query = query.eq('zone_type', type)
+
+    const { data: zones, error } = await query
+
+    if (error) {
+      console.error('[API] Error fetching zones:', error)
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch zones', code: 'DATABASE_ERROR' },
+        { status: 500 }
+      )
+    }
+
+    const containing = ((zones || []) as Zone[])
+      .filter(zone => isPointInZone(lat, lng, zone.geometry))
+      .map(zone => ({ zone, area: calculateZoneArea(zone.geometry) }))
+      .sort((a, b) => a.area - b.area)
+      .map(({ zone }) => toZoneResponse(zone))
+
+    return NextResponse.json({
+      success: true,
+      zones: containing,
+      count: containing.length,
+      location: { lat, lng },
+    })
+
+  } catch (error) {
+    console.error('[API] Error in GET /zones/at:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
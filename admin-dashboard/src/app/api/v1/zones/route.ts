@@ -0,0 +1,212 @@
+/**
+ * Zone collection API
+ *
+ * GET /api/v1/zones - List zones
+ * POST /api/v1/zones - Create a zone (super admins; sponsor admins for
+ *   their own sponsor zones)
+ *
+ * Players see active zones only; admins also see the zones they manage.
+ * Zones come back in the camelCase Zone shape. Bodies take CreateZoneInput
+ * (snake_case or camelCase) and geometry is checked with
+ * validateZoneGeometry (zone-config.ts).
+ *
+ * Headers:
+ * - Authorization: Bearer <token>
+ *
+ * Query Parameters (GET):
+ * - type: player | sponsor | hunt | grid | exclusion (optional)
+ * - status: Zone status (optional, admins only - players always get active)
+ * - sponsorId: Only this sponsor's zones (optional)
+ * - limit: Max zones (default 100, max 500)
+ *
+ * Archived zones are left out unless status=archived is asked for.
+ *
+ * @file admin-dashboard/src/app/api/v1/zones/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { requireBearerUser } from '@/lib/api-auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { checkAccountRestriction } from '@/lib/account-restriction'
+import {
+  UUID_PATTERN,
+  ZONE_STATUSES,
+  ZONE_TYPES,
+  canManageZone,
+  getZoneAccess,
+  parseZoneInput,
+  toZoneResponse,
+} from '@/lib/zones'
+import type { Zone, ZoneStatus, ZoneType } from '@/types/database'
+
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 500
+
+/**
+ * GET /api/v1/zones
+ * List the zones the caller can see
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response: unauthorized } = await requireBearerUser(request)
+    if (!user) return unauthorized
+
+    const limited = await checkRateLimit(request, 'zones', user.id)
+    if (limited) return limited
+
+    const restricted = await checkAccountRestriction(user.id)
+    if (restricted) return restricted
+
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get('type')
+    const status = searchParams.get('status')
+    const sponsorId = searchParams.get('sponsorId')
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, 1),
+      MAX_LIMIT
+    )
+
+    if (type && !ZONE_TYPES.includes(type as ZoneType)) {
+      return NextResponse.json(
+        { success: false, error: `type must be one of ${ZONE_TYPES.join(', ')}`, code: 'INVALID_ZONE_TYPE' },
+        { status: 400 }
+      )
+    }
+
+    if (status && !ZONE_STATUSES.includes(status as ZoneStatus)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of ${ZONE_STATUSES.join(', ')}`, code: 'INVALID_STATUS' },
+        { status: 400 }
+      )
+    }
+
+    if (sponsorId && !UUID_PATTERN.test(sponsorId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid sponsorId', code: 'INVALID_SPONSOR' },
+        { status: 400 }
+      )
+    }
+
+    // Service role: the mobile app has no cookie session for RLS
+    const supabase = createServiceRoleClient()
+    const access = await getZoneAccess(supabase, user.id)
+
+    let query = supabase
+      .from('zones')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (type) query = query.eq('zone_type', type)
+    if (sponsorId) query = query.eq('sponsor_id', sponsorId)
+
+    if (access.role === 'super_admin') {
+      query = status ? query.eq('status', status) : query.neq('status', 'archived')
+    } else if (access.role === 'sponsor_admin' && access.sponsorIds.length > 0) {
+      // Active zones, plus any status of their own sponsor zones
+      query = query.or(
+        `status.eq.active,and(zone_type.eq.sponsor,sponsor_id.in.(${access.sponsorIds.join(',')}))`
+      )
+      query = status ? query.eq('status', status) : query.neq('status', 'archived')
+    } else {
+      query = query.eq('status', 'active')
+    }
+
+    const { data: zones, error } = await query
+
+    if (error) {
+      console.error('[API] Error fetching zones:', error)
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch zones', code: 'DATABASE_ERROR' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      zones: ((zones || []) as Zone[]).map(toZoneResponse),
+      count: zones?.length || 0,
+    })
+
+  } catch (error) {
+    console.error('[API] Error in GET /zones:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/v1/zones
+ * Create a zone from a CreateZoneInput body
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response: unauthorized } = await requireBearerUser(request)
+    if (!user) return unauthorized
+
+    const limited = await checkRateLimit(request, 'zoneWrite', user.id)
+    if (limited) return limited
+
+    const restricted = await checkAccountRestriction(user.id)
+    if (restricted) return restricted
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body', code: 'INVALID_BODY' },
+        { status: 400 }
+      )
+    }
+
+    const { input, error: invalid } = parseZoneInput(body, false)
+    if (!input) {
+      return NextResponse.json(
+        { success: false, error: invalid.message, code: invalid.code },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createServiceRoleClient()
+    const access = await getZoneAccess(supabase, user.id)
+
+    if (!canManageZone(access, { zone_type: input.zone_type!, sponsor_id: input.sponsor_id ?? null })) {
+      return NextResponse.json(
+        { success: false, error: 'You cannot create this zone', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    const { data: zone, error } = await supabase
+      .from('zones')
+      .insert({ ...input, owner_id: user.id, status: 'active' })
+      .select()
+      .single()
+
+    if (error || !zone) {
+      console.error('[API] Error creating zone:', error)
+      return NextResponse.json(
+        { success: false, error: 'Failed to create zone', code: 'INSERT_FAILED' },
+        { status: 500 }
+      )
+    }
+
+    console.log(`[API] Zone created: ${zone.id} (${input.zone_type}) by ${user.id}`)
+
+    return NextResponse.json(
+      { success: true, zone: toZoneResponse(zone as Zone) },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    console.error('[API] Error in POST /zones:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,300 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { createClient } from "@/lib/supabase/client"
+import type { AccountLink, AccountLinkKind, UserProfile } from "@/types/database"
+import {
+  buildAccountRings,
+  describeAccountLink,
+  LINK_KIND_LABELS,
+  type AccountRing,
+} from "@/lib/account-linkage"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Ban, Network, RefreshCw, Smartphone, Wifi, Footprints } from "lucide-react"
+import { toast } from "sonner"
+
+type MemberProfile = Pick<UserProfile, "id" | "full_name" | "email">
+
+const kindStyles: Record<AccountLinkKind, { color: string; icon: typeof Smartphone }> = {
+  device: { color: "bg-red-100 text-red-700", icon: Smartphone },
+  trail: { color: "bg-orange-100 text-orange-700", icon: Footprints },
+  ip_range: { color: "bg-yellow-100 text-yellow-700", icon: Wifi },
+}
+
+// Which links connect accounts into rings
+const linkFilters: Record<string, { label: string; kinds: AccountLinkKind[] }> = {
+  all: { label: "All signals", kinds: ["device", "trail", "ip_range"] },
+  strong: { label: "Devices & trails", kinds: ["device", "trail"] },
+  device: { label: "Devices only", kinds: ["device"] },
+}
+
+/**
+ * Account rings: accounts linked by shared devices, IP ranges or
+ * overlapping location trails (get_account_links, migration 024), with a
+ * ban for the whole ring.
+ */
+export function AccountRingsPanel() {
+  const [links, setLinks] = useState<AccountLink[]>([])
+  const [profiles, setProfiles] = useState<Map<string, MemberProfile>>(new Map())
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [days, setDays] = useState("30")
+  const [filter, setFilter] = useState("strong")
+  const [banning, setBanning] = useState<AccountRing | null>(null)
+  const [banReason, setBanReason] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    const supabase = createClient()
+    let cancelled = false
+
+    const fetchLinks = async () => {
+      setLoading(true)
+      setError(null)
+
+      const { data, error: rpcError } = await supabase.rpc("get_account_links", {
+        p_days: Number(days),
+      })
+
+      const result = data as { success: boolean; error?: string; links?: AccountLink[] } | null
+      if (cancelled) return
+      if (rpcError || !result?.success) {
+        setLoading(false)
+        setError(rpcError?.message || result?.error || "Failed to load account links")
+        return
+      }
+
+      const fetchedLinks = result.links || []
+      const userIds = Array.from(new Set(fetchedLinks.flatMap((link) => [link.user_a, link.user_b])))
+
+      const { data: profileRows } = userIds.length > 0
+        ? await supabase.from("profiles").select("id, full_name, email").in("id", userIds)
+        : { data: [] }
+
+      if (cancelled) return
+      setLoading(false)
+      setLinks(fetchedLinks)
+      setProfiles(new Map(((profileRows || []) as MemberProfile[]).map((p) => [p.id, p])))
+    }
+
+    fetchLinks()
+    return () => { cancelled = true }
+  }, [days, reloadKey])
+
+  const rings = buildAccountRings(links, linkFilters[filter].kinds)
+
+  const memberName = (userId: string) => {
+    const profile = profiles.get(userId)
+    return profile?.full_name || profile?.email || userId.slice(0, 8)
+  }
+
+  const openBan = (ring: AccountRing) => {
+    setBanning(ring)
+    setBanReason(`Account ring: ${ring.kinds.map((kind) => LINK_KIND_LABELS[kind].toLowerCase()).join(", ")}`)
+  }
+
+  const handleBan = async () => {
+    if (!banning) return
+    setSubmitting(true)
+
+    // One player_actions row per member + an admin_action log
+    const supabase = createClient()
+    const { data, error: rpcError } = await supabase.rpc("ban_account_ring", {
+      p_user_ids: banning.userIds,
+      p_reason: banReason,
+    })
+
+    setSubmitting(false)
+
+    const result = data as { success: boolean; error?: string; banned?: number } | null
+    if (rpcError || !result?.success) {
+      toast.error("Failed to ban ring", { description: rpcError?.message || result?.error })
+      return
+    }
+
+    toast.success(`Banned ${result.banned} accounts 🚫`)
+    setBanning(null)
+    setReloadKey((key) => key + 1)
+  }
+
+  return (
+    <Card className="border-saddle-light/30">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="text-saddle-dark flex items-center gap-2">
+            <Network className="h-5 w-5" />
+            Account Rings
+          </CardTitle>
+          <CardDescription>
+            Accounts sharing devices, IP ranges or location trails
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={filter} onValueChange={setFilter}>
+            <SelectTrigger className="w-[170px] border-saddle-light/30">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(linkFilters).map(([value, { label }]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-[130px] border-saddle-light/30">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setReloadKey((key) => key + 1)}
+            disabled={loading}
+            className="border-saddle-light/30"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-fire text-sm p-4 bg-fire/10 rounded-lg">
+            Error loading account links: {error}
+          </div>
+        ) : loading && links.length === 0 ? (
+          <div className="h-24 bg-parchment animate-pulse rounded" />
+        ) : rings.length === 0 ? (
+          <div className="text-center py-12 text-leather-light">
+            <Network className="mx-auto h-12 w-12 text-saddle-light/50 mb-4" />
+            <p className="text-lg font-medium">No linked accounts</p>
+            <p className="text-sm">Accounts that share a device, network or trail will show up here.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {rings.map((ring) => (
+              <div key={ring.id} className="rounded-lg border border-saddle-light/30 p-4 space-y-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-saddle-dark">
+                      {ring.userIds.length} accounts
+                    </span>
+                    {ring.kinds.map((kind) => {
+                      const KindIcon = kindStyles[kind].icon
+                      return (
+                        <Badge key={kind} className={`${kindStyles[kind].color} gap-1`}>
+                          <KindIcon className="h-3 w-3" />
+                          {LINK_KIND_LABELS[kind]}
+                        </Badge>
+                      )
+                    })}
+                    <span className="text-xs text-leather-light">Score {ring.score}</span>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => openBan(ring)}
+                    className="border-fire/30 text-fire hover:bg-fire/10"
+                  >
+                    <Ban className="h-4 w-4 mr-1" />
+                    Ban ring
+                  </Button>
+                </div>
+
+                {/* Members */}
+                <div className="flex flex-wrap gap-2">
+                  {ring.userIds.map((userId) => (
+                    <div key={userId} className="px-3 py-1 bg-parchment rounded-full text-sm">
+                      <span className="text-saddle-dark">{memberName(userId)}</span>
+                      {profiles.get(userId)?.full_name && (
+                        <span className="text-leather-light ml-1">{profiles.get(userId)?.email}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {/* Links (edges of the ring) */}
+                <ul className="space-y-1 text-sm">
+                  {ring.links.map((link, index) => {
+                    const KindIcon = kindStyles[link.kind].icon
+                    return (
+                      <li key={`${link.user_a}-${link.user_b}-${link.kind}-${index}`} className="flex items-center gap-2 text-leather">
+                        <KindIcon className="h-3 w-3 text-saddle-light shrink-0" />
+                        <span className="text-saddle-dark">{memberName(link.user_a)}</span>
+                        <span className="text-leather-light">⟷</span>
+                        <span className="text-saddle-dark">{memberName(link.user_b)}</span>
+                        <span className="text-leather-light">· {describeAccountLink(link)}</span>
+                      </li>
+                    )
+                  })}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Ban Ring Dialog */}
+      <Dialog open={!!banning} onOpenChange={(open) => !open && setBanning(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-saddle-dark">Ban Account Ring</DialogTitle>
+            <DialogDescription>
+              {banning && `All ${banning.userIds.length} accounts will be banned from the app. Super admins are skipped.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="ring_ban_reason">Reason</Label>
+            <Textarea
+              id="ring_ban_reason"
+              value={banReason}
+              onChange={(e) => setBanReason(e.target.value)}
+              placeholder="Why is this ring being banned?"
+              className="border-saddle-light/30"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setBanning(null)}
+              className="border-saddle-light/30"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleBan}
+              disabled={submitting || !banReason.trim()}
+              className="bg-fire hover:bg-fire/90 text-white"
+            >
+              {submitting ? "Banning..." : "Ban Ring"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -52,6 +52,8 @@ import {
 } from "@/components/maps/anti-cheat-config"
 import { formatDistanceToNow } from "date-fns"
 import { PlayerFlagDialog } from "./player-flag-dialog"
+import { AntiCheatRules } from "./anti-cheat-rules"
+import { EscalationPolicyPanel } from "./escalation-policy"
 
 interface AntiCheatPanelProps {
   className?: string
@@ -96,18 +98,24 @@ export function AntiCheatPanel({ className = "" }: AntiCheatPanelProps) {
     flag: CheatFlag,
     status: CheatFlag['status'],
     action: CheatFlag['action_taken'],
-    notes?: string
+    notes?: string,
+    durationDays?: number
   ) => {
     await reviewFlag(flag.id, status, action, notes)
+    // A new action on the flag is enforced through player_actions
+    if (action !== 'none' && action !== flag.action_taken) {
+      await takeAction(flag.user_id, action, notes || `Flag review: ${flag.reason}`, durationDays)
+    }
     toast.success(`Flag ${status === 'confirmed' ? 'confirmed' : status === 'false_positive' ? 'cleared' : 'updated'}!`)
   }
 
   const handleTakeAction = async (
     player: FlaggedPlayer,
     action: CheatFlag['action_taken'],
-    reason: string
+    reason: string,
+    durationDays?: number
   ) => {
-    await takeAction(player.user_id, action, reason)
+    await takeAction(player.user_id, action, reason, durationDays)
     toast.success(`Action taken: ${action}`)
     setFlagDialogOpen(false)
   }
@@ -488,6 +496,12 @@ export function AntiCheatPanel({ className = "" }: AntiCheatPanelProps) {
         </CardContent>
       </Card>
 
+      {/* Escalation Policy */}
+      <EscalationPolicyPanel className="mt-6" />
+
+      {/* Detection Rules */}
+      <AntiCheatRules className="mt-6" />
+
       {/* Player Flag Dialog */}
       {selectedPlayer && (
         <PlayerFlagDialog
@@ -0,0 +1,375 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { createClient } from "@/lib/supabase/client"
+import type { AntiCheatRule, AntiCheatRuleKey, AntiCheatRuleVersion, PlayerLocationHistory } from "@/types/database"
+import {
+  ANTI_CHEAT_RULE_DEFINITIONS,
+  ANTI_CHEAT_RULE_KEYS,
+  DEFAULT_ANTI_CHEAT_RULES,
+  replayAntiCheatRules,
+  toAntiCheatRuleSet,
+  validateRuleThresholds,
+  type AntiCheatReplayResult,
+  type AntiCheatRuleSet,
+} from "@/lib/anti-cheat-rules"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { FlaskConical, History, Loader2, Save, SlidersHorizontal } from "lucide-react"
+import { toast } from "sonner"
+import { formatDistanceToNow } from "date-fns"
+
+// Most history points a dry run replays (oldest first within each player)
+const DRY_RUN_MAX_POINTS = 20000
+
+const dryRunWindows: Record<string, { label: string; hours: number }> = {
+  "24": { label: "Last 24 hours", hours: 24 },
+  "72": { label: "Last 3 days", hours: 72 },
+  "168": { label: "Last 7 days", hours: 168 },
+}
+
+interface DryRunReport {
+  current: AntiCheatReplayResult
+  proposed: AntiCheatReplayResult
+  truncated: boolean
+}
+
+/**
+ * Anti-cheat rules (migration 025): enable / tune each rule, see its version
+ * history, and dry-run proposed thresholds against stored location history
+ * before saving them.
+ */
+export function AntiCheatRules({ className = "" }: { className?: string }) {
+  const [rules, setRules] = useState<AntiCheatRuleSet>(DEFAULT_ANTI_CHEAT_RULES)
+  const [draft, setDraft] = useState<AntiCheatRuleSet>(DEFAULT_ANTI_CHEAT_RULES)
+  const [rows, setRows] = useState<AntiCheatRule[]>([])
+  const [versions, setVersions] = useState<AntiCheatRuleVersion[]>([])
+  const [loading, setLoading] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [saving, setSaving] = useState<AntiCheatRuleKey | null>(null)
+  const [historyOpen, setHistoryOpen] = useState<AntiCheatRuleKey | null>(null)
+  const [dryRunWindow, setDryRunWindow] = useState("24")
+  const [dryRunning, setDryRunning] = useState(false)
+  const [report, setReport] = useState<DryRunReport | null>(null)
+
+  useEffect(() => {
+    const supabase = createClient()
+    let cancelled = false
+
+    const fetchRules = async () => {
+      setLoading(true)
+
+      const [{ data: ruleRows, error }, { data: versionRows }] = await Promise.all([
+        supabase.from("anti_cheat_rules").select("*"),
+        supabase
+          .from("anti_cheat_rule_versions")
+          .select("*")
+          .order("created_at", { ascending: false })
+          .limit(100),
+      ])
+
+      if (cancelled) return
+      setLoading(false)
+
+      if (error) {
+        toast.error("Failed to load anti-cheat rules", { description: error.message })
+        return
+      }
+
+      const ruleSet = toAntiCheatRuleSet((ruleRows || []) as AntiCheatRule[])
+      setRows((ruleRows || []) as AntiCheatRule[])
+      setVersions((versionRows || []) as AntiCheatRuleVersion[])
+      setRules(ruleSet)
+      setDraft(structuredClone(ruleSet))
+    }
+
+    fetchRules()
+    return () => { cancelled = true }
+  }, [reloadKey])
+
+  const isChanged = (key: AntiCheatRuleKey) =>
+    draft[key].enabled !== rules[key].enabled ||
+    Object.keys(draft[key].thresholds).some((field) => draft[key].thresholds[field] !== rules[key].thresholds[field])
+
+  const hasErrors = ANTI_CHEAT_RULE_KEYS.some(
+    (key) => Object.keys(validateRuleThresholds(key, draft[key].thresholds)).length > 0
+  )
+
+  const setEnabled = (key: AntiCheatRuleKey, enabled: boolean) => {
+    setDraft((prev) => ({ ...prev, [key]: { ...prev[key], enabled } }))
+  }
+
+  const setThreshold = (key: AntiCheatRuleKey, field: string, value: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      [key]: { ...prev[key], thresholds: { ...prev[key].thresholds, [field]: value === "" ? NaN : Number(value) } },
+    }))
+  }
+
+  const handleSave = async (key: AntiCheatRuleKey) => {
+    setSaving(key)
+
+    // The RPC bumps the version and logs an admin_action
+    const supabase = createClient()
+    const { data, error } = await supabase.rpc("update_anti_cheat_rule", {
+      p_rule_key: key,
+      p_enabled: draft[key].enabled,
+      p_thresholds: draft[key].thresholds,
+    })
+
+    setSaving(null)
+
+    const result = data as { success: boolean; error?: string; rule?: AntiCheatRule } | null
+    if (error || !result?.success) {
+      toast.error("Failed to save rule", { description: error?.message || result?.error })
+      return
+    }
+
+    toast.success(`${ANTI_CHEAT_RULE_DEFINITIONS[key].name} saved (v${result.rule?.version})`)
+    setReloadKey((k) => k + 1)
+  }
+
+  const handleDryRun = async () => {
+    setDryRunning(true)
+    setReport(null)
+
+    const since = new Date(Date.now() - dryRunWindows[dryRunWindow].hours * 3600_000).toISOString()
+    const supabase = createClient()
+    const { data, error } = await supabase
+      .from("player_location_history")
+      .select("user_id, latitude, longitude, accuracy_meters, speed_mps, movement_type, recorded_at")
+      .gte("recorded_at", since)
+      .order("user_id")
+      .order("recorded_at")
+      .limit(DRY_RUN_MAX_POINTS)
+
+    if (error) {
+      setDryRunning(false)
+      toast.error("Failed to load location history", { description: error.message })
+      return
+    }
+
+    const history = (data || []) as PlayerLocationHistory[]
+    setReport({
+      current: replayAntiCheatRules(rules, history),
+      proposed: replayAntiCheatRules(draft, history),
+      truncated: history.length >= DRY_RUN_MAX_POINTS,
+    })
+    setDryRunning(false)
+  }
+
+  return (
+    <Card className={`border-saddle-light/30 ${className}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-saddle-dark">
+          <SlidersHorizontal className="h-5 w-5" />
+          Detection Rules
+        </CardTitle>
+        <CardDescription>
+          Thresholds used by the mobile API and the database detectors. Every save creates a new version.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading && rows.length === 0 ? (
+          <div className="h-24 bg-parchment animate-pulse rounded" />
+        ) : (
+          <div className="space-y-4">
+            {ANTI_CHEAT_RULE_KEYS.map((key) => {
+              const definition = ANTI_CHEAT_RULE_DEFINITIONS[key]
+              const errors = validateRuleThresholds(key, draft[key].thresholds)
+              const row = rows.find((r) => r.rule_key === key)
+              const ruleVersions = versions.filter((v) => v.rule_key === key)
+
+              return (
+                <div key={key} className="rounded-lg border border-saddle-light/30 p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-saddle-dark">{definition.name}</span>
+                        {row && <Badge variant="outline">v{row.version}</Badge>}
+                        {!draft[key].enabled && <Badge className="bg-gray-100 text-gray-700">Disabled</Badge>}
+                      </div>
+                      <p className="text-sm text-leather-light">{definition.description}</p>
+                      {row && (
+                        <p className="text-xs text-leather-light">
+                          Updated {formatDistanceToNow(new Date(row.updated_at), { addSuffix: true })}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={draft[key].enabled}
+                        onCheckedChange={(checked) => setEnabled(key, checked)}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setHistoryOpen(historyOpen === key ? null : key)}
+                        disabled={ruleVersions.length === 0}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleSave(key)}
+                        disabled={!row || !isChanged(key) || Object.keys(errors).length > 0 || saving !== null}
+                        className="bg-gold hover:bg-gold/90 text-leather"
+                      >
+                        {saving === key ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {definition.thresholds.length > 0 && (
+                    <div className="grid gap-3 md:grid-cols-3">
+                      {definition.thresholds.map((field) => {
+                        const value = draft[key].thresholds[field.key]
+                        return (
+                          <div key={field.key} className="space-y-1">
+                            <Label htmlFor={`${key}-${field.key}`} className="text-xs">
+                              {field.label} ({field.unit})
+                            </Label>
+                            <Input
+                              id={`${key}-${field.key}`}
+                              type="number"
+                              min={field.min}
+                              max={field.max}
+                              value={Number.isFinite(value) ? value : ""}
+                              onChange={(e) => setThreshold(key, field.key, e.target.value)}
+                              disabled={!draft[key].enabled}
+                              className="border-saddle-light/30"
+                            />
+                            {errors[field.key] && (
+                              <p className="text-xs text-fire">{errors[field.key]}</p>
+                            )}
+                          </div>
+                        )
+                      })}
+                    </div>
+                  )}
+
+                  {historyOpen === key && (
+                    <ul className="space-y-1 text-xs text-leather">
+                      {ruleVersions.map((version) => (
+                        <li key={version.id} className="flex gap-2">
+                          <span className="font-medium text-saddle-dark">v{version.version}</span>
+                          <span>{version.enabled ? "enabled" : "disabled"}</span>
+                          <span className="text-leather-light">
+                            {Object.entries(version.thresholds).map(([field, value]) => `${field}=${value}`).join(", ")}
+                          </span>
+                          <span className="text-leather-light ml-auto">
+                            {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {/* Dry run */}
+        <div className="rounded-lg bg-parchment p-4 space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <p className="font-medium text-saddle-dark flex items-center gap-2">
+                <FlaskConical className="h-4 w-4" />
+                Dry Run
+              </p>
+              <p className="text-xs text-leather-light">
+                Replays stored location history against the saved and the edited rules. Nothing is flagged.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={dryRunWindow} onValueChange={setDryRunWindow}>
+                <SelectTrigger className="w-[150px] border-saddle-light/30">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(dryRunWindows).map(([value, { label }]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                onClick={handleDryRun}
+                disabled={dryRunning || hasErrors}
+                className="border-saddle-light/30"
+              >
+                {dryRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FlaskConical className="h-4 w-4 mr-2" />}
+                Run
+              </Button>
+            </div>
+          </div>
+
+          {report && (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rule</TableHead>
+                    <TableHead className="text-right">Saved rules</TableHead>
+                    <TableHead className="text-right">Edited rules</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ANTI_CHEAT_RULE_KEYS.filter((key) => key !== "mock_location").map((key) => {
+                    const change = report.proposed.flags[key] - report.current.flags[key]
+                    return (
+                      <TableRow key={key}>
+                        <TableCell>{ANTI_CHEAT_RULE_DEFINITIONS[key].name}</TableCell>
+                        <TableCell className="text-right">{report.current.flags[key]}</TableCell>
+                        <TableCell className="text-right">{report.proposed.flags[key]}</TableCell>
+                        <TableCell className={`text-right ${change > 0 ? "text-fire" : change < 0 ? "text-green-600" : ""}`}>
+                          {change > 0 ? `+${change}` : change}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                  <TableRow className="font-medium">
+                    <TableCell>Total flags (players)</TableCell>
+                    <TableCell className="text-right">
+                      {report.current.totalFlags} ({report.current.flaggedPlayers})
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {report.proposed.totalFlags} ({report.proposed.flaggedPlayers})
+                    </TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableBody>
+              </Table>
+              <p className="text-xs text-leather-light">
+                {report.current.points.toLocaleString()} points from {report.current.players} players.
+                {report.truncated && ` Only the first ${DRY_RUN_MAX_POINTS.toLocaleString()} points were replayed.`}
+                {" "}Mock location can&apos;t be replayed (history doesn&apos;t record it).
+              </p>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,347 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { createClient } from "@/lib/supabase/client"
+import type { CheatAppeal, CheatAppealStatus, CheatFlag, UserProfile } from "@/types/database"
+import { APPEAL_STATUS_LABELS } from "@/lib/cheat-appeals"
+import {
+  getCheatReasonDescription,
+  getCheatReasonLabel,
+  getSeverityBadgeColor,
+} from "@/components/maps/anti-cheat-config"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { CheckCircle, MessageSquareWarning, RefreshCw, XCircle } from "lucide-react"
+import { toast } from "sonner"
+import { format, formatDistanceToNow } from "date-fns"
+
+type MemberProfile = Pick<UserProfile, "id" | "full_name" | "email">
+type AppealedAction = { id: string; action: string; duration_days: number | null; performed_at: string; detected_by: string | null }
+
+const statusStyles: Record<CheatAppealStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-700",
+  upheld: "bg-red-100 text-red-700",
+  overturned: "bg-green-100 text-green-700",
+}
+
+/**
+ * Evidence fields worth showing next to an appeal
+ */
+function evidenceRows(evidence: CheatFlag["evidence"]): [string, string][] {
+  const rows: [string, string][] = []
+  if (evidence.distance_meters !== undefined) rows.push(["Distance", `${Math.round(evidence.distance_meters)} m`])
+  if (evidence.time_seconds !== undefined) rows.push(["Time", `${Math.round(evidence.time_seconds)} s`])
+  if (evidence.calculated_speed_kmh !== undefined) rows.push(["Calculated speed", `${Math.round(evidence.calculated_speed_kmh)} km/h`])
+  if (evidence.reported_speed_kmh !== undefined) rows.push(["Reported speed", `${Math.round(evidence.reported_speed_kmh)} km/h`])
+  if (evidence.accuracy_meters !== undefined) rows.push(["Accuracy", `${Math.round(Number(evidence.accuracy_meters))} m`])
+  if (evidence.is_mock_location !== undefined) rows.push(["Mock location", evidence.is_mock_location ? "Yes" : "No"])
+  if (evidence.device_model) rows.push(["Device", evidence.device_model])
+  if (evidence.current_location) {
+    rows.push(["Location", `${evidence.current_location.latitude.toFixed(5)}, ${evidence.current_location.longitude.toFixed(5)}`])
+  }
+  return rows
+}
+
+/**
+ * Appeals queue (migration 027): the player's explanation next to the flag
+ * evidence, resolved by upholding or overturning.
+ */
+export function AppealsQueue() {
+  const [appeals, setAppeals] = useState<CheatAppeal[]>([])
+  const [flags, setFlags] = useState<Map<string, CheatFlag>>(new Map())
+  const [actions, setActions] = useState<Map<string, AppealedAction>>(new Map())
+  const [profiles, setProfiles] = useState<Map<string, MemberProfile>>(new Map())
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [statusFilter, setStatusFilter] = useState<CheatAppealStatus | "all">("pending")
+  const [resolving, setResolving] = useState<{ appeal: CheatAppeal; outcome: "upheld" | "overturned" } | null>(null)
+  const [note, setNote] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    const supabase = createClient()
+    let cancelled = false
+
+    const fetchAppeals = async () => {
+      setLoading(true)
+      setError(null)
+
+      let query = supabase
+        .from("cheat_appeals")
+        .select("*")
+        .order("created_at", { ascending: statusFilter === "pending" })
+        .limit(100)
+      if (statusFilter !== "all") query = query.eq("status", statusFilter)
+
+      const { data, error: appealsError } = await query
+      if (cancelled) return
+      if (appealsError) {
+        setLoading(false)
+        setError(appealsError.message)
+        return
+      }
+
+      const rows = (data || []) as CheatAppeal[]
+      const flagIds = rows.map((a) => a.cheat_flag_id)
+      const actionIds = rows.map((a) => a.player_action_id).filter((id): id is string => !!id)
+      const userIds = Array.from(new Set(rows.map((a) => a.user_id)))
+
+      const [{ data: flagRows }, { data: actionRows }, { data: profileRows }] = await Promise.all([
+        flagIds.length > 0
+          ? supabase.from("cheat_flags").select("*").in("id", flagIds)
+          : Promise.resolve({ data: [] }),
+        actionIds.length > 0
+          ? supabase.from("player_actions").select("id, action, duration_days, performed_at, detected_by").in("id", actionIds)
+          : Promise.resolve({ data: [] }),
+        userIds.length > 0
+          ? supabase.from("profiles").select("id, full_name, email").in("id", userIds)
+          : Promise.resolve({ data: [] }),
+      ])
+
+      if (cancelled) return
+      setLoading(false)
+      setAppeals(rows)
+      setFlags(new Map(((flagRows || []) as CheatFlag[]).map((f) => [f.id, f])))
+      setActions(new Map(((actionRows || []) as AppealedAction[]).map((a) => [a.id, a])))
+      setProfiles(new Map(((profileRows || []) as MemberProfile[]).map((p) => [p.id, p])))
+    }
+
+    fetchAppeals()
+    return () => { cancelled = true }
+  }, [statusFilter, reloadKey])
+
+  const memberName = (userId: string) => {
+    const profile = profiles.get(userId)
+    return profile?.full_name || profile?.email || userId.slice(0, 8)
+  }
+
+  const openResolve = (appeal: CheatAppeal, outcome: "upheld" | "overturned") => {
+    setResolving({ appeal, outcome })
+    setNote("")
+  }
+
+  const handleResolve = async () => {
+    if (!resolving) return
+    setSubmitting(true)
+
+    // Overturning clears the flag and reverses the appealed action
+    const supabase = createClient()
+    const { data, error: rpcError } = await supabase.rpc("resolve_cheat_appeal", {
+      p_appeal_id: resolving.appeal.id,
+      p_outcome: resolving.outcome,
+      p_note: note.trim() || null,
+    })
+
+    setSubmitting(false)
+
+    const result = data as { success: boolean; error?: string; appeal?: CheatAppeal } | null
+    if (rpcError || !result?.success) {
+      toast.error("Failed to resolve appeal", { description: rpcError?.message || result?.error })
+      return
+    }
+
+    toast.success(
+      resolving.outcome === "overturned"
+        ? `Appeal overturned${result.appeal?.reversal_action_id ? ", action reversed" : ""} ✅`
+        : "Appeal upheld"
+    )
+    setResolving(null)
+    setReloadKey((key) => key + 1)
+  }
+
+  return (
+    <Card className="border-saddle-light/30">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="text-saddle-dark flex items-center gap-2">
+            <MessageSquareWarning className="h-5 w-5" />
+            Appeals
+          </CardTitle>
+          <CardDescription>
+            Players contesting a cheat flag. Overturning clears the flag and lifts the action it led to.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as CheatAppealStatus | "all")}>
+            <SelectTrigger className="w-[150px] border-saddle-light/30">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All appeals</SelectItem>
+              {(Object.keys(APPEAL_STATUS_LABELS) as CheatAppealStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>{APPEAL_STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setReloadKey((key) => key + 1)}
+            disabled={loading}
+            className="border-saddle-light/30"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-fire text-sm p-4 bg-fire/10 rounded-lg">
+            Error loading appeals: {error}
+          </div>
+        ) : loading && appeals.length === 0 ? (
+          <div className="h-24 bg-parchment animate-pulse rounded" />
+        ) : appeals.length === 0 ? (
+          <div className="text-center py-12 text-leather-light">
+            <MessageSquareWarning className="mx-auto h-12 w-12 text-saddle-light/50 mb-4" />
+            <p className="text-lg font-medium">No appeals</p>
+            <p className="text-sm">Appeals sent from the app will show up here.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {appeals.map((appeal) => {
+              const flag = flags.get(appeal.cheat_flag_id)
+              const action = appeal.player_action_id ? actions.get(appeal.player_action_id) : undefined
+
+              return (
+                <div key={appeal.id} className="rounded-lg border border-saddle-light/30 p-4 grid gap-4 md:grid-cols-2">
+                  {/* Appeal */}
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-saddle-dark">{memberName(appeal.user_id)}</span>
+                      <Badge className={statusStyles[appeal.status]}>{APPEAL_STATUS_LABELS[appeal.status]}</Badge>
+                    </div>
+                    <p className="text-xs text-leather-light">
+                      {formatDistanceToNow(new Date(appeal.created_at), { addSuffix: true })}
+                      {action && (
+                        <> · Appealing {action.action === "suspended" ? `${action.duration_days}-day suspension` : action.action}
+                          {action.detected_by === "system" && " (automatic)"}</>
+                      )}
+                    </p>
+                    <p className="text-sm text-leather whitespace-pre-wrap bg-parchment rounded p-3">{appeal.message}</p>
+                    {appeal.status !== "pending" && (
+                      <p className="text-xs text-leather-light">
+                        {APPEAL_STATUS_LABELS[appeal.status]}
+                        {appeal.resolved_at && ` ${formatDistanceToNow(new Date(appeal.resolved_at), { addSuffix: true })}`}
+                        {appeal.reversal_action_id && " · action reversed"}
+                        {appeal.resolution_note && ` · “${appeal.resolution_note}”`}
+                      </p>
+                    )}
+                    {appeal.status === "pending" && (
+                      <div className="flex gap-2 pt-1">
+                        <Button
+                          size="sm"
+                          onClick={() => openResolve(appeal, "overturned")}
+                          className="bg-green-600 hover:bg-green-700 text-white"
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Overturn
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openResolve(appeal, "upheld")}
+                          className="border-fire/30 text-fire hover:bg-fire/10"
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Uphold
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Flag evidence */}
+                  {flag ? (
+                    <div className="space-y-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-saddle-dark">{getCheatReasonLabel(flag.reason)}</span>
+                        <Badge className={getSeverityBadgeColor(flag.severity)}>{flag.severity}</Badge>
+                        <Badge variant="outline">{flag.status}</Badge>
+                      </div>
+                      <p className="text-xs text-leather-light">
+                        {getCheatReasonDescription(flag.reason)} · {format(new Date(flag.detected_at), "PPp")}
+                      </p>
+                      <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+                        {evidenceRows(flag.evidence).map(([label, value]) => (
+                          <div key={label} className="contents">
+                            <dt className="text-leather-light">{label}</dt>
+                            <dd className="text-saddle-dark">{value}</dd>
+                          </div>
+                        ))}
+                      </dl>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-leather-light">Flag not found</p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Resolve Dialog */}
+      <Dialog open={!!resolving} onOpenChange={(open) => !open && setResolving(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-saddle-dark">
+              {resolving?.outcome === "overturned" ? "Overturn Appeal" : "Uphold Appeal"}
+            </DialogTitle>
+            <DialogDescription>
+              {resolving?.outcome === "overturned"
+                ? "The flag becomes a false positive and the player's suspension or ban is lifted."
+                : "The flag is confirmed and any action stays in place."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="appeal_note">Note to the player</Label>
+            <Textarea
+              id="appeal_note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Shown in the app (optional)"
+              className="border-saddle-light/30"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setResolving(null)}
+              className="border-saddle-light/30"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleResolve}
+              disabled={submitting}
+              className={resolving?.outcome === "overturned"
+                ? "bg-green-600 hover:bg-green-700 text-white"
+                : "bg-fire hover:bg-fire/90 text-white"}
+            >
+              {submitting ? "Saving..." : resolving?.outcome === "overturned" ? "Overturn" : "Uphold"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -7,8 +7,8 @@
 
 "use client"
 
-import { useState } from "react"
-import type { Sponsor, Zone, BulkCoinPlacementConfig } from "@/types/database"
+import { useState, useMemo } from "react"
+import type { Sponsor, Zone, ZoneGeometry, BulkCoinPlacementConfig } from "@/types/database"
 import {
   Dialog,
   DialogContent,
@@ -29,20 +29,23 @@ import {
 } from "@/components/ui/select"
 import { Switch } from "@/components/ui/switch"
 import { Badge } from "@/components/ui/badge"
-import { Coins, MapPin, DollarSign, Loader2 } from "lucide-react"
+import { Coins, MapPin, DollarSign, Loader2, Ban } from "lucide-react"
 import {
   DEFAULT_BULK_PLACEMENT_CONFIG,
   DISTRIBUTION_STRATEGY_PRESETS,
   calculateBulkPlacementCost,
-  DEFAULT_SPONSOR_ZONE_FEES,
   validateBulkPlacementConfig,
 } from "@/components/maps/sponsor-config"
+import { useSponsorZoneFees } from "@/hooks/use-sponsor-zone-fees"
+import { estimateExcludedShare } from "@/components/maps/distribution-config"
 
 interface BulkCoinPlacementDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   sponsor: Sponsor
   zones: Zone[]
+  /** Active exclusion zones - coins are never placed inside them */
+  exclusions?: ZoneGeometry[]
   onPlace: (config: BulkCoinPlacementConfig) => Promise<void>
 }
 
@@ -51,8 +54,10 @@ export function BulkCoinPlacementDialog({
   onOpenChange,
   sponsor,
   zones,
+  exclusions = [],
   onPlace,
 }: BulkCoinPlacementDialogProps) {
+  const fees = useSponsorZoneFees()
   const [loading, setLoading] = useState(false)
   const [form, setForm] = useState<BulkCoinPlacementConfig>({
     sponsor_id: sponsor.id,
@@ -67,8 +72,18 @@ export function BulkCoinPlacementDialog({
     avoid_existing_coins: DEFAULT_BULK_PLACEMENT_CONFIG.avoid_existing_coins,
   })
 
-  const validation = validateBulkPlacementConfig(form)
-  const totalCost = calculateBulkPlacementCost(form, DEFAULT_SPONSOR_ZONE_FEES)
+  // How much of the target zone is a no-spawn area
+  const targetZone = zones.find(z => z.id === form.zone_id)
+  const excludedShare = useMemo(
+    () => (targetZone ? estimateExcludedShare(targetZone.geometry, exclusions) : 0),
+    [targetZone, exclusions]
+  )
+
+  const baseValidation = validateBulkPlacementConfig(form)
+  const validation = excludedShare >= 1
+    ? { valid: false, errors: [...baseValidation.errors, "The target zone lies entirely inside exclusion zones"] }
+    : baseValidation
+  const totalCost = calculateBulkPlacementCost(form, fees)
 
   const handleSubmit = async () => {
     if (!validation.valid) {
@@ -143,6 +158,12 @@ export function BulkCoinPlacementDialog({
                 Create a sponsor zone first before placing coins
               </p>
             )}
+            {excludedShare > 0 && excludedShare < 1 && (
+              <p className="text-xs text-red-700 flex items-center gap-1">
+                <Ban className="h-3 w-3" />
+                About {Math.max(1, Math.round(excludedShare * 100))}% of this zone is in exclusion zones - no coins are placed there
+              </p>
+            )}
           </div>
 
           {/* Coin Count */}
@@ -347,7 +368,7 @@ export function BulkCoinPlacementDialog({
             </div>
             {form.coin_count >= 50 && (
               <p className="text-xs text-leather-light mt-2 text-center">
-                🎉 Bulk discount applied! ({DEFAULT_SPONSOR_ZONE_FEES.bulk_placement_discount_percentage}% off)
+                🎉 Bulk discount applied! ({fees.bulk_placement_discount_percentage}% off)
               </p>
             )}
           </div>
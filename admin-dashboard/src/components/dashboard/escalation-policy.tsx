@@ -0,0 +1,366 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { createClient } from "@/lib/supabase/client"
+import type {
+  CheatSeverity,
+  EscalationMode,
+  EscalationPolicy,
+  EscalationRecommendation,
+  EscalationStep,
+  UserProfile,
+} from "@/types/database"
+import {
+  DEFAULT_ESCALATION_STEPS,
+  ESCALATION_MODE_DESCRIPTIONS,
+  ESCALATION_MODE_LABELS,
+  describeEscalationStep,
+  validateEscalationStep,
+} from "@/lib/escalation-policy"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Check, Loader2, Plus, Save, Trash2, TrendingUp, X } from "lucide-react"
+import { toast } from "sonner"
+import { formatDistanceToNow } from "date-fns"
+import { getSeverityBadgeColor } from "@/components/maps/anti-cheat-config"
+
+type MemberProfile = Pick<UserProfile, "id" | "full_name" | "email">
+
+const SEVERITIES: CheatSeverity[] = ["low", "medium", "high", "critical"]
+
+const actionStyles: Record<EscalationStep["action"], string> = {
+  warned: "bg-yellow-100 text-yellow-700",
+  suspended: "bg-orange-100 text-orange-700",
+  banned: "bg-red-100 text-red-700",
+}
+
+/**
+ * Escalation ladder (migration 026): mode + steps, and in "recommend only"
+ * mode the suggested actions waiting for approval.
+ */
+export function EscalationPolicyPanel({ className = "" }: { className?: string }) {
+  const [policy, setPolicy] = useState<EscalationPolicy | null>(null)
+  const [mode, setMode] = useState<EscalationMode>("recommend")
+  const [steps, setSteps] = useState<EscalationStep[]>(DEFAULT_ESCALATION_STEPS)
+  const [recommendations, setRecommendations] = useState<EscalationRecommendation[]>([])
+  const [profiles, setProfiles] = useState<Map<string, MemberProfile>>(new Map())
+  const [loading, setLoading] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [saving, setSaving] = useState(false)
+  const [reviewing, setReviewing] = useState<string | null>(null)
+
+  useEffect(() => {
+    const supabase = createClient()
+    let cancelled = false
+
+    const fetchPolicy = async () => {
+      setLoading(true)
+
+      const [{ data: policyRow, error }, { data: recommendationRows }] = await Promise.all([
+        supabase.from("escalation_policy").select("*").eq("id", 1).maybeSingle(),
+        supabase
+          .from("escalation_recommendations")
+          .select("*")
+          .eq("status", "pending")
+          .order("created_at", { ascending: false })
+          .limit(50),
+      ])
+
+      const pending = (recommendationRows || []) as EscalationRecommendation[]
+      const userIds = Array.from(new Set(pending.map((r) => r.user_id)))
+      const { data: profileRows } = userIds.length > 0
+        ? await supabase.from("profiles").select("id, full_name, email").in("id", userIds)
+        : { data: [] }
+
+      if (cancelled) return
+      setLoading(false)
+
+      if (error) {
+        toast.error("Failed to load escalation policy", { description: error.message })
+        return
+      }
+
+      const loaded = policyRow as EscalationPolicy | null
+      setPolicy(loaded)
+      setMode(loaded?.mode ?? "recommend")
+      setSteps(loaded?.steps ?? DEFAULT_ESCALATION_STEPS)
+      setRecommendations(pending)
+      setProfiles(new Map(((profileRows || []) as MemberProfile[]).map((p) => [p.id, p])))
+    }
+
+    fetchPolicy()
+    return () => { cancelled = true }
+  }, [reloadKey])
+
+  const stepErrors = steps.map(validateEscalationStep)
+  const isChanged = !policy || policy.mode !== mode || JSON.stringify(policy.steps) !== JSON.stringify(steps)
+
+  const updateStep = (index: number, changes: Partial<EscalationStep>) => {
+    setSteps((prev) => prev.map((step, i) => {
+      if (i !== index) return step
+      const next = { ...step, ...changes }
+      if (next.action !== "suspended") next.duration_days = null
+      else if (next.duration_days === null) next.duration_days = 7
+      return next
+    }))
+  }
+
+  const addStep = () => {
+    const last = steps[steps.length - 1]
+    setSteps([...steps, { ...(last ?? DEFAULT_ESCALATION_STEPS[0]), flag_count: (last?.flag_count ?? 0) + 1 }])
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+
+    const supabase = createClient()
+    const { data, error } = await supabase.rpc("update_escalation_policy", {
+      p_mode: mode,
+      p_steps: steps,
+    })
+
+    setSaving(false)
+
+    const result = data as { success: boolean; error?: string } | null
+    if (error || !result?.success) {
+      toast.error("Failed to save escalation policy", { description: error?.message || result?.error })
+      return
+    }
+
+    toast.success("Escalation policy saved")
+    setReloadKey((k) => k + 1)
+  }
+
+  const handleReview = async (recommendation: EscalationRecommendation, approve: boolean) => {
+    setReviewing(recommendation.id)
+
+    // Approving records the player action (detected_by 'system') as yours
+    const supabase = createClient()
+    const { data, error } = await supabase.rpc("review_escalation_recommendation", {
+      p_recommendation_id: recommendation.id,
+      p_approve: approve,
+    })
+
+    setReviewing(null)
+
+    const result = data as { success: boolean; error?: string } | null
+    if (error || !result?.success) {
+      toast.error("Failed to review recommendation", { description: error?.message || result?.error })
+      return
+    }
+
+    toast.success(approve ? `Player ${recommendation.action}` : "Recommendation dismissed")
+    setRecommendations((prev) => prev.filter((r) => r.id !== recommendation.id))
+  }
+
+  const memberName = (userId: string) => {
+    const profile = profiles.get(userId)
+    return profile?.full_name || profile?.email || userId.slice(0, 8)
+  }
+
+  return (
+    <Card className={`border-saddle-light/30 ${className}`}>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-saddle-dark">
+            <TrendingUp className="h-5 w-5" />
+            Escalation Policy
+          </CardTitle>
+          <CardDescription>{ESCALATION_MODE_DESCRIPTIONS[mode]}</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={mode} onValueChange={(value) => setMode(value as EscalationMode)}>
+            <SelectTrigger className="w-[170px] border-saddle-light/30">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ESCALATION_MODE_LABELS) as EscalationMode[]).map((value) => (
+                <SelectItem key={value} value={value}>{ESCALATION_MODE_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !isChanged || stepErrors.some(Boolean)}
+            className="bg-gold hover:bg-gold/90 text-leather"
+          >
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Suggested actions */}
+        {recommendations.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-saddle-dark">
+              Suggested actions ({recommendations.length})
+            </p>
+            {recommendations.map((recommendation) => (
+              <div
+                key={recommendation.id}
+                className="flex items-center justify-between gap-3 rounded-lg border border-saddle-light/30 p-3"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-saddle-dark">{memberName(recommendation.user_id)}</span>
+                    <Badge className={actionStyles[recommendation.action]}>
+                      {recommendation.action === "suspended"
+                        ? `Suspend ${recommendation.duration_days}d`
+                        : recommendation.action === "banned" ? "Ban" : "Warn"}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-leather-light truncate">
+                    {recommendation.reason} · {formatDistanceToNow(new Date(recommendation.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button
+                    size="sm"
+                    onClick={() => handleReview(recommendation, true)}
+                    disabled={reviewing !== null}
+                    className="bg-gold hover:bg-gold/90 text-leather"
+                  >
+                    {reviewing === recommendation.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleReview(recommendation, false)}
+                    disabled={reviewing !== null}
+                    className="border-saddle-light/30"
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Dismiss
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Ladder */}
+        {loading && !policy ? (
+          <div className="h-24 bg-parchment animate-pulse rounded" />
+        ) : (
+          <div className="space-y-3">
+            <p className="text-xs text-leather-light">
+              When a flag is created or confirmed, the highest step the player meets is applied once.
+              A &quot;cleared&quot; action starts the ladder over.
+            </p>
+            {steps.map((step, index) => (
+              <div key={index} className="rounded-lg border border-saddle-light/30 p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-saddle-dark">
+                    Step {index + 1}: <span className="font-normal text-leather">{describeEscalationStep(step)}</span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4 text-fire" />
+                  </Button>
+                </div>
+                <div className="grid gap-3 md:grid-cols-6 items-end">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Flags</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={step.flag_count}
+                      onChange={(e) => updateStep(index, { flag_count: parseInt(e.target.value) || 0 })}
+                      className="border-saddle-light/30"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">At least</Label>
+                    <Select
+                      value={step.min_severity}
+                      onValueChange={(value) => updateStep(index, { min_severity: value as CheatSeverity })}
+                    >
+                      <SelectTrigger className="border-saddle-light/30">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SEVERITIES.map((severity) => (
+                          <SelectItem key={severity} value={severity}>
+                            <span className={`px-1 rounded ${getSeverityBadgeColor(severity)}`}>{severity}</span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Within (days)</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={step.window_days}
+                      onChange={(e) => updateStep(index, { window_days: parseInt(e.target.value) || 0 })}
+                      className="border-saddle-light/30"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Confirmed only</Label>
+                    <div className="h-9 flex items-center">
+                      <Switch
+                        checked={step.confirmed_only}
+                        onCheckedChange={(checked) => updateStep(index, { confirmed_only: checked })}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Action</Label>
+                    <Select
+                      value={step.action}
+                      onValueChange={(value) => updateStep(index, { action: value as EscalationStep["action"] })}
+                    >
+                      <SelectTrigger className="border-saddle-light/30">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="warned">Warn</SelectItem>
+                        <SelectItem value="suspended">Suspend</SelectItem>
+                        <SelectItem value="banned">Ban</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {step.action === "suspended" && (
+                    <div className="space-y-1">
+                      <Label className="text-xs">For (days)</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={step.duration_days ?? ""}
+                        onChange={(e) => updateStep(index, { duration_days: parseInt(e.target.value) || 0 })}
+                        className="border-saddle-light/30"
+                      />
+                    </div>
+                  )}
+                </div>
+                {stepErrors[index] && <p className="text-xs text-fire">{stepErrors[index]}</p>}
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={addStep} className="border-saddle-light/30">
+              <Plus className="h-4 w-4 mr-1" />
+              Add step
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,261 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { createClient } from "@/lib/supabase/client"
+import type { PayoutRequestWithUser, PayoutStatus } from "@/types/database"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { formatDistanceToNow } from "date-fns"
+import {
+  Banknote,
+  CheckCircle,
+  XCircle,
+  Clock,
+  Send
+} from "lucide-react"
+import { toast } from "sonner"
+
+interface PayoutsQueueProps {
+  payouts: PayoutRequestWithUser[]
+}
+
+type PayoutAction = 'approve' | 'reject' | 'mark_paid'
+
+const statusConfig: Record<PayoutStatus, { label: string; color: string; icon: typeof CheckCircle }> = {
+  pending: {
+    label: "Pending Review",
+    color: "bg-yellow-100 text-yellow-700",
+    icon: Clock
+  },
+  approved: {
+    label: "Approved",
+    color: "bg-blue-100 text-blue-700",
+    icon: CheckCircle
+  },
+  rejected: {
+    label: "Rejected",
+    color: "bg-gray-100 text-gray-600",
+    icon: XCircle
+  },
+  paid: {
+    label: "Paid",
+    color: "bg-green-100 text-green-700",
+    icon: Banknote
+  },
+}
+
+const actionMessages: Record<PayoutAction, string> = {
+  approve: "Payout approved! ✅",
+  reject: "Payout rejected - coins returned to player",
+  mark_paid: "Payout marked as paid! 💸",
+}
+
+export function PayoutsQueue({ payouts }: PayoutsQueueProps) {
+  const router = useRouter()
+  const supabase = createClient()
+  const [processingId, setProcessingId] = useState<string | null>(null)
+  const [rejecting, setRejecting] = useState<PayoutRequestWithUser | null>(null)
+  const [rejectNotes, setRejectNotes] = useState("")
+
+  const handleAction = async (payoutId: string, action: PayoutAction, notes?: string) => {
+    setProcessingId(payoutId)
+
+    // review_payout() posts the payout transaction and the activity log
+    const { data, error } = await supabase.rpc("review_payout", {
+      p_payout_id: payoutId,
+      p_action: action,
+      p_notes: notes || null,
+    })
+
+    setProcessingId(null)
+
+    const result = data as { success: boolean; error?: string } | null
+    if (error || !result?.success) {
+      toast.error("Failed to update payout", {
+        description: error?.message || result?.error,
+      })
+      return
+    }
+
+    toast.success(actionMessages[action])
+    router.refresh()
+  }
+
+  const handleMarkPaid = (payout: PayoutRequestWithUser) => {
+    if (!confirm(`Confirm that $${payout.amount.toFixed(2)} has been sent to this player?`)) {
+      return
+    }
+    handleAction(payout.id, "mark_paid")
+  }
+
+  const handleReject = async () => {
+    if (!rejecting) return
+    await handleAction(rejecting.id, "reject", rejectNotes)
+    setRejecting(null)
+    setRejectNotes("")
+  }
+
+  if (payouts.length === 0) {
+    return (
+      <div className="text-center py-12 text-leather-light">
+        <Banknote className="mx-auto h-12 w-12 text-saddle-light/50 mb-4" />
+        <p className="text-lg font-medium">No payout requests</p>
+        <p className="text-sm">Requests from players will appear here for review.</p>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow className="hover:bg-transparent">
+            <TableHead className="text-leather">Player</TableHead>
+            <TableHead className="text-leather">Amount</TableHead>
+            <TableHead className="text-leather">Method</TableHead>
+            <TableHead className="text-leather">Status</TableHead>
+            <TableHead className="text-leather">Requested</TableHead>
+            <TableHead className="text-right text-leather">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {payouts.map((payout) => {
+            const status = statusConfig[payout.status] || statusConfig.pending
+            const StatusIcon = status.icon
+            const isProcessing = processingId === payout.id
+
+            return (
+              <TableRow key={payout.id} className="hover:bg-parchment/50">
+                <TableCell>
+                  <p className="font-medium text-saddle-dark">
+                    {payout.user?.full_name || "No name set"}
+                  </p>
+                  <p className="text-sm text-leather-light">
+                    {payout.user?.email || payout.user_id.slice(0, 8)}
+                  </p>
+                </TableCell>
+                <TableCell>
+                  <span className="font-semibold text-fire">
+                    ${payout.amount.toFixed(2)}
+                  </span>
+                </TableCell>
+                <TableCell className="text-leather text-sm capitalize">
+                  {payout.payout_method || '—'}
+                </TableCell>
+                <TableCell>
+                  <Badge className={`${status.color} gap-1`}>
+                    <StatusIcon className="h-3 w-3" />
+                    {status.label}
+                  </Badge>
+                  {payout.review_notes && (
+                    <p className="mt-1 text-xs text-leather-light max-w-[200px] truncate">
+                      {payout.review_notes}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell className="text-leather-light text-sm">
+                  {formatDistanceToNow(new Date(payout.requested_at), { addSuffix: true })}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    {payout.status === "pending" && (
+                      <Button
+                        size="sm"
+                        onClick={() => handleAction(payout.id, "approve")}
+                        disabled={isProcessing}
+                        className="bg-gold hover:bg-gold-dark text-leather"
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                    )}
+                    {payout.status === "approved" && (
+                      <Button
+                        size="sm"
+                        onClick={() => handleMarkPaid(payout)}
+                        disabled={isProcessing}
+                        className="bg-green-600 hover:bg-green-700 text-white"
+                      >
+                        <Send className="h-4 w-4 mr-1" />
+                        Mark Paid
+                      </Button>
+                    )}
+                    {(payout.status === "pending" || payout.status === "approved") && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setRejecting(payout)}
+                        disabled={isProcessing}
+                        className="border-fire/30 text-fire hover:bg-fire/10"
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            )
+          })}
+        </TableBody>
+      </Table>
+
+      {/* Reject Dialog */}
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-saddle-dark">Reject Payout</DialogTitle>
+            <DialogDescription>
+              {rejecting && `$${rejecting.amount.toFixed(2)} will be returned to the player's parked coins.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="reject_notes">Reason</Label>
+            <Textarea
+              id="reject_notes"
+              value={rejectNotes}
+              onChange={(e) => setRejectNotes(e.target.value)}
+              placeholder="Why is this payout being rejected?"
+              className="border-saddle-light/30"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setRejecting(null)}
+              className="border-saddle-light/30"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReject}
+              disabled={!!processingId}
+              className="bg-fire hover:bg-fire/90 text-white"
+            >
+              {processingId ? "Rejecting..." : "Reject Payout"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
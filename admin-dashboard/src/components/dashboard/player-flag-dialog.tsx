@@ -7,7 +7,8 @@
 
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
+import { createClient } from "@/lib/supabase/client"
 import type { FlaggedPlayer, CheatFlag, CheatFlagStatus, PlayerAction } from "@/types/database"
 import {
   Dialog,
@@ -48,7 +49,17 @@ import {
   calculateSpeed,
 } from "@/components/maps/anti-cheat-config"
 import { calculateDistance } from "@/components/maps/map-config"
-import { format } from "date-fns"
+import { format, formatDistanceToNow } from "date-fns"
+
+/** Suspension lengths offered when suspending from a review */
+const SUSPENSION_DAYS = [1, 3, 7, 14, 30]
+
+/** get_account_restriction() result (migration 018) */
+interface EnforcedRestriction {
+  action: "suspended" | "banned"
+  reason: string | null
+  expires_at: string | null
+}
 
 interface PlayerFlagDialogProps {
   open: boolean
@@ -58,12 +69,14 @@ interface PlayerFlagDialogProps {
     flag: CheatFlag,
     status: CheatFlagStatus,
     action: PlayerAction,
-    notes?: string
+    notes?: string,
+    durationDays?: number
   ) => Promise<void>
   onTakeAction: (
     player: FlaggedPlayer,
     action: PlayerAction,
-    reason: string
+    reason: string,
+    durationDays?: number
   ) => Promise<void>
   onClear: (flagId: string, notes: string) => Promise<void>
 }
@@ -83,13 +96,48 @@ export function PlayerFlagDialog({
   const [reviewStatus, setReviewStatus] = useState<CheatFlagStatus>("pending")
   const [reviewAction, setReviewAction] = useState<PlayerAction>("none")
   const [notes, setNotes] = useState("")
+  const [suspensionDays, setSuspensionDays] = useState("7")
+  const [restriction, setRestriction] = useState<EnforcedRestriction | null>(null)
+  const [restrictionLoading, setRestrictionLoading] = useState(false)
+
+  // What the mobile API enforces right now (expired suspensions drop out)
+  useEffect(() => {
+    if (!open) return
+
+    const supabase = createClient()
+    let cancelled = false
+
+    const fetchRestriction = async () => {
+      setRestrictionLoading(true)
+      const { data, error } = await supabase.rpc("get_player_restriction", {
+        p_user_id: player.user_id,
+      })
+      if (cancelled) return
+      setRestrictionLoading(false)
+      const result = data as { success: boolean; error?: string; restriction?: EnforcedRestriction | null } | null
+      if (error || !result?.success) {
+        console.error("Failed to load account restriction:", error || result?.error)
+        return
+      }
+      setRestriction(result.restriction ?? null)
+    }
+
+    fetchRestriction()
+    return () => { cancelled = true }
+  }, [open, player.user_id])
 
   const handleReview = async () => {
     if (!selectedFlag) return
 
     setLoading(true)
     try {
-      await onReview(selectedFlag, reviewStatus, reviewAction, notes)
+      await onReview(
+        selectedFlag,
+        reviewStatus,
+        reviewAction,
+        notes,
+        reviewAction === "suspended" ? Number(suspensionDays) : undefined
+      )
       onOpenChange(false)
       setNotes("")
     } catch (error) {
@@ -188,6 +236,46 @@ export function PlayerFlagDialog({
             </div>
           </div>
 
+          {/* Enforced State */}
+          <div className="p-4 bg-parchment/50 rounded-lg">
+            <div className="text-xs text-leather-light mb-1">Enforced in the app</div>
+            {restrictionLoading ? (
+              <div className="h-5 w-40 bg-parchment animate-pulse rounded" />
+            ) : restriction?.action === "banned" ? (
+              <div className="flex items-center gap-2">
+                <Ban className="h-4 w-4 text-red-700" />
+                <span className="font-medium text-red-700">Banned</span>
+                {restriction.reason && (
+                  <span className="text-sm text-leather-light">— {restriction.reason}</span>
+                )}
+              </div>
+            ) : restriction?.action === "suspended" ? (
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <UserX className="h-4 w-4 text-orange-600" />
+                  <span className="font-medium text-orange-600">Suspended</span>
+                  {restriction.reason && (
+                    <span className="text-sm text-leather-light">— {restriction.reason}</span>
+                  )}
+                </div>
+                {restriction.expires_at && (
+                  <div className="flex items-center gap-2 text-sm text-leather">
+                    <Clock className="h-4 w-4 text-saddle-light" />
+                    Ends {format(new Date(restriction.expires_at), "PPp")} (
+                    {formatDistanceToNow(new Date(restriction.expires_at))} left)
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <CheckCircle className="h-4 w-4 text-green-600" />
+                <span className="font-medium text-green-700">
+                  {player.current_action === "suspended" ? "Suspension ended" : "Can play"}
+                </span>
+              </div>
+            )}
+          </div>
+
           {/* Flag Selection */}
           {player.flags.length > 1 && (
             <div className="space-y-2">
@@ -396,6 +484,24 @@ export function PlayerFlagDialog({
                 </div>
               </div>
 
+              {reviewAction === "suspended" && (
+                <div className="space-y-2">
+                  <Label>Suspension Length</Label>
+                  <Select value={suspensionDays} onValueChange={setSuspensionDays}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SUSPENSION_DAYS.map((days) => (
+                        <SelectItem key={days} value={String(days)}>
+                          {days} {days === 1 ? "day" : "days"}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label>Notes</Label>
                 <Textarea
@@ -422,7 +528,7 @@ export function PlayerFlagDialog({
             <Button
               variant="destructive"
               onClick={() => handleTakeAction('banned')}
-              disabled={loading || player.current_action === 'banned'}
+              disabled={loading || restriction?.action === 'banned'}
             >
               <Ban className="mr-2 h-4 w-4" />
               Ban Player
@@ -0,0 +1,252 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import { createClient } from "@/lib/supabase/client"
+import type { SettingsKey, SettingsVersionWithAuthor } from "@/types/database"
+import {
+  SETTINGS_KEY_LABELS,
+  diffSettings,
+  formatSettingsValue,
+} from "@/lib/settings-history"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { formatDistanceToNow } from "date-fns"
+import { ArrowRight, History, RotateCcw } from "lucide-react"
+import { toast } from "sonner"
+
+interface SettingsHistoryProps {
+  versions: SettingsVersionWithAuthor[]
+}
+
+const SETTINGS_KEYS = Object.keys(SETTINGS_KEY_LABELS) as SettingsKey[]
+
+export function SettingsHistory({ versions }: SettingsHistoryProps) {
+  const router = useRouter()
+  const supabase = createClient()
+  const [settingKey, setSettingKey] = useState<SettingsKey>("game_settings")
+  const [fromVersion, setFromVersion] = useState<string>("")
+  const [toVersion, setToVersion] = useState<string>("")
+  const [rollingBack, setRollingBack] = useState<number | null>(null)
+
+  // Newest first
+  const keyVersions = useMemo(
+    () => versions
+      .filter((v) => v.setting_key === settingKey)
+      .sort((a, b) => b.version - a.version),
+    [versions, settingKey]
+  )
+  const versionById = useMemo(
+    () => new Map(versions.map((v) => [v.id, v])),
+    [versions]
+  )
+
+  // Compare defaults to the two newest versions
+  const latest = keyVersions[0]
+  const toSelected = keyVersions.find((v) => String(v.version) === toVersion) ?? latest
+  const fromSelected = keyVersions.find((v) => String(v.version) === fromVersion) ?? keyVersions[1] ?? latest
+  const changes = fromSelected && toSelected
+    ? diffSettings(settingKey, fromSelected.settings, toSelected.settings)
+    : []
+
+  // Changes each version made relative to the one before it
+  const changedFields = (index: number) => {
+    const previous = keyVersions[index + 1]
+    if (!previous) return null
+    return diffSettings(settingKey, previous.settings, keyVersions[index].settings)
+  }
+
+  const handleKeyChange = (value: string) => {
+    setSettingKey(value as SettingsKey)
+    setFromVersion("")
+    setToVersion("")
+  }
+
+  const handleRollback = async (version: number) => {
+    if (!confirm(`Restore ${SETTINGS_KEY_LABELS[settingKey]} to version ${version}? This creates a new version.`)) {
+      return
+    }
+
+    setRollingBack(version)
+
+    // rollback_settings() writes the new version and the admin_action log
+    const { data, error } = await supabase.rpc("rollback_settings", {
+      p_setting_key: settingKey,
+      p_version: version,
+    })
+
+    setRollingBack(null)
+
+    const result = data as { success: boolean; error?: string; version?: { version: number } } | null
+    if (error || !result?.success) {
+      toast.error("Rollback failed", { description: error?.message || result?.error })
+      return
+    }
+
+    toast.success(`Restored version ${version} ⏪`, {
+      description: `Saved as version ${result.version?.version}`,
+    })
+    setFromVersion("")
+    setToVersion("")
+    router.refresh()
+  }
+
+  return (
+    <div className="space-y-6">
+      <Tabs value={settingKey} onValueChange={handleKeyChange}>
+        <TabsList className="bg-parchment">
+          {SETTINGS_KEYS.map((key) => (
+            <TabsTrigger
+              key={key}
+              value={key}
+              className="data-[state=active]:bg-gold data-[state=active]:text-leather"
+            >
+              {SETTINGS_KEY_LABELS[key]}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {keyVersions.length === 0 ? (
+        <div className="text-center py-12 text-leather-light">
+          <History className="mx-auto h-12 w-12 text-saddle-light/50 mb-4" />
+          <p className="text-lg font-medium">No versions yet</p>
+          <p className="text-sm">Changes to these settings will be recorded here.</p>
+        </div>
+      ) : (
+        <>
+          {/* Compare two versions */}
+          <div className="rounded-lg border border-saddle-light/30 p-4 space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-2">
+                <Label>Compare</Label>
+                <Select value={String(fromSelected.version)} onValueChange={setFromVersion}>
+                  <SelectTrigger className="w-[140px] border-saddle-light/30">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {keyVersions.map((v) => (
+                      <SelectItem key={v.id} value={String(v.version)}>Version {v.version}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <ArrowRight className="h-4 w-4 mb-3 text-leather-light" />
+              <div className="space-y-2">
+                <Label>With</Label>
+                <Select value={String(toSelected.version)} onValueChange={setToVersion}>
+                  <SelectTrigger className="w-[140px] border-saddle-light/30">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {keyVersions.map((v) => (
+                      <SelectItem key={v.id} value={String(v.version)}>Version {v.version}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {changes.length === 0 ? (
+              <p className="text-sm text-leather-light">No differences between these versions.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="hover:bg-transparent">
+                    <TableHead className="text-leather">Setting</TableHead>
+                    <TableHead className="text-leather">Version {fromSelected.version}</TableHead>
+                    <TableHead className="text-leather">Version {toSelected.version}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changes.map((change) => (
+                    <TableRow key={change.field} className="hover:bg-parchment/50">
+                      <TableCell className="font-medium text-saddle-dark">{change.label}</TableCell>
+                      <TableCell className="text-fire line-through">{formatSettingsValue(change.from)}</TableCell>
+                      <TableCell className="text-green-700 font-medium">{formatSettingsValue(change.to)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+
+          {/* Version list */}
+          <Table>
+            <TableHeader>
+              <TableRow className="hover:bg-transparent">
+                <TableHead className="text-leather">Version</TableHead>
+                <TableHead className="text-leather">Changed</TableHead>
+                <TableHead className="text-leather">By</TableHead>
+                <TableHead className="text-leather">When</TableHead>
+                <TableHead className="text-right text-leather">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {keyVersions.map((v, index) => {
+                const fields = changedFields(index)
+                const restored = v.rolled_back_from ? versionById.get(v.rolled_back_from) : null
+
+                return (
+                  <TableRow key={v.id} className="hover:bg-parchment/50">
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold text-saddle-dark">v{v.version}</span>
+                        {index === 0 && <Badge className="bg-gold/20 text-saddle-dark">Current</Badge>}
+                      </div>
+                      {restored && (
+                        <p className="text-xs text-leather-light">Rollback to v{restored.version}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-leather max-w-[320px]">
+                      {fields === null
+                        ? "Initial version"
+                        : fields.map((f) => f.label).join(", ") || "—"}
+                    </TableCell>
+                    <TableCell className="text-sm text-leather">
+                      {v.author?.full_name || v.author?.email || "System"}
+                    </TableCell>
+                    <TableCell className="text-leather-light text-sm">
+                      {formatDistanceToNow(new Date(v.created_at), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {index > 0 && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRollback(v.version)}
+                          disabled={rollingBack !== null}
+                          className="border-saddle-light/30"
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          {rollingBack === v.version ? "Restoring..." : "Roll back"}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </div>
+  )
+}
@@ -9,7 +9,7 @@
 
 import { useState, useEffect } from "react"
 import { useSponsorAnalytics } from "@/hooks/use-sponsor-analytics"
-import type { Zone, Sponsor } from "@/types/database"
+import type { Zone, ZoneGeometry, Sponsor } from "@/types/database"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -51,9 +51,11 @@ import { SponsorZoneDialog } from "./sponsor-zone-dialog"
 interface SponsorFeaturesPanelProps {
   className?: string
   zones?: Zone[]
+  /** Active exclusion zone geometries (no-spawn areas) */
+  exclusions?: ZoneGeometry[]
 }
 
-export function SponsorFeaturesPanel({ className = "", zones = [] }: SponsorFeaturesPanelProps) {
+export function SponsorFeaturesPanel({ className = "", zones = [], exclusions = [] }: SponsorFeaturesPanelProps) {
   const {
     sponsors,
     analytics,
@@ -387,8 +389,9 @@ export function SponsorFeaturesPanel({ className = "", zones = [] }: SponsorFeat
             onOpenChange={setBulkPlacementOpen}
             sponsor={selectedSponsor}
             zones={sponsorZones}
+            exclusions={exclusions}
             onPlace={async (config) => {
-              const result = await placeBulkCoins(config)
+              const result = await placeBulkCoins(config, sponsorZones, exclusions)
               if (result.success) {
                 toast.success(result.message)
                 setBulkPlacementOpen(false)
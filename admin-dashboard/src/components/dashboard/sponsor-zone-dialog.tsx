@@ -32,7 +32,7 @@ import {
 } from "@/components/ui/select"
 import { Building2, MapPin, Loader2, Info } from "lucide-react"
 import { toast } from "sonner"
-import { DEFAULT_SPONSOR_ZONE_FEES } from "@/components/maps/sponsor-config"
+import { useSponsorZoneFees } from "@/hooks/use-sponsor-zone-fees"
 
 interface SponsorZoneDialogProps {
   open: boolean
@@ -49,6 +49,7 @@ export function SponsorZoneDialog({
 }: SponsorZoneDialogProps) {
   const router = useRouter()
   const supabase = createClient()
+  const fees = useSponsorZoneFees()
   const [loading, setLoading] = useState(false)
   const [form, setForm] = useState({
     name: "",
@@ -310,10 +311,10 @@ export function SponsorZoneDialog({
                     Zone Creation Fee
                   </p>
                   <p className="text-xs text-leather-light">
-                    One-time fee: ${DEFAULT_SPONSOR_ZONE_FEES.zone_creation_fee.toFixed(2)}
+                    One-time fee: ${fees.zone_creation_fee.toFixed(2)}
                   </p>
                   <p className="text-xs text-leather-light mt-1">
-                    Monthly maintenance: ${DEFAULT_SPONSOR_ZONE_FEES.monthly_maintenance_fee.toFixed(2)}/month
+                    Monthly maintenance: ${fees.monthly_maintenance_fee.toFixed(2)}/month
                   </p>
                 </div>
               </div>
@@ -59,6 +59,7 @@ export function TransactionsSearch() {
           <SelectItem value="transfer_in">📥 Received</SelectItem>
           <SelectItem value="transfer_out">📤 Sent</SelectItem>
           <SelectItem value="payout">💸 Payouts</SelectItem>
+          <SelectItem value="adjustment">🔁 Adjustments</SelectItem>
         </SelectContent>
       </Select>
 
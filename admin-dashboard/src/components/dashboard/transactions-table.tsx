@@ -11,6 +11,7 @@ import {
 } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { formatDistanceToNow } from "date-fns"
+import { FOUND_HOLD_HOURS } from "@/lib/wallet"
 import { 
   ArrowDownCircle,
   ArrowUpCircle,
@@ -19,7 +20,10 @@ import {
   Send,
   Download,
   Wallet,
-  CircleDollarSign
+  CircleDollarSign,
+  Clock,
+  RefreshCw,
+  ShieldAlert
 } from "lucide-react"
 
 interface TransactionsTableProps {
@@ -30,7 +34,8 @@ const typeConfig: Record<TransactionType, {
   label: string
   color: string
   icon: typeof Coins
-  isIncome: boolean
+  /** null: the sign depends on the adjusted transaction */
+  isIncome: boolean | null
 }> = {
   deposit: { 
     label: "Deposit", 
@@ -74,6 +79,12 @@ const typeConfig: Record<TransactionType, {
     icon: ArrowUpCircle,
     isIncome: false
   },
+  adjustment: { 
+    label: "Adjustment", 
+    color: "bg-gray-100 text-gray-700",
+    icon: RefreshCw,
+    isIncome: null
+  },
 }
 
 const statusConfig: Record<TransactionStatus, { label: string; color: string }> = {
@@ -83,6 +94,20 @@ const statusConfig: Record<TransactionStatus, { label: string; color: string }>
   cancelled: { label: "Cancelled", color: "bg-gray-100 text-gray-600" },
 }
 
+/**
+ * When a pending find is due to confirm. Past-due finds are held because
+ * the finder has an open high/critical cheat flag.
+ */
+function getFoundConfirmation(tx: Transaction): { label: string; onHold: boolean } | null {
+  if (tx.transaction_type !== 'found' || tx.status !== 'pending') return null
+
+  const confirmsAt = new Date(new Date(tx.created_at).getTime() + FOUND_HOLD_HOURS * 60 * 60 * 1000)
+  if (confirmsAt.getTime() <= Date.now()) {
+    return { label: "On hold (cheat review)", onHold: true }
+  }
+  return { label: `Confirms ${formatDistanceToNow(confirmsAt, { addSuffix: true })}`, onHold: false }
+}
+
 export function TransactionsTable({ transactions }: TransactionsTableProps) {
   if (transactions.length === 0) {
     return (
@@ -94,59 +119,97 @@ export function TransactionsTable({ transactions }: TransactionsTableProps) {
     )
   }
 
+  // Pending vs confirmed split for found coins
+  const found = transactions.filter((tx) => tx.transaction_type === 'found')
+  const foundPending = found.filter((tx) => tx.status === 'pending').reduce((sum, tx) => sum + tx.amount, 0)
+  const foundConfirmed = found.filter((tx) => tx.status === 'confirmed').reduce((sum, tx) => sum + tx.amount, 0)
+  const foundCancelled = found.filter((tx) => tx.status === 'cancelled').reduce((sum, tx) => sum + tx.amount, 0)
+
   return (
-    <Table>
-      <TableHeader>
-        <TableRow className="hover:bg-transparent">
-          <TableHead className="text-leather">Type</TableHead>
-          <TableHead className="text-leather">Amount</TableHead>
-          <TableHead className="text-leather">Balance After</TableHead>
-          <TableHead className="text-leather">Status</TableHead>
-          <TableHead className="text-leather">Description</TableHead>
-          <TableHead className="text-leather">Date</TableHead>
-        </TableRow>
-      </TableHeader>
-      <TableBody>
-        {transactions.map((tx) => {
-          const type = typeConfig[tx.transaction_type] || typeConfig.deposit
-          const status = statusConfig[tx.status] || statusConfig.pending
-          const TypeIcon = type.icon
+    <div className="space-y-4">
+      {found.length > 0 && (
+        <div className="flex flex-wrap items-center gap-4 rounded-lg bg-parchment/50 px-4 py-2 text-sm">
+          <span className="flex items-center gap-1.5 font-medium text-saddle-dark">
+            <Coins className="h-4 w-4 text-gold" />
+            Found coins
+          </span>
+          <span className="text-yellow-700">
+            ${foundPending.toFixed(2)} pending
+          </span>
+          <span className="text-green-600">
+            ${foundConfirmed.toFixed(2)} confirmed
+          </span>
+          {foundCancelled > 0 && (
+            <span className="text-gray-600">
+              ${foundCancelled.toFixed(2)} cancelled
+            </span>
+          )}
+        </div>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow className="hover:bg-transparent">
+            <TableHead className="text-leather">Type</TableHead>
+            <TableHead className="text-leather">Amount</TableHead>
+            <TableHead className="text-leather">Balance After</TableHead>
+            <TableHead className="text-leather">Status</TableHead>
+            <TableHead className="text-leather">Description</TableHead>
+            <TableHead className="text-leather">Date</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {transactions.map((tx) => {
+            const type = typeConfig[tx.transaction_type] || typeConfig.deposit
+            const status = statusConfig[tx.status] || statusConfig.pending
+            const confirmation = getFoundConfirmation(tx)
+            const TypeIcon = type.icon
 
-          return (
-            <TableRow key={tx.id} className="hover:bg-parchment/50">
-              <TableCell>
-                <div className="flex items-center gap-2">
-                  <div className={`p-1.5 rounded-full ${type.color}`}>
-                    <TypeIcon className="h-3.5 w-3.5" />
+            return (
+              <TableRow key={tx.id} className="hover:bg-parchment/50">
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <div className={`p-1.5 rounded-full ${type.color}`}>
+                      <TypeIcon className="h-3.5 w-3.5" />
+                    </div>
+                    <span className="text-sm font-medium text-saddle-dark">
+                      {type.label}
+                    </span>
                   </div>
-                  <span className="text-sm font-medium text-saddle-dark">
-                    {type.label}
+                </TableCell>
+                <TableCell>
+                  <span className={`font-semibold ${
+                    tx.status === 'cancelled'
+                      ? 'text-gray-400 line-through'
+                      : type.isIncome === null ? 'text-leather' : type.isIncome ? 'text-green-600' : 'text-fire'
+                  }`}>
+                    {type.isIncome === null ? '' : type.isIncome ? '+' : '-'}${tx.amount.toFixed(2)}
                   </span>
-                </div>
-              </TableCell>
-              <TableCell>
-                <span className={`font-semibold ${type.isIncome ? 'text-green-600' : 'text-fire'}`}>
-                  {type.isIncome ? '+' : '-'}${tx.amount.toFixed(2)}
-                </span>
-              </TableCell>
-              <TableCell className="text-leather">
-                ${tx.balance_after.toFixed(2)}
-              </TableCell>
-              <TableCell>
-                <Badge className={`${status.color} text-xs`}>
-                  {status.label}
-                </Badge>
-              </TableCell>
-              <TableCell className="text-leather-light text-sm max-w-[200px] truncate">
-                {tx.description || '—'}
-              </TableCell>
-              <TableCell className="text-leather-light text-sm">
-                {formatDistanceToNow(new Date(tx.created_at), { addSuffix: true })}
-              </TableCell>
-            </TableRow>
-          )
-        })}
-      </TableBody>
-    </Table>
+                </TableCell>
+                <TableCell className="text-leather">
+                  ${tx.balance_after.toFixed(2)}
+                </TableCell>
+                <TableCell>
+                  <Badge className={`${status.color} text-xs`}>
+                    {status.label}
+                  </Badge>
+                  {confirmation && (
+                    <p className={`mt-1 flex items-center gap-1 text-xs ${confirmation.onHold ? 'text-fire' : 'text-leather-light'}`}>
+                      {confirmation.onHold ? <ShieldAlert className="h-3 w-3" /> : <Clock className="h-3 w-3" />}
+                      {confirmation.label}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell className="text-leather-light text-sm max-w-[200px] truncate">
+                  {tx.description || '—'}
+                </TableCell>
+                <TableCell className="text-leather-light text-sm">
+                  {formatDistanceToNow(new Date(tx.created_at), { addSuffix: true })}
+                </TableCell>
+              </TableRow>
+            )
+          })}
+        </TableBody>
+      </Table>
+    </div>
   )
 }
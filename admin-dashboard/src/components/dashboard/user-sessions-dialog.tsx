@@ -0,0 +1,224 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { createClient } from "@/lib/supabase/client"
+import type { PlayerSession, UserProfile } from "@/types/database"
+import { isSessionActive } from "@/lib/player-sessions"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { formatDistanceToNow } from "date-fns"
+import { LogOut, Smartphone } from "lucide-react"
+import { toast } from "sonner"
+
+interface UserSessionsDialogProps {
+  user: UserProfile | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Devices / sessions for one user (player_sessions, migration 022), with
+ * remote sign-out of a single device or every device.
+ */
+export function UserSessionsDialog({ user, open, onOpenChange }: UserSessionsDialogProps) {
+  const [sessions, setSessions] = useState<PlayerSession[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [signingOut, setSigningOut] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    if (!open || !user) return
+
+    const supabase = createClient()
+    let cancelled = false
+
+    const fetchSessions = async () => {
+      setLoading(true)
+      setError(null)
+
+      const { data, error: fetchError } = await supabase
+        .from("player_sessions")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("last_seen_at", { ascending: false })
+        .limit(50)
+
+      if (cancelled) return
+      setLoading(false)
+
+      if (fetchError) {
+        setError(fetchError.message)
+        return
+      }
+      setSessions((data || []) as PlayerSession[])
+    }
+
+    fetchSessions()
+    return () => { cancelled = true }
+  }, [open, user, reloadKey])
+
+  const activeCount = sessions.filter((s) => isSessionActive(s)).length
+  const openCount = sessions.filter((s) => !s.signed_out_at).length
+
+  const handleSignOut = async (session: PlayerSession | null) => {
+    if (!user) return
+
+    const target = session ? (session.device_model || "this device") : "every device"
+    if (!confirm(`Sign ${user.full_name || user.email} out of ${target}?`)) {
+      return
+    }
+
+    setSigningOut(session?.id ?? "all")
+
+    // Both functions revoke the auth session(s) and write an admin_action log
+    const supabase = createClient()
+    const { data, error: rpcError } = session
+      ? await supabase.rpc("sign_out_player_session", { p_session_id: session.id })
+      : await supabase.rpc("sign_out_player_everywhere", { p_user_id: user.id })
+
+    setSigningOut(null)
+
+    const result = data as { success: boolean; error?: string; signed_out?: number } | null
+    if (rpcError || !result?.success) {
+      toast.error("Failed to sign out", { description: rpcError?.message || result?.error })
+      return
+    }
+
+    toast.success(session ? "Device signed out 🔒" : `Signed out of ${result.signed_out} session(s) 🔒`)
+    setReloadKey((key) => key + 1)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-saddle-dark flex items-center gap-2">
+            <Smartphone className="h-5 w-5" />
+            Devices & Sessions
+          </DialogTitle>
+          <DialogDescription>
+            Where {user?.full_name || user?.email} is signed in
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-3">
+          <div className="grid grid-cols-2 gap-3 flex-1">
+            <div className="p-3 bg-parchment rounded-lg">
+              <p className="text-xs text-leather-light">Active (24h)</p>
+              <p className="text-lg font-bold text-green-600">{activeCount}</p>
+            </div>
+            <div className="p-3 bg-parchment rounded-lg">
+              <p className="text-xs text-leather-light">Signed in</p>
+              <p className="text-lg font-bold text-saddle-dark">{openCount}</p>
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => handleSignOut(null)}
+            disabled={signingOut !== null}
+            className="border-fire/30 text-fire hover:bg-fire/10"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            {signingOut === "all" ? "Signing out..." : "Sign out everywhere"}
+          </Button>
+        </div>
+
+        <div className="max-h-[400px] overflow-y-auto">
+          {error ? (
+            <div className="text-fire text-sm p-4 bg-fire/10 rounded-lg">
+              Error loading sessions: {error}
+            </div>
+          ) : loading ? (
+            <div className="h-24 bg-parchment animate-pulse rounded" />
+          ) : sessions.length === 0 ? (
+            <div className="text-center py-8 text-leather-light">
+              <Smartphone className="mx-auto h-10 w-10 text-saddle-light/50 mb-2" />
+              <p className="text-sm">No sessions recorded yet</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent">
+                  <TableHead className="text-leather">Device</TableHead>
+                  <TableHead className="text-leather">App</TableHead>
+                  <TableHead className="text-leather">IP</TableHead>
+                  <TableHead className="text-leather">Last Seen</TableHead>
+                  <TableHead className="text-leather">Status</TableHead>
+                  <TableHead className="text-right text-leather">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.map((session) => {
+                  const active = isSessionActive(session)
+
+                  return (
+                    <TableRow key={session.id} className="hover:bg-parchment/50">
+                      <TableCell>
+                        <p className="font-medium text-saddle-dark">
+                          {session.device_model || "Unknown device"}
+                        </p>
+                        <p className="text-xs text-leather-light font-mono">
+                          {session.device_id ? session.device_id.slice(0, 12) : "—"}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-sm text-leather">
+                        {session.app_version || "—"}
+                      </TableCell>
+                      <TableCell className="text-sm text-leather font-mono">
+                        {session.ip_address || "—"}
+                      </TableCell>
+                      <TableCell className="text-sm text-leather-light">
+                        {formatDistanceToNow(new Date(session.last_seen_at), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell>
+                        {session.signed_out_at ? (
+                          <Badge className="bg-gray-100 text-gray-600">
+                            {session.signed_out_by ? "Signed out by admin" : "Logged out"}
+                          </Badge>
+                        ) : active ? (
+                          <Badge className="bg-green-100 text-green-700">Active</Badge>
+                        ) : (
+                          <Badge className="bg-yellow-100 text-yellow-700">Idle</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {!session.signed_out_at && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleSignOut(session)}
+                            disabled={signingOut !== null}
+                            className="border-fire/30 text-fire hover:bg-fire/10"
+                          >
+                            <LogOut className="h-4 w-4 mr-1" />
+                            {signingOut === session.id ? "Signing out..." : "Sign out"}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
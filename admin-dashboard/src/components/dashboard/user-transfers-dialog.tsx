@@ -0,0 +1,167 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { createClient } from "@/lib/supabase/client"
+import type { TransactionWithUser, UserProfile } from "@/types/database"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { formatDistanceToNow } from "date-fns"
+import { ArrowDownCircle, ArrowLeftRight, Send } from "lucide-react"
+
+interface UserTransfersDialogProps {
+  user: UserProfile | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Transfer history for one user (support can trace where money went).
+ * transfer_in / transfer_out rows point at the other player through
+ * related_user_id.
+ */
+export function UserTransfersDialog({ user, open, onOpenChange }: UserTransfersDialogProps) {
+  const [transfers, setTransfers] = useState<TransactionWithUser[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open || !user) return
+
+    const supabase = createClient()
+    let cancelled = false
+
+    const fetchTransfers = async () => {
+      setLoading(true)
+      setError(null)
+
+      const { data, error: fetchError } = await supabase
+        .from("transactions")
+        .select("*, related_user:profiles!transactions_related_user_id_fkey(*)")
+        .eq("user_id", user.id)
+        .in("transaction_type", ["transfer_in", "transfer_out"])
+        .order("created_at", { ascending: false })
+        .limit(200)
+
+      if (cancelled) return
+      setLoading(false)
+
+      if (fetchError) {
+        setError(fetchError.message)
+        return
+      }
+      setTransfers((data || []) as TransactionWithUser[])
+    }
+
+    fetchTransfers()
+    return () => { cancelled = true }
+  }, [open, user])
+
+  const confirmed = transfers.filter((tx) => tx.status === "confirmed")
+  const totalSent = confirmed
+    .filter((tx) => tx.transaction_type === "transfer_out")
+    .reduce((sum, tx) => sum + Number(tx.amount), 0)
+  const totalReceived = confirmed
+    .filter((tx) => tx.transaction_type === "transfer_in")
+    .reduce((sum, tx) => sum + Number(tx.amount), 0)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-saddle-dark flex items-center gap-2">
+            <ArrowLeftRight className="h-5 w-5" />
+            Transfers
+          </DialogTitle>
+          <DialogDescription>
+            Coins sent and received by {user?.full_name || user?.email}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="p-3 bg-parchment rounded-lg">
+            <p className="text-xs text-leather-light">Sent</p>
+            <p className="text-lg font-bold text-fire">${totalSent.toFixed(2)}</p>
+          </div>
+          <div className="p-3 bg-parchment rounded-lg">
+            <p className="text-xs text-leather-light">Received</p>
+            <p className="text-lg font-bold text-green-600">${totalReceived.toFixed(2)}</p>
+          </div>
+        </div>
+
+        <div className="max-h-[400px] overflow-y-auto">
+          {error ? (
+            <div className="text-fire text-sm p-4 bg-fire/10 rounded-lg">
+              Error loading transfers: {error}
+            </div>
+          ) : loading ? (
+            <div className="h-24 bg-parchment animate-pulse rounded" />
+          ) : transfers.length === 0 ? (
+            <div className="text-center py-8 text-leather-light">
+              <ArrowLeftRight className="mx-auto h-10 w-10 text-saddle-light/50 mb-2" />
+              <p className="text-sm">No transfers yet</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent">
+                  <TableHead className="text-leather">Direction</TableHead>
+                  <TableHead className="text-leather">Player</TableHead>
+                  <TableHead className="text-leather">Amount</TableHead>
+                  <TableHead className="text-leather">Note</TableHead>
+                  <TableHead className="text-leather">Date</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transfers.map((tx) => {
+                  const isOut = tx.transaction_type === "transfer_out"
+                  const note = tx.metadata?.note as string | null | undefined
+
+                  return (
+                    <TableRow key={tx.id} className="hover:bg-parchment/50">
+                      <TableCell>
+                        <span className={`flex items-center gap-1 text-sm font-medium ${isOut ? "text-purple-700" : "text-blue-700"}`}>
+                          {isOut ? <Send className="h-3.5 w-3.5" /> : <ArrowDownCircle className="h-3.5 w-3.5" />}
+                          {isOut ? "Sent to" : "Received from"}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <p className="text-saddle-dark">{tx.related_user?.full_name || "No name set"}</p>
+                        <p className="text-xs text-leather-light">
+                          {tx.related_user?.email || tx.related_user_id?.slice(0, 8) || "—"}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <span className={`font-semibold ${isOut ? "text-fire" : "text-green-600"}`}>
+                          {isOut ? "-" : "+"}${Number(tx.amount).toFixed(2)}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-leather-light text-sm max-w-[160px] truncate">
+                        {note || "—"}
+                      </TableCell>
+                      <TableCell className="text-leather-light text-sm">
+                        {formatDistanceToNow(new Date(tx.created_at), { addSuffix: true })}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -34,8 +34,10 @@ import {
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { formatDistanceToNow } from "date-fns"
-import { MoreHorizontal, Shield, User, Building2, Pencil } from "lucide-react"
+import { MoreHorizontal, Shield, User, Building2, Pencil, ArrowLeftRight, Smartphone } from "lucide-react"
 import { toast } from "sonner"
+import { UserTransfersDialog } from "@/components/dashboard/user-transfers-dialog"
+import { UserSessionsDialog } from "@/components/dashboard/user-sessions-dialog"
 
 interface UsersTableProps {
   users: UserProfile[]
@@ -68,6 +70,8 @@ export function UsersTable({ users }: UsersTableProps) {
   const [editingUser, setEditingUser] = useState<UserProfile | null>(null)
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
+  const [transfersUser, setTransfersUser] = useState<UserProfile | null>(null)
+  const [sessionsUser, setSessionsUser] = useState<UserProfile | null>(null)
   const [editForm, setEditForm] = useState({
     full_name: "",
     role: "" as UserRole,
@@ -197,6 +201,14 @@ export function UsersTable({ users }: UsersTableProps) {
                         <Pencil className="mr-2 h-4 w-4" />
                         Edit User
                       </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setTransfersUser(user)}>
+                        <ArrowLeftRight className="mr-2 h-4 w-4" />
+                        View Transfers
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setSessionsUser(user)}>
+                        <Smartphone className="mr-2 h-4 w-4" />
+                        Devices & Sessions
+                      </DropdownMenuItem>
                       <DropdownMenuSeparator />
                       <DropdownMenuLabel className="text-xs text-muted-foreground">
                         Change Role
@@ -316,6 +328,20 @@ export function UsersTable({ users }: UsersTableProps) {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Transfers Dialog */}
+      <UserTransfersDialog
+        user={transfersUser}
+        open={!!transfersUser}
+        onOpenChange={(open) => !open && setTransfersUser(null)}
+      />
+
+      {/* Sessions Dialog */}
+      <UserSessionsDialog
+        user={sessionsUser}
+        open={!!sessionsUser}
+        onOpenChange={(open) => !open && setSessionsUser(null)}
+      />
     </>
   )
 }
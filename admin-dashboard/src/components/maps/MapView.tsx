@@ -4,7 +4,7 @@
  * @file admin-dashboard/src/components/maps/MapView.tsx
  * @description Interactive map showing coins, zones, and controls
  * 
- * Character count: ~9,500
+ * Character count: ~11,000
  */
 
 "use client"
@@ -17,9 +17,11 @@ import {
   type MapRef,
   type ViewStateChangeEvent
 } from "react-map-gl/mapbox"
-import type { Coin, CoinStatus, Zone, ZoneType, ActivePlayer } from "@/types/database"
+import type { Coin, CoinStatus, Zone, ZoneType, ActivePlayer, PolygonPoint } from "@/types/database"
+import type { PolygonEditor } from "@/hooks/use-polygon-editor"
 import { CoinMarker } from "./CoinMarker"
 import { ZoneLayer, ZonePreviewLayer } from "./ZoneLayer"
+import { PolygonEditLayer, PolygonEditorPanel } from "./PolygonEditLayer"
 import { PlayerLayer, PlayerStatusSummary } from "./PlayerLayer"
 import { MapControls } from "./MapControls"
 import { 
@@ -53,6 +55,8 @@ interface MapViewProps {
   onZoneEdit?: (zone: Zone) => void
   onZoneDelete?: (zone: Zone) => void
   onZoneToggleStatus?: (zone: Zone) => void
+  /** Reshape a polygon zone on the map */
+  onZoneEditShape?: (zone: Zone) => void
   /** Player interaction handlers */
   onPlayerClick?: (player: ActivePlayer) => void
   onViewPlayerProfile?: (player: ActivePlayer) => void
@@ -79,6 +83,12 @@ interface MapViewProps {
   } | null
   /** Zone type for preview styling */
   previewZoneType?: ZoneType
+  /** Polygon being reshaped (usePolygonEditor) - styled with previewZoneType */
+  polygonEditor?: PolygonEditor | null
+  /** Save the reshaped polygon (throw to report failure) */
+  onPolygonEditSave?: (polygon: PolygonPoint[]) => Promise<void> | void
+  /** Leave the polygon editor without saving */
+  onPolygonEditCancel?: () => void
   /** Show zone labels on map */
   showZoneLabels?: boolean
   /** Show players on map */
@@ -103,6 +113,7 @@ export function MapView({
   onZoneEdit,
   onZoneDelete,
   onZoneToggleStatus,
+  onZoneEditShape,
   onPlayerClick,
   onViewPlayerProfile,
   onTrackPlayer,
@@ -116,12 +127,16 @@ export function MapView({
   zoneDrawMode = null,
   zonePreview = null,
   previewZoneType = "player",
+  polygonEditor = null,
+  onPolygonEditSave,
+  onPolygonEditCancel,
   showZoneLabels = true,
   showPlayers = true,
   enablePlayerClustering = true,
   showPlayerStatusSummary = true,
 }: MapViewProps) {
   const mapRef = useRef<MapRef>(null)
+  const isEditingPolygon = !!polygonEditor?.isEditing
   
   // View state for controlled map
   const [viewState, setViewState] = useState({
@@ -187,12 +202,17 @@ export function MapView({
     if (key) setCurrentStyleKey(key)
   }, [])
 
-  // Handle map click (for placing coins)
+  // Handle map click (for placing coins); while reshaping a polygon a map
+  // click just clears the selected vertex
   const handleMapClick = useCallback((event: mapboxgl.MapLayerMouseEvent) => {
+    if (polygonEditor?.isEditing) {
+      polygonEditor.selectVertex(null)
+      return
+    }
     if (onMapClick) {
       onMapClick(event.lngLat.lat, event.lngLat.lng)
     }
-  }, [onMapClick])
+  }, [onMapClick, polygonEditor])
 
   // Locate user (browser geolocation)
   const handleLocateUser = useCallback(() => {
@@ -289,8 +309,9 @@ export function MapView({
             onZoneEdit={onZoneEdit}
             onZoneDelete={onZoneDelete}
             onZoneToggleStatus={onZoneToggleStatus}
+            onZoneEditShape={onZoneEditShape}
             showLabels={showZoneLabels}
-            interactive={!placementMode && !zoneDrawMode}
+            interactive={!placementMode && !zoneDrawMode && !isEditingPolygon}
           />
         )}
 
@@ -302,6 +323,14 @@ export function MapView({
           />
         )}
 
+        {/* Polygon being reshaped */}
+        {polygonEditor && isEditingPolygon && (
+          <PolygonEditLayer
+            editor={polygonEditor}
+            zoneType={previewZoneType}
+          />
+        )}
+
         {/* Coin markers */}
         {filteredCoins.map((coin) => (
           <CoinMarker
@@ -312,7 +341,7 @@ export function MapView({
             onDelete={onCoinDelete}
             onDragEnd={onCoinDrag}
             isSelected={coin.id === selectedCoinId}
-            draggable={enableDrag && !placementMode && !zoneDrawMode}
+            draggable={enableDrag && !placementMode && !zoneDrawMode && !isEditingPolygon}
           />
         ))}
 
@@ -364,10 +393,19 @@ export function MapView({
       {zoneDrawMode === 'polygon' && (
         <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-fire text-white px-4 py-2 rounded-full shadow-lg text-sm font-medium flex items-center gap-2 animate-bounce">
           <span>📐</span>
-          Click to add points, double-click to finish
+          Click to add points, then Finish to fine-tune the shape
         </div>
       )}
 
+      {/* Polygon editor toolbar */}
+      {polygonEditor && isEditingPolygon && onPolygonEditSave && onPolygonEditCancel && (
+        <PolygonEditorPanel
+          editor={polygonEditor}
+          onSave={onPolygonEditSave}
+          onCancel={onPolygonEditCancel}
+        />
+      )}
+
       {/* Map controls overlay */}
       <MapControls
         onZoomIn={handleZoomIn}
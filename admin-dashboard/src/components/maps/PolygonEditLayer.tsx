@@ -0,0 +1,327 @@
+/**
+ * Polygon Edit Layer - reshape a zone polygon on the map
+ *
+ * @file admin-dashboard/src/components/maps/PolygonEditLayer.tsx
+ * @description Draggable vertices, midpoint handles and crossing edges for
+ * the polygon editor (usePolygonEditor), plus its toolbar panel
+ *
+ * Character count: ~9,800
+ */
+
+"use client"
+
+import { useState, useMemo, useEffect } from "react"
+import { Source, Layer, Marker } from "react-map-gl/mapbox"
+import type { PolygonPoint, ZoneType } from "@/types/database"
+import type { PolygonEditor } from "@/hooks/use-polygon-editor"
+import {
+  ZONE_TYPE_COLORS,
+  MAX_POLYGON_POINTS,
+  POLYGON_SIMPLIFY_TOLERANCES,
+  formatArea,
+  getPolygonMidpoints,
+  validateZoneGeometry,
+} from "./zone-config"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { AlertTriangle, Check, Redo2, Trash2, Undo2, Wand2, X } from "lucide-react"
+import { toast } from "sonner"
+
+/**
+ * Color for edges that cross another edge
+ */
+const CROSSING_COLOR = "#DC2626"
+
+interface PolygonEditLayerProps {
+  editor: PolygonEditor
+  zoneType: ZoneType
+}
+
+/**
+ * Map layer for the polygon being edited - render inside <Map>
+ */
+export function PolygonEditLayer({ editor, zoneType }: PolygonEditLayerProps) {
+  const { polygon, intersections, selectedIndex } = editor
+
+  // Fill plus one line per edge, so crossing edges can be drawn in red
+  const editData = useMemo(() => {
+    if (!polygon || polygon.length < 2) {
+      return { type: "FeatureCollection" as const, features: [] }
+    }
+
+    const crossing = new Set(intersections.flat())
+    const coordinates = polygon.map(p => [p.longitude, p.latitude])
+
+    const edges = polygon.map((point, i) => {
+      const next = polygon[(i + 1) % polygon.length]
+      return {
+        type: "Feature" as const,
+        properties: { kind: "edge", crossing: crossing.has(i) },
+        geometry: {
+          type: "LineString" as const,
+          coordinates: [[point.longitude, point.latitude], [next.longitude, next.latitude]],
+        },
+      }
+    })
+
+    const fill = polygon.length >= 3 ? [{
+      type: "Feature" as const,
+      properties: { kind: "fill", crossing: false },
+      geometry: {
+        type: "Polygon" as const,
+        coordinates: [[...coordinates, coordinates[0]]],
+      },
+    }] : []
+
+    return {
+      type: "FeatureCollection" as const,
+      features: [...fill, ...edges],
+    }
+  }, [polygon, intersections])
+
+  const midpoints = useMemo(
+    () => (polygon && polygon.length < MAX_POLYGON_POINTS ? getPolygonMidpoints(polygon) : []),
+    [polygon]
+  )
+
+  if (!polygon) return null
+
+  const typeColors = ZONE_TYPE_COLORS[zoneType]
+
+  return (
+    <>
+      <Source id="polygon-edit-source" type="geojson" data={editData}>
+        <Layer
+          id="polygon-edit-fill"
+          type="fill"
+          filter={["==", ["get", "kind"], "fill"]}
+          paint={{
+            "fill-color": intersections.length > 0 ? CROSSING_COLOR : typeColors.fill,
+            "fill-opacity": 0.25,
+          }}
+        />
+        <Layer
+          id="polygon-edit-edges"
+          type="line"
+          filter={["==", ["get", "kind"], "edge"]}
+          paint={{
+            "line-color": ["case", ["get", "crossing"], CROSSING_COLOR, typeColors.border],
+            "line-width": ["case", ["get", "crossing"], 4, 3],
+          }}
+        />
+      </Source>
+
+      {/* Midpoint handles - click to add a point on that edge */}
+      {midpoints.map((midpoint, i) => (
+        <Marker
+          key={`mid-${i}`}
+          latitude={midpoint.latitude}
+          longitude={midpoint.longitude}
+          onClick={(e) => {
+            e.originalEvent.stopPropagation()
+            editor.insertVertex(i, midpoint)
+          }}
+        >
+          <div
+            className="w-2.5 h-2.5 rounded-full bg-white/70 border border-saddle cursor-copy hover:scale-150 transition-transform"
+            title="Click to add a point here"
+          />
+        </Marker>
+      ))}
+
+      {/* Vertices - drag to move, right-click to delete */}
+      {polygon.map((point, i) => (
+        <Marker
+          key={`vertex-${i}`}
+          latitude={point.latitude}
+          longitude={point.longitude}
+          draggable
+          onClick={(e) => {
+            e.originalEvent.stopPropagation()
+            editor.selectVertex(i)
+          }}
+          onDragStart={() => {
+            editor.checkpoint()
+            editor.selectVertex(i)
+          }}
+          onDrag={(e) => editor.moveVertex(i, { latitude: e.lngLat.lat, longitude: e.lngLat.lng })}
+        >
+          <div
+            className={`w-3.5 h-3.5 rounded-full border-2 border-saddle-dark shadow cursor-move ${
+              selectedIndex === i ? "bg-fire scale-125" : "bg-white"
+            }`}
+            title="Drag to move • right-click to delete"
+            onContextMenu={(e) => {
+              e.preventDefault()
+              e.stopPropagation()
+              if (!editor.deleteVertex(i)) toast.error("A polygon needs at least 3 points")
+            }}
+          />
+        </Marker>
+      ))}
+    </>
+  )
+}
+
+interface PolygonEditorPanelProps {
+  editor: PolygonEditor
+  /** Save the edited points (throw to report failure) */
+  onSave: (polygon: PolygonPoint[]) => Promise<void> | void
+  onCancel: () => void
+}
+
+/**
+ * Toolbar overlay for the polygon editor - render inside the map container
+ */
+export function PolygonEditorPanel({ editor, onSave, onCancel }: PolygonEditorPanelProps) {
+  const [tolerance, setTolerance] = useState<string>("5")
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { polygon, selectedIndex, intersections, area, canUndo, canRedo } = editor
+
+  const problem = useMemo(
+    () => (polygon ? validateZoneGeometry({ type: 'polygon', polygon }) : null),
+    [polygon]
+  )
+
+  const canDelete = selectedIndex !== null && !!polygon && polygon.length > 3
+
+  // Keyboard shortcuts: Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z or Ctrl+Y redo,
+  // Delete / Backspace removes the selected point
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return
+
+      const key = e.key.toLowerCase()
+      if ((e.ctrlKey || e.metaKey) && key === "z") {
+        e.preventDefault()
+        if (e.shiftKey) editor.redo()
+        else editor.undo()
+      } else if ((e.ctrlKey || e.metaKey) && key === "y") {
+        e.preventDefault()
+        editor.redo()
+      } else if ((key === "delete" || key === "backspace") && editor.selectedIndex !== null) {
+        e.preventDefault()
+        if (!editor.deleteVertex(editor.selectedIndex)) toast.error("A polygon needs at least 3 points")
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [editor])
+
+  if (!polygon) return null
+
+  const handleSimplify = () => {
+    const removed = editor.simplify(Number(tolerance))
+    if (removed > 0) {
+      toast.success(`Removed ${removed} point${removed === 1 ? "" : "s"}`, {
+        description: `${polygon.length - removed} points left`,
+      })
+    } else {
+      toast.info("Nothing to simplify at this tolerance")
+    }
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await onSave(polygon)
+    } catch (error) {
+      toast.error("Failed to save shape", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="absolute top-4 left-4 z-10 w-64 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg p-3 text-xs space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-bold text-saddle-dark text-sm">📐 Edit Shape</span>
+        <span className="text-leather-light">{polygon.length} pts</span>
+      </div>
+
+      <div className="flex items-center justify-between py-1.5 px-2 bg-parchment rounded">
+        <span className="text-leather-light">Area</span>
+        <span className="font-bold text-saddle-dark">{formatArea(area)}</span>
+      </div>
+
+      {problem && (
+        <div className={`flex items-start gap-1.5 ${intersections.length > 0 ? "text-red-600" : "text-fire"}`}>
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-px" />
+          <span>
+            {problem}
+            {intersections.length > 0 && ` (${intersections.length} crossing${intersections.length === 1 ? "" : "s"} shown in red)`}
+          </span>
+        </div>
+      )}
+
+      <div className="flex gap-1">
+        <Button variant="outline" size="sm" className="h-7 px-2" onClick={editor.undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+          <Undo2 className="h-3.5 w-3.5" />
+        </Button>
+        <Button variant="outline" size="sm" className="h-7 px-2" onClick={editor.redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+          <Redo2 className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 px-2 text-red-600 hover:text-red-700 hover:bg-red-50"
+          onClick={() => selectedIndex !== null && editor.deleteVertex(selectedIndex)}
+          disabled={!canDelete}
+          title="Delete selected point (Del)"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      <div className="flex gap-1">
+        <Select value={tolerance} onValueChange={setTolerance}>
+          <SelectTrigger className="h-7 text-xs border-saddle-light/30">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {POLYGON_SIMPLIFY_TOLERANCES.map(meters => (
+              <SelectItem key={meters} value={String(meters)}>
+                {meters} m tolerance
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" className="h-7 px-2" onClick={handleSimplify} disabled={polygon.length <= 3}>
+          <Wand2 className="h-3.5 w-3.5 mr-1" />
+          Simplify
+        </Button>
+      </div>
+
+      <p className="text-leather-light">
+        Drag points to move • click ○ on an edge to add • right-click or Del to remove
+      </p>
+
+      <div className="flex gap-2 justify-end border-t border-saddle-light/20 pt-2">
+        <Button variant="outline" size="sm" className="h-7 px-2 border-saddle-light/30" onClick={onCancel}>
+          <X className="h-3.5 w-3.5 mr-1" />
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          className="h-7 px-2 bg-gold hover:bg-gold-dark text-leather"
+          onClick={handleSave}
+          disabled={isSaving || problem !== null}
+        >
+          <Check className="h-3.5 w-3.5 mr-1" />
+          {isSaving ? "Saving..." : "Save Shape"}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -4,7 +4,7 @@
  * @file admin-dashboard/src/components/maps/ZoneDialog.tsx
  * @description Comprehensive dialog for zone configuration with tabs
  * 
- * Character count: ~12,500
+ * Character count: ~13,500
  */
 
 "use client"
@@ -40,6 +40,8 @@ import {
   HUNT_TYPE_CONFIG,
   DEFAULT_ZONE_RADIUS,
   formatRadius,
+  formatArea,
+  calculateZoneArea,
   ZONE_RADIUS_LIMITS
 } from "./zone-config"
 import { 
@@ -52,7 +54,9 @@ import {
   Grid3X3,
   Coins,
   Clock,
-  Palette
+  Palette,
+  Ban,
+  PenTool
 } from "lucide-react"
 import { toast } from "sonner"
 
@@ -63,6 +67,8 @@ interface ZoneDialogProps {
   onSave: (zoneData: Partial<Zone>) => Promise<void>
   /** Pre-set geometry from map drawing */
   initialGeometry?: ZoneGeometry | null
+  /** Close the dialog and reshape the polygon on the map */
+  onEditShape?: () => void
   userId: string
 }
 
@@ -71,6 +77,7 @@ const zoneTypeOptions: { value: ZoneType; label: string; icon: typeof Circle; de
   { value: "sponsor", label: "Sponsor Zone", icon: Building2, description: "Custom sponsor location" },
   { value: "hunt", label: "Hunt Zone", icon: Trophy, description: "Special treasure hunt" },
   { value: "grid", label: "Grid Zone", icon: Grid3X3, description: "System distribution grid" },
+  { value: "exclusion", label: "Exclusion Zone", icon: Ban, description: "No coins hidden or spawned here" },
 ]
 
 const huntTypeOptions = Object.entries(HUNT_TYPE_CONFIG).map(([key, config]) => ({
@@ -84,6 +91,7 @@ export function ZoneDialog({
   onOpenChange,
   onSave,
   initialGeometry,
+  onEditShape,
   userId,
 }: ZoneDialogProps) {
   const isEditing = !!zone
@@ -232,7 +240,9 @@ export function ZoneDialog({
     }
 
     // Build auto-spawn config
-    const autoSpawnConfig: ZoneAutoSpawnConfig | null = form.auto_spawn_enabled ? {
+    const isExclusion = form.zone_type === 'exclusion'
+
+    const autoSpawnConfig: ZoneAutoSpawnConfig | null = form.auto_spawn_enabled && !isExclusion ? {
       enabled: true,
       min_coins: form.min_coins,
       max_coins: form.max_coins,
@@ -244,7 +254,7 @@ export function ZoneDialog({
     } : null
 
     // Build timed release config
-    const timedReleaseConfig: ZoneTimedReleaseConfig | null = form.timed_release_enabled ? {
+    const timedReleaseConfig: ZoneTimedReleaseConfig | null = form.timed_release_enabled && !isExclusion ? {
       enabled: true,
       total_coins: form.total_coins,
       release_interval_seconds: form.release_interval,
@@ -271,7 +281,7 @@ export function ZoneDialog({
       owner_id: userId,
       auto_spawn_config: autoSpawnConfig,
       timed_release_config: timedReleaseConfig,
-      hunt_config: huntConfig,
+      hunt_config: isExclusion ? null : huntConfig,
       fill_color: form.fill_color,
       border_color: form.border_color,
       opacity: form.opacity,
@@ -354,7 +364,12 @@ export function ZoneDialog({
                       <button
                         key={option.value}
                         type="button"
-                        onClick={() => setForm({ ...form, zone_type: option.value })}
+                        onClick={() => setForm({
+                          ...form,
+                          zone_type: option.value,
+                          // Exclusion zones never get coins
+                          ...(option.value === "exclusion" && { auto_spawn_enabled: false, timed_release_enabled: false }),
+                        })}
                         className={`flex items-center gap-2 p-3 rounded-lg border-2 transition-colors text-left ${
                           isSelected
                             ? "border-gold bg-gold/10"
@@ -467,6 +482,31 @@ export function ZoneDialog({
                 </>
               )}
 
+              {/* Polygon summary */}
+              {form.geometry_type === 'polygon' && (
+                <div className="flex items-center justify-between gap-2 p-3 rounded-lg border border-saddle-light/30 bg-parchment text-sm">
+                  {initialGeometry?.polygon && initialGeometry.polygon.length >= 3 ? (
+                    <span className="text-leather-light">
+                      {initialGeometry.polygon.length} points • {formatArea(calculateZoneArea({ type: 'polygon', polygon: initialGeometry.polygon }))}
+                    </span>
+                  ) : (
+                    <span className="text-leather-light">Draw the polygon on the map with the polygon tool</span>
+                  )}
+                  {onEditShape && initialGeometry?.polygon && initialGeometry.polygon.length >= 3 && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={onEditShape}
+                      className="border-saddle-light/30"
+                    >
+                      <PenTool className="h-4 w-4 mr-1" />
+                      Edit shape on map
+                    </Button>
+                  )}
+                </div>
+              )}
+
               {/* Description */}
               <div className="space-y-2">
                 <Label htmlFor="description">Description (optional)</Label>
@@ -483,6 +523,12 @@ export function ZoneDialog({
 
             {/* Coins Tab */}
             <TabsContent value="coins" className="space-y-4">
+              {form.zone_type === "exclusion" && (
+                <p className="text-sm text-leather-light p-3 rounded-lg border border-red-300 bg-red-50">
+                  Exclusion zones are no-spawn areas: coins can&apos;t be hidden or spawned inside them.
+                </p>
+              )}
+
               {/* Auto-spawn toggle */}
               <div className="flex items-center justify-between p-3 bg-parchment rounded-lg">
                 <div>
@@ -493,6 +539,7 @@ export function ZoneDialog({
                 </div>
                 <Switch
                   id="autospawn"
+                  disabled={form.zone_type === "exclusion"}
                   checked={form.auto_spawn_enabled}
                   onCheckedChange={(checked) => setForm({ ...form, auto_spawn_enabled: checked })}
                 />
@@ -585,6 +632,7 @@ export function ZoneDialog({
                 </div>
                 <Switch
                   id="timedrelease"
+                  disabled={form.zone_type === "exclusion"}
                   checked={form.timed_release_enabled}
                   onCheckedChange={(checked) => setForm({ ...form, timed_release_enabled: checked })}
                 />
@@ -0,0 +1,348 @@
+/**
+ * Zone Import Dialog - GeoJSON / KML boundaries into zones
+ *
+ * @file admin-dashboard/src/components/maps/ZoneImportDialog.tsx
+ * @description Pick a file, preview its zones on the map, choose which to keep, then import
+ *
+ * Character count: ~9,500
+ */
+
+"use client"
+
+import { useState, useMemo, useRef } from "react"
+import dynamic from "next/dynamic"
+import type { Zone, ZoneType, Coin } from "@/types/database"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { FileUp, Loader2, AlertTriangle } from "lucide-react"
+import { toast } from "sonner"
+import {
+  ZONE_TYPE_COLORS,
+  DEFAULT_ZONE_SETTINGS,
+  calculateZoneArea,
+  formatArea,
+  getZoneBounds,
+} from "./zone-config"
+import {
+  ZONE_IMPORT_ACCEPT,
+  parseZoneFile,
+  type ImportedZone,
+  type ZoneImportResult,
+} from "./zone-import-export"
+
+// Dynamically import MapView to avoid SSR issues with Mapbox
+const MapView = dynamic(
+  () => import("./MapView").then(mod => mod.MapView),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="h-[300px] bg-parchment rounded-lg flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-gold" />
+      </div>
+    )
+  }
+)
+
+interface ZoneImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Save the chosen zones (throw to report failure) */
+  onImport: (zones: Partial<Zone>[]) => Promise<void>
+}
+
+interface ImportRow extends ImportedZone {
+  include: boolean
+}
+
+const emptyCoins: Coin[] = []
+
+/**
+ * Build a Zone-shaped preview row so MapView / ZoneLayer can draw it
+ */
+function toPreviewZone(row: ImportRow, index: number, zoneType: ZoneType): Zone {
+  const now = new Date().toISOString()
+  return {
+    id: `import-${index}`,
+    name: row.name,
+    description: row.description,
+    zone_type: zoneType,
+    status: "active",
+    geometry: row.geometry,
+    owner_id: null,
+    sponsor_id: null,
+    auto_spawn_config: null,
+    timed_release_config: null,
+    hunt_config: null,
+    start_time: null,
+    end_time: null,
+    coins_placed: 0,
+    coins_collected: 0,
+    total_value_distributed: 0,
+    active_players: 0,
+    fill_color: null,
+    border_color: null,
+    opacity: DEFAULT_ZONE_SETTINGS.opacity,
+    metadata: null,
+    created_at: now,
+    updated_at: now,
+  }
+}
+
+export function ZoneImportDialog({ open, onOpenChange, onImport }: ZoneImportDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [result, setResult] = useState<ZoneImportResult | null>(null)
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [zoneType, setZoneType] = useState<ZoneType>("player")
+  const [activate, setActivate] = useState(false)
+  const [selectedZoneId, setSelectedZoneId] = useState<string | undefined>()
+  const [isImporting, setIsImporting] = useState(false)
+
+  const reset = () => {
+    setFileName(null)
+    setResult(null)
+    setRows([])
+    setSelectedZoneId(undefined)
+    if (fileInputRef.current) fileInputRef.current.value = ""
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset()
+    onOpenChange(next)
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+
+    try {
+      const parsed = parseZoneFile(await file.text())
+      setFileName(file.name)
+      setResult(parsed)
+      setRows(parsed.zones.map(zone => ({ ...zone, include: true })))
+      setSelectedZoneId(undefined)
+
+      if (parsed.zones.length === 0) {
+        toast.error("No usable zones in this file", {
+          description: parsed.skipped.length > 0 ? `${parsed.skipped.length} features skipped` : undefined,
+        })
+      }
+    } catch (error) {
+      reset()
+      toast.error("Could not read file", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  const previewZones = useMemo(
+    () => rows
+      .map((row, i) => ({ row, zone: toPreviewZone(row, i, zoneType) }))
+      .filter(({ row }) => row.include)
+      .map(({ zone }) => zone),
+    [rows, zoneType]
+  )
+
+  // Center the preview on everything in the file
+  const previewCenter = useMemo(() => {
+    const bounds = rows
+      .map(row => getZoneBounds(row.geometry))
+      .filter((b): b is NonNullable<typeof b> => b !== null)
+    if (bounds.length === 0) return undefined
+
+    const minLat = Math.min(...bounds.map(b => b.minLat))
+    const maxLat = Math.max(...bounds.map(b => b.maxLat))
+    const minLng = Math.min(...bounds.map(b => b.minLng))
+    const maxLng = Math.max(...bounds.map(b => b.maxLng))
+    const span = Math.max(maxLat - minLat, maxLng - minLng, 0.001)
+
+    return {
+      latitude: (minLat + maxLat) / 2,
+      longitude: (minLng + maxLng) / 2,
+      zoom: Math.min(16, Math.max(2, Math.floor(Math.log2(360 / span)))),
+    }
+  }, [rows])
+
+  const updateRow = (index: number, changes: Partial<ImportRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  const includedCount = rows.filter(row => row.include).length
+
+  const handleImport = async () => {
+    const chosen = rows.filter(row => row.include && row.name.trim())
+    if (chosen.length === 0) return
+
+    setIsImporting(true)
+    try {
+      await onImport(chosen.map(row => ({
+        name: row.name.trim(),
+        description: row.description,
+        zone_type: zoneType,
+        geometry: row.geometry,
+        status: activate ? "active" : "inactive",
+        opacity: DEFAULT_ZONE_SETTINGS.opacity,
+        metadata: { imported_from: fileName },
+      })))
+      toast.success(`Imported ${chosen.length} zone${chosen.length === 1 ? "" : "s"} 🗺️`, {
+        description: activate ? "Zones are active" : "Zones are inactive - activate them when ready",
+      })
+      handleOpenChange(false)
+    } catch (error) {
+      toast.error("Failed to import zones", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-saddle-dark flex items-center gap-2">
+            <FileUp className="h-5 w-5 text-gold" />
+            Import Zones
+          </DialogTitle>
+          <DialogDescription>
+            GeoJSON FeatureCollection or KML. Each polygon becomes a zone; holes are ignored.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Input
+              ref={fileInputRef}
+              type="file"
+              accept={ZONE_IMPORT_ACCEPT}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="border-saddle-light/30"
+            />
+            {result && (
+              <span className="text-sm text-leather-light whitespace-nowrap">
+                {result.format === "kml" ? "KML" : "GeoJSON"} • {rows.length} zones
+              </span>
+            )}
+          </div>
+
+          {result && result.skipped.length > 0 && (
+            <div className="rounded-lg border border-fire/30 bg-fire/5 p-3 text-sm">
+              <div className="flex items-center gap-2 font-medium text-fire">
+                <AlertTriangle className="h-4 w-4" />
+                {result.skipped.length} feature{result.skipped.length === 1 ? "" : "s"} skipped
+              </div>
+              <ul className="mt-1 space-y-0.5 text-leather-light max-h-24 overflow-y-auto">
+                {result.skipped.map((skip, i) => (
+                  <li key={i}>{skip.name}: {skip.reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {rows.length > 0 && (
+            <>
+              <MapView
+                key={fileName ?? "preview"}
+                coins={emptyCoins}
+                zones={previewZones}
+                height={300}
+                initialCenter={previewCenter}
+                onZoneClick={(zone) => setSelectedZoneId(zone.id)}
+                selectedZoneId={selectedZoneId}
+                showPlayers={false}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Zone type</Label>
+                  <Select value={zoneType} onValueChange={(value) => setZoneType(value as ZoneType)}>
+                    <SelectTrigger className="border-saddle-light/30">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ZONE_TYPE_COLORS) as ZoneType[]).map(type => (
+                        <SelectItem key={type} value={type}>
+                          {ZONE_TYPE_COLORS[type].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center justify-between rounded-lg border border-saddle-light/30 px-3">
+                  <div>
+                    <Label>Activate now</Label>
+                    <p className="text-xs text-leather-light">Off imports them inactive</p>
+                  </div>
+                  <Switch checked={activate} onCheckedChange={setActivate} />
+                </div>
+              </div>
+
+              <div className="space-y-2 max-h-60 overflow-y-auto">
+                {rows.map((row, i) => (
+                  <div
+                    key={i}
+                    className={`flex items-center gap-3 p-2 rounded-lg border ${
+                      selectedZoneId === `import-${i}` ? "border-gold bg-gold/5" : "border-saddle-light/30"
+                    }`}
+                    onClick={() => setSelectedZoneId(`import-${i}`)}
+                  >
+                    <Switch
+                      checked={row.include}
+                      onCheckedChange={(include) => updateRow(i, { include })}
+                    />
+                    <Input
+                      value={row.name}
+                      onChange={(e) => updateRow(i, { name: e.target.value })}
+                      className="h-8 border-saddle-light/30"
+                    />
+                    <span className="text-xs text-leather-light whitespace-nowrap">
+                      {row.geometry.type === "circle" ? "Circle" : `${row.geometry.polygon?.length ?? 0} pts`}
+                      {row.simplifiedFrom !== undefined && ` (simplified from ${row.simplifiedFrom})`}
+                      {" • "}
+                      {formatArea(calculateZoneArea(row.geometry))}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="mt-6">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            className="border-saddle-light/30"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={isImporting || includedCount === 0}
+            className="bg-gold hover:bg-gold-dark text-leather"
+          >
+            {isImporting ? "Importing..." : `Import ${includedCount} Zone${includedCount === 1 ? "" : "s"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -4,14 +4,14 @@
  * @file admin-dashboard/src/components/maps/ZoneLayer.tsx
  * @description Renders zone polygons and circles on the Mapbox map
  * 
- * Character count: ~6,200
+ * Character count: ~7,600
  */
 
 "use client"
 
 import { useMemo, useCallback } from "react"
 import { Source, Layer, Popup } from "react-map-gl/mapbox"
-import type { Zone } from "@/types/database"
+import type { Zone, ZoneType } from "@/types/database"
 import { 
   ZONE_TYPE_COLORS, 
   ZONE_STATUS_COLORS,
@@ -22,7 +22,7 @@ import {
 } from "./zone-config"
 import type { FillLayerSpecification, LineLayerSpecification, SymbolLayerSpecification } from "mapbox-gl"
 import { Button } from "@/components/ui/button"
-import { Edit, Trash2, Eye, EyeOff, MapPin } from "lucide-react"
+import { Edit, Trash2, Eye, EyeOff, MapPin, PenTool } from "lucide-react"
 
 interface ZoneLayerProps {
   zones: Zone[]
@@ -31,6 +31,8 @@ interface ZoneLayerProps {
   onZoneEdit?: (zone: Zone) => void
   onZoneDelete?: (zone: Zone) => void
   onZoneToggleStatus?: (zone: Zone) => void
+  /** Reshape a polygon zone on the map (polygon zones only) */
+  onZoneEditShape?: (zone: Zone) => void
   showLabels?: boolean
   interactive?: boolean
 }
@@ -42,6 +44,7 @@ export function ZoneLayer({
   onZoneEdit,
   onZoneDelete,
   onZoneToggleStatus,
+  onZoneEditShape,
   showLabels = true,
   interactive = true,
 }: ZoneLayerProps) {
@@ -133,7 +136,7 @@ export function ZoneLayer({
         properties: {
           id: zone.id,
           name: zone.name,
-          emoji: statusConfig.emoji,
+          emoji: zone.zone_type === 'exclusion' ? "⛔" : statusConfig.emoji,
           coins: zone.coins_placed,
         },
         geometry: {
@@ -153,6 +156,7 @@ export function ZoneLayer({
   const fillLayerStyle: Omit<FillLayerSpecification, 'source'> = {
     id: "zones-fill",
     type: "fill",
+    filter: ["!=", ["get", "zone_type"], "exclusion"],
     paint: {
       "fill-color": ["get", "fillColor"],
       "fill-opacity": ["get", "opacity"],
@@ -163,6 +167,7 @@ export function ZoneLayer({
   const borderLayerStyle: Omit<LineLayerSpecification, 'source'> = {
     id: "zones-border",
     type: "line",
+    filter: ["!=", ["get", "zone_type"], "exclusion"],
     paint: {
       "line-color": ["get", "borderColor"],
       "line-width": ["get", "borderWidth"],
@@ -170,6 +175,29 @@ export function ZoneLayer({
     },
   }
 
+  // Exclusion zones: drawn above the others with a solid, heavier border so
+  // no-spawn areas stand out where they overlap coin zones
+  const exclusionFillLayerStyle: Omit<FillLayerSpecification, 'source'> = {
+    id: "zones-exclusion-fill",
+    type: "fill",
+    filter: ["==", ["get", "zone_type"], "exclusion"],
+    paint: {
+      "fill-color": ["get", "fillColor"],
+      "fill-opacity": ["get", "opacity"],
+      "fill-outline-color": ["get", "borderColor"],
+    },
+  }
+
+  const exclusionBorderLayerStyle: Omit<LineLayerSpecification, 'source'> = {
+    id: "zones-exclusion-border",
+    type: "line",
+    filter: ["==", ["get", "zone_type"], "exclusion"],
+    paint: {
+      "line-color": ["get", "borderColor"],
+      "line-width": ["+", ["get", "borderWidth"], 1],
+    },
+  }
+
   // Label layer style
   const labelLayerStyle: Omit<SymbolLayerSpecification, 'source'> = {
     id: "zones-labels",
@@ -220,6 +248,8 @@ export function ZoneLayer({
       <Source id="zones-source" type="geojson" data={geoJsonData}>
         <Layer {...fillLayerStyle} />
         <Layer {...borderLayerStyle} />
+        <Layer {...exclusionFillLayerStyle} />
+        <Layer {...exclusionBorderLayerStyle} />
       </Source>
 
       {/* Zone labels */}
@@ -302,6 +332,17 @@ export function ZoneLayer({
                   )}
                 </Button>
               )}
+              {onZoneEditShape && selectedZone.geometry.type === 'polygon' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onZoneEditShape(selectedZone)}
+                  className="h-7 px-2"
+                  title="Edit shape"
+                >
+                  <PenTool className="h-3.5 w-3.5" />
+                </Button>
+              )}
               {onZoneEdit && (
                 <Button
                   variant="ghost"
@@ -340,7 +381,7 @@ interface ZonePreviewLayerProps {
     radius?: number
     polygon?: { latitude: number; longitude: number }[]
   } | null
-  zoneType: "player" | "sponsor" | "hunt" | "grid"
+  zoneType: ZoneType
 }
 
 export function ZonePreviewLayer({ geometry, zoneType }: ZonePreviewLayerProps) {
@@ -4,6 +4,10 @@
  * 
  * Provides detection rules, thresholds, and utilities for identifying
  * GPS spoofing, impossible speeds, teleportation, and other cheating behaviors.
+ * 
+ * The thresholds below are the defaults for the anti-cheat rules
+ * (lib/anti-cheat-rules.ts); the live values are edited on the Anti-Cheat
+ * panel and stored in anti_cheat_rules.
  */
 
 import type { CheatReason, CheatSeverity, PlayerMovementType, CheatFlag } from "@/types/database"
@@ -13,8 +13,10 @@ import type {
   DistributionConfig,
   ValueDistributionStrategy,
   ZoneAutoSpawnConfig,
+  ZoneGeometry,
   ZoneType
 } from "@/types/database"
+import { isPointExcluded } from "./zone-config"
 
 // ============================================================================
 // DEFAULT CONFIGURATION
@@ -140,6 +142,15 @@ export const ZONE_TYPE_SPAWN_PRESETS: Record<ZoneType, Partial<ZoneAutoSpawnConf
     tier_weights: { gold: 5, silver: 25, bronze: 70 },
     respawn_delay_seconds: 600,
   },
+  exclusion: {
+    enabled: false,  // No-spawn areas never get coins
+    min_coins: 0,
+    max_coins: 0,
+    min_value: 0,
+    max_value: 0,
+    tier_weights: { gold: 0, silver: 0, bronze: 0 },
+    respawn_delay_seconds: 0,
+  },
 }
 
 // ============================================================================
@@ -147,34 +158,54 @@ export const ZONE_TYPE_SPAWN_PRESETS: Record<ZoneType, Partial<ZoneAutoSpawnConf
 // ============================================================================
 
 /**
- * Generate a random point within a circle
+ * Attempts at finding a spawn point outside exclusion zones before giving up
+ */
+export const MAX_SPAWN_ATTEMPTS = 30
+
+/**
+ * Generate a random point within a circle, resampling points that land in
+ * an exclusion zone
+ * 
+ * @returns null when every attempt landed in an exclusion zone
  */
 export function randomPointInCircle(
   centerLat: number,
   centerLng: number,
-  radiusMeters: number
-): { latitude: number; longitude: number } {
-  // Random angle and distance
-  const angle = Math.random() * 2 * Math.PI
-  const distance = Math.sqrt(Math.random()) * radiusMeters
-  
-  // Convert to lat/lng offset
-  const latOffset = (distance / 111320) * Math.cos(angle)
-  const lngOffset = (distance / (111320 * Math.cos(centerLat * Math.PI / 180))) * Math.sin(angle)
-  
-  return {
-    latitude: centerLat + latOffset,
-    longitude: centerLng + lngOffset,
+  radiusMeters: number,
+  exclusions: ZoneGeometry[] = []
+): { latitude: number; longitude: number } | null {
+  for (let i = 0; i < MAX_SPAWN_ATTEMPTS; i++) {
+    // Random angle and distance
+    const angle = Math.random() * 2 * Math.PI
+    const distance = Math.sqrt(Math.random()) * radiusMeters
+    
+    // Convert to lat/lng offset
+    const latOffset = (distance / 111320) * Math.cos(angle)
+    const lngOffset = (distance / (111320 * Math.cos(centerLat * Math.PI / 180))) * Math.sin(angle)
+    
+    const point = {
+      latitude: centerLat + latOffset,
+      longitude: centerLng + lngOffset,
+    }
+    
+    if (!isPointExcluded(point.latitude, point.longitude, exclusions)) {
+      return point
+    }
   }
+  
+  return null
 }
 
 /**
- * Generate a random point within a polygon
+ * Generate a random point within a polygon, outside any exclusion zone
  * Uses rejection sampling
+ * 
+ * @returns null when no point outside the exclusion zones was found
  */
 export function randomPointInPolygon(
-  polygon: Array<{ latitude: number; longitude: number }>
-): { latitude: number; longitude: number } {
+  polygon: Array<{ latitude: number; longitude: number }>,
+  exclusions: ZoneGeometry[] = []
+): { latitude: number; longitude: number } | null {
   // Get bounding box
   const lats = polygon.map(p => p.latitude)
   const lngs = polygon.map(p => p.longitude)
@@ -188,16 +219,70 @@ export function randomPointInPolygon(
     const lat = minLat + Math.random() * (maxLat - minLat)
     const lng = minLng + Math.random() * (maxLng - minLng)
     
-    if (isPointInPolygon({ latitude: lat, longitude: lng }, polygon)) {
+    if (
+      isPointInPolygon({ latitude: lat, longitude: lng }, polygon) &&
+      !isPointExcluded(lat, lng, exclusions)
+    ) {
       return { latitude: lat, longitude: lng }
     }
   }
   
   // Fallback to centroid
-  return {
+  const centroid = {
     latitude: (minLat + maxLat) / 2,
     longitude: (minLng + maxLng) / 2,
   }
+  return isPointExcluded(centroid.latitude, centroid.longitude, exclusions) ? null : centroid
+}
+
+/**
+ * Generate a random spawn point anywhere in a zone, outside the exclusion
+ * zones
+ * 
+ * @returns null when the zone has no usable geometry or is covered by
+ * exclusion zones
+ */
+export function randomPointInZone(
+  geometry: ZoneGeometry,
+  exclusions: ZoneGeometry[] = []
+): { latitude: number; longitude: number } | null {
+  if (geometry.type === 'circle' && geometry.center && geometry.radius_meters) {
+    return randomPointInCircle(
+      geometry.center.latitude,
+      geometry.center.longitude,
+      geometry.radius_meters,
+      exclusions
+    )
+  }
+  
+  if (geometry.type === 'polygon' && geometry.polygon && geometry.polygon.length >= 3) {
+    return randomPointInPolygon(geometry.polygon, exclusions)
+  }
+  
+  return null
+}
+
+/**
+ * Estimate the share of a zone (0-1) covered by exclusion zones by sampling
+ * random points in it
+ */
+export function estimateExcludedShare(
+  geometry: ZoneGeometry,
+  exclusions: ZoneGeometry[],
+  samples: number = 200
+): number {
+  if (exclusions.length === 0) return 0
+  
+  let drawn = 0
+  let excluded = 0
+  for (let i = 0; i < samples; i++) {
+    const point = randomPointInZone(geometry)
+    if (!point) continue
+    drawn++
+    if (isPointExcluded(point.latitude, point.longitude, exclusions)) excluded++
+  }
+  
+  return drawn === 0 ? 0 : excluded / drawn
 }
 
 /**
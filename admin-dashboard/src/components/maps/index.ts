@@ -13,6 +13,8 @@ export { MapControls } from "./MapControls"
 // Zone components
 export { ZoneLayer, ZonePreviewLayer } from "./ZoneLayer"
 export { ZoneDialog } from "./ZoneDialog"
+export { ZoneImportDialog } from "./ZoneImportDialog"
+export { PolygonEditLayer, PolygonEditorPanel } from "./PolygonEditLayer"
 
 // Player tracking components
 export { PlayerMarker, PlayerClusterMarker } from "./PlayerMarker"
@@ -21,6 +23,7 @@ export { PlayerLayer, PlayerStatusSummary } from "./PlayerLayer"
 // Configuration and utilities
 export * from "./map-config"
 export * from "./zone-config"
+export * from "./zone-import-export"
 export * from "./player-config"
 export * from "./distribution-config"
 export * from "./timed-release-config"
@@ -4,10 +4,11 @@
  * @file admin-dashboard/src/components/maps/zone-config.ts
  * @description Centralized zone settings, styles, colors, and utility functions
  * 
- * Character count: ~5,800
+ * Character count: ~19,000
  */
 
 import type { 
+  Zone,
   ZoneType, 
   ZoneStatus, 
   HuntType, 
@@ -48,6 +49,12 @@ export const ZONE_TYPE_COLORS: Record<ZoneType, { fill: string; border: string;
     label: "Grid Zone",
     opacity: 0.2,
   },
+  exclusion: {
+    fill: "#B91C1C",                       // Warning Red
+    border: "#7F1D1D",                     // Dark Red
+    label: "Exclusion Zone",
+    opacity: 0.35,
+  },
 }
 
 /**
@@ -334,6 +341,262 @@ export function isPointInZone(
   return false
 }
 
+/**
+ * Geometries of the active exclusion zones - the no-spawn areas coin
+ * placement and spawning must stay out of
+ */
+export function getExclusionGeometries(zones: Pick<Zone, 'zone_type' | 'status' | 'geometry'>[]): ZoneGeometry[] {
+  return zones
+    .filter(zone => zone.zone_type === 'exclusion' && zone.status === 'active')
+    .map(zone => zone.geometry)
+}
+
+/**
+ * Check if a point falls inside any of the given exclusion geometries
+ */
+export function isPointExcluded(
+  lat: number,
+  lng: number,
+  exclusions: ZoneGeometry[]
+): boolean {
+  return exclusions.some(geometry => isPointInZone(lat, lng, geometry))
+}
+
+/**
+ * Most points a polygon zone may have
+ */
+export const MAX_POLYGON_POINTS = 500
+
+/**
+ * Sanity-check a zone's geometry (API and imports - the dialog's controls
+ * already keep within these limits). Circles must sit inside
+ * ZONE_RADIUS_LIMITS; polygons need 3+ distinct valid points, no crossing
+ * edges and an area between the smallest and largest circle.
+ * 
+ * @returns An error message, or null when the geometry is usable
+ */
+export function validateZoneGeometry(geometry: ZoneGeometry): string | null {
+  if (!geometry || typeof geometry !== 'object') {
+    return 'Geometry is required'
+  }
+  
+  if (geometry.type === 'circle') {
+    const { center, radius_meters } = geometry
+    if (!center || !isValidCoordinate(center.latitude, center.longitude)) {
+      return 'Circle needs a valid center'
+    }
+    if (typeof radius_meters !== 'number' || !Number.isFinite(radius_meters)) {
+      return 'Circle needs a radius_meters'
+    }
+    if (radius_meters < ZONE_RADIUS_LIMITS.min || radius_meters > ZONE_RADIUS_LIMITS.max) {
+      return `Radius must be between ${formatRadius(ZONE_RADIUS_LIMITS.min)} and ${formatRadius(ZONE_RADIUS_LIMITS.max)}`
+    }
+    return null
+  }
+  
+  if (geometry.type === 'polygon') {
+    const { polygon } = geometry
+    if (!Array.isArray(polygon) || polygon.length < 3) {
+      return 'Polygon needs at least 3 points'
+    }
+    if (polygon.length > MAX_POLYGON_POINTS) {
+      return `Polygon can have at most ${MAX_POLYGON_POINTS} points`
+    }
+    if (!polygon.every(p => p && isValidCoordinate(p.latitude, p.longitude))) {
+      return 'Polygon has an invalid point'
+    }
+    
+    const distinct = new Set(polygon.map(p => `${p.latitude},${p.longitude}`))
+    if (distinct.size < 3) {
+      return 'Polygon needs at least 3 distinct points'
+    }
+
+    if (findSelfIntersections(polygon).length > 0) {
+      return 'Polygon edges cross each other'
+    }
+
+    const area = calculateZoneArea(geometry)
+    const minArea = Math.PI * ZONE_RADIUS_LIMITS.min ** 2
+    const maxArea = Math.PI * ZONE_RADIUS_LIMITS.max ** 2
+    if (area < minArea) {
+      return `Polygon is too small (under ${formatArea(minArea)})`
+    }
+    if (area > maxArea) {
+      return `Polygon is too large (over ${formatArea(maxArea)})`
+    }
+    return null
+  }
+  
+  return "Geometry type must be 'circle' or 'polygon'"
+}
+
+// ============================================================================
+// POLYGON EDITING
+// ============================================================================
+
+/**
+ * Simplify tolerances offered by the polygon editor (meters)
+ */
+export const POLYGON_SIMPLIFY_TOLERANCES = [2, 5, 10, 25, 50] as const
+
+/**
+ * Find pairs of polygon edges that cross. Edge i runs from point i to
+ * point i + 1 (the last edge closes the ring); edges sharing a point are
+ * not compared. Treats lat/lng as planar, which is fine at zone scale.
+ *
+ * @returns [i, j] edge index pairs, i < j - empty for a simple polygon
+ */
+export function findSelfIntersections(polygon: PolygonPoint[]): [number, number][] {
+  const crossings: [number, number][] = []
+  const n = polygon.length
+  if (n < 4) return crossings
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 2; j < n; j++) {
+      // First and last edges share point 0
+      if (i === 0 && j === n - 1) continue
+
+      if (segmentsIntersect(
+        polygon[i], polygon[(i + 1) % n],
+        polygon[j], polygon[(j + 1) % n]
+      )) {
+        crossings.push([i, j])
+      }
+    }
+  }
+
+  return crossings
+}
+
+/**
+ * Midpoint of each polygon edge (edge i: point i to point i + 1)
+ */
+export function getPolygonMidpoints(polygon: PolygonPoint[]): PolygonPoint[] {
+  return polygon.map((point, i) => {
+    const next = polygon[(i + 1) % polygon.length]
+    return {
+      latitude: (point.latitude + next.latitude) / 2,
+      longitude: (point.longitude + next.longitude) / 2,
+    }
+  })
+}
+
+/**
+ * Drop points that sit within toleranceMeters of the line between their
+ * neighbours (Douglas-Peucker on the closed ring). Never goes below 3
+ * points - returns the polygon unchanged instead.
+ */
+export function simplifyPolygon(polygon: PolygonPoint[], toleranceMeters: number): PolygonPoint[] {
+  const n = polygon.length
+  if (n <= 3 || toleranceMeters <= 0) return polygon
+
+  // Local planar coordinates in meters around the first point
+  const origin = polygon[0]
+  const metersPerDegree = toRadians(1) * EARTH_RADIUS
+  const lngScale = metersPerDegree * Math.cos(toRadians(origin.latitude))
+  const xy: [number, number][] = polygon.map(p => [
+    (p.longitude - origin.longitude) * lngScale,
+    (p.latitude - origin.latitude) * metersPerDegree,
+  ])
+
+  // Split the ring at the point farthest from the first, then simplify
+  // each half as an open line. Index n stands for point 0 closing the ring.
+  let far = 0
+  let farDistance = 0
+  xy.forEach(([x, y], i) => {
+    const distance = Math.hypot(x, y)
+    if (distance > farDistance) {
+      far = i
+      farDistance = distance
+    }
+  })
+  if (far === 0) return polygon
+
+  const ring = [...xy, xy[0]]
+  const keep = new Array<boolean>(n + 1).fill(false)
+  keep[0] = keep[far] = keep[n] = true
+
+  const stack: [number, number][] = [[0, far], [far, n]]
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!
+    let index = -1
+    let maxDistance = 0
+
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegment(ring[i], ring[start], ring[end])
+      if (distance > maxDistance) {
+        index = i
+        maxDistance = distance
+      }
+    }
+
+    if (index !== -1 && maxDistance > toleranceMeters) {
+      keep[index] = true
+      stack.push([start, index], [index, end])
+    }
+  }
+
+  const simplified = polygon.filter((_, i) => keep[i])
+  return simplified.length >= 3 ? simplified : polygon
+}
+
+/**
+ * Whether segment a-b and segment c-d touch or cross (longitude as x,
+ * latitude as y)
+ */
+function segmentsIntersect(
+  a: PolygonPoint, b: PolygonPoint,
+  c: PolygonPoint, d: PolygonPoint
+): boolean {
+  const orientation = (p: PolygonPoint, q: PolygonPoint, r: PolygonPoint) => {
+    const value = (q.longitude - p.longitude) * (r.latitude - p.latitude) -
+                  (q.latitude - p.latitude) * (r.longitude - p.longitude)
+    return value > 0 ? 1 : value < 0 ? -1 : 0
+  }
+  const onSegment = (p: PolygonPoint, q: PolygonPoint, r: PolygonPoint) =>
+    Math.min(p.longitude, r.longitude) <= q.longitude && q.longitude <= Math.max(p.longitude, r.longitude) &&
+    Math.min(p.latitude, r.latitude) <= q.latitude && q.latitude <= Math.max(p.latitude, r.latitude)
+
+  const o1 = orientation(a, b, c)
+  const o2 = orientation(a, b, d)
+  const o3 = orientation(c, d, a)
+  const o4 = orientation(c, d, b)
+
+  if (o1 !== o2 && o3 !== o4) return true
+
+  // Collinear and overlapping
+  return (o1 === 0 && onSegment(a, c, b)) ||
+         (o2 === 0 && onSegment(a, d, b)) ||
+         (o3 === 0 && onSegment(c, a, d)) ||
+         (o4 === 0 && onSegment(c, b, d))
+}
+
+/**
+ * Distance from point p to segment a-b in planar coordinates
+ */
+function distanceToSegment(
+  [px, py]: [number, number],
+  [ax, ay]: [number, number],
+  [bx, by]: [number, number]
+): number {
+  const dx = bx - ax
+  const dy = by - ay
+  const lengthSquared = dx * dx + dy * dy
+  if (lengthSquared === 0) return Math.hypot(px - ax, py - ay)
+
+  const t = Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared))
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy))
+}
+
+/**
+ * Latitude / longitude are finite and in range
+ */
+function isValidCoordinate(lat: unknown, lng: unknown): boolean {
+  return typeof lat === 'number' && typeof lng === 'number' &&
+    Number.isFinite(lat) && Number.isFinite(lng) &&
+    lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180
+}
+
 /**
  * Calculate distance between two points (Haversine formula)
  */
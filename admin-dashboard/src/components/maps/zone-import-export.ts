@@ -0,0 +1,443 @@
+/**
+ * Zone Import / Export for Black Bart's Gold Admin Dashboard
+ *
+ * @file admin-dashboard/src/components/maps/zone-import-export.ts
+ * @description Read GeoJSON / KML boundaries into ZoneGeometry and write zones back out
+ *
+ * Import takes a GeoJSON FeatureCollection (or a single Feature / geometry)
+ * or a KML document. Every polygon becomes its own zone - a MultiPolygon or
+ * a KML MultiGeometry gives one zone per part. Holes are dropped (zones are
+ * a single ring). Rings over MAX_POLYGON_POINTS are simplified until they
+ * fit. Anything that still fails validateZoneGeometry is skipped with the
+ * reason.
+ *
+ * Export writes polygons via zoneGeometryToGeoJSON, so circles come out as
+ * 64-point polygons GIS tools understand. Circle center and radius ride
+ * along in the properties / ExtendedData, and import turns them back into
+ * circles.
+ *
+ * KML parsing uses DOMParser, so import runs in the browser only.
+ *
+ * Character count: ~9,000
+ */
+
+import type { Zone, ZoneGeometry, PolygonPoint } from "@/types/database"
+import {
+  MAX_POLYGON_POINTS,
+  ZONE_TYPE_COLORS,
+  simplifyPolygon,
+  validateZoneGeometry,
+  zoneGeometryToGeoJSON,
+} from "./zone-config"
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A zone read from a file, not yet saved
+ */
+export interface ImportedZone {
+  name: string
+  description: string | null
+  geometry: ZoneGeometry
+  /** Point count in the file, when the ring was simplified to fit */
+  simplifiedFrom?: number
+}
+
+/**
+ * A feature that could not become a zone
+ */
+export interface SkippedFeature {
+  name: string
+  reason: string
+}
+
+export interface ZoneImportResult {
+  format: ZoneFileFormat
+  zones: ImportedZone[]
+  skipped: SkippedFeature[]
+}
+
+export type ZoneFileFormat = "geojson" | "kml"
+
+/**
+ * File types the import accepts (for <input accept>)
+ */
+export const ZONE_IMPORT_ACCEPT = ".geojson,.json,.kml,application/geo+json,application/vnd.google-earth.kml+xml"
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Parse a GeoJSON or KML file's text into zones. The format is taken from
+ * the content, not the file name.
+ *
+ * @throws Error when the text is neither valid GeoJSON nor KML
+ */
+export function parseZoneFile(text: string): ZoneImportResult {
+  const trimmed = text.trim()
+
+  if (trimmed.startsWith("<")) {
+    return { format: "kml", ...parseKML(trimmed) }
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(trimmed)
+  } catch {
+    throw new Error("File is not valid GeoJSON or KML")
+  }
+
+  return { format: "geojson", ...parseGeoJSON(json) }
+}
+
+/**
+ * Simplification tolerances tried, in meters, until a ring fits
+ * MAX_POLYGON_POINTS
+ */
+const SIMPLIFY_TOLERANCES_METERS = [1, 2, 5, 10, 20, 50, 100, 200, 500]
+
+/**
+ * Simplify a polygon with more than MAX_POLYGON_POINTS points, using the
+ * smallest tolerance that gets it under the limit. Other geometries (and
+ * rings that can't be brought under it) come back unchanged.
+ */
+function fitPointLimit(geometry: ZoneGeometry): ZoneGeometry {
+  if (geometry.type !== "polygon" || !geometry.polygon || geometry.polygon.length <= MAX_POLYGON_POINTS) {
+    return geometry
+  }
+
+  for (const tolerance of SIMPLIFY_TOLERANCES_METERS) {
+    const polygon = simplifyPolygon(geometry.polygon, tolerance)
+    if (polygon.length <= MAX_POLYGON_POINTS) {
+      return { ...geometry, polygon }
+    }
+  }
+  return geometry
+}
+
+/**
+ * Collects zones and skipped features, numbering unnamed and multi-part ones
+ */
+function createCollector() {
+  const zones: ImportedZone[] = []
+  const skipped: SkippedFeature[] = []
+
+  const add = (
+    baseName: string | null,
+    description: string | null,
+    geometries: ZoneGeometry[],
+    skipReason?: string
+  ) => {
+    const name = baseName?.trim() || `Imported zone ${zones.length + skipped.length + 1}`
+
+    if (skipReason) {
+      skipped.push({ name, reason: skipReason })
+      return
+    }
+
+    geometries.forEach((original, i) => {
+      const partName = geometries.length > 1 ? `${name} (${i + 1})` : name
+      const geometry = fitPointLimit(original)
+      const error = validateZoneGeometry(geometry)
+      if (error) {
+        skipped.push({ name: partName, reason: error })
+      } else if (geometry !== original) {
+        zones.push({ name: partName, description, geometry, simplifiedFrom: original.polygon?.length })
+      } else {
+        zones.push({ name: partName, description, geometry })
+      }
+    })
+  }
+
+  return { zones, skipped, add }
+}
+
+/**
+ * GeoJSON [lng, lat] ring to PolygonPoint[], without the closing point
+ */
+function ringToPolygon(ring: unknown): PolygonPoint[] {
+  if (!Array.isArray(ring)) return []
+
+  const points = ring
+    .filter((c): c is number[] => Array.isArray(c) && c.length >= 2)
+    .map(c => ({ latitude: Number(c[1]), longitude: Number(c[0]) }))
+
+  const first = points[0]
+  const last = points[points.length - 1]
+  if (points.length > 1 && first.latitude === last.latitude && first.longitude === last.longitude) {
+    points.pop()
+  }
+
+  return points
+}
+
+function parseGeoJSON(json: unknown): Omit<ZoneImportResult, "format"> {
+  const collector = createCollector()
+  const root = json as { type?: string; features?: unknown[] }
+
+  const features: unknown[] =
+    root?.type === "FeatureCollection" && Array.isArray(root.features) ? root.features
+    : root?.type === "Feature" ? [root]
+    : [{ type: "Feature", properties: {}, geometry: root }]
+
+  for (const feature of features) {
+    const { properties, geometry } = (feature || {}) as {
+      properties?: Record<string, unknown> | null
+      geometry?: { type?: string; coordinates?: unknown } | null
+    }
+    const props = properties || {}
+    const name = stringProp(props, ["name", "Name", "NAME", "title"])
+    const description = stringProp(props, ["description", "Description", "desc"])
+
+    // Our own export: a circle travels as a polygon plus center / radius
+    const radius = Number(props.radius_meters)
+    const center = props.center as PolygonPoint | undefined
+    if (props.geometry_type === "circle" && radius > 0 && center) {
+      collector.add(name, description, [{
+        type: "circle",
+        center: { latitude: Number(center.latitude), longitude: Number(center.longitude) },
+        radius_meters: radius,
+      }])
+      continue
+    }
+
+    switch (geometry?.type) {
+      case "Polygon":
+        collector.add(name, description, [
+          { type: "polygon", polygon: ringToPolygon((geometry.coordinates as unknown[])?.[0]) },
+        ])
+        break
+      case "MultiPolygon":
+        collector.add(name, description, ((geometry.coordinates as unknown[][]) || []).map(rings => ({
+          type: "polygon" as const,
+          polygon: ringToPolygon(rings?.[0]),
+        })))
+        break
+      case "Point": {
+        // A point with a radius property (common in exported POI layers)
+        const coords = geometry.coordinates as number[]
+        if (radius > 0 && Array.isArray(coords)) {
+          collector.add(name, description, [{
+            type: "circle",
+            center: { latitude: Number(coords[1]), longitude: Number(coords[0]) },
+            radius_meters: radius,
+          }])
+        } else {
+          collector.add(name, description, [], "Point without a radius_meters property")
+        }
+        break
+      }
+      default:
+        collector.add(name, description, [], `Unsupported geometry: ${geometry?.type ?? "none"}`)
+    }
+  }
+
+  return { zones: collector.zones, skipped: collector.skipped }
+}
+
+function stringProp(props: Record<string, unknown>, keys: string[]): string | null {
+  for (const key of keys) {
+    const value = props[key]
+    if (typeof value === "string" && value.trim()) return value.trim()
+  }
+  return null
+}
+
+/**
+ * KML "lng,lat[,alt] lng,lat[,alt] ..." to PolygonPoint[]
+ */
+function kmlCoordinatesToPolygon(text: string | null | undefined): PolygonPoint[] {
+  const ring = (text || "")
+    .trim()
+    .split(/\s+/)
+    .map(tuple => tuple.split(",").map(Number))
+    .filter(c => c.length >= 2 && !c.some(Number.isNaN))
+  return ringToPolygon(ring)
+}
+
+function parseKML(text: string): Omit<ZoneImportResult, "format"> {
+  const doc = new DOMParser().parseFromString(text, "application/xml")
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("File is not valid GeoJSON or KML")
+  }
+
+  const collector = createCollector()
+  const placemarks = Array.from(doc.getElementsByTagName("Placemark"))
+
+  for (const placemark of placemarks) {
+    const name = childText(placemark, "name")
+    const description = childText(placemark, "description")
+    const data = readExtendedData(placemark)
+
+    // Our own export: a circle travels as a polygon plus center / radius
+    const radius = Number(data.radius_meters)
+    const centerLat = Number(data.center_latitude)
+    const centerLng = Number(data.center_longitude)
+    if (data.geometry_type === "circle" && radius > 0 && !Number.isNaN(centerLat) && !Number.isNaN(centerLng)) {
+      collector.add(name, description, [{
+        type: "circle",
+        center: { latitude: centerLat, longitude: centerLng },
+        radius_meters: radius,
+      }])
+      continue
+    }
+
+    // Covers single Polygons and every Polygon inside a MultiGeometry
+    const polygons = Array.from(placemark.getElementsByTagName("Polygon"))
+    if (polygons.length === 0) {
+      collector.add(name, description, [], "Placemark has no Polygon")
+      continue
+    }
+
+    collector.add(name, description, polygons.map(polygon => {
+      const outer = polygon.getElementsByTagName("outerBoundaryIs")[0] ?? polygon
+      const coordinates = outer.getElementsByTagName("coordinates")[0]
+      return { type: "polygon" as const, polygon: kmlCoordinatesToPolygon(coordinates?.textContent) }
+    }))
+  }
+
+  return { zones: collector.zones, skipped: collector.skipped }
+}
+
+function childText(element: Element, tag: string): string | null {
+  const child = Array.from(element.children).find(c => c.tagName === tag)
+  return child?.textContent?.trim() || null
+}
+
+function readExtendedData(placemark: Element): Record<string, string> {
+  const data: Record<string, string> = {}
+  for (const item of Array.from(placemark.getElementsByTagName("Data"))) {
+    const key = item.getAttribute("name")
+    const value = item.getElementsByTagName("value")[0]?.textContent
+    if (key && value != null) data[key] = value.trim()
+  }
+  return data
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Zones as a GeoJSON FeatureCollection of polygons
+ */
+export function zonesToGeoJSON(zones: Zone[]): string {
+  const collection = {
+    type: "FeatureCollection" as const,
+    features: zones.map(zone => ({
+      type: "Feature" as const,
+      id: zone.id,
+      properties: {
+        name: zone.name,
+        description: zone.description,
+        zone_type: zone.zone_type,
+        status: zone.status,
+        fill_color: zone.fill_color ?? ZONE_TYPE_COLORS[zone.zone_type].fill,
+        geometry_type: zone.geometry.type,
+        ...(zone.geometry.type === "circle" && {
+          center: zone.geometry.center,
+          radius_meters: zone.geometry.radius_meters,
+        }),
+      },
+      geometry: {
+        type: "Polygon" as const,
+        coordinates: [zoneGeometryToGeoJSON(zone.geometry)],
+      },
+    })),
+  }
+
+  return JSON.stringify(collection, null, 2)
+}
+
+/**
+ * Zones as a KML document, one Placemark per zone
+ */
+export function zonesToKML(zones: Zone[]): string {
+  const placemarks = zones.map(zone => {
+    const color = zone.fill_color ?? ZONE_TYPE_COLORS[zone.zone_type].fill
+    const coordinates = zoneGeometryToGeoJSON(zone.geometry)
+      .map(([lng, lat]) => `${lng},${lat},0`)
+      .join(" ")
+
+    const data: Record<string, string | number | undefined> = {
+      zone_id: zone.id,
+      zone_type: zone.zone_type,
+      status: zone.status,
+      geometry_type: zone.geometry.type,
+      ...(zone.geometry.type === "circle" && {
+        center_latitude: zone.geometry.center?.latitude,
+        center_longitude: zone.geometry.center?.longitude,
+        radius_meters: zone.geometry.radius_meters,
+      }),
+    }
+    const extendedData = Object.entries(data)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `        <Data name="${key}"><value>${escapeXml(String(value))}</value></Data>`)
+      .join("\n")
+
+    return [
+      "    <Placemark>",
+      `      <name>${escapeXml(zone.name)}</name>`,
+      zone.description ? `      <description>${escapeXml(zone.description)}</description>` : null,
+      "      <Style>",
+      `        <LineStyle><color>${hexToKmlColor(color, 1)}</color><width>2</width></LineStyle>`,
+      `        <PolyStyle><color>${hexToKmlColor(color, zone.opacity)}</color></PolyStyle>`,
+      "      </Style>",
+      "      <ExtendedData>",
+      extendedData,
+      "      </ExtendedData>",
+      "      <Polygon>",
+      "        <outerBoundaryIs><LinearRing>",
+      `          <coordinates>${coordinates}</coordinates>`,
+      "        </LinearRing></outerBoundaryIs>",
+      "      </Polygon>",
+      "    </Placemark>",
+    ].filter(line => line !== null).join("\n")
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "  <Document>",
+    "    <name>Black Bart's Gold Zones</name>",
+    ...placemarks,
+    "  </Document>",
+    "</kml>",
+  ].join("\n")
+}
+
+/**
+ * Download exported zones as a file
+ */
+export function downloadZones(zones: Zone[], format: ZoneFileFormat): void {
+  const content = format === "kml" ? zonesToKML(zones) : zonesToGeoJSON(zones)
+  const type = format === "kml" ? "application/vnd.google-earth.kml+xml" : "application/geo+json"
+  const extension = format === "kml" ? "kml" : "geojson"
+
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `zones-${new Date().toISOString().slice(0, 10)}.${extension}`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+/**
+ * "#RRGGBB" + opacity to KML's aabbggrr
+ */
+function hexToKmlColor(hex: string, opacity: number): string {
+  const clean = hex.replace("#", "").padEnd(6, "0").slice(0, 6)
+  const alpha = Math.round(Math.min(Math.max(opacity, 0), 1) * 255).toString(16).padStart(2, "0")
+  return `${alpha}${clean.slice(4, 6)}${clean.slice(2, 4)}${clean.slice(0, 2)}`
+}
@@ -316,7 +316,7 @@ interface UseAntiCheatReturn {
   // Actions
   refresh: () => Promise<void>
   reviewFlag: (flagId: string, status: CheatFlagStatus, action: PlayerAction, notes?: string) => Promise<void>
-  takeAction: (userId: string, action: PlayerAction, reason: string) => Promise<void>
+  takeAction: (userId: string, action: PlayerAction, reason: string, durationDays?: number) => Promise<void>
   clearFlag: (flagId: string, notes: string) => Promise<void>
   getPlayerFlags: (userId: string) => CheatFlag[]
 }
@@ -561,7 +561,8 @@ export function useAntiCheat(): UseAntiCheatReturn {
   const takeAction = useCallback(async (
     userId: string,
     action: PlayerAction,
-    reason: string
+    reason: string,
+    durationDays?: number
   ) => {
     setLoading(true)
     setError(null)
@@ -571,13 +572,15 @@ export function useAntiCheat(): UseAntiCheatReturn {
       const { data: { user } } = await supabase.auth.getUser()
       if (!user) throw new Error('Not authenticated')
       
-      // Insert player action
+      // Insert player action (suspensions expire after duration_days,
+      // default 7 - see migration 023)
       const { error: actionError } = await supabase
         .from('player_actions')
         .insert({
           user_id: userId,
           action,
           reason,
+          duration_days: action === 'suspended' ? durationDays ?? null : null,
           performed_by: user.id,
           performed_at: new Date().toISOString(),
         })
@@ -13,6 +13,7 @@ import { useState, useEffect, useCallback, useRef, useMemo } from "react"
 import { createClient } from "@/lib/supabase/client"
 import type { 
   Zone,
+  ZoneGeometry,
   Coin,
   DistributionStats,
   DistributionConfig,
@@ -26,8 +27,7 @@ import {
   DEFAULT_DISTRIBUTION_CONFIG,
   generateSpawnPlan,
   calculateCoinsNeeded,
-  randomPointInCircle,
-  randomPointInPolygon,
+  randomPointInZone,
   formatTimeUntilSpawn,
 } from "@/components/maps/distribution-config"
 
@@ -58,7 +58,11 @@ interface UseAutoDistributionResult {
   /** Manually trigger spawn for a zone */
   spawnCoinsForZone: (zoneId: string, count: number) => Promise<SpawnResult[]>
   /** Preview spawn locations for a zone */
-  previewSpawnLocations: (zone: Zone, count: number) => Array<{ latitude: number; longitude: number }>
+  previewSpawnLocations: (
+    zone: Zone,
+    count: number,
+    exclusions?: ZoneGeometry[]
+  ) => Array<{ latitude: number; longitude: number }>
   /** Update zone auto-spawn config */
   updateZoneConfig: (zoneId: string, config: Partial<Zone['auto_spawn_config']>) => Promise<void>
   /** Refresh all data */
@@ -380,24 +384,19 @@ export function useAutoDistribution(
   }, [zoneStatuses])
   
   /**
-   * Preview spawn locations for a zone
+   * Preview spawn locations for a zone (points that can't be placed outside
+   * the exclusion zones are left out)
    */
   const previewSpawnLocations = useCallback((
     zone: Zone,
-    count: number
+    count: number,
+    exclusions: ZoneGeometry[] = []
   ): Array<{ latitude: number; longitude: number }> => {
     const locations: Array<{ latitude: number; longitude: number }> = []
     
     for (let i = 0; i < count; i++) {
-      if (zone.geometry.type === 'circle' && zone.geometry.center && zone.geometry.radius_meters) {
-        locations.push(randomPointInCircle(
-          zone.geometry.center.latitude,
-          zone.geometry.center.longitude,
-          zone.geometry.radius_meters
-        ))
-      } else if (zone.geometry.type === 'polygon' && zone.geometry.polygon) {
-        locations.push(randomPointInPolygon(zone.geometry.polygon))
-      }
+      const point = randomPointInZone(zone.geometry, exclusions)
+      if (point) locations.push(point)
     }
     
     return locations
@@ -0,0 +1,185 @@
+/**
+ * Polygon Editor Hook
+ *
+ * @file admin-dashboard/src/hooks/use-polygon-editor.ts
+ * @description Edit state for a zone polygon on the map - vertex moves,
+ * inserts, deletes and simplify, with undo/redo
+ *
+ * Character count: ~4,800
+ */
+
+"use client"
+
+import { useState, useCallback, useMemo } from "react"
+import type { PolygonPoint } from "@/types/database"
+import {
+  calculateZoneArea,
+  findSelfIntersections,
+  simplifyPolygon,
+} from "@/components/maps/zone-config"
+
+/**
+ * Most undo steps kept
+ */
+const POLYGON_HISTORY_LIMIT = 100
+
+interface PolygonHistory {
+  past: PolygonPoint[][]
+  present: PolygonPoint[] | null
+  future: PolygonPoint[][]
+}
+
+export interface PolygonEditor {
+  /** Points being edited (null when the editor is closed) */
+  polygon: PolygonPoint[] | null
+  /** Editor is open */
+  isEditing: boolean
+  /** Vertex picked for deletion */
+  selectedIndex: number | null
+  /** Edge index pairs that cross (findSelfIntersections) */
+  intersections: [number, number][]
+  /** Live area in square meters */
+  area: number
+  canUndo: boolean
+  canRedo: boolean
+  /** Open the editor on these points (clears history) */
+  start: (points: PolygonPoint[]) => void
+  /** Close the editor */
+  stop: () => void
+  selectVertex: (index: number | null) => void
+  /** Save an undo step before a run of moveVertex calls (drag start) */
+  checkpoint: () => void
+  /** Move a vertex without adding an undo step - call checkpoint() first */
+  moveVertex: (index: number, point: PolygonPoint) => void
+  /** Insert a point after vertex `afterIndex` (on that vertex's edge) */
+  insertVertex: (afterIndex: number, point: PolygonPoint) => void
+  /** Remove a vertex - false if the polygon would drop below 3 points */
+  deleteVertex: (index: number) => boolean
+  /** Simplify with simplifyPolygon - returns how many points were removed */
+  simplify: (toleranceMeters: number) => number
+  undo: () => void
+  redo: () => void
+}
+
+const closedHistory: PolygonHistory = { past: [], present: null, future: [] }
+
+/**
+ * Push the current polygon onto the undo stack and make `next` current
+ */
+function record(history: PolygonHistory, next: PolygonPoint[]): PolygonHistory {
+  if (!history.present) return history
+  return {
+    past: [...history.past, history.present].slice(-POLYGON_HISTORY_LIMIT),
+    present: next,
+    future: [],
+  }
+}
+
+export function usePolygonEditor(): PolygonEditor {
+  const [history, setHistory] = useState<PolygonHistory>(closedHistory)
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null)
+
+  const polygon = history.present
+
+  const start = useCallback((points: PolygonPoint[]) => {
+    setHistory({ past: [], present: points.map(p => ({ ...p })), future: [] })
+    setSelectedIndex(null)
+  }, [])
+
+  const stop = useCallback(() => {
+    setHistory(closedHistory)
+    setSelectedIndex(null)
+  }, [])
+
+  const checkpoint = useCallback(() => {
+    setHistory(prev => prev.present ? record(prev, prev.present) : prev)
+  }, [])
+
+  const moveVertex = useCallback((index: number, point: PolygonPoint) => {
+    setHistory(prev => prev.present ? {
+      ...prev,
+      present: prev.present.map((p, i) => (i === index ? point : p)),
+    } : prev)
+  }, [])
+
+  const insertVertex = useCallback((afterIndex: number, point: PolygonPoint) => {
+    setHistory(prev => prev.present ? record(prev, [
+      ...prev.present.slice(0, afterIndex + 1),
+      point,
+      ...prev.present.slice(afterIndex + 1),
+    ]) : prev)
+    setSelectedIndex(afterIndex + 1)
+  }, [])
+
+  const deleteVertex = useCallback((index: number) => {
+    if (!polygon || polygon.length <= 3) return false
+    setHistory(prev => prev.present ? record(prev, prev.present.filter((_, i) => i !== index)) : prev)
+    setSelectedIndex(null)
+    return true
+  }, [polygon])
+
+  const simplify = useCallback((toleranceMeters: number) => {
+    if (!polygon) return 0
+    const simplified = simplifyPolygon(polygon, toleranceMeters)
+    const removed = polygon.length - simplified.length
+    if (removed > 0) {
+      setHistory(prev => record(prev, simplified))
+      setSelectedIndex(null)
+    }
+    return removed
+  }, [polygon])
+
+  const undo = useCallback(() => {
+    setHistory(prev => {
+      if (!prev.present || prev.past.length === 0) return prev
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+      }
+    })
+    setSelectedIndex(null)
+  }, [])
+
+  const redo = useCallback(() => {
+    setHistory(prev => {
+      if (!prev.present || prev.future.length === 0) return prev
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+      }
+    })
+    setSelectedIndex(null)
+  }, [])
+
+  const intersections = useMemo(
+    () => (polygon ? findSelfIntersections(polygon) : []),
+    [polygon]
+  )
+
+  const area = useMemo(
+    () => (polygon ? calculateZoneArea({ type: 'polygon', polygon }) : 0),
+    [polygon]
+  )
+
+  return {
+    polygon,
+    isEditing: polygon !== null,
+    selectedIndex,
+    intersections,
+    area,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    start,
+    stop,
+    selectVertex: setSelectedIndex,
+    checkpoint,
+    moveVertex,
+    insertVertex,
+    deleteVertex,
+    simplify,
+    undo,
+    redo,
+  }
+}
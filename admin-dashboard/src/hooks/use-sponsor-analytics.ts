@@ -9,13 +9,19 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import { createClient } from "@/lib/supabase/client"
 import type { 
   SponsorAnalytics, 
   SponsorZoneAnalytics, 
   Sponsor,
-  BulkCoinPlacementConfig 
+  BulkCoinPlacementConfig,
+  CoinTier,
+  Zone,
+  ZoneGeometry
 } from "@/types/database"
 import { calculatePerformanceScore } from "@/components/maps/sponsor-config"
+import { MAX_SPAWN_ATTEMPTS, randomPointInZone } from "@/components/maps/distribution-config"
+import { calculateDistance } from "@/components/maps/map-config"
 
 // ============================================================================
 // MOCK DATA GENERATION
@@ -165,6 +171,63 @@ function generateMockSponsors(): Sponsor[] {
   ]
 }
 
+// ============================================================================
+// BULK PLACEMENT
+// ============================================================================
+
+interface BulkSpot {
+  zone_id: string
+  latitude: number
+  longitude: number
+}
+
+/**
+ * Pick a tier weighted by the placement's tier percentages
+ */
+function pickTier(distribution: BulkCoinPlacementConfig['tier_distribution']): CoinTier {
+  const total = distribution.gold + distribution.silver + distribution.bronze
+  let roll = Math.random() * (total || 1)
+  
+  for (const tier of ['gold', 'silver', 'bronze'] as const) {
+    roll -= distribution[tier]
+    if (roll < 0) return tier
+  }
+  return 'bronze'
+}
+
+/**
+ * Pick up to `count` spots spread across the zones, outside the exclusion
+ * zones and at least minDistanceMeters apart. Returns fewer spots when the
+ * zones are too crowded or covered by exclusion zones.
+ */
+function pickBulkSpots(
+  zones: Zone[],
+  count: number,
+  exclusions: ZoneGeometry[],
+  minDistanceMeters: number
+): BulkSpot[] {
+  const spots: BulkSpot[] = []
+  
+  for (let i = 0; i < count; i++) {
+    const zone = zones[i % zones.length]
+    
+    for (let attempt = 0; attempt < MAX_SPAWN_ATTEMPTS; attempt++) {
+      const point = randomPointInZone(zone.geometry, exclusions)
+      if (!point) break
+      
+      const tooClose = minDistanceMeters > 0 && spots.some(spot =>
+        calculateDistance(spot.latitude, spot.longitude, point.latitude, point.longitude) < minDistanceMeters
+      )
+      if (!tooClose) {
+        spots.push({ zone_id: zone.id, ...point })
+        break
+      }
+    }
+  }
+  
+  return spots
+}
+
 // ============================================================================
 // HOOK
 // ============================================================================
@@ -179,7 +242,11 @@ interface UseSponsorAnalyticsReturn {
   // Actions
   fetchAnalytics: (sponsorId: string) => Promise<void>
   refresh: () => Promise<void>
-  placeBulkCoins: (config: BulkCoinPlacementConfig) => Promise<{ success: boolean; message: string }>
+  placeBulkCoins: (
+    config: BulkCoinPlacementConfig,
+    zones: Zone[],
+    exclusions?: ZoneGeometry[]
+  ) => Promise<{ success: boolean; message: string }>
 }
 
 export function useSponsorAnalytics(): UseSponsorAnalyticsReturn {
@@ -250,25 +317,65 @@ export function useSponsorAnalytics(): UseSponsorAnalyticsReturn {
     }
   }
 
-  // Place bulk coins
+  // Place bulk coins at random spots in the sponsor's zones, outside the
+  // exclusion zones (no-spawn areas)
   const placeBulkCoins = async (
-    config: BulkCoinPlacementConfig
+    config: BulkCoinPlacementConfig,
+    zones: Zone[],
+    exclusions: ZoneGeometry[] = []
   ): Promise<{ success: boolean; message: string }> => {
     setLoading(true)
     setError(null)
     
     try {
-      // TODO: Replace with actual Supabase call
-      // const { data, error } = await supabase
-      //   .rpc('place_bulk_coins', { config })
-      // if (error) throw error
+      const targetZones = config.zone_id
+        ? zones.filter(z => z.id === config.zone_id)
+        : zones
+      if (targetZones.length === 0) {
+        throw new Error('No sponsor zone to place coins in')
+      }
+      
+      const spots = pickBulkSpots(
+        targetZones,
+        config.coin_count,
+        exclusions,
+        config.min_distance_between_coins_meters
+      )
+      if (spots.length === 0) {
+        throw new Error('No spots outside exclusion zones in the selected zone')
+      }
       
-      // Mock implementation
-      await new Promise(resolve => setTimeout(resolve, 1000)) // Simulate API call
+      const supabase = createClient()
+      const { min, max } = config.value_range
+      let placed = 0
+      
+      for (const spot of spots) {
+        const { error } = await supabase.rpc('spawn_coin', {
+          p_zone_id: spot.zone_id,
+          p_trigger_type: 'manual',
+          p_tier: pickTier(config.tier_distribution),
+          p_value: Math.round((min + Math.random() * (max - min)) * 100) / 100,
+          p_latitude: spot.latitude,
+          p_longitude: spot.longitude,
+        })
+        if (error) {
+          console.error('Error placing coin:', error)
+        } else {
+          placed++
+        }
+      }
+      
+      if (placed === 0) {
+        throw new Error('Failed to place coins')
+      }
       
       return {
         success: true,
-        message: `Successfully placed ${config.coin_count} coins!`,
+        message: placed === config.coin_count
+          ? `Successfully placed ${placed} coins!`
+          : spots.length < config.coin_count
+            ? `Placed ${placed} of ${config.coin_count} coins - not enough free spots outside exclusion zones`
+            : `Placed ${placed} of ${config.coin_count} coins`,
       }
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to place coins'
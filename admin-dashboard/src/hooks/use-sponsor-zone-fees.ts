@@ -0,0 +1,44 @@
+/**
+ * Sponsor Zone Fees Hook
+ *
+ * @file admin-dashboard/src/hooks/use-sponsor-zone-fees.ts
+ * @description Current sponsor zone fees (Settings → Sponsor Zone Fees) for
+ * dialogs that quote them. Defaults until the row has loaded.
+ */
+
+"use client"
+
+import { useState, useEffect } from "react"
+import { createClient } from "@/lib/supabase/client"
+import type { SponsorZoneFeeConfig, SponsorZoneFeeSettings } from "@/types/database"
+import { DEFAULT_SPONSOR_ZONE_FEES } from "@/components/maps/sponsor-config"
+import { toSponsorZoneFees } from "@/lib/sponsor-zone-fees"
+
+export function useSponsorZoneFees(): SponsorZoneFeeConfig {
+  const [fees, setFees] = useState<SponsorZoneFeeConfig>(DEFAULT_SPONSOR_ZONE_FEES)
+
+  useEffect(() => {
+    let cancelled = false
+    const supabase = createClient()
+
+    supabase
+      .from("sponsor_zone_fee_config")
+      .select("*")
+      .eq("id", 1)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return
+        if (error) {
+          console.error("Error fetching sponsor zone fees:", error)
+          return
+        }
+        setFees(toSponsorZoneFees(data as SponsorZoneFeeSettings | null))
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return fees
+}
@@ -0,0 +1,98 @@
+/**
+ * Account Linkage
+ *
+ * Joins the account pairs from get_account_links() (migration 024) into
+ * "account rings": groups of accounts connected through shared devices,
+ * IP ranges or overlapping location trails, directly or via other members.
+ * Used by the Account Rings tab on the Security page.
+ *
+ * @file admin-dashboard/src/lib/account-linkage.ts
+ */
+
+import type { AccountLink, AccountLinkKind } from '@/types/database'
+
+/**
+ * How strongly each kind of link suggests one person behind both accounts.
+ * Shared IP ranges are weak on their own (households, campuses, carriers).
+ */
+export const LINK_KIND_WEIGHTS: Record<AccountLinkKind, number> = {
+  device: 3,
+  trail: 2,
+  ip_range: 1,
+}
+
+export const LINK_KIND_LABELS: Record<AccountLinkKind, string> = {
+  device: 'Same device',
+  trail: 'Overlapping trail',
+  ip_range: 'Same IP range',
+}
+
+export interface AccountRing {
+  id: string                  // Stable key: sorted member IDs
+  userIds: string[]
+  links: AccountLink[]
+  kinds: AccountLinkKind[]
+  score: number               // Sum of LINK_KIND_WEIGHTS over the links
+}
+
+/**
+ * Group linked accounts into rings (connected components), strongest first.
+ * Only links of the given kinds connect accounts.
+ */
+export function buildAccountRings(
+  links: AccountLink[],
+  kinds: AccountLinkKind[] = ['device', 'trail', 'ip_range']
+): AccountRing[] {
+  const used = links.filter((link) => kinds.includes(link.kind))
+
+  // Union-find over user IDs
+  const parent = new Map<string, string>()
+  const find = (id: string): string => {
+    let root = parent.get(id) ?? id
+    while (root !== (parent.get(root) ?? root)) {
+      root = parent.get(root)!
+    }
+    parent.set(id, root)
+    return root
+  }
+
+  for (const link of used) {
+    const a = find(link.user_a)
+    const b = find(link.user_b)
+    if (a !== b) parent.set(a, b)
+  }
+
+  const rings = new Map<string, { userIds: Set<string>; links: AccountLink[] }>()
+  for (const link of used) {
+    const root = find(link.user_a)
+    const ring = rings.get(root) ?? { userIds: new Set<string>(), links: [] }
+    ring.userIds.add(link.user_a)
+    ring.userIds.add(link.user_b)
+    ring.links.push(link)
+    rings.set(root, ring)
+  }
+
+  return Array.from(rings.values())
+    .map(({ userIds, links: ringLinks }) => {
+      const members = Array.from(userIds).sort()
+      return {
+        id: members.join(':'),
+        userIds: members,
+        links: ringLinks,
+        kinds: Array.from(new Set(ringLinks.map((link) => link.kind))),
+        score: ringLinks.reduce((total, link) => total + LINK_KIND_WEIGHTS[link.kind], 0),
+      }
+    })
+    .sort((a, b) => b.score - a.score || b.userIds.length - a.userIds.length)
+}
+
+/**
+ * One-line description of a link, e.g. "Same device (a1b2c3d4…)"
+ */
+export function describeAccountLink(link: AccountLink): string {
+  if (link.kind === 'trail') {
+    return `${LINK_KIND_LABELS.trail} (${link.matches} points)`
+  }
+  const value = link.value && link.value.length > 16 ? `${link.value.slice(0, 16)}…` : link.value
+  return value ? `${LINK_KIND_LABELS[link.kind]} (${value})` : LINK_KIND_LABELS[link.kind]
+}
@@ -0,0 +1,80 @@
+/**
+ * Account Restriction Enforcement
+ *
+ * The latest suspend / ban / clear in player_actions decides whether a
+ * player may play (get_account_restriction, migration 018). Suspensions
+ * always carry an expires_at (migration 023) and lift on their own.
+ *
+ * Gameplay and wallet routes refuse restricted players with 403
+ * ACCOUNT_SUSPENDED (with the until-timestamp) or ACCOUNT_BANNED. The auth
+ * routes stay open so the app can show the state, and /player/location keeps
+ * recording (for the admin map) and reports it as `restricted`.
+ *
+ * @file admin-dashboard/src/lib/account-restriction.ts
+ */
+
+import { NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { createErrorResponse, type ApiErrorResponse } from '@/lib/api-utils'
+
+export interface AccountRestriction {
+  action: 'suspended' | 'banned'
+  reason: string | null
+  expiresAt: string | null   // When a suspension ends (null for bans)
+}
+
+/**
+ * The player's active suspension or ban, or null when they can play
+ */
+export async function getAccountRestriction(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<AccountRestriction | null> {
+  const { data, error } = await supabase.rpc('get_account_restriction', { p_user_id: userId })
+
+  if (error) {
+    throw error
+  }
+  if (!data) return null
+
+  const row = data as { action: AccountRestriction['action']; reason: string | null; expires_at: string | null }
+  return {
+    action: row.action,
+    reason: row.reason,
+    expiresAt: row.expires_at,
+  }
+}
+
+/**
+ * 403 ACCOUNT_BANNED / ACCOUNT_SUSPENDED response for a restriction
+ */
+export function accountRestrictedResponse(restriction: AccountRestriction): NextResponse<ApiErrorResponse> {
+  const { body, status } = restriction.action === 'banned'
+    ? createErrorResponse('Your account has been banned', 'ACCOUNT_BANNED', 403, {
+        reason: restriction.reason,
+      })
+    : createErrorResponse('Your account is suspended', 'ACCOUNT_SUSPENDED', 403, {
+        reason: restriction.reason,
+        until: restriction.expiresAt,
+      })
+  return NextResponse.json(body, { status })
+}
+
+/**
+ * Refuse the request when the player is suspended or banned.
+ * Returns the 403 response to send, or null to proceed.
+ *
+ * @example
+ * const restricted = await checkAccountRestriction(user.id)
+ * if (restricted) return restricted
+ */
+export async function checkAccountRestriction(
+  userId: string
+): Promise<NextResponse<ApiErrorResponse> | null> {
+  const restriction = await getAccountRestriction(createServiceRoleClient(), userId)
+  if (!restriction) return null
+
+  console.warn(`[API] Refused ${restriction.action} player ${userId}`)
+  return accountRestrictedResponse(restriction)
+}
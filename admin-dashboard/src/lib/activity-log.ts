@@ -0,0 +1,59 @@
+/**
+ * Activity Log Helpers (server)
+ *
+ * Writes activity_logs rows from API routes, with the caller's IP address
+ * and user agent, so they show up on the Security page.
+ *
+ * Server only: uses the service role client.
+ *
+ * @file admin-dashboard/src/lib/activity-log.ts
+ */
+
+import type { NextRequest } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import type { ActivitySeverity, ActivityType } from '@/types/database'
+
+interface ActivityLogEntry {
+  userId: string | null
+  type: ActivityType
+  description: string
+  severity?: ActivitySeverity
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * Client IP from the proxy headers: the last hop of x-forwarded-for, which
+ * our proxy appends. Earlier hops come from the client and can be spoofed.
+ */
+export function getClientIp(request: NextRequest): string | null {
+  const forwardedFor = request.headers.get('x-forwarded-for')
+  if (forwardedFor) {
+    const hops = forwardedFor.split(',').map((hop) => hop.trim()).filter(Boolean)
+    if (hops.length > 0) {
+      return hops[hops.length - 1]
+    }
+  }
+  return request.headers.get('x-real-ip')
+}
+
+/**
+ * Record an activity for the request. Never throws: a failed log write is
+ * reported but doesn't fail the request.
+ */
+export async function logActivity(request: NextRequest, entry: ActivityLogEntry): Promise<void> {
+  const { error } = await createServiceRoleClient()
+    .from('activity_logs')
+    .insert({
+      user_id: entry.userId,
+      activity_type: entry.type,
+      severity: entry.severity ?? 'info',
+      description: entry.description,
+      ip_address: getClientIp(request),
+      user_agent: request.headers.get('user-agent'),
+      metadata: entry.metadata ?? {},
+    })
+
+  if (error) {
+    console.warn(`[API] Failed to log ${entry.type} activity:`, error.message)
+  }
+}
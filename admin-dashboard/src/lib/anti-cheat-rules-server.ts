@@ -0,0 +1,40 @@
+/**
+ * Anti-Cheat Rules - server-side accessor
+ *
+ * Reads anti_cheat_rules for API routes, cached briefly like game settings;
+ * edits from the Anti-Cheat panel apply within RULES_CACHE_MS.
+ *
+ * Server only: uses the service role client.
+ *
+ * @file admin-dashboard/src/lib/anti-cheat-rules-server.ts
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { DEFAULT_ANTI_CHEAT_RULES, toAntiCheatRuleSet, type AntiCheatRuleSet } from '@/lib/anti-cheat-rules'
+
+const RULES_CACHE_MS = 30_000
+
+let cached: { rules: AntiCheatRuleSet; loadedAt: number } | null = null
+
+/**
+ * Current rule set, falling back to the defaults if the table can't be read
+ */
+export async function getAntiCheatRules(): Promise<AntiCheatRuleSet> {
+  if (cached && Date.now() - cached.loadedAt < RULES_CACHE_MS) {
+    return cached.rules
+  }
+
+  const supabase = createServiceRoleClient()
+  const { data, error } = await supabase
+    .from('anti_cheat_rules')
+    .select('rule_key, enabled, thresholds, version')
+
+  if (error || !data) {
+    if (error) console.error('[API] Error loading anti-cheat rules, using defaults:', error)
+    return cached?.rules ?? DEFAULT_ANTI_CHEAT_RULES
+  }
+
+  const rules = toAntiCheatRuleSet(data)
+  cached = { rules, loadedAt: Date.now() }
+  return rules
+}
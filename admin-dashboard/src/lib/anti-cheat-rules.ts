@@ -0,0 +1,427 @@
+/**
+ * Anti-Cheat Rule Engine
+ *
+ * Each detection is a named rule with editable thresholds, stored in
+ * anti_cheat_rules (migration 025) with a version history. This is the only
+ * evaluator: the same rule set drives /player/location
+ * (lib/cheat-detection.ts) and the Anti-Cheat panel's dry-run replay, so a
+ * threshold only lives in one place. Defaults come from anti-cheat-config.ts.
+ *
+ * There is no batch evaluation: no job re-scans stored locations to write
+ * flags, and no SQL copy of the rules. A batch job would replay history
+ * through replayAntiCheatRules() with the same rule set.
+ *
+ * Safe to import from client components (no server-only dependencies).
+ *
+ * @file admin-dashboard/src/lib/anti-cheat-rules.ts
+ */
+
+import type {
+  AntiCheatRule,
+  AntiCheatRuleKey,
+  CheatFlag,
+  CheatReason,
+  CheatSeverity,
+  PlayerLocationHistory,
+  PlayerMovementType,
+} from '@/types/database'
+import { calculateDistance } from '@/components/maps/map-config'
+import {
+  ACCURACY_THRESHOLDS,
+  DISTANCE_DETECTION_THRESHOLDS,
+  SPEED_DETECTION_THRESHOLDS,
+  TIME_DETECTION_THRESHOLDS,
+  calculateSpeed,
+  determineSeverity,
+  getCheatReasonDescription,
+  getCheatReasonLabel,
+} from '@/components/maps/anti-cheat-config'
+
+// ============================================================================
+// RULE DEFINITIONS
+// ============================================================================
+
+export interface AntiCheatRuleConfig {
+  enabled: boolean
+  thresholds: Record<string, number>
+  version?: number              // anti_cheat_rules.version (unset for defaults)
+}
+
+export type AntiCheatRuleSet = Record<AntiCheatRuleKey, AntiCheatRuleConfig>
+
+export interface AntiCheatThresholdField {
+  key: string
+  label: string
+  unit: string
+  min: number
+  max: number
+}
+
+export interface AntiCheatRuleDefinition {
+  key: AntiCheatRuleKey
+  reason: CheatReason
+  name: string
+  description: string
+  thresholds: AntiCheatThresholdField[]
+}
+
+export const ANTI_CHEAT_RULE_KEYS: AntiCheatRuleKey[] = [
+  'mock_location',
+  'gps_spoofing',
+  'teleportation',
+  'impossible_speed',
+  'location_inconsistency',
+]
+
+export const ANTI_CHEAT_RULE_DEFINITIONS: Record<AntiCheatRuleKey, AntiCheatRuleDefinition> = {
+  mock_location: {
+    key: 'mock_location',
+    reason: 'mock_location',
+    name: getCheatReasonLabel('mock_location'),
+    description: 'The app reports that the device has mock locations enabled',
+    thresholds: [],
+  },
+  gps_spoofing: {
+    key: 'gps_spoofing',
+    reason: 'gps_spoofing',
+    name: getCheatReasonLabel('gps_spoofing'),
+    description: 'Very poor GPS accuracy while moving faster than a car',
+    thresholds: [
+      { key: 'max_accuracy_meters', label: 'Poor accuracy above', unit: 'm', min: 10, max: 1000 },
+      { key: 'max_speed_kmh', label: 'While faster than', unit: 'km/h', min: 10, max: 1000 },
+    ],
+  },
+  teleportation: {
+    key: 'teleportation',
+    reason: 'teleportation',
+    name: getCheatReasonLabel('teleportation'),
+    description: getCheatReasonDescription('teleportation'),
+    thresholds: [
+      { key: 'max_speed_kmh', label: 'Speed above', unit: 'km/h', min: 100, max: 10000 },
+      { key: 'max_distance_meters', label: 'Or a jump over', unit: 'm', min: 100, max: 100000 },
+      { key: 'min_time_seconds', label: '…within', unit: 's', min: 1, max: 60 },
+    ],
+  },
+  impossible_speed: {
+    key: 'impossible_speed',
+    reason: 'impossible_speed',
+    name: getCheatReasonLabel('impossible_speed'),
+    description: getCheatReasonDescription('impossible_speed'),
+    thresholds: [
+      { key: 'max_speed_kmh', label: 'Speed above', unit: 'km/h', min: 10, max: 1000 },
+      { key: 'max_speed_after_walking_kmh', label: 'Right after walking, above', unit: 'km/h', min: 5, max: 500 },
+      { key: 'max_speed_after_running_kmh', label: 'Right after running, above', unit: 'km/h', min: 10, max: 500 },
+    ],
+  },
+  location_inconsistency: {
+    key: 'location_inconsistency',
+    reason: 'location_inconsistency',
+    name: getCheatReasonLabel('location_inconsistency'),
+    description: 'Speed reported by the device disagrees with the distance actually covered',
+    thresholds: [
+      { key: 'max_speed_mismatch_kmh', label: 'Speed mismatch above', unit: 'km/h', min: 5, max: 500 },
+    ],
+  },
+}
+
+/**
+ * Rule set used until the anti_cheat_rules table says otherwise
+ */
+export const DEFAULT_ANTI_CHEAT_RULES: AntiCheatRuleSet = {
+  mock_location: { enabled: true, thresholds: {} },
+  gps_spoofing: {
+    enabled: true,
+    thresholds: {
+      max_accuracy_meters: ACCURACY_THRESHOLDS.minAccuracy,
+      max_speed_kmh: SPEED_DETECTION_THRESHOLDS.maxDriving,
+    },
+  },
+  teleportation: {
+    enabled: true,
+    thresholds: {
+      max_speed_kmh: SPEED_DETECTION_THRESHOLDS.teleportation,
+      max_distance_meters: DISTANCE_DETECTION_THRESHOLDS.teleportation,
+      min_time_seconds: 5,
+    },
+  },
+  impossible_speed: {
+    enabled: true,
+    thresholds: {
+      max_speed_kmh: SPEED_DETECTION_THRESHOLDS.impossible,
+      max_speed_after_walking_kmh: SPEED_DETECTION_THRESHOLDS.maxRunning,
+      max_speed_after_running_kmh: SPEED_DETECTION_THRESHOLDS.maxDriving,
+    },
+  },
+  location_inconsistency: {
+    enabled: true,
+    thresholds: { max_speed_mismatch_kmh: 50 },
+  },
+}
+
+/**
+ * Build a rule set from anti_cheat_rules rows, falling back to the defaults
+ * for missing rules or thresholds
+ */
+export function toAntiCheatRuleSet(
+  rows: Pick<AntiCheatRule, 'rule_key' | 'enabled' | 'thresholds' | 'version'>[]
+): AntiCheatRuleSet {
+  const rules = structuredClone(DEFAULT_ANTI_CHEAT_RULES)
+
+  for (const row of rows) {
+    const rule = rules[row.rule_key]
+    if (!rule) continue
+
+    rule.enabled = row.enabled
+    rule.version = row.version
+    for (const key of Object.keys(rule.thresholds)) {
+      const value = Number(row.thresholds?.[key])
+      if (Number.isFinite(value)) rule.thresholds[key] = value
+    }
+  }
+
+  return rules
+}
+
+/**
+ * Field errors for a rule's thresholds (empty when valid)
+ */
+export function validateRuleThresholds(
+  ruleKey: AntiCheatRuleKey,
+  thresholds: Record<string, number>
+): Record<string, string> {
+  const errors: Record<string, string> = {}
+
+  for (const field of ANTI_CHEAT_RULE_DEFINITIONS[ruleKey].thresholds) {
+    const value = thresholds[field.key]
+    if (value === undefined || !Number.isFinite(value)) {
+      errors[field.key] = 'Required'
+    } else if (value < field.min || value > field.max) {
+      errors[field.key] = `Must be between ${field.min} and ${field.max}`
+    }
+  }
+
+  return errors
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * The same reason is flagged at most once per player in this window,
+ * so a spoofing app sending updates every 5s creates one flag, not hundreds.
+ */
+export const CHEAT_FLAG_DEDUPE_MINUTES = 60
+
+export interface LocationFix {
+  latitude: number
+  longitude: number
+  accuracyMeters: number | null
+  speedMps: number | null
+  timestamp: string             // Server time the fix was received
+  movementType?: PlayerMovementType | null
+}
+
+export interface LocationContext {
+  isMockLocation: boolean
+  deviceId: string | null
+  deviceModel: string | null
+  sessionId: string | null
+}
+
+export interface DetectedCheat {
+  reason: CheatReason
+  severity: CheatSeverity
+  evidence: CheatFlag['evidence']
+}
+
+/**
+ * Run the enabled rules on a location update. previous is the player's last
+ * known fix, or null for the first update of a session.
+ *
+ * Speed is worked out from the distance less both fixes' accuracy radius,
+ * so GPS jitter between two close fixes doesn't read as movement.
+ */
+export function evaluateAntiCheatRules(
+  rules: AntiCheatRuleSet,
+  current: LocationFix,
+  previous: LocationFix | null,
+  context: LocationContext
+): DetectedCheat[] {
+  const reportedSpeedKmh = current.speedMps != null ? current.speedMps * 3.6 : undefined
+
+  const evidence: CheatFlag['evidence'] = {
+    current_location: {
+      latitude: current.latitude,
+      longitude: current.longitude,
+      timestamp: current.timestamp,
+    },
+    reported_speed_kmh: reportedSpeedKmh,
+    accuracy_meters: current.accuracyMeters ?? undefined,
+    device_id: context.deviceId ?? undefined,
+    device_model: context.deviceModel ?? undefined,
+    is_mock_location: context.isMockLocation,
+    session_id: context.sessionId ?? undefined,
+  }
+
+  let distanceMeters: number | undefined
+  let timeSeconds: number | undefined
+  let speedKmh: number | undefined
+  let rawSpeedKmh: number | undefined
+
+  if (previous) {
+    distanceMeters = calculateDistance(previous.latitude, previous.longitude, current.latitude, current.longitude)
+    timeSeconds = Math.max(
+      (new Date(current.timestamp).getTime() - new Date(previous.timestamp).getTime()) / 1000,
+      TIME_DETECTION_THRESHOLDS.minUpdateInterval
+    )
+    const uncertainty = (previous.accuracyMeters ?? 0) + (current.accuracyMeters ?? 0)
+    speedKmh = calculateSpeed(Math.max(0, distanceMeters - uncertainty), timeSeconds)
+    rawSpeedKmh = calculateSpeed(distanceMeters, timeSeconds)
+
+    evidence.previous_location = {
+      latitude: previous.latitude,
+      longitude: previous.longitude,
+      timestamp: previous.timestamp,
+    }
+    evidence.distance_meters = Math.round(distanceMeters)
+    evidence.time_seconds = timeSeconds
+    evidence.calculated_speed_kmh = Math.round(speedKmh * 10) / 10
+    evidence.previous_movement_type = previous.movementType ?? undefined
+  }
+
+  const reasons: CheatReason[] = []
+  // Which rule versions / thresholds fired, kept in the evidence
+  const triggered: Record<string, { version?: number; thresholds: Record<string, number> }> = {}
+  const trigger = (key: AntiCheatRuleKey) => {
+    reasons.push(ANTI_CHEAT_RULE_DEFINITIONS[key].reason)
+    triggered[key] = { version: rules[key].version, thresholds: rules[key].thresholds }
+  }
+
+  const { mock_location, gps_spoofing, teleportation, impossible_speed, location_inconsistency } = rules
+
+  if (mock_location.enabled && context.isMockLocation) {
+    trigger('mock_location')
+  } else if (
+    gps_spoofing.enabled &&
+    speedKmh !== undefined &&
+    (current.accuracyMeters ?? 0) > gps_spoofing.thresholds.max_accuracy_meters &&
+    speedKmh > gps_spoofing.thresholds.max_speed_kmh
+  ) {
+    trigger('gps_spoofing')
+  }
+
+  if (distanceMeters !== undefined && timeSeconds !== undefined && speedKmh !== undefined) {
+    const teleported = teleportation.enabled && (
+      (distanceMeters > teleportation.thresholds.max_distance_meters &&
+        timeSeconds < teleportation.thresholds.min_time_seconds) ||
+      speedKmh > teleportation.thresholds.max_speed_kmh
+    )
+
+    const previousType = previous?.movementType
+    const speedLimit = previousType === 'walking'
+      ? impossible_speed.thresholds.max_speed_after_walking_kmh
+      : previousType === 'running'
+        ? impossible_speed.thresholds.max_speed_after_running_kmh
+        : impossible_speed.thresholds.max_speed_kmh
+
+    if (teleported) {
+      trigger('teleportation')
+    } else if (impossible_speed.enabled && speedKmh > Math.min(speedLimit, impossible_speed.thresholds.max_speed_kmh)) {
+      trigger('impossible_speed')
+    }
+  }
+
+  // Reported vs calculated speed disagreeing is worth a low flag on its own
+  if (
+    reasons.length === 0 &&
+    location_inconsistency.enabled &&
+    rawSpeedKmh !== undefined &&
+    reportedSpeedKmh !== undefined &&
+    Math.abs(rawSpeedKmh - reportedSpeedKmh) > location_inconsistency.thresholds.max_speed_mismatch_kmh
+  ) {
+    trigger('location_inconsistency')
+  }
+
+  if (reasons.length > 0) {
+    evidence.rules = triggered
+  }
+
+  return reasons.map((reason) => ({
+    reason,
+    severity: determineSeverity(reason, evidence),
+    evidence,
+  }))
+}
+
+// ============================================================================
+// DRY RUN
+// ============================================================================
+
+export interface AntiCheatReplayResult {
+  points: number
+  players: number
+  flags: Record<AntiCheatRuleKey, number>
+  flaggedPlayers: number
+  totalFlags: number
+}
+
+/**
+ * Replay stored location history against a rule set and count the flags it
+ * would have produced, with the same per-reason dedupe as recordCheatFlags.
+ * Rows must be ordered by user_id, then recorded_at.
+ *
+ * History has no mock-location bit, so mock_location never fires here.
+ */
+export function replayAntiCheatRules(
+  rules: AntiCheatRuleSet,
+  history: Pick<PlayerLocationHistory, 'user_id' | 'latitude' | 'longitude' | 'accuracy_meters' | 'speed_mps' | 'movement_type' | 'recorded_at'>[]
+): AntiCheatReplayResult {
+  const flags = Object.fromEntries(ANTI_CHEAT_RULE_KEYS.map((key) => [key, 0])) as Record<AntiCheatRuleKey, number>
+  const ruleByReason = new Map(ANTI_CHEAT_RULE_KEYS.map((key) => [ANTI_CHEAT_RULE_DEFINITIONS[key].reason, key]))
+  const players = new Set<string>()
+  const flaggedPlayers = new Set<string>()
+  const context: LocationContext = { isMockLocation: false, deviceId: null, deviceModel: null, sessionId: null }
+
+  let previous: LocationFix | null = null
+  let previousUserId: string | null = null
+  let lastFlagged = new Map<CheatReason, number>()
+
+  for (const row of history) {
+    if (row.user_id !== previousUserId) {
+      previous = null
+      previousUserId = row.user_id
+      lastFlagged = new Map()
+      players.add(row.user_id)
+    }
+
+    const current: LocationFix = {
+      latitude: row.latitude,
+      longitude: row.longitude,
+      accuracyMeters: row.accuracy_meters,
+      speedMps: row.speed_mps,
+      timestamp: row.recorded_at,
+      movementType: row.movement_type,
+    }
+    const at = new Date(row.recorded_at).getTime()
+
+    for (const detection of evaluateAntiCheatRules(rules, current, previous, context)) {
+      const flaggedAt = lastFlagged.get(detection.reason)
+      if (flaggedAt !== undefined && at - flaggedAt < CHEAT_FLAG_DEDUPE_MINUTES * 60_000) continue
+
+      lastFlagged.set(detection.reason, at)
+      flags[ruleByReason.get(detection.reason)!]++
+      flaggedPlayers.add(row.user_id)
+    }
+
+    previous = current
+  }
+
+  return {
+    points: history.length,
+    players: players.size,
+    flags,
+    flaggedPlayers: flaggedPlayers.size,
+    totalFlags: Object.values(flags).reduce((total, count) => total + count, 0),
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * API Authentication Helpers
+ * 
+ * Resolves the player behind a mobile API request from the Supabase
+ * access token returned by /api/v1/auth/login.
+ * 
+ * Mobile routes must act as the token's user: use requireBearerUser() and
+ * take the user ID from the result, never from the request body.
+ * 
+ * @file admin-dashboard/src/lib/api-auth.ts
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import type { User } from '@supabase/supabase-js'
+import { createPublicClient, createServiceRoleClient } from '@/lib/supabase/server'
+import { createErrorResponse, type ApiErrorResponse } from '@/lib/api-utils'
+import { getAccountRestriction, type AccountRestriction } from '@/lib/account-restriction'
+import { getPlayerAppeals, type AppealResponse } from '@/lib/cheat-appeals'
+
+/**
+ * User envelope returned by /auth/login, /auth/me and /auth/refresh
+ */
+export interface AuthUserResponse {
+  id: string
+  email: string
+  displayName: string | null
+  avatarUrl: string | null
+  role: string
+  createdAt: string
+}
+
+/**
+ * Session state returned by /auth/me and /auth/refresh
+ */
+export interface AuthSessionResponse {
+  user: AuthUserResponse
+  restriction: AccountRestriction | null  // Active suspension / ban
+  appeals: AppealResponse[]               // Pending and recently resolved cheat appeals
+}
+
+/**
+ * Result of requireBearerUser(): the user, or the error response to return
+ */
+export type BearerAuthResult =
+  | { user: User; response: null }
+  | { user: null; response: NextResponse<ApiErrorResponse> }
+
+/**
+ * Extract the bearer token from the Authorization header
+ */
+export function getBearerToken(request: NextRequest): string | null {
+  const authHeader = request.headers.get('Authorization')
+  
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null
+  }
+  
+  return authHeader.replace('Bearer ', '').trim() || null
+}
+
+/**
+ * Validate the bearer token and return the Supabase user it belongs to.
+ * Returns null when the token is missing, invalid or expired.
+ */
+export async function getBearerUser(request: NextRequest): Promise<User | null> {
+  const token = getBearerToken(request)
+  
+  if (!token) {
+    return null
+  }
+  
+  const { data, error } = await createPublicClient().auth.getUser(token)
+  
+  if (error || !data.user) {
+    return null
+  }
+  
+  return data.user
+}
+
+/**
+ * 401 UNAUTHORIZED response shared by the /api/v1 routes
+ */
+export function unauthorizedResponse(
+  message: string = 'Invalid or missing authorization token'
+): NextResponse<ApiErrorResponse> {
+  const { body, status } = createErrorResponse(message, 'UNAUTHORIZED', 401)
+  return NextResponse.json(body, { status })
+}
+
+/**
+ * Require a valid bearer token.
+ * 
+ * Older app builds still send the player's ID in the body (userId /
+ * hiderId). Pass it as claimedUserId: it is accepted only when it matches
+ * the token's user, so a client can't act on behalf of someone else.
+ * 
+ * @example
+ * const auth = await requireBearerUser(request, body.userId)
+ * if (!auth.user) return auth.response
+ */
+export async function requireBearerUser(
+  request: NextRequest,
+  claimedUserId?: string | null
+): Promise<BearerAuthResult> {
+  const user = await getBearerUser(request)
+  
+  if (!user) {
+    return { user: null, response: unauthorizedResponse() }
+  }
+  
+  if (claimedUserId && claimedUserId !== user.id) {
+    console.warn(`[API] Rejected request: token user ${user.id} sent userId ${claimedUserId}`)
+    return {
+      user: null,
+      response: unauthorizedResponse('userId does not match the authorization token'),
+    }
+  }
+  
+  return { user, response: null }
+}
+
+/**
+ * Build the camelCase user envelope, preferring profile fields over
+ * auth metadata (the profile may not exist yet right after sign-up)
+ */
+export function toAuthUserResponse(
+  user: User,
+  profile: { full_name: string | null; avatar_url: string | null; role: string } | null
+): AuthUserResponse {
+  return {
+    id: user.id,
+    email: user.email || '',
+    displayName: profile?.full_name || user.user_metadata?.full_name || null,
+    avatarUrl: profile?.avatar_url || user.user_metadata?.avatar_url || null,
+    role: profile?.role || 'user',
+    createdAt: user.created_at,
+  }
+}
+
+/**
+ * Build the session state for a signed-in player: the user envelope plus
+ * their active restriction and cheat appeals
+ */
+export async function getAuthSessionResponse(
+  user: User,
+  profile: { full_name: string | null; avatar_url: string | null; role: string } | null
+): Promise<AuthSessionResponse> {
+  const serviceClient = createServiceRoleClient()
+  const [restriction, appeals] = await Promise.all([
+    getAccountRestriction(serviceClient, user.id),
+    getPlayerAppeals(serviceClient, user.id),
+  ])
+
+  return {
+    user: toAuthUserResponse(user, profile),
+    restriction,
+    appeals,
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Cheat Appeals
+ *
+ * Players appeal cheat flags through POST /api/v1/appeals
+ * (submit_cheat_appeal, migration 027); admins resolve them from
+ * Security → Appeals. /auth/me returns the player's recent appeals so the
+ * app can tell them the outcome.
+ *
+ * @file admin-dashboard/src/lib/cheat-appeals.ts
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CheatAppeal, CheatAppealStatus } from '@/types/database'
+
+/**
+ * Resolved appeals stay in /auth/me for this long
+ */
+export const APPEAL_NOTICE_DAYS = 30
+
+export const APPEAL_STATUS_LABELS: Record<CheatAppealStatus, string> = {
+  pending: 'Pending',
+  upheld: 'Upheld',
+  overturned: 'Overturned',
+}
+
+export interface AppealResponse {
+  id: string
+  flagId: string
+  status: CheatAppealStatus
+  message: string
+  resolutionNote: string | null
+  actionReversed: boolean
+  createdAt: string
+  resolvedAt: string | null
+}
+
+/**
+ * Convert a cheat_appeals row to the camelCase shape the Unity client expects
+ */
+export function toAppealResponse(appeal: CheatAppeal): AppealResponse {
+  return {
+    id: appeal.id,
+    flagId: appeal.cheat_flag_id,
+    status: appeal.status,
+    message: appeal.message,
+    resolutionNote: appeal.resolution_note,
+    actionReversed: appeal.reversal_action_id !== null,
+    createdAt: appeal.created_at,
+    resolvedAt: appeal.resolved_at,
+  }
+}
+
+/**
+ * The player's pending appeals and those resolved in the last
+ * APPEAL_NOTICE_DAYS, newest first
+ */
+export async function getPlayerAppeals(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<AppealResponse[]> {
+  const since = new Date(Date.now() - APPEAL_NOTICE_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  const { data, error } = await supabase
+    .from('cheat_appeals')
+    .select('*')
+    .eq('user_id', userId)
+    .or(`status.eq.pending,resolved_at.gte.${since}`)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw error
+  }
+
+  return ((data || []) as CheatAppeal[]).map(toAppealResponse)
+}
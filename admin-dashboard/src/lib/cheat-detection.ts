@@ -0,0 +1,180 @@
+/**
+ * Server-side Cheat Detection
+ *
+ * /player/location runs the anti-cheat rules (lib/anti-cheat-rules.ts) on
+ * each update against the player's previous fix (player_locations); this
+ * module loads that fix and records what the rules find as cheat_flags
+ * (detected_by 'system'). New flags then go through the escalation policy
+ * (migration 026) in the database.
+ *
+ * Coin collection trusts only that tracked fix: it must be recent
+ * (TRACKED_FIX_MAX_AGE_SECONDS) and accurate enough, and coordinates the
+ * app submits with a collection are checked against it.
+ *
+ * @file admin-dashboard/src/lib/cheat-detection.ts
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CheatFlag, CheatReason } from '@/types/database'
+import { calculateDistance } from '@/components/maps/map-config'
+import {
+  ACCURACY_THRESHOLDS,
+  SPEED_DETECTION_THRESHOLDS,
+  determineSeverity,
+} from '@/components/maps/anti-cheat-config'
+import { CHEAT_FLAG_DEDUPE_MINUTES, type DetectedCheat, type LocationFix } from '@/lib/anti-cheat-rules'
+
+/**
+ * A tracked fix older than this can't be used to collect. The app sends
+ * /player/location every 5s, so this allows for a couple of missed updates.
+ */
+export const TRACKED_FIX_MAX_AGE_SECONDS = 15
+
+/**
+ * Most GPS error (meters) added to the collection range. Fixes less
+ * accurate than ACCURACY_THRESHOLDS.minAccuracy can't be used at all.
+ */
+export const MAX_ACCURACY_ALLOWANCE_METERS = 20
+
+/**
+ * The player's last fix from /player/location (null when they have none)
+ */
+export async function getTrackedLocation(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<LocationFix | null> {
+  const { data, error } = await supabase
+    .from('player_locations')
+    .select('latitude, longitude, accuracy_meters, speed_mps, movement_type, server_timestamp')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.warn('[API] Failed to load tracked location:', error.message)
+    return null
+  }
+  if (!data) return null
+
+  return {
+    latitude: data.latitude,
+    longitude: data.longitude,
+    accuracyMeters: data.accuracy_meters,
+    speedMps: data.speed_mps,
+    timestamp: data.server_timestamp,
+    movementType: data.movement_type,
+  }
+}
+
+/**
+ * Why a tracked fix can't be used to collect, or null when it can
+ */
+export function getTrackedFixProblem(
+  fix: LocationFix | null,
+  now: number = Date.now()
+): { code: 'NO_RECENT_LOCATION' | 'LOCATION_INACCURATE'; error: string } | null {
+  if (!fix || (now - new Date(fix.timestamp).getTime()) / 1000 > TRACKED_FIX_MAX_AGE_SECONDS) {
+    return {
+      code: 'NO_RECENT_LOCATION',
+      error: 'Waiting for your location. Keep the app open for a few seconds and try again',
+    }
+  }
+  if ((fix.accuracyMeters ?? 0) > ACCURACY_THRESHOLDS.minAccuracy) {
+    return {
+      code: 'LOCATION_INACCURATE',
+      error: 'GPS signal is too weak to collect here. Try moving into the open',
+    }
+  }
+  return null
+}
+
+/**
+ * Compare coordinates the app submitted (e.g. with a collection) with the
+ * tracked fix. They may differ by the fix's accuracy plus how far a running
+ * player could have moved since it; more than that is flagged as a
+ * location_inconsistency.
+ */
+export function checkSubmittedLocation(
+  submitted: { latitude: number; longitude: number },
+  fix: LocationFix,
+  context: { coinId?: string; now?: number } = {}
+): DetectedCheat | null {
+  const now = context.now ?? Date.now()
+  const fixAgeSeconds = Math.max(0, (now - new Date(fix.timestamp).getTime()) / 1000)
+  const distanceMeters = calculateDistance(fix.latitude, fix.longitude, submitted.latitude, submitted.longitude)
+  const toleranceMeters = (fix.accuracyMeters ?? 0) +
+    (SPEED_DETECTION_THRESHOLDS.maxRunning / 3.6) * fixAgeSeconds
+
+  if (distanceMeters <= toleranceMeters) return null
+
+  const evidence: CheatFlag['evidence'] = {
+    previous_location: {
+      latitude: fix.latitude,
+      longitude: fix.longitude,
+      timestamp: fix.timestamp,
+    },
+    current_location: {
+      latitude: submitted.latitude,
+      longitude: submitted.longitude,
+      timestamp: new Date(now).toISOString(),
+    },
+    distance_meters: Math.round(distanceMeters),
+    time_seconds: fixAgeSeconds,
+    accuracy_meters: fix.accuracyMeters ?? undefined,
+    tolerance_meters: Math.round(toleranceMeters),
+    source: 'collect',
+    coin_id: context.coinId,
+  }
+
+  return {
+    reason: 'location_inconsistency',
+    severity: determineSeverity('location_inconsistency', evidence),
+    evidence,
+  }
+}
+
+/**
+ * Insert cheat_flags for the detections, skipping reasons already flagged
+ * for the player within CHEAT_FLAG_DEDUPE_MINUTES.
+ * Returns the detections that were recorded.
+ */
+export async function recordCheatFlags(
+  supabase: SupabaseClient,
+  userId: string,
+  detections: DetectedCheat[]
+): Promise<DetectedCheat[]> {
+  if (detections.length === 0) return []
+
+  const since = new Date(Date.now() - CHEAT_FLAG_DEDUPE_MINUTES * 60 * 1000).toISOString()
+  const { data: recent, error: recentError } = await supabase
+    .from('cheat_flags')
+    .select('reason')
+    .eq('user_id', userId)
+    .in('reason', detections.map((d) => d.reason))
+    .gte('detected_at', since)
+
+  if (recentError) {
+    console.warn('[API] Failed to check recent cheat flags:', recentError.message)
+  }
+
+  const alreadyFlagged = new Set((recent || []).map((flag: { reason: CheatReason }) => flag.reason))
+  const fresh = detections.filter((d) => !alreadyFlagged.has(d.reason))
+  if (fresh.length === 0) return []
+
+  const { error } = await supabase
+    .from('cheat_flags')
+    .insert(fresh.map((d) => ({
+      user_id: userId,
+      reason: d.reason,
+      severity: d.severity,
+      evidence: d.evidence,
+      detected_by: 'system',
+    })))
+
+  if (error) {
+    console.error('[API] Failed to record cheat flags:', error.message)
+    return []
+  }
+
+  console.warn(`[API] Cheat flags for ${userId}: ${fresh.map((d) => `${d.reason} (${d.severity})`).join(', ')}`)
+  return fresh
+}
@@ -0,0 +1,64 @@
+/**
+ * Escalation Policy
+ *
+ * A ladder of steps that turns a player's accumulated cheat flags into
+ * player actions (escalation_policy, migration 026). The ladder runs in the
+ * database whenever a flag is created or confirmed, so flags from the API
+ * and from admins escalate alike; this module holds the defaults, labels and
+ * validation used by the Anti-Cheat panel.
+ *
+ * Safe to import from client components (no server-only dependencies).
+ *
+ * @file admin-dashboard/src/lib/escalation-policy.ts
+ */
+
+import type { EscalationMode, EscalationStep } from '@/types/database'
+
+export const ESCALATION_MODE_LABELS: Record<EscalationMode, string> = {
+  off: 'Off',
+  recommend: 'Recommend only',
+  automatic: 'Automatic',
+}
+
+export const ESCALATION_MODE_DESCRIPTIONS: Record<EscalationMode, string> = {
+  off: 'Flags never lead to actions on their own',
+  recommend: 'Suggested actions wait here for one-click approval',
+  automatic: 'Actions are applied as soon as a step is reached',
+}
+
+/**
+ * Matches the ladder seeded by migration 026
+ */
+export const DEFAULT_ESCALATION_STEPS: EscalationStep[] = [
+  { min_severity: 'medium', flag_count: 1, window_days: 30, confirmed_only: false, action: 'warned', duration_days: null },
+  { min_severity: 'medium', flag_count: 2, window_days: 30, confirmed_only: false, action: 'suspended', duration_days: 7 },
+  { min_severity: 'critical', flag_count: 1, window_days: 90, confirmed_only: true, action: 'banned', duration_days: null },
+]
+
+/**
+ * e.g. "2 medium+ flags in 30 days → suspend 7 days"
+ */
+export function describeEscalationStep(step: EscalationStep): string {
+  const flags = `${step.flag_count} ${step.confirmed_only ? 'confirmed ' : ''}${step.min_severity}+ flag${step.flag_count === 1 ? '' : 's'}`
+  const action = step.action === 'suspended'
+    ? `suspend ${step.duration_days} day${step.duration_days === 1 ? '' : 's'}`
+    : step.action === 'banned' ? 'ban' : 'warn'
+  return `${flags} in ${step.window_days} days → ${action}`
+}
+
+/**
+ * Error for a step, or null when it is valid (same rules as
+ * update_escalation_policy)
+ */
+export function validateEscalationStep(step: EscalationStep): string | null {
+  if (!Number.isInteger(step.flag_count) || step.flag_count < 1) {
+    return 'Flag count must be at least 1'
+  }
+  if (!Number.isInteger(step.window_days) || step.window_days < 1) {
+    return 'Window must be at least 1 day'
+  }
+  if (step.action === 'suspended' && (!Number.isInteger(step.duration_days) || (step.duration_days ?? 0) < 1)) {
+    return 'Suspensions need a length of at least 1 day'
+  }
+  return null
+}
@@ -0,0 +1,66 @@
+/**
+ * Find Limit Helpers
+ *
+ * Players can only collect coins worth up to their find limit, which grows
+ * with the total value they have hidden, and only a capped number of coins
+ * per day. Used by /coins/[id]/collect (enforcement) and /coins/nearby
+ * (so the app can grey out locked coins).
+ *
+ * @file admin-dashboard/src/lib/find-limit.ts
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { GameSettingsValues } from '@/lib/game-settings'
+
+export interface FindLimitStatus {
+  findLimit: number
+  totalHidden: number
+  findsToday: number
+  maxDailyFinds: number
+  dailyLimitReached: boolean
+}
+
+// Row returned by get_find_limit_status() (migration 019)
+interface FindLimitStatusRow {
+  find_limit: number
+  total_hidden: number
+  finds_today: number
+  max_daily_finds: number
+  daily_limit_reached: boolean
+}
+
+/**
+ * Fetch a player's find limit and today's find count.
+ * The starting limit and daily cap come from game settings.
+ */
+export async function getFindLimitStatus(
+  supabase: SupabaseClient,
+  userId: string,
+  settings: Pick<GameSettingsValues, 'default_find_limit' | 'max_daily_finds'>
+): Promise<FindLimitStatus> {
+  const { data, error } = await supabase.rpc('get_find_limit_status', {
+    p_user_id: userId,
+    p_default_limit: settings.default_find_limit,
+    p_max_daily_finds: settings.max_daily_finds,
+  })
+
+  if (error || !data) {
+    throw error ?? new Error('get_find_limit_status returned no data')
+  }
+
+  const row = data as FindLimitStatusRow
+  return {
+    findLimit: Number(row.find_limit),
+    totalHidden: Number(row.total_hidden),
+    findsToday: row.finds_today,
+    maxDailyFinds: row.max_daily_finds,
+    dailyLimitReached: row.daily_limit_reached,
+  }
+}
+
+/**
+ * Whether a coin of this value is above the player's find limit
+ */
+export function isOverFindLimit(coinValue: number, status: FindLimitStatus): boolean {
+  return coinValue > status.findLimit
+}
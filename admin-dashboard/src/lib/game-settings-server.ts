@@ -0,0 +1,50 @@
+/**
+ * Game Settings - server-side accessor
+ *
+ * Reads the game_settings row for API routes. Cached in memory for a short
+ * time so hot routes (/coins/nearby) don't hit the database on every call;
+ * changes from the Settings page apply within SETTINGS_CACHE_MS.
+ *
+ * Server only: uses the service role client.
+ *
+ * @file admin-dashboard/src/lib/game-settings-server.ts
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { DEFAULT_GAME_SETTINGS, type GameSettingsValues } from '@/lib/game-settings'
+
+const SETTINGS_CACHE_MS = 30_000
+
+let cached: { settings: GameSettingsValues; loadedAt: number } | null = null
+
+/**
+ * Current game settings, falling back to the defaults if the row can't be read
+ */
+export async function getGameSettings(): Promise<GameSettingsValues> {
+  if (cached && Date.now() - cached.loadedAt < SETTINGS_CACHE_MS) {
+    return cached.settings
+  }
+
+  const supabase = createServiceRoleClient()
+  const { data, error } = await supabase
+    .from('game_settings')
+    .select('*')
+    .eq('id', 1)
+    .maybeSingle()
+
+  if (error || !data) {
+    if (error) console.error('[API] Error loading game settings, using defaults:', error)
+    return cached?.settings ?? DEFAULT_GAME_SETTINGS
+  }
+
+  // DECIMAL columns come back as strings
+  const settings = { ...DEFAULT_GAME_SETTINGS }
+  for (const key of Object.keys(DEFAULT_GAME_SETTINGS) as (keyof GameSettingsValues)[]) {
+    if (data[key] !== null && data[key] !== undefined) {
+      settings[key] = Number(data[key])
+    }
+  }
+
+  cached = { settings, loadedAt: Date.now() }
+  return settings
+}
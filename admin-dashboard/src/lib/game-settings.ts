@@ -0,0 +1,85 @@
+/**
+ * Game Settings
+ *
+ * Defaults, field ranges and validation for the global game settings
+ * (game_settings table, migration 020). Shared by the Settings page and the
+ * server-side accessor in game-settings-server.ts. The ranges mirror the
+ * table's CHECK constraints.
+ *
+ * @file admin-dashboard/src/lib/game-settings.ts
+ */
+
+import type { GameSettings } from '@/types/database'
+
+export type GameSettingKey = Exclude<keyof GameSettings, 'updated_by' | 'updated_at'>
+
+export type GameSettingsValues = Pick<GameSettings, GameSettingKey>
+
+/**
+ * Used until the game_settings row exists (or when it can't be read)
+ */
+export const DEFAULT_GAME_SETTINGS: GameSettingsValues = {
+  default_coin_value: 5,
+  coin_expiry_days: 30,
+  collection_radius_meters: 5,
+  nearby_radius_meters: 500,
+  max_nearby_radius_meters: 5000,
+  max_daily_finds: 10,
+  default_find_limit: 1,
+  gas_fee_percent: 10,
+  gas_daily_fee: 0.33,
+  min_payout: 20,
+}
+
+export interface GameSettingField {
+  key: GameSettingKey
+  label: string
+  description: string
+  min: number
+  max: number
+  step: number
+  integer?: boolean
+}
+
+/**
+ * Settings → Game Configuration fields, in display order
+ */
+export const GAME_SETTING_FIELDS: GameSettingField[] = [
+  { key: 'default_coin_value', label: 'Default Coin Value ($)', description: 'Default value for new coins', min: 0.01, max: 1000, step: 0.01 },
+  { key: 'gas_fee_percent', label: 'Gas Fee (%)', description: 'Platform fee on transactions', min: 0, max: 50, step: 1 },
+  { key: 'min_payout', label: 'Min Payout ($)', description: 'Minimum balance for withdrawals', min: 0.01, max: 10000, step: 0.01 },
+  { key: 'collection_radius_meters', label: 'Coin Radius (meters)', description: 'How close users must be to collect', min: 1, max: 500, step: 1 },
+  { key: 'coin_expiry_days', label: 'Coin Expiry (days)', description: 'Days until uncollected coins expire', min: 1, max: 365, step: 1, integer: true },
+  { key: 'max_daily_finds', label: 'Max Daily Finds', description: 'Limit per user per day', min: 1, max: 100, step: 1, integer: true },
+  { key: 'default_find_limit', label: 'Default Find Limit ($)', description: 'Max coin value before a player hides anything', min: 0.01, max: 1000, step: 0.01 },
+  { key: 'gas_daily_fee', label: 'Daily Gas ($)', description: 'Gas burned from each tank per day', min: 0.01, max: 10, step: 0.01 },
+  { key: 'nearby_radius_meters', label: 'Search Radius (meters)', description: 'Default Prize Finder search radius', min: 50, max: 5000, step: 10 },
+  { key: 'max_nearby_radius_meters', label: 'Max Search Radius (meters)', description: 'Largest radius the app may request', min: 100, max: 50000, step: 100 },
+]
+
+/**
+ * Validate settings before saving.
+ * Returns an error message per invalid field (empty object when valid).
+ */
+export function validateGameSettings(values: GameSettingsValues): Partial<Record<GameSettingKey, string>> {
+  const errors: Partial<Record<GameSettingKey, string>> = {}
+
+  for (const field of GAME_SETTING_FIELDS) {
+    const value = values[field.key]
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors[field.key] = 'Must be a number'
+    } else if (value < field.min || value > field.max) {
+      errors[field.key] = `Must be between ${field.min} and ${field.max}`
+    } else if (field.integer && !Number.isInteger(value)) {
+      errors[field.key] = 'Must be a whole number'
+    }
+  }
+
+  if (!errors.nearby_radius_meters && !errors.max_nearby_radius_meters &&
+      values.nearby_radius_meters > values.max_nearby_radius_meters) {
+    errors.nearby_radius_meters = 'Cannot be larger than the max search radius'
+  }
+
+  return errors
+}
@@ -0,0 +1,76 @@
+/**
+ * Player Session Helpers
+ *
+ * Keeps the per-device session registry (player_sessions, migration 022)
+ * up to date from the mobile API, and decides which sessions count as
+ * active for the dashboard.
+ *
+ * @file admin-dashboard/src/lib/player-sessions.ts
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { PlayerSession } from '@/types/database'
+
+/**
+ * A session seen within this many hours (and not signed out) is active
+ */
+export const ACTIVE_SESSION_HOURS = 24
+
+interface SessionTouch {
+  userId: string
+  accessToken: string
+  ipAddress: string | null
+  userAgent: string | null
+  deviceId?: string | null
+  deviceModel?: string | null
+  appVersion?: string | null
+}
+
+/**
+ * Auth session ID (session_id claim) of an already-validated access token
+ */
+export function getTokenSessionId(accessToken: string): string | null {
+  try {
+    const payload = JSON.parse(Buffer.from(accessToken.split('.')[1], 'base64url').toString('utf8'))
+    return typeof payload.session_id === 'string' ? payload.session_id : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether a session is still signed in and was seen recently
+ */
+export function isSessionActive(session: PlayerSession, now: number = Date.now()): boolean {
+  return !session.signed_out_at &&
+    now - new Date(session.last_seen_at).getTime() < ACTIVE_SESSION_HOURS * 60 * 60 * 1000
+}
+
+/**
+ * Create or refresh the registry row for the token's session.
+ * Device fields are only written when given, so a login (no device info)
+ * doesn't wipe what location updates reported.
+ */
+export async function touchPlayerSession(supabase: SupabaseClient, touch: SessionTouch): Promise<void> {
+  const authSessionId = getTokenSessionId(touch.accessToken)
+  if (!authSessionId) return
+
+  const row: Record<string, unknown> = {
+    user_id: touch.userId,
+    auth_session_id: authSessionId,
+    ip_address: touch.ipAddress,
+    user_agent: touch.userAgent,
+    last_seen_at: new Date().toISOString(),
+  }
+  if (touch.deviceId) row.device_id = touch.deviceId
+  if (touch.deviceModel) row.device_model = touch.deviceModel
+  if (touch.appVersion) row.app_version = touch.appVersion
+
+  const { error } = await supabase
+    .from('player_sessions')
+    .upsert(row, { onConflict: 'user_id,auth_session_id' })
+
+  if (error) {
+    console.warn('[API] Failed to update player session:', error.message)
+  }
+}
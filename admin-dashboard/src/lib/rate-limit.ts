@@ -0,0 +1,248 @@
+/**
+ * Rate Limiting for the mobile API
+ *
+ * Fixed-window counters per IP and per user, with a budget per route
+ * (RATE_LIMITS). The per-IP budget is much larger than the per-user one:
+ * players behind the same carrier NAT or campus network share an IP.
+ * Over-budget requests get 429 RATE_LIMITED with a Retry-After header, and
+ * the first hit per window is recorded as suspicious_activity in
+ * activity_logs.
+ *
+ * Also tracks failed logins: LOGIN_LOCKOUT.maxFailures failures for an email
+ * within the window lock that email out of /auth/login until it resets.
+ *
+ * Counters live in an in-memory store by default, which is per server
+ * instance. Call setRateLimitStore() at startup to share them (e.g. Redis)
+ * when running more than one instance.
+ *
+ * @file admin-dashboard/src/lib/rate-limit.ts
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { createErrorResponse, type ApiErrorResponse } from '@/lib/api-utils'
+import { getClientIp, logActivity } from '@/lib/activity-log'
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export interface RateLimitCounter {
+  count: number
+  resetAt: number   // Epoch ms when the window ends
+}
+
+/**
+ * Backing store for the counters. hit() must be atomic per key.
+ */
+export interface RateLimitStore {
+  /** Count one request; starts a new window when the old one has ended */
+  hit(key: string, windowMs: number): Promise<RateLimitCounter>
+  /** Current counter without counting (null when no open window) */
+  get(key: string): Promise<RateLimitCounter | null>
+  reset(key: string): Promise<void>
+}
+
+/**
+ * Default store: a Map in this server process
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitCounter>()
+  private lastSweep = 0
+
+  async hit(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now()
+    this.sweep(now)
+
+    const current = this.counters.get(key)
+    const counter = current && current.resetAt > now
+      ? { count: current.count + 1, resetAt: current.resetAt }
+      : { count: 1, resetAt: now + windowMs }
+
+    this.counters.set(key, counter)
+    return counter
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const counter = this.counters.get(key)
+    return counter && counter.resetAt > Date.now() ? counter : null
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key)
+  }
+
+  // Drop ended windows at most once a minute so the map doesn't grow forever
+  private sweep(now: number) {
+    if (now - this.lastSweep < 60_000) return
+    this.lastSweep = now
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) this.counters.delete(key)
+    }
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore()
+
+/**
+ * Swap the counter store (e.g. for a shared Redis-backed one)
+ */
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next
+}
+
+// ============================================================================
+// BUDGETS
+// ============================================================================
+
+export interface RateLimitBudget {
+  limit: number      // Requests allowed per window per user
+  ipLimit: number    // Requests allowed per window per IP, shared by everyone behind it
+  windowMs: number
+}
+
+/**
+ * Per-route budgets. The app sends /player/location every 5s (12/min).
+ * The auth routes have no user yet, so only ipLimit applies there; failed
+ * logins are also capped per email (LOGIN_LOCKOUT).
+ */
+export const RATE_LIMITS = {
+  auth: { limit: 10, ipLimit: 60, windowMs: 60_000 },           // login, register, refresh
+  session: { limit: 60, ipLimit: 1_200, windowMs: 60_000 },     // me, logout
+  nearby: { limit: 60, ipLimit: 1_200, windowMs: 60_000 },
+  coin: { limit: 120, ipLimit: 2_400, windowMs: 60_000 },       // GET /coins/[id]
+  collect: { limit: 30, ipLimit: 600, windowMs: 60_000 },
+  hide: { limit: 20, ipLimit: 400, windowMs: 60_000 },          // hide, DELETE /coins/[id]
+  location: { limit: 30, ipLimit: 1_200, windowMs: 60_000 },
+  wallet: { limit: 60, ipLimit: 1_200, windowMs: 60_000 },
+  walletWrite: { limit: 20, ipLimit: 400, windowMs: 60_000 },   // park, unpark, payouts, transfer
+  appeal: { limit: 5, ipLimit: 100, windowMs: 3_600_000 },
+  zones: { limit: 60, ipLimit: 1_200, windowMs: 60_000 },       // list, get, at
+  zoneWrite: { limit: 20, ipLimit: 400, windowMs: 60_000 },     // create, update, archive
+} satisfies Record<string, RateLimitBudget>
+
+export type RateLimitRoute = keyof typeof RATE_LIMITS
+
+/**
+ * Failed logins per email before /auth/login locks it
+ */
+export const LOGIN_LOCKOUT = {
+  maxFailures: 5,
+  windowMs: 15 * 60_000,
+}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+/**
+ * 429 response with Retry-After (seconds)
+ */
+export function tooManyRequestsResponse(
+  message: string,
+  code: string,
+  resetAt: number
+): NextResponse<ApiErrorResponse> {
+  const retryAfter = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000))
+  const { body, status } = createErrorResponse(message, code, 429, { retryAfter })
+  return NextResponse.json(body, {
+    status,
+    headers: { 'Retry-After': String(retryAfter) },
+  })
+}
+
+/**
+ * Count the request against the route's budget for the caller's IP and,
+ * when known, user. Returns the 429 response to send, or null to proceed.
+ *
+ * @example
+ * const limited = await checkRateLimit(request, 'nearby', user?.id)
+ * if (limited) return limited
+ */
+export async function checkRateLimit(
+  request: NextRequest,
+  route: RateLimitRoute,
+  userId?: string | null
+): Promise<NextResponse<ApiErrorResponse> | null> {
+  const budget: RateLimitBudget = RATE_LIMITS[route]
+  const ip = getClientIp(request) ?? 'unknown'
+
+  const keys: { type: 'ip' | 'user'; key: string; limit: number }[] = [
+    { type: 'ip', key: `${route}:ip:${ip}`, limit: budget.ipLimit },
+  ]
+  if (userId) {
+    keys.push({ type: 'user', key: `${route}:user:${userId}`, limit: budget.limit })
+  }
+
+  for (const { type, key, limit } of keys) {
+    const counter = await store.hit(key, budget.windowMs)
+    if (counter.count <= limit) continue
+
+    // Only the first hit per window is logged, so a flood is one entry
+    if (counter.count === limit + 1) {
+      console.warn(`[API] Rate limit exceeded: ${route} (${type} ${type === 'ip' ? ip : userId})`)
+      await logActivity(request, {
+        userId: userId ?? null,
+        type: 'suspicious_activity',
+        severity: 'warning',
+        description: `Rate limit exceeded on ${route} (${limit} per ${budget.windowMs / 1000}s per ${type})`,
+        metadata: {
+          action: 'rate_limited',
+          route,
+          limited_by: type,
+          path: request.nextUrl.pathname,
+        },
+      })
+    }
+
+    return tooManyRequestsResponse('Too many requests. Slow down, partner!', 'RATE_LIMITED', counter.resetAt)
+  }
+
+  return null
+}
+
+/**
+ * Lockout for an email after repeated failed logins (null when not locked)
+ */
+export async function getLoginLockout(email: string): Promise<RateLimitCounter | null> {
+  const counter = await store.get(`login-failed:${email.toLowerCase()}`)
+  return counter && counter.count >= LOGIN_LOCKOUT.maxFailures ? counter : null
+}
+
+/**
+ * Record a failed login (login_failed in activity_logs). The failure that
+ * reaches LOGIN_LOCKOUT.maxFailures locks the email and is also logged as
+ * suspicious_activity.
+ */
+export async function recordLoginFailure(request: NextRequest, email: string, reason: string): Promise<void> {
+  const normalized = email.toLowerCase()
+  const counter = await store.hit(`login-failed:${normalized}`, LOGIN_LOCKOUT.windowMs)
+
+  await logActivity(request, {
+    userId: null,
+    type: 'login_failed',
+    severity: 'warning',
+    description: `Failed mobile login for ${normalized}: ${reason}`,
+    metadata: { source: 'mobile', email: normalized, failures: counter.count },
+  })
+
+  if (counter.count === LOGIN_LOCKOUT.maxFailures) {
+    await logActivity(request, {
+      userId: null,
+      type: 'suspicious_activity',
+      severity: 'error',
+      description: `Login locked for ${normalized} after ${counter.count} failed attempts`,
+      metadata: {
+        action: 'login_lockout',
+        email: normalized,
+        locked_until: new Date(counter.resetAt).toISOString(),
+      },
+    })
+  }
+}
+
+/**
+ * Forget failed logins after a successful one
+ */
+export async function clearLoginFailures(email: string): Promise<void> {
+  await store.reset(`login-failed:${email.toLowerCase()}`)
+}
@@ -0,0 +1,90 @@
+/**
+ * Settings History
+ *
+ * Labels and field-by-field diffs for settings_versions (migration 021).
+ * Used by Settings → History.
+ *
+ * @file admin-dashboard/src/lib/settings-history.ts
+ */
+
+import type { SettingsKey } from '@/types/database'
+import { GAME_SETTING_FIELDS } from '@/lib/game-settings'
+import { SPONSOR_ZONE_FEE_FIELDS } from '@/lib/sponsor-zone-fees'
+
+export const SETTINGS_KEY_LABELS: Record<SettingsKey, string> = {
+  game_settings: 'Game Configuration',
+  distribution_config: 'Auto-Distribution',
+  sponsor_zone_fees: 'Sponsor Zone Fees',
+}
+
+export interface SettingsFieldChange {
+  field: string
+  label: string
+  from: unknown
+  to: unknown
+}
+
+const GAME_SETTING_LABELS: Record<string, string> = Object.fromEntries(
+  GAME_SETTING_FIELDS.map((field) => [field.key, field.label])
+)
+
+const SPONSOR_ZONE_FEE_LABELS: Record<string, string> = Object.fromEntries(
+  SPONSOR_ZONE_FEE_FIELDS.map((field) => [field.key, field.label])
+)
+
+/**
+ * Human label for a settings field ("max_spawns_per_hour" → "Max Spawns Per Hour")
+ */
+export function getSettingsFieldLabel(key: SettingsKey, field: string): string {
+  if (key === 'game_settings' && GAME_SETTING_LABELS[field]) {
+    return GAME_SETTING_LABELS[field]
+  }
+  if (key === 'sponsor_zone_fees' && SPONSOR_ZONE_FEE_LABELS[field]) {
+    return SPONSOR_ZONE_FEE_LABELS[field]
+  }
+  return field
+    .split('_')
+    .map((word) => (word === 'km2' ? 'km²' : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join(' ')
+}
+
+/**
+ * Fields that differ between two versions, in a stable (alphabetical) order.
+ * DECIMAL values may come back as strings, so numeric strings compare by value.
+ */
+export function diffSettings(
+  key: SettingsKey,
+  from: Record<string, unknown>,
+  to: Record<string, unknown>
+): SettingsFieldChange[] {
+  const fields = Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).sort()
+
+  return fields
+    .filter((field) => !isSameValue(from[field], to[field]))
+    .map((field) => ({
+      field,
+      label: getSettingsFieldLabel(key, field),
+      from: from[field],
+      to: to[field],
+    }))
+}
+
+/**
+ * Display a settings value ("—" for missing)
+ */
+export function formatSettingsValue(value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  if (typeof value === 'boolean') return value ? 'On' : 'Off'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (a === null || a === undefined || b === null || b === undefined) return false
+  if (!Number.isNaN(Number(a)) && !Number.isNaN(Number(b)) &&
+      typeof a !== 'boolean' && typeof b !== 'boolean') {
+    return Number(a) === Number(b)
+  }
+  return JSON.stringify(a) === JSON.stringify(b)
+}
@@ -0,0 +1,80 @@
+/**
+ * Sponsor Zone Fees
+ *
+ * Field ranges and validation for the sponsor zone fees
+ * (sponsor_zone_fee_config table, migration 021). Shared by the Settings page
+ * and the sponsor dialogs that quote fees. The ranges mirror the table's
+ * CHECK constraints.
+ *
+ * @file admin-dashboard/src/lib/sponsor-zone-fees.ts
+ */
+
+import type { SponsorZoneFeeConfig, SponsorZoneFeeSettings } from '@/types/database'
+import { DEFAULT_SPONSOR_ZONE_FEES } from '@/components/maps/sponsor-config'
+
+export type SponsorZoneFeeKey = Exclude<keyof SponsorZoneFeeConfig, 'zone_type'>
+
+export type SponsorZoneFeeValues = Pick<SponsorZoneFeeConfig, SponsorZoneFeeKey>
+
+export interface SponsorZoneFeeField {
+  key: SponsorZoneFeeKey
+  label: string
+  description: string
+  min: number
+  max: number
+  step: number
+  integer?: boolean
+}
+
+/**
+ * Settings → Sponsor Zone Fees fields, in display order
+ */
+export const SPONSOR_ZONE_FEE_FIELDS: SponsorZoneFeeField[] = [
+  { key: 'zone_creation_fee', label: 'Zone Creation Fee ($)', description: 'One-time fee to create a sponsor zone', min: 0, max: 100000, step: 0.01 },
+  { key: 'monthly_maintenance_fee', label: 'Monthly Maintenance ($)', description: 'Monthly fee to keep a zone active', min: 0, max: 100000, step: 0.01 },
+  { key: 'coin_placement_fee_per_coin', label: 'Fee per Coin ($)', description: 'Charged for each coin placed', min: 0, max: 1000, step: 0.01 },
+  { key: 'bulk_placement_discount_percentage', label: 'Bulk Discount (%)', description: 'Off placements of 50+ coins', min: 0, max: 100, step: 1 },
+  { key: 'collection_fee_percentage', label: 'Collection Fee (%)', description: 'Share of coin value when collected', min: 0, max: 100, step: 0.5 },
+  { key: 'minimum_zone_size_km2', label: 'Min Zone Size (km²)', description: 'Smallest sponsor zone allowed', min: 0, max: 10000, step: 0.001 },
+  { key: 'minimum_coins_per_zone', label: 'Min Coins per Zone', description: 'Coins a sponsor must place', min: 0, max: 100000, step: 1, integer: true },
+  { key: 'minimum_monthly_spend', label: 'Min Monthly Spend ($)', description: 'Monthly minimum per sponsor', min: 0, max: 100000, step: 0.01 },
+]
+
+/**
+ * Fees from the stored row, falling back to the defaults for a missing row.
+ * DECIMAL columns may come back as strings.
+ */
+export function toSponsorZoneFees(row: SponsorZoneFeeSettings | null): SponsorZoneFeeConfig {
+  const fees: SponsorZoneFeeConfig = { ...DEFAULT_SPONSOR_ZONE_FEES }
+  if (!row) return fees
+
+  for (const field of SPONSOR_ZONE_FEE_FIELDS) {
+    const value = Number(row[field.key])
+    if (Number.isFinite(value)) {
+      fees[field.key] = value
+    }
+  }
+  return fees
+}
+
+/**
+ * Validate fees before saving.
+ * Returns an error message per invalid field (empty object when valid).
+ */
+export function validateSponsorZoneFees(values: SponsorZoneFeeValues): Partial<Record<SponsorZoneFeeKey, string>> {
+  const errors: Partial<Record<SponsorZoneFeeKey, string>> = {}
+
+  for (const field of SPONSOR_ZONE_FEE_FIELDS) {
+    const value = values[field.key]
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors[field.key] = 'Must be a number'
+    } else if (value < field.min || value > field.max) {
+      errors[field.key] = `Must be between ${field.min} and ${field.max}`
+    } else if (field.integer && !Number.isInteger(value)) {
+      errors[field.key] = 'Must be a whole number'
+    }
+  }
+
+  return errors
+}
@@ -0,0 +1,72 @@
+/**
+ * Wallet Helpers
+ * 
+ * Shared by the /api/v1/wallet routes:
+ * - Verification and transfer constants
+ * - Formatting a wallets row for the Unity client
+ * 
+ * @file admin-dashboard/src/lib/wallet.ts
+ */
+
+import { keysToCamelCase } from '@/lib/api-utils'
+import type { Wallet } from '@/types/database'
+
+/**
+ * Hours a found coin stays pending before confirm_pending_finds() confirms it
+ */
+export const FOUND_HOLD_HOURS = 24
+
+/**
+ * Player-to-player transfer limits, per sender per UTC day
+ */
+export const TRANSFER_DAILY_LIMIT = 100
+export const TRANSFER_DAILY_COUNT = 10
+
+/**
+ * Whole days of play left in the gas tank.
+ * The Prize Finder is disabled when this reaches 0.
+ */
+export function getGasRemainingDays(gasBalance: number, dailyFee: number): number {
+  if (dailyFee <= 0) return 0
+  return Math.floor(gasBalance / dailyFee)
+}
+
+/**
+ * Empty wallet for players that have no transactions yet
+ */
+export function emptyWallet(userId: string): Wallet {
+  const now = new Date().toISOString()
+  return {
+    user_id: userId,
+    balance: 0,
+    gas_balance: 0,
+    gas_found_balance: 0,
+    parked_balance: 0,
+    pending_balance: 0,
+    last_gas_charged_on: null,
+    created_at: now,
+    updated_at: now,
+  }
+}
+
+/**
+ * Convert a wallets row to the camelCase shape the Unity client expects
+ */
+export function toWalletResponse(wallet: Wallet, dailyFee: number) {
+  const gasBalance = Number(wallet.gas_balance)
+  
+  return keysToCamelCase<Record<string, unknown>>({
+    user_id: wallet.user_id,
+    balance: Number(wallet.balance),
+    gas_balance: gasBalance,
+    parked_balance: Number(wallet.parked_balance),
+    parkable_balance: Number(wallet.gas_found_balance),
+    // Pending found coins aren't part of balance until confirmed
+    pending_balance: Number(wallet.pending_balance),
+    confirmed_balance: Number(wallet.balance),
+    gas_daily_fee: dailyFee,
+    gas_remaining_days: getGasRemainingDays(gasBalance, dailyFee),
+    last_gas_charged_on: wallet.last_gas_charged_on,
+    updated_at: wallet.updated_at,
+  })
+}
@@ -0,0 +1,275 @@
+/**
+ * Zones API helpers
+ *
+ * Shared by the /api/v1/zones routes: who may see and manage which zones,
+ * and validation of the CreateZoneInput body. Geometry checks come from
+ * zone-config.ts so the API and the dashboard agree on what a valid zone is.
+ *
+ * Access mirrors the zones RLS policies (migration 028):
+ * - super admins see and manage every zone
+ * - sponsor admins manage their own sponsors' zones (sponsor zones only)
+ * - everyone else sees active zones
+ *
+ * Active exclusion zones are no-spawn areas: findExclusionZoneAt() is how
+ * coin placement checks a spot.
+ *
+ * @file admin-dashboard/src/lib/zones.ts
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { keysToCamelCase, keysToSnakeCase } from '@/lib/api-utils'
+import { isPointInZone, validateZoneGeometry } from '@/components/maps/zone-config'
+import type { CreateZoneInput, UserRole, Zone, ZoneStatus, ZoneType } from '@/types/database'
+
+export const ZONE_TYPES: ZoneType[] = ['player', 'sponsor', 'hunt', 'grid', 'exclusion']
+
+export const ZONE_STATUSES: ZoneStatus[] = ['active', 'inactive', 'scheduled', 'completed', 'archived']
+
+/**
+ * Longest zone name the API accepts
+ */
+export const MAX_ZONE_NAME_LENGTH = 100
+
+/**
+ * The caller's role and the sponsors they administer
+ */
+export interface ZoneAccess {
+  userId: string
+  role: UserRole
+  sponsorIds: string[]
+}
+
+/**
+ * Zone fields accepted by create / update: CreateZoneInput, plus status on
+ * update. null clears an optional field.
+ */
+export type ZoneInput = {
+  [K in keyof CreateZoneInput]?: CreateZoneInput[K] | null
+} & { status?: ZoneStatus }
+
+export type ZoneInputResult =
+  | { input: ZoneInput; error: null }
+  | { input: null; error: { message: string; code: string } }
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i
+
+/**
+ * Look up the caller's role and, for sponsor admins, their sponsors.
+ * Throws when a lookup fails, rather than treating the caller as a player.
+ */
+export async function getZoneAccess(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<ZoneAccess> {
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (profileError) throw profileError
+
+  const role = ((profile as { role: UserRole } | null)?.role) || 'user'
+
+  if (role !== 'sponsor_admin') {
+    return { userId, role, sponsorIds: [] }
+  }
+
+  const { data: sponsors, error: sponsorsError } = await supabase
+    .from('sponsors')
+    .select('id')
+    .eq('admin_user_id', userId)
+
+  if (sponsorsError) throw sponsorsError
+
+  return {
+    userId,
+    role,
+    sponsorIds: ((sponsors || []) as { id: string }[]).map(s => s.id),
+  }
+}
+
+/**
+ * Whether the caller may create or edit a zone with this type and sponsor
+ */
+export function canManageZone(
+  access: ZoneAccess,
+  zone: Pick<Zone, 'zone_type' | 'sponsor_id'>
+): boolean {
+  if (access.role === 'super_admin') return true
+
+  return access.role === 'sponsor_admin' &&
+    zone.zone_type === 'sponsor' &&
+    zone.sponsor_id !== null &&
+    access.sponsorIds.includes(zone.sponsor_id)
+}
+
+/**
+ * Whether the caller may see a zone (active zones are public)
+ */
+export function canViewZone(
+  access: ZoneAccess,
+  zone: Pick<Zone, 'zone_type' | 'sponsor_id' | 'status'>
+): boolean {
+  return zone.status === 'active' || canManageZone(access, zone)
+}
+
+/**
+ * Validate a create / update body. Accepts the snake_case CreateZoneInput
+ * shape or its camelCase equivalent. With partial, every field is optional
+ * (updates); otherwise name, zone_type and geometry are required.
+ */
+export function parseZoneInput(body: unknown, partial: boolean): ZoneInputResult {
+  const fail = (message: string, code: string): ZoneInputResult => ({
+    input: null,
+    error: { message, code },
+  })
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return fail('Request body must be an object', 'INVALID_BODY')
+  }
+
+  const raw = keysToSnakeCase<Record<string, unknown>>(body)
+  const input: ZoneInput = {}
+
+  if (!partial && (raw.name === undefined || raw.zone_type === undefined || raw.geometry === undefined)) {
+    return fail('name, zone_type and geometry are required', 'MISSING_FIELDS')
+  }
+
+  if (raw.name !== undefined) {
+    if (typeof raw.name !== 'string' || !raw.name.trim()) {
+      return fail('name must be a non-empty string', 'INVALID_NAME')
+    }
+    if (raw.name.trim().length > MAX_ZONE_NAME_LENGTH) {
+      return fail(`name is limited to ${MAX_ZONE_NAME_LENGTH} characters`, 'INVALID_NAME')
+    }
+    input.name = raw.name.trim()
+  }
+
+  if (raw.description === null) {
+    input.description = null
+  } else if (raw.description !== undefined) {
+    if (typeof raw.description !== 'string') {
+      return fail('description must be a string', 'INVALID_DESCRIPTION')
+    }
+    input.description = raw.description
+  }
+
+  if (raw.zone_type !== undefined) {
+    if (!ZONE_TYPES.includes(raw.zone_type as ZoneType)) {
+      return fail(`zone_type must be one of ${ZONE_TYPES.join(', ')}`, 'INVALID_ZONE_TYPE')
+    }
+    input.zone_type = raw.zone_type as ZoneType
+  }
+
+  if (raw.status !== undefined) {
+    if (!partial || !ZONE_STATUSES.includes(raw.status as ZoneStatus)) {
+      return fail(
+        partial ? `status must be one of ${ZONE_STATUSES.join(', ')}` : 'status cannot be set on create',
+        'INVALID_STATUS'
+      )
+    }
+    input.status = raw.status as ZoneStatus
+  }
+
+  if (raw.geometry !== undefined) {
+    const geometryError = validateZoneGeometry(raw.geometry as CreateZoneInput['geometry'])
+    if (geometryError) {
+      return fail(geometryError, 'INVALID_GEOMETRY')
+    }
+    input.geometry = raw.geometry as CreateZoneInput['geometry']
+  }
+
+  if (raw.sponsor_id === null) {
+    input.sponsor_id = null
+  } else if (raw.sponsor_id !== undefined) {
+    if (typeof raw.sponsor_id !== 'string' || !UUID_PATTERN.test(raw.sponsor_id)) {
+      return fail('Invalid sponsor_id', 'INVALID_SPONSOR')
+    }
+    input.sponsor_id = raw.sponsor_id
+  }
+
+  for (const key of ['auto_spawn_config', 'timed_release_config', 'hunt_config'] as const) {
+    const value = raw[key]
+    if (value === undefined) continue
+    if (value === null) {
+      input[key] = null
+      continue
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      return fail(`${key} must be an object`, 'INVALID_CONFIG')
+    }
+    Object.assign(input, { [key]: value })
+  }
+
+  for (const key of ['start_time', 'end_time'] as const) {
+    const value = raw[key]
+    if (value === undefined) continue
+    if (value === null) {
+      input[key] = null
+      continue
+    }
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+      return fail(`${key} must be an ISO timestamp`, 'INVALID_SCHEDULE')
+    }
+    input[key] = new Date(value).toISOString()
+  }
+
+  if (input.start_time && input.end_time && input.end_time <= input.start_time) {
+    return fail('end_time must be after start_time', 'INVALID_SCHEDULE')
+  }
+
+  for (const key of ['fill_color', 'border_color'] as const) {
+    const value = raw[key]
+    if (value === undefined) continue
+    if (value === null) {
+      input[key] = null
+      continue
+    }
+    if (typeof value !== 'string' || !HEX_COLOR_PATTERN.test(value)) {
+      return fail(`${key} must be a hex color like #FFD700`, 'INVALID_COLOR')
+    }
+    input[key] = value
+  }
+
+  if (raw.opacity !== undefined && raw.opacity !== null) {
+    if (typeof raw.opacity !== 'number' || raw.opacity < 0 || raw.opacity > 1) {
+      return fail('opacity must be between 0 and 1', 'INVALID_OPACITY')
+    }
+    input.opacity = raw.opacity
+  }
+
+  return { input, error: null }
+}
+
+/**
+ * The active exclusion zone (no-spawn area) containing a point, if any.
+ * Coins can't be hidden there; spawn_coin() applies the same rule in SQL
+ * (migration 029).
+ */
+export async function findExclusionZoneAt(
+  supabase: SupabaseClient,
+  lat: number,
+  lng: number
+): Promise<Pick<Zone, 'id' | 'name' | 'geometry'> | null> {
+  const { data, error } = await supabase
+    .from('zones')
+    .select('id, name, geometry')
+    .eq('zone_type', 'exclusion')
+    .eq('status', 'active')
+
+  if (error) {
+    throw error
+  }
+
+  return ((data || []) as Pick<Zone, 'id' | 'name' | 'geometry'>[])
+    .find(zone => isPointInZone(lat, lng, zone.geometry)) ?? null
+}
+
+/**
+ * Convert a zones row to the camelCase shape the Unity client expects
+ */
+export function toZoneResponse(zone: Zone): Record<string, unknown> {
+  return keysToCamelCase(zone)
+}
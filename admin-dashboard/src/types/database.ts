@@ -52,7 +52,7 @@ export interface CoinWithRelations extends Coin {
 }
 
 // Transaction types
-export type TransactionType = 'deposit' | 'found' | 'hidden' | 'gas_consumed' | 'transfer_in' | 'transfer_out' | 'payout'
+export type TransactionType = 'deposit' | 'found' | 'hidden' | 'gas_consumed' | 'transfer_in' | 'transfer_out' | 'payout' | 'adjustment'
 export type TransactionStatus = 'pending' | 'confirmed' | 'failed' | 'cancelled'
 
 export interface Transaction {
@@ -76,6 +76,47 @@ export interface TransactionWithUser extends Transaction {
   related_user?: UserProfile | null
 }
 
+/**
+ * Per-user wallet (ledger head). balance always equals the balance_after
+ * of the user's latest transaction and is split into gas tank + parked coins.
+ */
+export interface Wallet {
+  user_id: string
+  balance: number              // gas_balance + parked_balance
+  gas_balance: number          // Burns daily; zero gas disables the Prize Finder
+  gas_found_balance: number    // Part of gas_balance from found coins (parkable)
+  parked_balance: number       // Found coins protected from gas consumption
+  pending_balance: number      // Found coins in the 24h verification window (not in balance)
+  last_gas_charged_on: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Payout request types
+export type PayoutStatus = 'pending' | 'approved' | 'rejected' | 'paid'
+
+export interface PayoutRequest {
+  id: string
+  user_id: string
+  amount: number
+  status: PayoutStatus
+  payout_method: string | null
+  payout_details: Record<string, unknown>
+  transaction_id: string | null   // Held 'payout' transaction
+  reviewed_by: string | null
+  reviewed_at: string | null
+  review_notes: string | null
+  paid_at: string | null
+  requested_at: string
+  created_at: string
+  updated_at: string
+}
+
+// Payout request with player info (joined)
+export interface PayoutRequestWithUser extends PayoutRequest {
+  user?: UserProfile | null
+}
+
 // Financial summary stats
 export interface FinancialStats {
   total_deposits: number
@@ -119,6 +160,52 @@ export interface SponsorWithAdmin extends Sponsor {
   admin_user?: UserProfile | null
 }
 
+/**
+ * Global game settings (single row, Settings → Game Configuration)
+ */
+export interface GameSettings {
+  // Coins
+  default_coin_value: number        // Value used when /coins/hide gets none
+  coin_expiry_days: number          // Uncollected coins older than this can't be found
+  
+  // Collecting
+  collection_radius_meters: number  // How close players must be to collect
+  nearby_radius_meters: number      // Default /coins/nearby search radius
+  max_nearby_radius_meters: number  // Largest radius /coins/nearby accepts
+  max_daily_finds: number           // Finds per player per UTC day
+  default_find_limit: number        // Find limit before hiding anything
+  
+  // Economy
+  gas_fee_percent: number           // Platform fee on transactions
+  gas_daily_fee: number             // Gas burned per day
+  min_payout: number                // Smallest payout a player can request
+  
+  updated_by: string | null
+  updated_at: string
+}
+
+/**
+ * Versioned settings (Settings → History)
+ */
+export type SettingsKey = 'game_settings' | 'distribution_config' | 'sponsor_zone_fees'
+
+/**
+ * Immutable snapshot of one settings row after a change
+ */
+export interface SettingsVersion {
+  id: string
+  setting_key: SettingsKey
+  version: number
+  settings: Record<string, unknown>  // Full row as of this version
+  changed_by: string | null
+  rolled_back_from: string | null    // Version this one restored, if a rollback
+  created_at: string
+}
+
+export interface SettingsVersionWithAuthor extends SettingsVersion {
+  author?: UserProfile | null
+}
+
 // ============================================================================
 // SPONSOR ANALYTICS TYPES - Phase M7: Sponsor Features
 // ============================================================================
@@ -253,6 +340,14 @@ export interface SponsorZoneFeeConfig {
   minimum_monthly_spend: number
 }
 
+/**
+ * Sponsor zone fees as stored (single row, Settings → Sponsor Zone Fees)
+ */
+export interface SponsorZoneFeeSettings extends Omit<SponsorZoneFeeConfig, 'zone_type'> {
+  updated_by: string | null
+  updated_at: string
+}
+
 // Dashboard stats
 export interface DashboardStats {
   total_users: number
@@ -301,6 +396,40 @@ export interface ActivityLogWithUser extends ActivityLog {
   user?: UserProfile | null
 }
 
+/**
+ * Per-device auth session (player_sessions, migration 022)
+ */
+export interface PlayerSession {
+  id: string
+  user_id: string
+  auth_session_id: string
+  device_id: string | null
+  device_model: string | null
+  app_version: string | null
+  ip_address: string | null
+  user_agent: string | null
+  started_at: string
+  last_seen_at: string
+  signed_out_at: string | null
+  signed_out_by: string | null       // Admin who signed it out (null = player logged out)
+}
+
+/**
+ * What two linked accounts share (get_account_links, migration 024)
+ */
+export type AccountLinkKind = 'device' | 'ip_range' | 'trail'
+
+/**
+ * A pair of accounts that share a device, IP range or location trail
+ */
+export interface AccountLink {
+  user_a: string
+  user_b: string
+  kind: AccountLinkKind
+  value: string | null   // Device ID or IP range (null for trails)
+  matches: number        // Overlapping trail points (1 for device / IP)
+}
+
 // Security stats
 export interface SecurityStats {
   total_logins_today: number
@@ -328,8 +457,10 @@ export interface NavItem {
  * - sponsor: Custom zones created by sponsors for their locations
  * - hunt: Special zones for timed release treasure hunts
  * - grid: System-generated zones for automated coin distribution
+ * - exclusion: No-spawn area (water, schools, highways, private facilities) -
+ *   coins are never hidden or spawned inside an active one
  */
-export type ZoneType = 'player' | 'sponsor' | 'hunt' | 'grid'
+export type ZoneType = 'player' | 'sponsor' | 'hunt' | 'grid' | 'exclusion'
 
 /**
  * Zone status
@@ -689,6 +820,110 @@ export interface CheatFlag {
   updated_at: string
 }
 
+/**
+ * Anti-cheat rule keys (anti_cheat_rules, migration 025)
+ */
+export type AntiCheatRuleKey =
+  | 'mock_location'
+  | 'gps_spoofing'
+  | 'teleportation'
+  | 'impossible_speed'
+  | 'location_inconsistency'
+
+/**
+ * A named anti-cheat rule with editable thresholds
+ */
+export interface AntiCheatRule {
+  rule_key: AntiCheatRuleKey
+  enabled: boolean
+  thresholds: Record<string, number>
+  version: number
+  updated_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Immutable history entry for a rule (one per change)
+ */
+export interface AntiCheatRuleVersion {
+  id: string
+  rule_key: AntiCheatRuleKey
+  version: number
+  enabled: boolean
+  thresholds: Record<string, number>
+  changed_by: string | null
+  created_at: string
+}
+
+/**
+ * Escalation policy mode (escalation_policy, migration 026)
+ */
+export type EscalationMode = 'off' | 'recommend' | 'automatic'
+
+/**
+ * One rung of the escalation ladder: enough matching flags in the window
+ * trigger the action
+ */
+export interface EscalationStep {
+  min_severity: CheatSeverity
+  flag_count: number
+  window_days: number
+  confirmed_only: boolean     // Only count confirmed flags
+  action: Extract<PlayerAction, 'warned' | 'suspended' | 'banned'>
+  duration_days: number | null  // Suspensions only
+}
+
+export interface EscalationPolicy {
+  id: number
+  mode: EscalationMode
+  steps: EscalationStep[]     // Mildest first
+  updated_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Escalation step waiting for admin approval (recommend mode)
+ */
+export interface EscalationRecommendation {
+  id: string
+  user_id: string
+  cheat_flag_id: string | null
+  step: number                // 1-based ladder step
+  action: EscalationStep['action']
+  duration_days: number | null
+  reason: string
+  status: 'pending' | 'approved' | 'dismissed'
+  player_action_id: string | null
+  reviewed_by: string | null
+  reviewed_at: string | null
+  created_at: string
+}
+
+/**
+ * Appeal outcome (cheat_appeals, migration 027)
+ */
+export type CheatAppealStatus = 'pending' | 'upheld' | 'overturned'
+
+/**
+ * A player's appeal against a cheat flag
+ */
+export interface CheatAppeal {
+  id: string
+  user_id: string
+  cheat_flag_id: string
+  player_action_id: string | null   // Action being appealed
+  message: string
+  status: CheatAppealStatus
+  resolution_note: string | null    // Shown to the player
+  reversal_action_id: string | null // 'cleared' action that reversed it
+  resolved_by: string | null
+  resolved_at: string | null
+  created_at: string
+  updated_at: string
+}
+
 /**
  * Cheat detection statistics
  */
@@ -0,0 +1,201 @@
+-- ============================================================================
+-- Migration: 013_atomic_coin_collection.sql
+-- Purpose: Collect a coin in ONE database transaction (race-free)
+-- ============================================================================
+-- POST /api/v1/coins/[id]/collect used to read the coin, delete/update it and
+-- then insert a transaction in three separate calls. Two players tapping the
+-- same coin could both be paid, and a failed transaction insert still consumed
+-- the coin.
+--
+-- collect_coin() locks the coin row (SELECT ... FOR UPDATE), decrements
+-- finds_remaining, writes the 'found' transaction and the running balance in a
+-- single all-or-nothing operation. The loser of a race always gets
+-- ALREADY_COLLECTED.
+--
+-- Fully consumed coins are kept with status 'collected' (not deleted) so the
+-- transaction's coin_id foreign key stays valid.
+-- ============================================================================
+
+-- The old route let a player collect a multi-find coin more than once, so
+-- existing data can hold repeat finds. Keep the earliest and void the rest
+-- so the unique index below can be built.
+UPDATE public.transactions t
+SET
+  status = 'cancelled',
+  metadata = COALESCE(t.metadata, '{}'::jsonb) || jsonb_build_object(
+    'cancelled_reason', 'duplicate_find',
+    'cancelled_at', NOW()
+  )
+FROM (
+  SELECT
+    id,
+    ROW_NUMBER() OVER (PARTITION BY coin_id, user_id ORDER BY created_at, id) AS find_number
+  FROM public.transactions
+  WHERE transaction_type = 'found'
+    AND coin_id IS NOT NULL
+    AND status <> 'cancelled'
+) d
+WHERE t.id = d.id
+  AND d.find_number > 1;
+
+-- One live 'found' transaction per user per coin (multi-find coins can't be
+-- farmed). Voided duplicates are left out.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_found_once
+  ON public.transactions (coin_id, user_id)
+  WHERE transaction_type = 'found' AND status <> 'cancelled';
+
+CREATE OR REPLACE FUNCTION public.collect_coin(
+  p_coin_id UUID,
+  p_user_id UUID DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_range_meters DOUBLE PRECISION DEFAULT 5,
+  p_pool_multiplier DECIMAL DEFAULT 1
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_coin public.coins;
+  v_value DECIMAL(10, 2);
+  v_distance DOUBLE PRECISION;
+  v_finds_remaining INTEGER;
+  v_fully_consumed BOOLEAN;
+  v_balance DECIMAL(10, 2);
+  v_tx_id UUID;
+  v_now TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+  -- Lock the coin row: concurrent collectors queue up here
+  SELECT * INTO v_coin
+  FROM public.coins
+  WHERE id = p_coin_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'code', 'NOT_FOUND', 'error', 'Coin not found');
+  END IF;
+
+  IF v_coin.status = 'collected' OR COALESCE(v_coin.finds_remaining, 1) <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'code', 'ALREADY_COLLECTED', 'error', 'Coin has already been collected');
+  END IF;
+
+  IF v_coin.status IN ('expired', 'recycled') THEN
+    RETURN jsonb_build_object('success', false, 'code', 'COIN_EXPIRED', 'error', 'Coin is no longer available');
+  END IF;
+
+  -- Same player can't collect a multi-find coin twice
+  IF p_user_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.transactions
+    WHERE coin_id = p_coin_id
+      AND user_id = p_user_id
+      AND transaction_type = 'found'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'ALREADY_COLLECTED', 'error', 'You have already collected this coin');
+  END IF;
+
+  -- Distance check (Haversine) when the client sent its position
+  IF p_latitude IS NOT NULL AND p_longitude IS NOT NULL THEN
+    v_distance := 2 * 6371000 * ASIN(SQRT(
+      POWER(SIN(RADIANS(v_coin.latitude - p_latitude) / 2), 2) +
+      COS(RADIANS(p_latitude)) * COS(RADIANS(v_coin.latitude)) *
+      POWER(SIN(RADIANS(v_coin.longitude - p_longitude) / 2), 2)
+    ));
+
+    IF v_distance > p_range_meters THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'code', 'TOO_FAR',
+        'error', format('Too far from coin. You are %sm away, need to be within %sm', ROUND(v_distance::NUMERIC), p_range_meters),
+        'distance', ROUND(v_distance::NUMERIC),
+        'required', p_range_meters
+      );
+    END IF;
+  END IF;
+
+  -- Final value: pool coins use the multiplier rolled by the API
+  IF v_coin.coin_type = 'pool' THEN
+    v_value := ROUND(v_coin.value * p_pool_multiplier, 2);
+  ELSE
+    v_value := v_coin.value;
+  END IF;
+
+  v_finds_remaining := CASE
+    WHEN v_coin.multi_find THEN GREATEST(0, COALESCE(v_coin.finds_remaining, 1) - 1)
+    ELSE 0
+  END;
+  v_fully_consumed := v_finds_remaining = 0;
+
+  UPDATE public.coins
+  SET
+    status = CASE WHEN v_fully_consumed THEN 'collected' ELSE 'visible' END,
+    collected_at = v_now,
+    collected_by = p_user_id,
+    finds_remaining = v_finds_remaining,
+    updated_at = v_now
+  WHERE id = p_coin_id
+  RETURNING * INTO v_coin;
+
+  -- Record the find + running balance (anonymous collections have no ledger)
+  IF p_user_id IS NOT NULL THEN
+    -- Serialize balance updates per user
+    PERFORM pg_advisory_xact_lock(hashtext(p_user_id::TEXT));
+
+    SELECT COALESCE((
+      SELECT balance_after FROM public.transactions
+      WHERE user_id = p_user_id AND status <> 'cancelled' AND status <> 'failed'
+      ORDER BY created_at DESC
+      LIMIT 1
+    ), 0) + v_value
+    INTO v_balance;
+
+    INSERT INTO public.transactions (
+      user_id,
+      transaction_type,
+      amount,
+      balance_after,
+      coin_id,
+      description,
+      status,
+      confirmed_at,
+      metadata
+    ) VALUES (
+      p_user_id,
+      'found',
+      v_value,
+      v_balance,
+      p_coin_id,
+      format('Found %scoin: $%s', CASE WHEN v_coin.multi_find THEN 'multi-find ' ELSE '' END, to_char(v_value, 'FM999999990.00')),
+      'confirmed',
+      v_now,
+      jsonb_build_object(
+        'coin_type', v_coin.coin_type,
+        'original_value', v_coin.value,
+        'tier', v_coin.tier,
+        'multi_find', v_coin.multi_find,
+        'finds_remaining', v_finds_remaining,
+        'location', jsonb_build_object('lat', v_coin.latitude, 'lng', v_coin.longitude)
+      )
+    )
+    RETURNING id INTO v_tx_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'coin', to_jsonb(v_coin),
+    'value', v_value,
+    'original_value', v_coin.value,
+    'finds_remaining', v_finds_remaining,
+    'fully_collected', v_fully_consumed,
+    'transaction_id', v_tx_id,
+    'balance_after', v_balance
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- API only: collect_coin trusts the user, range and multiplier it is given,
+-- so PostgREST callers (anon / authenticated) must not reach it directly.
+-- CREATE OR REPLACE in later migrations keeps these privileges.
+REVOKE EXECUTE ON FUNCTION public.collect_coin(UUID, UUID, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DECIMAL)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.collect_coin(UUID, UUID, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DECIMAL)
+  TO service_role;
+
+COMMENT ON FUNCTION public.collect_coin IS 'Atomically collect a coin: row lock, finds_remaining decrement, found transaction and balance';
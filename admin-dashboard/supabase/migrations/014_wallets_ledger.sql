@@ -0,0 +1,452 @@
+-- ============================================================================
+-- Migration: 014_wallets_ledger.sql
+-- Purpose: Per-user wallet with a correct running balance_after on every transaction
+-- ============================================================================
+-- transactions.balance_after was always written as 0 ("will be updated by
+-- trigger or app") and nothing ever fixed it. This migration adds:
+-- - wallets: one row per user holding the current BBG balance
+-- - apply_transaction_to_wallet(): BEFORE INSERT trigger on transactions that
+--   locks the wallet row, applies the signed amount and stamps balance_after
+-- - a backfill of balance_after / wallets from existing transactions
+-- - hide_coin(): a hide posts a 'hidden' debit, paid from the hider's wallet
+--
+-- Amounts stay stored as absolute values; the direction comes from
+-- transaction_type:
+--   credit: deposit, found, transfer_in
+--   debit:  hidden, gas_consumed, transfer_out, payout
+-- 'failed' and 'cancelled' transactions don't move the balance.
+-- ============================================================================
+
+-- ============================================================================
+-- WALLETS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.wallets (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  balance DECIMAL(10, 2) NOT NULL DEFAULT 0.00 CHECK (balance >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.wallets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own wallet" ON public.wallets;
+CREATE POLICY "Users can view own wallet" ON public.wallets
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view all wallets" ON public.wallets;
+CREATE POLICY "Admins can view all wallets" ON public.wallets
+  FOR SELECT USING (public.is_super_admin());
+
+DROP TRIGGER IF EXISTS wallets_updated_at ON public.wallets;
+CREATE TRIGGER wallets_updated_at
+  BEFORE UPDATE ON public.wallets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================================================
+-- HELPERS
+-- ============================================================================
+
+-- +1 for credits, -1 for debits
+CREATE OR REPLACE FUNCTION public.transaction_direction(p_type TEXT)
+RETURNS INTEGER AS $$
+BEGIN
+  RETURN CASE
+    WHEN p_type IN ('deposit', 'found', 'transfer_in') THEN 1
+    ELSE -1
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================================================
+-- HISTORICAL HIDES
+-- ============================================================================
+-- Coins hidden before hide_coin() below were never charged. Each coin a
+-- player hid gets a 'hidden' row so it still shows what they have hidden,
+-- marked metadata.backfilled and written before the ledger trigger exists:
+-- it moves no money, and the backfill below skips it. Dashboard placements
+-- (admin hider_id) were never player hides.
+
+INSERT INTO public.transactions (
+  user_id, transaction_type, amount, coin_id, description, status, created_at, confirmed_at, metadata
+)
+SELECT
+  c.hider_id,
+  'hidden',
+  c.value,
+  c.id,
+  format('Hid coin: $%s', to_char(c.value, 'FM999999990.00')),
+  'confirmed',
+  COALESCE(c.hidden_at, c.created_at, NOW()),
+  COALESCE(c.hidden_at, c.created_at, NOW()),
+  jsonb_build_object('coin_type', c.coin_type, 'tier', c.tier, 'backfilled', true)
+FROM public.coins c
+JOIN public.profiles p ON p.id = c.hider_id
+WHERE p.role = 'user'
+  AND c.value > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.coin_id = c.id
+      AND t.transaction_type = 'hidden'
+  );
+
+-- ============================================================================
+-- LEDGER TRIGGER
+-- ============================================================================
+-- Every insert into transactions goes through here, whichever code path
+-- created it (API routes, database functions, admin dashboard).
+
+CREATE OR REPLACE FUNCTION public.apply_transaction_to_wallet()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_balance DECIMAL(10, 2);
+BEGIN
+  -- Make sure the wallet exists, then lock it for the rest of the transaction
+  INSERT INTO public.wallets (user_id)
+  VALUES (NEW.user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT balance INTO v_balance
+  FROM public.wallets
+  WHERE user_id = NEW.user_id
+  FOR UPDATE;
+
+  IF NEW.status IN ('failed', 'cancelled') THEN
+    NEW.balance_after := v_balance;
+    RETURN NEW;
+  END IF;
+
+  v_balance := v_balance + public.transaction_direction(NEW.transaction_type) * ABS(NEW.amount);
+
+  IF v_balance < 0 THEN
+    RAISE EXCEPTION 'Insufficient balance for % of %', NEW.transaction_type, NEW.amount
+      USING ERRCODE = 'check_violation', HINT = 'INSUFFICIENT_FUNDS';
+  END IF;
+
+  UPDATE public.wallets
+  SET balance = v_balance
+  WHERE user_id = NEW.user_id;
+
+  NEW.amount := ABS(NEW.amount);
+  NEW.balance_after := v_balance;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS transactions_apply_to_wallet ON public.transactions;
+CREATE TRIGGER transactions_apply_to_wallet
+  BEFORE INSERT ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.apply_transaction_to_wallet();
+
+-- ============================================================================
+-- BACKFILL
+-- ============================================================================
+-- Recompute balance_after for existing rows as a running balance per user
+-- (ordered by created_at) and seed wallets with the final balance.
+--
+-- The balance is clamped at 0 after every row, the same floor the trigger
+-- enforces: a debit bigger than the balance (old data had no checks) takes
+-- it to 0 and later credits count from there. A plain running SUM would
+-- stay negative and disagree with the clamped balance_after. Backfilled
+-- hides carry the balance through unchanged.
+
+DO $$
+DECLARE
+  v_tx RECORD;
+  v_user_id UUID;
+  v_balance DECIMAL(10, 2) := 0;
+BEGIN
+  FOR v_tx IN
+    SELECT id, user_id, transaction_type, amount, status, metadata
+    FROM public.transactions
+    ORDER BY user_id, created_at, id
+  LOOP
+    IF v_user_id IS DISTINCT FROM v_tx.user_id THEN
+      v_user_id := v_tx.user_id;
+      v_balance := 0;
+    END IF;
+
+    IF COALESCE(v_tx.status, '') NOT IN ('failed', 'cancelled')
+       AND NOT COALESCE((v_tx.metadata ->> 'backfilled')::BOOLEAN, false) THEN
+      v_balance := GREATEST(
+        v_balance + public.transaction_direction(v_tx.transaction_type) * ABS(v_tx.amount),
+        0
+      );
+    END IF;
+
+    UPDATE public.transactions
+    SET balance_after = v_balance
+    WHERE id = v_tx.id;
+  END LOOP;
+END $$;
+
+INSERT INTO public.wallets (user_id, balance)
+SELECT DISTINCT ON (user_id) user_id, balance_after
+FROM public.transactions
+ORDER BY user_id, created_at DESC, id DESC
+ON CONFLICT (user_id) DO UPDATE SET balance = EXCLUDED.balance;
+
+-- ============================================================================
+-- COLLECT COIN (replaces 013)
+-- ============================================================================
+-- Same as 013 but the balance now comes from the ledger trigger instead of
+-- reading the previous transaction row.
+
+CREATE OR REPLACE FUNCTION public.collect_coin(
+  p_coin_id UUID,
+  p_user_id UUID DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_range_meters DOUBLE PRECISION DEFAULT 5,
+  p_pool_multiplier DECIMAL DEFAULT 1
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_coin public.coins;
+  v_value DECIMAL(10, 2);
+  v_distance DOUBLE PRECISION;
+  v_finds_remaining INTEGER;
+  v_fully_consumed BOOLEAN;
+  v_balance DECIMAL(10, 2);
+  v_tx_id UUID;
+  v_now TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+  -- Lock the coin row: concurrent collectors queue up here
+  SELECT * INTO v_coin
+  FROM public.coins
+  WHERE id = p_coin_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'code', 'NOT_FOUND', 'error', 'Coin not found');
+  END IF;
+
+  IF v_coin.status = 'collected' OR COALESCE(v_coin.finds_remaining, 1) <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'code', 'ALREADY_COLLECTED', 'error', 'Coin has already been collected');
+  END IF;
+
+  IF v_coin.status IN ('expired', 'recycled') THEN
+    RETURN jsonb_build_object('success', false, 'code', 'COIN_EXPIRED', 'error', 'Coin is no longer available');
+  END IF;
+
+  -- Same player can't collect a multi-find coin twice
+  IF p_user_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.transactions
+    WHERE coin_id = p_coin_id
+      AND user_id = p_user_id
+      AND transaction_type = 'found'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'ALREADY_COLLECTED', 'error', 'You have already collected this coin');
+  END IF;
+
+  -- Distance check (Haversine) when the client sent its position
+  IF p_latitude IS NOT NULL AND p_longitude IS NOT NULL THEN
+    v_distance := 2 * 6371000 * ASIN(SQRT(
+      POWER(SIN(RADIANS(v_coin.latitude - p_latitude) / 2), 2) +
+      COS(RADIANS(p_latitude)) * COS(RADIANS(v_coin.latitude)) *
+      POWER(SIN(RADIANS(v_coin.longitude - p_longitude) / 2), 2)
+    ));
+
+    IF v_distance > p_range_meters THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'code', 'TOO_FAR',
+        'error', format('Too far from coin. You are %sm away, need to be within %sm', ROUND(v_distance::NUMERIC), p_range_meters),
+        'distance', ROUND(v_distance::NUMERIC),
+        'required', p_range_meters
+      );
+    END IF;
+  END IF;
+
+  -- Final value: pool coins use the multiplier rolled by the API
+  IF v_coin.coin_type = 'pool' THEN
+    v_value := ROUND(v_coin.value * p_pool_multiplier, 2);
+  ELSE
+    v_value := v_coin.value;
+  END IF;
+
+  v_finds_remaining := CASE
+    WHEN v_coin.multi_find THEN GREATEST(0, COALESCE(v_coin.finds_remaining, 1) - 1)
+    ELSE 0
+  END;
+  v_fully_consumed := v_finds_remaining = 0;
+
+  UPDATE public.coins
+  SET
+    status = CASE WHEN v_fully_consumed THEN 'collected' ELSE 'visible' END,
+    collected_at = v_now,
+    collected_by = p_user_id,
+    finds_remaining = v_finds_remaining,
+    updated_at = v_now
+  WHERE id = p_coin_id
+  RETURNING * INTO v_coin;
+
+  -- Record the find (anonymous collections have no ledger).
+  -- balance_after is stamped by the transactions_apply_to_wallet trigger.
+  IF p_user_id IS NOT NULL THEN
+    INSERT INTO public.transactions (
+      user_id,
+      transaction_type,
+      amount,
+      coin_id,
+      description,
+      status,
+      confirmed_at,
+      metadata
+    ) VALUES (
+      p_user_id,
+      'found',
+      v_value,
+      p_coin_id,
+      format('Found %scoin: $%s', CASE WHEN v_coin.multi_find THEN 'multi-find ' ELSE '' END, to_char(v_value, 'FM999999990.00')),
+      'confirmed',
+      v_now,
+      jsonb_build_object(
+        'coin_type', v_coin.coin_type,
+        'original_value', v_coin.value,
+        'tier', v_coin.tier,
+        'multi_find', v_coin.multi_find,
+        'finds_remaining', v_finds_remaining,
+        'location', jsonb_build_object('lat', v_coin.latitude, 'lng', v_coin.longitude)
+      )
+    )
+    RETURNING id, balance_after INTO v_tx_id, v_balance;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'coin', to_jsonb(v_coin),
+    'value', v_value,
+    'original_value', v_coin.value,
+    'finds_remaining', v_finds_remaining,
+    'fully_collected', v_fully_consumed,
+    'transaction_id', v_tx_id,
+    'balance_after', v_balance
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- HIDE COIN
+-- ============================================================================
+-- The coin and its 'hidden' debit are written together: if the ledger
+-- trigger refuses the debit (INSUFFICIENT_FUNDS) the coin isn't created
+-- either.
+
+CREATE OR REPLACE FUNCTION public.hide_coin(
+  p_user_id UUID,
+  p_value DECIMAL,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_coin_type TEXT DEFAULT 'fixed',
+  p_tier TEXT DEFAULT 'bronze',
+  p_is_mythical BOOLEAN DEFAULT FALSE,
+  p_location_name TEXT DEFAULT NULL,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_value DECIMAL(10, 2) := ROUND(p_value, 2);
+  v_coin public.coins;
+  v_tx_id UUID;
+  v_balance DECIMAL(10, 2);
+  v_hint TEXT;
+  v_now TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+  IF v_value IS NULL OR v_value < 0.01 THEN
+    RETURN jsonb_build_object('success', false, 'code', 'INVALID_VALUE', 'error', 'Value must be at least $0.01');
+  END IF;
+
+  BEGIN
+    INSERT INTO public.coins (
+      coin_type,
+      value,
+      tier,
+      is_mythical,
+      latitude,
+      longitude,
+      location_name,
+      description,
+      status,
+      hider_id,
+      hidden_at,
+      multi_find,
+      finds_remaining
+    ) VALUES (
+      p_coin_type,
+      v_value,
+      p_tier,
+      COALESCE(p_is_mythical, FALSE),
+      p_latitude,
+      p_longitude,
+      p_location_name,
+      p_description,
+      'hidden',
+      p_user_id,
+      v_now,
+      FALSE,
+      1
+    )
+    RETURNING * INTO v_coin;
+
+    INSERT INTO public.transactions (
+      user_id,
+      transaction_type,
+      amount,
+      coin_id,
+      description,
+      status,
+      confirmed_at,
+      metadata
+    ) VALUES (
+      p_user_id,
+      'hidden',
+      v_value,
+      v_coin.id,
+      format('Hid coin: $%s', to_char(v_value, 'FM999999990.00')),
+      'confirmed',
+      v_now,
+      jsonb_build_object(
+        'coin_type', v_coin.coin_type,
+        'tier', v_coin.tier,
+        'location', jsonb_build_object('lat', v_coin.latitude, 'lng', v_coin.longitude)
+      )
+    )
+    RETURNING id, balance_after INTO v_tx_id, v_balance;
+  EXCEPTION WHEN check_violation THEN
+    GET STACKED DIAGNOSTICS v_hint = PG_EXCEPTION_HINT;
+    IF v_hint IS DISTINCT FROM 'INSUFFICIENT_FUNDS' THEN
+      RAISE;
+    END IF;
+
+    RETURN jsonb_build_object(
+      'success', false,
+      'code', 'INSUFFICIENT_FUNDS',
+      'error', 'Not enough found coins to hide this coin',
+      'required', v_value
+    );
+  END;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'coin', to_jsonb(v_coin),
+    'transaction_id', v_tx_id,
+    'balance_after', v_balance
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- API only: hide_coin trusts the user it is given
+REVOKE EXECUTE ON FUNCTION public.hide_coin(UUID, DECIMAL, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT, BOOLEAN, TEXT, TEXT)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hide_coin(UUID, DECIMAL, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT, BOOLEAN, TEXT, TEXT)
+  TO service_role;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE public.wallets IS 'Current BBG balance per user (ledger head of transactions)';
+COMMENT ON FUNCTION public.transaction_direction IS 'Returns +1 for credit transaction types, -1 for debits';
+COMMENT ON FUNCTION public.apply_transaction_to_wallet IS 'Applies a new transaction to the wallet and stamps balance_after';
+COMMENT ON FUNCTION public.hide_coin IS 'Hide a coin and post its hidden debit in one transaction';
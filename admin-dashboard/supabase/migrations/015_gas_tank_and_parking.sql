@@ -0,0 +1,321 @@
+-- ============================================================================
+-- Migration: 015_gas_tank_and_parking.sql
+-- Purpose: Split wallets into gas tank vs parked coins + daily gas consumption
+-- ============================================================================
+-- Economy rules (Docs/economy-and-currency.md):
+-- - Purchased BBG goes into the gas tank and MUST burn as gas
+-- - Found BBG can be parked (protected from gas) or used as gas
+-- - Gas burns ~$0.33/day at midnight; zero gas disables the Prize Finder
+-- - Moving parked coins back into the gas tank charges one day immediately
+--
+-- Wallet columns (balance stays the total):
+--   gas_balance        total in the gas tank
+--   gas_found_balance  part of gas_balance that came from found coins (parkable)
+--   parked_balance     parked found coins
+--
+-- Where each transaction type lands:
+--   deposit                      -> gas (purchased)
+--   found, transfer_in           -> parked
+--   gas_consumed                 <- gas (purchased part first, then found part)
+--   hidden, transfer_out, payout <- parked first, then found part of gas
+-- ============================================================================
+
+ALTER TABLE public.wallets
+  ADD COLUMN IF NOT EXISTS gas_balance DECIMAL(10, 2) NOT NULL DEFAULT 0.00 CHECK (gas_balance >= 0),
+  ADD COLUMN IF NOT EXISTS gas_found_balance DECIMAL(10, 2) NOT NULL DEFAULT 0.00 CHECK (gas_found_balance >= 0),
+  ADD COLUMN IF NOT EXISTS parked_balance DECIMAL(10, 2) NOT NULL DEFAULT 0.00 CHECK (parked_balance >= 0),
+  ADD COLUMN IF NOT EXISTS last_gas_charged_on DATE;
+
+ALTER TABLE public.wallets
+  DROP CONSTRAINT IF EXISTS wallets_gas_found_within_gas;
+ALTER TABLE public.wallets
+  ADD CONSTRAINT wallets_gas_found_within_gas CHECK (gas_found_balance <= gas_balance);
+
+-- Backfill: found/received coins are parked, the rest is gas
+UPDATE public.wallets w
+SET
+  parked_balance = LEAST(w.balance, COALESCE(f.found_total, 0)),
+  gas_balance = w.balance - LEAST(w.balance, COALESCE(f.found_total, 0)),
+  gas_found_balance = 0
+FROM (
+  SELECT user_id, SUM(amount) AS found_total
+  FROM public.transactions
+  WHERE transaction_type IN ('found', 'transfer_in')
+    AND status NOT IN ('failed', 'cancelled')
+  GROUP BY user_id
+) f
+WHERE f.user_id = w.user_id;
+
+UPDATE public.wallets
+SET gas_balance = balance
+WHERE gas_balance + parked_balance <> balance;
+
+-- ============================================================================
+-- LEDGER TRIGGER (replaces 014)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.apply_transaction_to_wallet()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_wallet public.wallets;
+  v_amount DECIMAL(10, 2) := ABS(NEW.amount);
+  v_from_parked DECIMAL(10, 2);
+  v_from_found DECIMAL(10, 2);
+  v_from_purchased DECIMAL(10, 2);
+BEGIN
+  -- Make sure the wallet exists, then lock it for the rest of the transaction
+  INSERT INTO public.wallets (user_id)
+  VALUES (NEW.user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_wallet
+  FROM public.wallets
+  WHERE user_id = NEW.user_id
+  FOR UPDATE;
+
+  NEW.amount := v_amount;
+
+  IF NEW.status IN ('failed', 'cancelled') THEN
+    NEW.balance_after := v_wallet.balance;
+    RETURN NEW;
+  END IF;
+
+  IF public.transaction_direction(NEW.transaction_type) > 0 THEN
+    IF NEW.transaction_type = 'deposit' THEN
+      v_wallet.gas_balance := v_wallet.gas_balance + v_amount;
+    ELSE
+      v_wallet.parked_balance := v_wallet.parked_balance + v_amount;
+    END IF;
+
+  ELSIF NEW.transaction_type = 'gas_consumed' THEN
+    IF v_amount > v_wallet.gas_balance THEN
+      RAISE EXCEPTION 'Insufficient gas for % of %', NEW.transaction_type, v_amount
+        USING ERRCODE = 'check_violation', HINT = 'INSUFFICIENT_FUNDS';
+    END IF;
+    -- Purchased gas burns first, found gas last
+    v_from_purchased := LEAST(v_amount, v_wallet.gas_balance - v_wallet.gas_found_balance);
+    v_from_found := v_amount - v_from_purchased;
+    v_wallet.gas_balance := v_wallet.gas_balance - v_amount;
+    v_wallet.gas_found_balance := v_wallet.gas_found_balance - v_from_found;
+
+  ELSE
+    -- hidden / transfer_out / payout spend found coins only
+    IF v_amount > v_wallet.parked_balance + v_wallet.gas_found_balance THEN
+      RAISE EXCEPTION 'Insufficient found coins for % of %', NEW.transaction_type, v_amount
+        USING ERRCODE = 'check_violation', HINT = 'INSUFFICIENT_FUNDS';
+    END IF;
+    v_from_parked := LEAST(v_amount, v_wallet.parked_balance);
+    v_from_found := v_amount - v_from_parked;
+    v_wallet.parked_balance := v_wallet.parked_balance - v_from_parked;
+    v_wallet.gas_found_balance := v_wallet.gas_found_balance - v_from_found;
+    v_wallet.gas_balance := v_wallet.gas_balance - v_from_found;
+  END IF;
+
+  v_wallet.balance := v_wallet.gas_balance + v_wallet.parked_balance;
+
+  UPDATE public.wallets
+  SET
+    balance = v_wallet.balance,
+    gas_balance = v_wallet.gas_balance,
+    gas_found_balance = v_wallet.gas_found_balance,
+    parked_balance = v_wallet.parked_balance
+  WHERE user_id = NEW.user_id;
+
+  NEW.balance_after := v_wallet.balance;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- PARK / UNPARK
+-- ============================================================================
+
+-- Move found coins from the gas tank into parking (no fee)
+CREATE OR REPLACE FUNCTION public.park_coins(
+  p_user_id UUID,
+  p_amount DECIMAL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_amount DECIMAL(10, 2) := ROUND(p_amount, 2);
+  v_wallet public.wallets;
+BEGIN
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT', 'error', 'Amount must be greater than 0');
+  END IF;
+
+  SELECT * INTO v_wallet
+  FROM public.wallets
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_wallet.gas_found_balance < v_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'code', 'INSUFFICIENT_FUNDS',
+      'error', 'Only found coins in your gas tank can be parked',
+      'parkable', COALESCE(v_wallet.gas_found_balance, 0)
+    );
+  END IF;
+
+  UPDATE public.wallets
+  SET
+    gas_balance = gas_balance - v_amount,
+    gas_found_balance = gas_found_balance - v_amount,
+    parked_balance = parked_balance + v_amount
+  WHERE user_id = p_user_id
+  RETURNING * INTO v_wallet;
+
+  RETURN jsonb_build_object('success', true, 'wallet', to_jsonb(v_wallet));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Move parked coins into the gas tank and immediately charge one day of gas
+CREATE OR REPLACE FUNCTION public.unpark_coins(
+  p_user_id UUID,
+  p_amount DECIMAL,
+  p_daily_fee DECIMAL DEFAULT 0.33
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_amount DECIMAL(10, 2) := ROUND(p_amount, 2);
+  v_wallet public.wallets;
+  v_fee DECIMAL(10, 2);
+  v_tx_id UUID;
+BEGIN
+  -- Whole cents only: 0.001 would move nothing but still pay the fee
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT', 'error', 'Amount must be greater than 0');
+  END IF;
+
+  SELECT * INTO v_wallet
+  FROM public.wallets
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_wallet.parked_balance < v_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'code', 'INSUFFICIENT_FUNDS',
+      'error', 'Not enough parked coins',
+      'parked', COALESCE(v_wallet.parked_balance, 0)
+    );
+  END IF;
+
+  UPDATE public.wallets
+  SET
+    parked_balance = parked_balance - v_amount,
+    gas_balance = gas_balance + v_amount,
+    gas_found_balance = gas_found_balance + v_amount
+  WHERE user_id = p_user_id
+  RETURNING * INTO v_wallet;
+
+  v_fee := LEAST(ROUND(p_daily_fee, 2), v_wallet.gas_balance);
+
+  IF v_fee > 0 THEN
+    INSERT INTO public.transactions (
+      user_id, transaction_type, amount, description, status, confirmed_at, metadata
+    ) VALUES (
+      p_user_id,
+      'gas_consumed',
+      v_fee,
+      'Gas charged for unparking coins',
+      'confirmed',
+      NOW(),
+      jsonb_build_object('reason', 'unpark', 'unparked_amount', v_amount)
+    )
+    RETURNING id INTO v_tx_id;
+
+    SELECT * INTO v_wallet FROM public.wallets WHERE user_id = p_user_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'wallet', to_jsonb(v_wallet),
+    'fee_charged', v_fee,
+    'transaction_id', v_tx_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- API only: both trust the user they are given
+REVOKE EXECUTE ON FUNCTION public.park_coins(UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.unpark_coins(UUID, DECIMAL, DECIMAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.park_coins(UUID, DECIMAL) TO service_role;
+GRANT EXECUTE ON FUNCTION public.unpark_coins(UUID, DECIMAL, DECIMAL) TO service_role;
+
+-- ============================================================================
+-- DAILY GAS CONSUMPTION JOB
+-- ============================================================================
+-- Charges one day of gas to every wallet with gas left. Safe to run more than
+-- once a day: wallets already charged today are skipped.
+
+CREATE OR REPLACE FUNCTION public.consume_daily_gas(
+  p_daily_fee DECIMAL DEFAULT 0.33
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_wallet RECORD;
+  v_fee DECIMAL(10, 2);
+  v_charged INTEGER := 0;
+BEGIN
+  FOR v_wallet IN
+    SELECT user_id, gas_balance
+    FROM public.wallets
+    WHERE gas_balance > 0
+      AND (last_gas_charged_on IS NULL OR last_gas_charged_on < CURRENT_DATE)
+  LOOP
+    BEGIN
+      v_fee := LEAST(ROUND(p_daily_fee, 2), v_wallet.gas_balance);
+
+      INSERT INTO public.transactions (
+        user_id, transaction_type, amount, description, status, confirmed_at, metadata
+      ) VALUES (
+        v_wallet.user_id,
+        'gas_consumed',
+        v_fee,
+        'Daily gas',
+        'confirmed',
+        NOW(),
+        jsonb_build_object('reason', 'daily', 'charged_on', CURRENT_DATE)
+      );
+
+      UPDATE public.wallets
+      SET last_gas_charged_on = CURRENT_DATE
+      WHERE user_id = v_wallet.user_id;
+
+      v_charged := v_charged + 1;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Daily gas for % failed: %', v_wallet.user_id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN v_charged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Cron / service role only: anyone else could burn everyone's gas early
+REVOKE EXECUTE ON FUNCTION public.consume_daily_gas(DECIMAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_daily_gas(DECIMAL) TO service_role;
+
+-- Schedule at midnight UTC when pg_cron is enabled on the project
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('consume-daily-gas', '0 0 * * *', 'SELECT public.consume_daily_gas()');
+    RAISE NOTICE 'Scheduled consume_daily_gas() with pg_cron';
+  ELSE
+    RAISE NOTICE 'pg_cron not enabled - call public.consume_daily_gas() once a day';
+  END IF;
+END $$;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN public.wallets.gas_balance IS 'BBG in the gas tank (burns daily)';
+COMMENT ON COLUMN public.wallets.gas_found_balance IS 'Part of gas_balance from found coins (can be parked)';
+COMMENT ON COLUMN public.wallets.parked_balance IS 'Parked found coins, protected from gas consumption';
+COMMENT ON FUNCTION public.park_coins IS 'Move found coins from the gas tank into parking';
+COMMENT ON FUNCTION public.unpark_coins IS 'Move parked coins into the gas tank, charging one day of gas';
+COMMENT ON FUNCTION public.consume_daily_gas IS 'Daily job: post gas_consumed for every wallet with gas';
@@ -0,0 +1,439 @@
+-- ============================================================================
+-- Migration: 016_found_coin_verification.sql
+-- Purpose: 24-hour pending window for found coins before they are spendable
+-- ============================================================================
+-- Economy rules (Docs/economy-and-currency.md, "Pending vs Confirmed"):
+-- - Found coins stay 'pending' for 24 hours while the server cross-checks
+-- - Pending coins show in the wallet but can't be spent, parked or paid out
+-- - Suspicious pending coins are held for investigation
+--
+-- This migration adds:
+-- - wallets.pending_balance: found coins still under verification
+-- - wallet_apply_entry(): shared ledger logic, now reversible so a status
+--   change (pending -> confirmed, confirmed -> cancelled, ...) moves money
+-- - 'adjustment' transactions: each status change is posted as its own
+--   ledger row with its own balance_after; the original row keeps its own
+-- - a status-change trigger on transactions that posts the adjustment
+-- - collect_coin() writing 'found' transactions as 'pending'
+-- - confirm_pending_finds(): scheduled confirmer; finds by players with an
+--   open high/critical cheat flag stay pending until the flag is reviewed
+-- - a cheat_flags trigger that cancels pending finds when a flag is confirmed
+-- ============================================================================
+
+ALTER TABLE public.wallets
+  ADD COLUMN IF NOT EXISTS pending_balance DECIMAL(10, 2) NOT NULL DEFAULT 0.00 CHECK (pending_balance >= 0);
+
+-- An adjustment moves a transaction from one status to another; the
+-- adjusted row is named in metadata (adjusts_transaction_id, adjusted_type,
+-- from_status, to_status)
+ALTER TABLE public.transactions
+  DROP CONSTRAINT IF EXISTS transactions_transaction_type_check;
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_transaction_type_check CHECK (transaction_type IN (
+    'deposit', 'found', 'hidden', 'gas_consumed', 'transfer_in', 'transfer_out', 'payout', 'adjustment'
+  ));
+
+CREATE INDEX IF NOT EXISTS idx_transactions_pending_found
+  ON public.transactions (created_at)
+  WHERE transaction_type = 'found' AND status = 'pending';
+
+-- Existing pending credits were never applied by the 014/015 trigger
+UPDATE public.wallets w
+SET pending_balance = p.pending_total
+FROM (
+  SELECT user_id, SUM(amount) AS pending_total
+  FROM public.transactions
+  WHERE status = 'pending'
+    AND public.transaction_direction(transaction_type) > 0
+  GROUP BY user_id
+) p
+WHERE p.user_id = w.user_id;
+
+-- ============================================================================
+-- LEDGER (replaces the 015 trigger body)
+-- ============================================================================
+-- Applies one transaction to the wallet, or takes it back out when
+-- p_reverse is true. A reversed credit is spent like a debit and a reversed
+-- debit is refunded like a credit. Pending credits only touch pending_balance.
+
+CREATE OR REPLACE FUNCTION public.wallet_apply_entry(
+  p_user_id UUID,
+  p_type TEXT,
+  p_amount DECIMAL,
+  p_status TEXT,
+  p_reverse BOOLEAN DEFAULT false
+)
+RETURNS public.wallets AS $$
+DECLARE
+  v_wallet public.wallets;
+  v_amount DECIMAL(10, 2) := ABS(p_amount);
+  v_is_credit BOOLEAN := public.transaction_direction(p_type) > 0;
+  v_from_parked DECIMAL(10, 2);
+  v_from_found DECIMAL(10, 2);
+  v_from_purchased DECIMAL(10, 2);
+BEGIN
+  -- Make sure the wallet exists, then lock it for the rest of the transaction
+  INSERT INTO public.wallets (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_wallet
+  FROM public.wallets
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF p_status IN ('failed', 'cancelled') THEN
+    RETURN v_wallet;
+  END IF;
+
+  IF v_is_credit AND p_status = 'pending' THEN
+    v_wallet.pending_balance := v_wallet.pending_balance
+      + CASE WHEN p_reverse THEN -v_amount ELSE v_amount END;
+
+  ELSIF v_is_credit <> p_reverse THEN
+    -- Money in: deposits and refunded gas go to the gas tank, the rest parks
+    IF p_type IN ('deposit', 'gas_consumed') THEN
+      v_wallet.gas_balance := v_wallet.gas_balance + v_amount;
+    ELSE
+      v_wallet.parked_balance := v_wallet.parked_balance + v_amount;
+    END IF;
+
+  ELSIF p_type IN ('gas_consumed', 'deposit') THEN
+    IF v_amount > v_wallet.gas_balance THEN
+      RAISE EXCEPTION 'Insufficient gas for % of %', p_type, v_amount
+        USING ERRCODE = 'check_violation', HINT = 'INSUFFICIENT_FUNDS';
+    END IF;
+    -- Purchased gas burns first, found gas last
+    v_from_purchased := LEAST(v_amount, v_wallet.gas_balance - v_wallet.gas_found_balance);
+    v_from_found := v_amount - v_from_purchased;
+    v_wallet.gas_balance := v_wallet.gas_balance - v_amount;
+    v_wallet.gas_found_balance := v_wallet.gas_found_balance - v_from_found;
+
+  ELSE
+    -- hidden / transfer_out / payout (and reversed finds) use found coins only
+    IF v_amount > v_wallet.parked_balance + v_wallet.gas_found_balance THEN
+      RAISE EXCEPTION 'Insufficient found coins for % of %', p_type, v_amount
+        USING ERRCODE = 'check_violation', HINT = 'INSUFFICIENT_FUNDS';
+    END IF;
+    v_from_parked := LEAST(v_amount, v_wallet.parked_balance);
+    v_from_found := v_amount - v_from_parked;
+    v_wallet.parked_balance := v_wallet.parked_balance - v_from_parked;
+    v_wallet.gas_found_balance := v_wallet.gas_found_balance - v_from_found;
+    v_wallet.gas_balance := v_wallet.gas_balance - v_from_found;
+  END IF;
+
+  v_wallet.balance := v_wallet.gas_balance + v_wallet.parked_balance;
+
+  UPDATE public.wallets
+  SET
+    balance = v_wallet.balance,
+    gas_balance = v_wallet.gas_balance,
+    gas_found_balance = v_wallet.gas_found_balance,
+    parked_balance = v_wallet.parked_balance,
+    pending_balance = v_wallet.pending_balance
+  WHERE user_id = p_user_id
+  RETURNING * INTO v_wallet;
+
+  RETURN v_wallet;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.apply_transaction_to_wallet()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_wallet public.wallets;
+BEGIN
+  NEW.amount := ABS(NEW.amount);
+
+  IF NEW.transaction_type = 'adjustment' THEN
+    -- Undo the adjusted transaction's old status, apply its new one
+    PERFORM public.wallet_apply_entry(
+      NEW.user_id, NEW.metadata->>'adjusted_type', NEW.amount, NEW.metadata->>'from_status', true
+    );
+    v_wallet := public.wallet_apply_entry(
+      NEW.user_id, NEW.metadata->>'adjusted_type', NEW.amount, NEW.metadata->>'to_status'
+    );
+  ELSE
+    v_wallet := public.wallet_apply_entry(NEW.user_id, NEW.transaction_type, NEW.amount, NEW.status);
+  END IF;
+
+  NEW.balance_after := v_wallet.balance;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A status change is posted as an 'adjustment' row, which moves the money
+-- and records the resulting balance. The changed row keeps the
+-- balance_after it was written with.
+CREATE OR REPLACE FUNCTION public.apply_transaction_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.transactions (
+    user_id,
+    transaction_type,
+    amount,
+    coin_id,
+    related_user_id,
+    description,
+    status,
+    confirmed_at,
+    metadata
+  ) VALUES (
+    OLD.user_id,
+    'adjustment',
+    OLD.amount,
+    OLD.coin_id,
+    OLD.related_user_id,
+    format('%s %s: %s -> %s', initcap(replace(OLD.transaction_type, '_', ' ')), to_char(OLD.amount, 'FM999999990.00'), OLD.status, NEW.status),
+    'confirmed',
+    NOW(),
+    jsonb_build_object(
+      'adjusts_transaction_id', OLD.id,
+      'adjusted_type', OLD.transaction_type,
+      'from_status', OLD.status,
+      'to_status', NEW.status
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS transactions_status_change ON public.transactions;
+CREATE TRIGGER transactions_status_change
+  BEFORE UPDATE OF status ON public.transactions
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.apply_transaction_status_change();
+
+-- ============================================================================
+-- COLLECT COIN (replaces 014)
+-- ============================================================================
+-- Same as 014 but the 'found' transaction starts out 'pending'.
+
+CREATE OR REPLACE FUNCTION public.collect_coin(
+  p_coin_id UUID,
+  p_user_id UUID DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_range_meters DOUBLE PRECISION DEFAULT 5,
+  p_pool_multiplier DECIMAL DEFAULT 1
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_coin public.coins;
+  v_value DECIMAL(10, 2);
+  v_distance DOUBLE PRECISION;
+  v_finds_remaining INTEGER;
+  v_fully_consumed BOOLEAN;
+  v_balance DECIMAL(10, 2);
+  v_tx_id UUID;
+  v_now TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+  -- Lock the coin row: concurrent collectors queue up here
+  SELECT * INTO v_coin
+  FROM public.coins
+  WHERE id = p_coin_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'code', 'NOT_FOUND', 'error', 'Coin not found');
+  END IF;
+
+  IF v_coin.status = 'collected' OR COALESCE(v_coin.finds_remaining, 1) <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'code', 'ALREADY_COLLECTED', 'error', 'Coin has already been collected');
+  END IF;
+
+  IF v_coin.status IN ('expired', 'recycled') THEN
+    RETURN jsonb_build_object('success', false, 'code', 'COIN_EXPIRED', 'error', 'Coin is no longer available');
+  END IF;
+
+  -- Same player can't collect a multi-find coin twice
+  IF p_user_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.transactions
+    WHERE coin_id = p_coin_id
+      AND user_id = p_user_id
+      AND transaction_type = 'found'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'ALREADY_COLLECTED', 'error', 'You have already collected this coin');
+  END IF;
+
+  -- Distance check (Haversine) when the client sent its position
+  IF p_latitude IS NOT NULL AND p_longitude IS NOT NULL THEN
+    v_distance := 2 * 6371000 * ASIN(SQRT(
+      POWER(SIN(RADIANS(v_coin.latitude - p_latitude) / 2), 2) +
+      COS(RADIANS(p_latitude)) * COS(RADIANS(v_coin.latitude)) *
+      POWER(SIN(RADIANS(v_coin.longitude - p_longitude) / 2), 2)
+    ));
+
+    IF v_distance > p_range_meters THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'code', 'TOO_FAR',
+        'error', format('Too far from coin. You are %sm away, need to be within %sm', ROUND(v_distance::NUMERIC), p_range_meters),
+        'distance', ROUND(v_distance::NUMERIC),
+        'required', p_range_meters
+      );
+    END IF;
+  END IF;
+
+  -- Final value: pool coins use the multiplier rolled by the API
+  IF v_coin.coin_type = 'pool' THEN
+    v_value := ROUND(v_coin.value * p_pool_multiplier, 2);
+  ELSE
+    v_value := v_coin.value;
+  END IF;
+
+  v_finds_remaining := CASE
+    WHEN v_coin.multi_find THEN GREATEST(0, COALESCE(v_coin.finds_remaining, 1) - 1)
+    ELSE 0
+  END;
+  v_fully_consumed := v_finds_remaining = 0;
+
+  UPDATE public.coins
+  SET
+    status = CASE WHEN v_fully_consumed THEN 'collected' ELSE 'visible' END,
+    collected_at = v_now,
+    collected_by = p_user_id,
+    finds_remaining = v_finds_remaining,
+    updated_at = v_now
+  WHERE id = p_coin_id
+  RETURNING * INTO v_coin;
+
+  -- Record the find as pending (anonymous collections have no ledger).
+  -- confirm_pending_finds() promotes it after the verification window.
+  IF p_user_id IS NOT NULL THEN
+    INSERT INTO public.transactions (
+      user_id,
+      transaction_type,
+      amount,
+      coin_id,
+      description,
+      status,
+      metadata
+    ) VALUES (
+      p_user_id,
+      'found',
+      v_value,
+      p_coin_id,
+      format('Found %scoin: $%s', CASE WHEN v_coin.multi_find THEN 'multi-find ' ELSE '' END, to_char(v_value, 'FM999999990.00')),
+      'pending',
+      jsonb_build_object(
+        'coin_type', v_coin.coin_type,
+        'original_value', v_coin.value,
+        'tier', v_coin.tier,
+        'multi_find', v_coin.multi_find,
+        'finds_remaining', v_finds_remaining,
+        'location', jsonb_build_object('lat', v_coin.latitude, 'lng', v_coin.longitude)
+      )
+    )
+    RETURNING id, balance_after INTO v_tx_id, v_balance;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'coin', to_jsonb(v_coin),
+    'value', v_value,
+    'original_value', v_coin.value,
+    'finds_remaining', v_finds_remaining,
+    'fully_collected', v_fully_consumed,
+    'transaction_id', v_tx_id,
+    'transaction_status', CASE WHEN v_tx_id IS NULL THEN NULL ELSE 'pending' END,
+    'balance_after', v_balance
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- CONFIRMER JOB
+-- ============================================================================
+-- Promotes finds older than the hold window. Players with an open
+-- (pending/investigating) high or critical cheat flag are skipped; their
+-- finds are confirmed on a later run once the flag is cleared, or cancelled
+-- if it is confirmed.
+
+CREATE OR REPLACE FUNCTION public.confirm_pending_finds(
+  p_hold_hours INTEGER DEFAULT 24
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_confirmed INTEGER;
+BEGIN
+  UPDATE public.transactions t
+  SET
+    status = 'confirmed',
+    confirmed_at = NOW()
+  WHERE t.transaction_type = 'found'
+    AND t.status = 'pending'
+    AND t.created_at <= NOW() - make_interval(hours => p_hold_hours)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.cheat_flags f
+      WHERE f.user_id = t.user_id
+        AND f.severity IN ('high', 'critical')
+        AND f.status IN ('pending', 'investigating')
+    );
+
+  GET DIAGNOSTICS v_confirmed = ROW_COUNT;
+  RETURN v_confirmed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Cron / service role only: a client could pass p_hold_hours => 0 and skip
+-- the verification window
+REVOKE EXECUTE ON FUNCTION public.confirm_pending_finds(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.confirm_pending_finds(INTEGER) TO service_role;
+
+-- Hourly so finds confirm at most an hour after their 24h window
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('confirm-pending-finds', '15 * * * *', 'SELECT public.confirm_pending_finds()');
+    RAISE NOTICE 'Scheduled confirm_pending_finds() with pg_cron';
+  ELSE
+    RAISE NOTICE 'pg_cron not enabled - call public.confirm_pending_finds() every hour';
+  END IF;
+END $$;
+
+-- ============================================================================
+-- CANCEL ON CONFIRMED CHEAT FLAG
+-- ============================================================================
+-- Confirming a flag cancels the player's pending finds. The status-change
+-- trigger posts adjustments that take the amounts back out of pending_balance.
+
+CREATE OR REPLACE FUNCTION public.cancel_pending_finds_for_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'confirmed' OR (TG_OP = 'UPDATE' AND OLD.status = 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.transactions
+  SET
+    status = 'cancelled',
+    metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object(
+      'cancelled_reason', 'cheat_flag_confirmed',
+      'cheat_flag_id', NEW.id,
+      'cancelled_at', NOW()
+    )
+  WHERE user_id = NEW.user_id
+    AND transaction_type = 'found'
+    AND status = 'pending';
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS cheat_flags_cancel_pending_finds ON public.cheat_flags;
+CREATE TRIGGER cheat_flags_cancel_pending_finds
+  AFTER INSERT OR UPDATE OF status ON public.cheat_flags
+  FOR EACH ROW EXECUTE FUNCTION public.cancel_pending_finds_for_flag();
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN public.wallets.pending_balance IS 'Found coins still in the 24h verification window (not spendable)';
+COMMENT ON FUNCTION public.wallet_apply_entry IS 'Applies (or reverses) one transaction on the wallet buckets';
+COMMENT ON FUNCTION public.apply_transaction_status_change IS 'Posts an adjustment transaction that moves the wallet when a transaction changes status';
+COMMENT ON FUNCTION public.confirm_pending_finds IS 'Hourly job: confirm found coins past the hold window unless the finder has an open high/critical flag';
+COMMENT ON FUNCTION public.cancel_pending_finds_for_flag IS 'Cancels pending finds when a cheat flag is confirmed';
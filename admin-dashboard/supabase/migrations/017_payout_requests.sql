@@ -0,0 +1,286 @@
+-- ============================================================================
+-- Migration: 017_payout_requests.sql
+-- Purpose: Player payout requests + super admin review queue
+-- ============================================================================
+-- Flow:
+--   player requests  -> payout_requests 'pending'  + 'payout' transaction 'pending'
+--   admin approves   -> 'approved' (money stays held)
+--   admin rejects    -> 'rejected' + transaction 'cancelled' (refund adjustment to parked)
+--   admin marks paid -> 'paid'     + transaction 'confirmed'
+--
+-- The pending payout transaction debits the wallet immediately (see
+-- wallet_apply_entry() in 016), so requested money can't be spent twice
+-- while the request is in the queue.
+--
+-- Only parked found coins can be paid out, the amount must meet the minimum
+-- payout, and players with an open cheat flag can't request one.
+-- Every step is written to activity_logs.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.payout_requests (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'paid')),
+
+  -- Where the money goes (e.g. { "paypal_email": "..." })
+  payout_method TEXT,
+  payout_details JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- The held 'payout' transaction
+  transaction_id UUID REFERENCES public.transactions(id),
+
+  -- Review
+  reviewed_by UUID REFERENCES public.profiles(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_notes TEXT,
+  paid_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_requests_user ON public.payout_requests(user_id);
+CREATE INDEX IF NOT EXISTS idx_payout_requests_status ON public.payout_requests(status);
+CREATE INDEX IF NOT EXISTS idx_payout_requests_requested ON public.payout_requests(requested_at DESC);
+
+DROP TRIGGER IF EXISTS payout_requests_updated_at ON public.payout_requests;
+CREATE TRIGGER payout_requests_updated_at
+  BEFORE UPDATE ON public.payout_requests
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================================================
+-- RLS
+-- ============================================================================
+-- Writes only go through request_payout() / review_payout().
+
+ALTER TABLE public.payout_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own payout requests" ON public.payout_requests;
+CREATE POLICY "Users can view own payout requests" ON public.payout_requests
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view all payout requests" ON public.payout_requests;
+CREATE POLICY "Admins can view all payout requests" ON public.payout_requests
+  FOR SELECT USING (public.is_super_admin());
+
+-- ============================================================================
+-- REQUEST PAYOUT (player)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.request_payout(
+  p_user_id UUID,
+  p_amount DECIMAL,
+  p_min_amount DECIMAL DEFAULT 20,
+  p_payout_method TEXT DEFAULT NULL,
+  p_payout_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_wallet public.wallets;
+  v_request public.payout_requests;
+  v_tx_id UUID;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT', 'error', 'Amount must be greater than 0');
+  END IF;
+
+  IF p_amount < p_min_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'code', 'BELOW_MIN_PAYOUT',
+      'error', format('Minimum payout is $%s', to_char(p_min_amount, 'FM999999990.00')),
+      'min_payout', p_min_amount
+    );
+  END IF;
+
+  -- Serializes concurrent requests from the same player
+  SELECT * INTO v_wallet
+  FROM public.wallets
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.cheat_flags
+    WHERE user_id = p_user_id
+      AND status IN ('pending', 'investigating')
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'code', 'OPEN_CHEAT_FLAGS',
+      'error', 'Payouts are unavailable while your account is under review'
+    );
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payout_requests
+    WHERE user_id = p_user_id
+      AND status IN ('pending', 'approved')
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'code', 'PAYOUT_IN_PROGRESS',
+      'error', 'You already have a payout being processed'
+    );
+  END IF;
+
+  -- Pending finds live in pending_balance, so parked_balance is confirmed only
+  IF v_wallet.user_id IS NULL OR v_wallet.parked_balance < p_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'code', 'INSUFFICIENT_FUNDS',
+      'error', 'Only confirmed, parked coins can be paid out',
+      'parked', COALESCE(v_wallet.parked_balance, 0)
+    );
+  END IF;
+
+  INSERT INTO public.payout_requests (user_id, amount, payout_method, payout_details)
+  VALUES (p_user_id, ROUND(p_amount, 2), p_payout_method, COALESCE(p_payout_details, '{}'::jsonb))
+  RETURNING * INTO v_request;
+
+  INSERT INTO public.transactions (
+    user_id, transaction_type, amount, description, status, metadata
+  ) VALUES (
+    p_user_id,
+    'payout',
+    v_request.amount,
+    'Payout requested',
+    'pending',
+    jsonb_build_object('payout_request_id', v_request.id, 'payout_method', p_payout_method)
+  )
+  RETURNING id INTO v_tx_id;
+
+  UPDATE public.payout_requests
+  SET transaction_id = v_tx_id
+  WHERE id = v_request.id
+  RETURNING * INTO v_request;
+
+  INSERT INTO public.activity_logs (user_id, activity_type, severity, description, metadata)
+  VALUES (
+    p_user_id,
+    'payout_requested',
+    'info',
+    format('Payout of $%s requested', to_char(v_request.amount, 'FM999999990.00')),
+    jsonb_build_object('payout_request_id', v_request.id, 'amount', v_request.amount, 'transaction_id', v_tx_id)
+  );
+
+  SELECT * INTO v_wallet FROM public.wallets WHERE user_id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'payout', to_jsonb(v_request),
+    'wallet', to_jsonb(v_wallet)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- API only: request_payout trusts the user and minimum it is given
+REVOKE EXECUTE ON FUNCTION public.request_payout(UUID, DECIMAL, DECIMAL, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.request_payout(UUID, DECIMAL, DECIMAL, TEXT, JSONB) TO service_role;
+
+-- ============================================================================
+-- REVIEW PAYOUT (super admin)
+-- ============================================================================
+-- p_action: 'approve' | 'reject' | 'mark_paid'
+
+CREATE OR REPLACE FUNCTION public.review_payout(
+  p_payout_id UUID,
+  p_action TEXT,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_request public.payout_requests;
+  v_new_status TEXT;
+  v_now TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+  IF NOT public.is_super_admin(v_admin_id) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'FORBIDDEN', 'error', 'Only super admins can review payouts');
+  END IF;
+
+  SELECT * INTO v_request
+  FROM public.payout_requests
+  WHERE id = p_payout_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'code', 'NOT_FOUND', 'error', 'Payout request not found');
+  END IF;
+
+  v_new_status := CASE
+    WHEN p_action = 'approve' AND v_request.status = 'pending' THEN 'approved'
+    WHEN p_action = 'reject' AND v_request.status IN ('pending', 'approved') THEN 'rejected'
+    WHEN p_action = 'mark_paid' AND v_request.status = 'approved' THEN 'paid'
+  END;
+
+  IF v_new_status IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'code', 'INVALID_TRANSITION',
+      'error', format('Cannot %s a %s payout', replace(p_action, '_', ' '), v_request.status)
+    );
+  END IF;
+
+  -- Post the outcome on the held transaction; the status-change trigger
+  -- adds an adjustment row, which refunds rejected payouts to parked coins
+  IF v_new_status = 'rejected' THEN
+    UPDATE public.transactions
+    SET
+      status = 'cancelled',
+      description = 'Payout rejected',
+      metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('rejected_by', v_admin_id, 'review_notes', p_notes)
+    WHERE id = v_request.transaction_id;
+  ELSIF v_new_status = 'paid' THEN
+    UPDATE public.transactions
+    SET
+      status = 'confirmed',
+      confirmed_at = v_now,
+      description = 'Payout sent',
+      metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('paid_by', v_admin_id)
+    WHERE id = v_request.transaction_id;
+  END IF;
+
+  UPDATE public.payout_requests
+  SET
+    status = v_new_status,
+    reviewed_by = v_admin_id,
+    reviewed_at = v_now,
+    review_notes = COALESCE(p_notes, review_notes),
+    paid_at = CASE WHEN v_new_status = 'paid' THEN v_now ELSE paid_at END
+  WHERE id = p_payout_id
+  RETURNING * INTO v_request;
+
+  INSERT INTO public.activity_logs (user_id, activity_type, severity, description, metadata)
+  VALUES (
+    v_admin_id,
+    'admin_action',
+    CASE WHEN v_new_status = 'rejected' THEN 'warning' ELSE 'info' END,
+    format('Payout of $%s %s', to_char(v_request.amount, 'FM999999990.00'), CASE v_new_status
+      WHEN 'approved' THEN 'approved'
+      WHEN 'rejected' THEN 'rejected'
+      ELSE 'marked as paid'
+    END),
+    jsonb_build_object(
+      'action', 'payout_' || p_action,
+      'payout_request_id', v_request.id,
+      'player_id', v_request.user_id,
+      'amount', v_request.amount,
+      'transaction_id', v_request.transaction_id,
+      'notes', p_notes
+    )
+  );
+
+  RETURN jsonb_build_object('success', true, 'payout', to_jsonb(v_request));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE public.payout_requests IS 'Player payout requests reviewed by super admins';
+COMMENT ON FUNCTION public.request_payout IS 'Player payout request: checks minimum, parked coins and open flags, holds the amount';
+COMMENT ON FUNCTION public.review_payout IS 'Super admin approve / reject / mark paid for a payout request';
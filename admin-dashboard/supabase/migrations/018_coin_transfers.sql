@@ -0,0 +1,225 @@
+-- ============================================================================
+-- Migration: 018_coin_transfers.sql
+-- Purpose: Player-to-player transfers of parked BBG
+-- ============================================================================
+-- transfer_coins() moves parked coins between two players in one database
+-- transaction and writes a paired transfer_out / transfer_in, each pointing
+-- at the other player through related_user_id and sharing a transfer_id in
+-- metadata. The ledger trigger takes the amount from the sender's parked
+-- coins and parks it for the recipient.
+--
+-- Rules:
+-- - only parked (confirmed) coins can be sent
+-- - daily limits on amount and number of transfers sent
+-- - no transfers from or to banned / suspended accounts (player_actions)
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_transactions_related_user
+  ON public.transactions (related_user_id)
+  WHERE related_user_id IS NOT NULL;
+
+-- ============================================================================
+-- ACCOUNT RESTRICTION
+-- ============================================================================
+-- The latest suspend / ban / clear action decides the account state.
+-- Returns NULL when the account is in good standing, otherwise
+-- { action: 'banned' | 'suspended', reason, expires_at }.
+
+CREATE OR REPLACE FUNCTION public.get_account_restriction(p_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_action public.player_actions;
+  v_expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO v_action
+  FROM public.player_actions
+  WHERE user_id = p_user_id
+    AND action IN ('suspended', 'banned', 'cleared')
+  ORDER BY performed_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND OR v_action.action = 'cleared' THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_action.action = 'suspended' THEN
+    v_expires_at := COALESCE(
+      v_action.expires_at,
+      v_action.performed_at + make_interval(days => v_action.duration_days)
+    );
+
+    IF v_expires_at IS NOT NULL AND v_expires_at <= NOW() THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'action', v_action.action,
+    'reason', v_action.reason,
+    'expires_at', v_expires_at
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- TRANSFER COINS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.transfer_coins(
+  p_from_user_id UUID,
+  p_to_user_id UUID,
+  p_amount DECIMAL,
+  p_note TEXT DEFAULT NULL,
+  p_daily_amount_limit DECIMAL DEFAULT 100,
+  p_daily_count_limit INTEGER DEFAULT 10
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_amount DECIMAL(10, 2) := ROUND(p_amount, 2);
+  v_sender public.wallets;
+  v_sent_today DECIMAL(10, 2);
+  v_count_today INTEGER;
+  v_transfer_id UUID := uuid_generate_v4();
+  v_out_id UUID;
+  v_in_id UUID;
+BEGIN
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT', 'error', 'Amount must be greater than 0');
+  END IF;
+
+  IF p_from_user_id = p_to_user_id THEN
+    RETURN jsonb_build_object('success', false, 'code', 'SELF_TRANSFER', 'error', 'You cannot send coins to yourself');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_to_user_id) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'RECIPIENT_NOT_FOUND', 'error', 'Recipient not found');
+  END IF;
+
+  IF public.get_account_restriction(p_from_user_id) IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'code', 'ACCOUNT_RESTRICTED', 'error', 'Transfers are disabled for your account');
+  END IF;
+
+  IF public.get_account_restriction(p_to_user_id) IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'code', 'RECIPIENT_RESTRICTED', 'error', 'This player cannot receive transfers');
+  END IF;
+
+  -- Lock both wallets in a fixed order so opposite transfers can't deadlock
+  INSERT INTO public.wallets (user_id)
+  VALUES (p_from_user_id), (p_to_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  PERFORM 1
+  FROM public.wallets
+  WHERE user_id IN (p_from_user_id, p_to_user_id)
+  ORDER BY user_id
+  FOR UPDATE;
+
+  SELECT * INTO v_sender FROM public.wallets WHERE user_id = p_from_user_id;
+
+  -- Daily limits (UTC day, sender side)
+  SELECT COALESCE(SUM(amount), 0), COUNT(*)
+  INTO v_sent_today, v_count_today
+  FROM public.transactions
+  WHERE user_id = p_from_user_id
+    AND transaction_type = 'transfer_out'
+    AND status = 'confirmed'
+    AND created_at >= date_trunc('day', NOW());
+
+  IF v_count_today >= p_daily_count_limit THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'code', 'DAILY_LIMIT_EXCEEDED',
+      'error', format('You can send at most %s transfers per day', p_daily_count_limit),
+      'remaining_amount', GREATEST(p_daily_amount_limit - v_sent_today, 0),
+      'remaining_count', 0
+    );
+  END IF;
+
+  IF v_sent_today + v_amount > p_daily_amount_limit THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'code', 'DAILY_LIMIT_EXCEEDED',
+      'error', format('Daily transfer limit is $%s', to_char(p_daily_amount_limit, 'FM999999990.00')),
+      'remaining_amount', GREATEST(p_daily_amount_limit - v_sent_today, 0),
+      'remaining_count', p_daily_count_limit - v_count_today
+    );
+  END IF;
+
+  IF v_sender.parked_balance < v_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'code', 'INSUFFICIENT_FUNDS',
+      'error', 'Only parked coins can be transferred',
+      'parked', v_sender.parked_balance
+    );
+  END IF;
+
+  INSERT INTO public.transactions (
+    user_id, transaction_type, amount, related_user_id, description, status, confirmed_at, metadata
+  ) VALUES (
+    p_from_user_id,
+    'transfer_out',
+    v_amount,
+    p_to_user_id,
+    'Sent coins',
+    'confirmed',
+    NOW(),
+    jsonb_build_object('transfer_id', v_transfer_id, 'note', p_note)
+  )
+  RETURNING id INTO v_out_id;
+
+  INSERT INTO public.transactions (
+    user_id, transaction_type, amount, related_user_id, description, status, confirmed_at, metadata
+  ) VALUES (
+    p_to_user_id,
+    'transfer_in',
+    v_amount,
+    p_from_user_id,
+    'Received coins',
+    'confirmed',
+    NOW(),
+    jsonb_build_object('transfer_id', v_transfer_id, 'note', p_note, 'transfer_out_id', v_out_id)
+  )
+  RETURNING id INTO v_in_id;
+
+  UPDATE public.transactions
+  SET metadata = metadata || jsonb_build_object('transfer_in_id', v_in_id)
+  WHERE id = v_out_id;
+
+  INSERT INTO public.activity_logs (user_id, activity_type, severity, description, metadata)
+  VALUES (
+    p_from_user_id,
+    'transaction_created',
+    'info',
+    format('Transferred $%s to another player', to_char(v_amount, 'FM999999990.00')),
+    jsonb_build_object(
+      'transfer_id', v_transfer_id,
+      'to_user_id', p_to_user_id,
+      'amount', v_amount,
+      'transfer_out_id', v_out_id,
+      'transfer_in_id', v_in_id
+    )
+  );
+
+  SELECT * INTO v_sender FROM public.wallets WHERE user_id = p_from_user_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transfer_id', v_transfer_id,
+    'amount', v_amount,
+    'transaction_id', v_out_id,
+    'wallet', to_jsonb(v_sender)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- API only: transfer_coins trusts the sender and limits it is given
+REVOKE EXECUTE ON FUNCTION public.transfer_coins(UUID, UUID, DECIMAL, TEXT, DECIMAL, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.transfer_coins(UUID, UUID, DECIMAL, TEXT, DECIMAL, INTEGER) TO service_role;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON FUNCTION public.get_account_restriction IS 'Active ban/suspension for a player from player_actions, or NULL';
+COMMENT ON FUNCTION public.transfer_coins IS 'Atomic player-to-player transfer of parked coins with daily limits';
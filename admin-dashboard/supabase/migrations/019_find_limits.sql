@@ -0,0 +1,247 @@
+-- ============================================================================
+-- Migration: 019_find_limits.sql
+-- Purpose: Per-player find limit and daily find cap
+-- ============================================================================
+-- A player can only collect coins worth up to their find limit. The limit
+-- starts at the default ($1.00) and grows with the total value the player
+-- has paid to hide: confirmed 'hidden' transactions, posted by hide_coin()
+-- (migration 014). Coins don't stop counting once found, so the limit never
+-- goes down.
+--
+-- On top of that, each player can collect at most N coins per UTC day.
+-- Cancelled / failed finds don't count towards the daily cap.
+--
+-- collect_coin() takes the starting find limit and daily cap from the API
+-- (game settings) and checks both after locking the coin, under a per-player
+-- advisory lock, so a player's collects are counted one at a time.
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_coins_hider ON public.coins(hider_id) WHERE hider_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_user_type ON public.transactions(user_id, transaction_type);
+
+CREATE OR REPLACE FUNCTION public.get_find_limit_status(
+  p_user_id UUID,
+  p_default_limit DECIMAL DEFAULT 1,
+  p_max_daily_finds INTEGER DEFAULT 10
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_total_hidden DECIMAL(10, 2);
+  v_finds_today INTEGER;
+BEGIN
+  -- Only hides that were paid for count: a coin row alone proves nothing
+  SELECT COALESCE(SUM(amount), 0) INTO v_total_hidden
+  FROM public.transactions
+  WHERE user_id = p_user_id
+    AND transaction_type = 'hidden'
+    AND status = 'confirmed';
+
+  SELECT COUNT(*) INTO v_finds_today
+  FROM public.transactions
+  WHERE user_id = p_user_id
+    AND transaction_type = 'found'
+    AND status NOT IN ('failed', 'cancelled')
+    AND created_at >= date_trunc('day', NOW());
+
+  RETURN jsonb_build_object(
+    'find_limit', GREATEST(p_default_limit, v_total_hidden),
+    'total_hidden', v_total_hidden,
+    'finds_today', v_finds_today,
+    'max_daily_finds', p_max_daily_finds,
+    'daily_limit_reached', v_finds_today >= p_max_daily_finds
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- API only: any player's limits would otherwise be readable by anyone
+REVOKE EXECUTE ON FUNCTION public.get_find_limit_status(UUID, DECIMAL, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_find_limit_status(UUID, DECIMAL, INTEGER) TO service_role;
+
+-- ============================================================================
+-- COLLECT COIN (replaces 016)
+-- ============================================================================
+-- Same as 016 plus the find limit and daily cap. OVER_FIND_LIMIT /
+-- DAILY_FIND_LIMIT_REACHED come back like any other collect_coin() failure.
+
+-- New parameters change the signature: drop the 016 version so the API
+-- can only call the checked one
+DROP FUNCTION IF EXISTS public.collect_coin(UUID, UUID, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DECIMAL);
+
+CREATE OR REPLACE FUNCTION public.collect_coin(
+  p_coin_id UUID,
+  p_user_id UUID DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_range_meters DOUBLE PRECISION DEFAULT 5,
+  p_pool_multiplier DECIMAL DEFAULT 1,
+  p_default_find_limit DECIMAL DEFAULT 1,
+  p_max_daily_finds INTEGER DEFAULT 10
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_coin public.coins;
+  v_value DECIMAL(10, 2);
+  v_distance DOUBLE PRECISION;
+  v_finds_remaining INTEGER;
+  v_fully_consumed BOOLEAN;
+  v_balance DECIMAL(10, 2);
+  v_tx_id UUID;
+  v_limits JSONB;
+  v_find_limit DECIMAL(10, 2);
+  v_hide_to_unlock DECIMAL(10, 2);
+  v_now TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+  -- Lock the coin row: concurrent collectors queue up here
+  SELECT * INTO v_coin
+  FROM public.coins
+  WHERE id = p_coin_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'code', 'NOT_FOUND', 'error', 'Coin not found');
+  END IF;
+
+  IF v_coin.status = 'collected' OR COALESCE(v_coin.finds_remaining, 1) <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'code', 'ALREADY_COLLECTED', 'error', 'Coin has already been collected');
+  END IF;
+
+  IF v_coin.status IN ('expired', 'recycled') THEN
+    RETURN jsonb_build_object('success', false, 'code', 'COIN_EXPIRED', 'error', 'Coin is no longer available');
+  END IF;
+
+  -- Same player can't collect a multi-find coin twice
+  IF p_user_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.transactions
+    WHERE coin_id = p_coin_id
+      AND user_id = p_user_id
+      AND transaction_type = 'found'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'ALREADY_COLLECTED', 'error', 'You have already collected this coin');
+  END IF;
+
+  -- Find limit + daily cap, counted while this player's other collects
+  -- wait on the lock so parallel taps can't all slip under the cap
+  IF p_user_id IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext(p_user_id::TEXT));
+
+    v_limits := public.get_find_limit_status(p_user_id, p_default_find_limit, p_max_daily_finds);
+
+    IF (v_limits->>'daily_limit_reached')::BOOLEAN THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'code', 'DAILY_FIND_LIMIT_REACHED',
+        'error', format('You''ve reached today''s limit of %s finds. Come back tomorrow, partner!', p_max_daily_finds),
+        'finds_today', (v_limits->>'finds_today')::INTEGER,
+        'max_daily_finds', p_max_daily_finds
+      );
+    END IF;
+
+    v_find_limit := (v_limits->>'find_limit')::DECIMAL;
+    IF v_coin.value > v_find_limit THEN
+      v_hide_to_unlock := v_coin.value - (v_limits->>'total_hidden')::DECIMAL;
+      RETURN jsonb_build_object(
+        'success', false,
+        'code', 'OVER_FIND_LIMIT',
+        'error', 'Sorry, this coin is above your limit',
+        'find_limit', v_find_limit,
+        'coin_value', v_coin.value,
+        'hide_to_unlock', v_hide_to_unlock,
+        'hint', format('Hide $%s more to unlock this coin', to_char(v_hide_to_unlock, 'FM999999990.00'))
+      );
+    END IF;
+  END IF;
+
+  -- Distance check (Haversine) when the client sent its position
+  IF p_latitude IS NOT NULL AND p_longitude IS NOT NULL THEN
+    v_distance := 2 * 6371000 * ASIN(SQRT(
+      POWER(SIN(RADIANS(v_coin.latitude - p_latitude) / 2), 2) +
+      COS(RADIANS(p_latitude)) * COS(RADIANS(v_coin.latitude)) *
+      POWER(SIN(RADIANS(v_coin.longitude - p_longitude) / 2), 2)
+    ));
+
+    IF v_distance > p_range_meters THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'code', 'TOO_FAR',
+        'error', format('Too far from coin. You are %sm away, need to be within %sm', ROUND(v_distance::NUMERIC), p_range_meters),
+        'distance', ROUND(v_distance::NUMERIC),
+        'required', p_range_meters
+      );
+    END IF;
+  END IF;
+
+  -- Final value: pool coins use the multiplier rolled by the API
+  IF v_coin.coin_type = 'pool' THEN
+    v_value := ROUND(v_coin.value * p_pool_multiplier, 2);
+  ELSE
+    v_value := v_coin.value;
+  END IF;
+
+  v_finds_remaining := CASE
+    WHEN v_coin.multi_find THEN GREATEST(0, COALESCE(v_coin.finds_remaining, 1) - 1)
+    ELSE 0
+  END;
+  v_fully_consumed := v_finds_remaining = 0;
+
+  UPDATE public.coins
+  SET
+    status = CASE WHEN v_fully_consumed THEN 'collected' ELSE 'visible' END,
+    collected_at = v_now,
+    collected_by = p_user_id,
+    finds_remaining = v_finds_remaining,
+    updated_at = v_now
+  WHERE id = p_coin_id
+  RETURNING * INTO v_coin;
+
+  -- Record the find as pending (anonymous collections have no ledger).
+  -- confirm_pending_finds() promotes it after the verification window.
+  IF p_user_id IS NOT NULL THEN
+    INSERT INTO public.transactions (
+      user_id,
+      transaction_type,
+      amount,
+      coin_id,
+      description,
+      status,
+      metadata
+    ) VALUES (
+      p_user_id,
+      'found',
+      v_value,
+      p_coin_id,
+      format('Found %scoin: $%s', CASE WHEN v_coin.multi_find THEN 'multi-find ' ELSE '' END, to_char(v_value, 'FM999999990.00')),
+      'pending',
+      jsonb_build_object(
+        'coin_type', v_coin.coin_type,
+        'original_value', v_coin.value,
+        'tier', v_coin.tier,
+        'multi_find', v_coin.multi_find,
+        'finds_remaining', v_finds_remaining,
+        'location', jsonb_build_object('lat', v_coin.latitude, 'lng', v_coin.longitude)
+      )
+    )
+    RETURNING id, balance_after INTO v_tx_id, v_balance;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'coin', to_jsonb(v_coin),
+    'value', v_value,
+    'original_value', v_coin.value,
+    'finds_remaining', v_finds_remaining,
+    'fully_collected', v_fully_consumed,
+    'transaction_id', v_tx_id,
+    'transaction_status', CASE WHEN v_tx_id IS NULL THEN NULL ELSE 'pending' END,
+    'balance_after', v_balance
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- API only: collect_coin trusts the user, range, multiplier and limits it is given
+REVOKE EXECUTE ON FUNCTION public.collect_coin(UUID, UUID, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DECIMAL, DECIMAL, INTEGER)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.collect_coin(UUID, UUID, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DECIMAL, DECIMAL, INTEGER)
+  TO service_role;
+
+COMMENT ON FUNCTION public.get_find_limit_status IS 'Find limit (max coin value, from confirmed hidden debits) and finds today vs the daily cap';
+COMMENT ON FUNCTION public.collect_coin IS 'Atomically collect a coin: row lock, find limit and daily cap, finds_remaining decrement, pending found transaction';
@@ -0,0 +1,191 @@
+-- ============================================================================
+-- Migration: 020_game_settings.sql
+-- Purpose: Global game settings (Settings → Game Configuration)
+-- ============================================================================
+-- One row (id = 1) holding the tunables the API routes used to hardcode:
+-- collection range, nearby search radius, find limits, gas fee, payouts...
+-- Read server-side through getGameSettings() (src/lib/game-settings-server.ts)
+-- and saved by super admins through update_game_settings(), which validates
+-- via the CHECK constraints and writes an activity_logs audit entry with the
+-- changed fields.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.game_settings (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+
+  -- Coins
+  default_coin_value DECIMAL(10, 2) NOT NULL DEFAULT 5.00 CHECK (default_coin_value > 0 AND default_coin_value <= 1000),
+  coin_expiry_days INTEGER NOT NULL DEFAULT 30 CHECK (coin_expiry_days BETWEEN 1 AND 365),
+
+  -- Collecting
+  collection_radius_meters DOUBLE PRECISION NOT NULL DEFAULT 5 CHECK (collection_radius_meters BETWEEN 1 AND 500),
+  nearby_radius_meters DOUBLE PRECISION NOT NULL DEFAULT 500 CHECK (nearby_radius_meters BETWEEN 50 AND 5000),
+  max_nearby_radius_meters DOUBLE PRECISION NOT NULL DEFAULT 5000 CHECK (max_nearby_radius_meters BETWEEN 100 AND 50000),
+  max_daily_finds INTEGER NOT NULL DEFAULT 10 CHECK (max_daily_finds BETWEEN 1 AND 100),
+  default_find_limit DECIMAL(10, 2) NOT NULL DEFAULT 1.00 CHECK (default_find_limit > 0),
+
+  -- Economy
+  gas_fee_percent DECIMAL(5, 2) NOT NULL DEFAULT 10 CHECK (gas_fee_percent BETWEEN 0 AND 50),
+  gas_daily_fee DECIMAL(10, 2) NOT NULL DEFAULT 0.33 CHECK (gas_daily_fee > 0 AND gas_daily_fee <= 10),
+  min_payout DECIMAL(10, 2) NOT NULL DEFAULT 20.00 CHECK (min_payout > 0),
+
+  -- Audit
+  updated_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT game_settings_nearby_within_max CHECK (nearby_radius_meters <= max_nearby_radius_meters)
+);
+
+INSERT INTO public.game_settings (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+DROP TRIGGER IF EXISTS game_settings_updated_at ON public.game_settings;
+CREATE TRIGGER game_settings_updated_at
+  BEFORE UPDATE ON public.game_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================================================
+-- RLS
+-- ============================================================================
+-- Admins read the row directly; writes go through update_game_settings().
+
+ALTER TABLE public.game_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view game settings" ON public.game_settings;
+CREATE POLICY "Admins can view game settings" ON public.game_settings
+  FOR SELECT USING (public.is_super_admin());
+
+-- ============================================================================
+-- UPDATE GAME SETTINGS (super admin)
+-- ============================================================================
+-- p_settings holds only the fields to change, e.g. { "max_daily_finds": 15 }.
+-- Unknown keys are ignored. Values that break a CHECK constraint fail the
+-- whole update with INVALID_SETTINGS.
+
+CREATE OR REPLACE FUNCTION public.update_game_settings(p_settings JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_before public.game_settings;
+  v_after public.game_settings;
+  v_changes JSONB := '{}'::jsonb;
+  v_key TEXT;
+BEGIN
+  IF NOT public.is_super_admin(v_admin_id) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'FORBIDDEN', 'error', 'Only super admins can change game settings');
+  END IF;
+
+  SELECT * INTO v_before FROM public.game_settings WHERE id = 1 FOR UPDATE;
+
+  BEGIN
+    UPDATE public.game_settings
+    SET
+      default_coin_value = COALESCE((p_settings->>'default_coin_value')::DECIMAL, default_coin_value),
+      coin_expiry_days = COALESCE((p_settings->>'coin_expiry_days')::INTEGER, coin_expiry_days),
+      collection_radius_meters = COALESCE((p_settings->>'collection_radius_meters')::DOUBLE PRECISION, collection_radius_meters),
+      nearby_radius_meters = COALESCE((p_settings->>'nearby_radius_meters')::DOUBLE PRECISION, nearby_radius_meters),
+      max_nearby_radius_meters = COALESCE((p_settings->>'max_nearby_radius_meters')::DOUBLE PRECISION, max_nearby_radius_meters),
+      max_daily_finds = COALESCE((p_settings->>'max_daily_finds')::INTEGER, max_daily_finds),
+      default_find_limit = COALESCE((p_settings->>'default_find_limit')::DECIMAL, default_find_limit),
+      gas_fee_percent = COALESCE((p_settings->>'gas_fee_percent')::DECIMAL, gas_fee_percent),
+      gas_daily_fee = COALESCE((p_settings->>'gas_daily_fee')::DECIMAL, gas_daily_fee),
+      min_payout = COALESCE((p_settings->>'min_payout')::DECIMAL, min_payout),
+      updated_by = v_admin_id
+    WHERE id = 1
+    RETURNING * INTO v_after;
+  EXCEPTION WHEN check_violation OR invalid_text_representation OR numeric_value_out_of_range THEN
+    RETURN jsonb_build_object('success', false, 'code', 'INVALID_SETTINGS', 'error', SQLERRM);
+  END;
+
+  -- Field-by-field diff for the audit entry
+  FOR v_key IN SELECT jsonb_object_keys(to_jsonb(v_after)) LOOP
+    IF v_key NOT IN ('id', 'updated_by', 'created_at', 'updated_at')
+      AND to_jsonb(v_before)->v_key IS DISTINCT FROM to_jsonb(v_after)->v_key THEN
+      v_changes := v_changes || jsonb_build_object(
+        v_key, jsonb_build_object('from', to_jsonb(v_before)->v_key, 'to', to_jsonb(v_after)->v_key)
+      );
+    END IF;
+  END LOOP;
+
+  IF v_changes <> '{}'::jsonb THEN
+    INSERT INTO public.activity_logs (user_id, activity_type, severity, description, metadata)
+    VALUES (
+      v_admin_id,
+      'admin_action',
+      'info',
+      format('Game settings updated (%s)', (SELECT string_agg(k, ', ') FROM jsonb_object_keys(v_changes) k)),
+      jsonb_build_object('action', 'game_settings_updated', 'changes', v_changes)
+    );
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'settings', to_jsonb(v_after), 'changes', v_changes);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- DAILY GAS JOB (replaces 015)
+-- ============================================================================
+-- Same as 015 but the fee defaults to game_settings.gas_daily_fee so the cron
+-- job follows the Settings page.
+
+CREATE OR REPLACE FUNCTION public.consume_daily_gas(
+  p_daily_fee DECIMAL DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_wallet RECORD;
+  v_daily_fee DECIMAL(10, 2);
+  v_fee DECIMAL(10, 2);
+  v_charged INTEGER := 0;
+BEGIN
+  v_daily_fee := COALESCE(
+    p_daily_fee,
+    (SELECT gas_daily_fee FROM public.game_settings WHERE id = 1),
+    0.33
+  );
+
+  IF v_daily_fee <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_wallet IN
+    SELECT user_id, gas_balance
+    FROM public.wallets
+    WHERE gas_balance > 0
+      AND (last_gas_charged_on IS NULL OR last_gas_charged_on < CURRENT_DATE)
+  LOOP
+    BEGIN
+      v_fee := LEAST(ROUND(v_daily_fee, 2), v_wallet.gas_balance);
+
+      INSERT INTO public.transactions (
+        user_id, transaction_type, amount, description, status, confirmed_at, metadata
+      ) VALUES (
+        v_wallet.user_id,
+        'gas_consumed',
+        v_fee,
+        'Daily gas',
+        'confirmed',
+        NOW(),
+        jsonb_build_object('reason', 'daily', 'charged_on', CURRENT_DATE)
+      );
+
+      UPDATE public.wallets
+      SET last_gas_charged_on = CURRENT_DATE
+      WHERE user_id = v_wallet.user_id;
+
+      v_charged := v_charged + 1;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Daily gas for % failed: %', v_wallet.user_id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN v_charged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE public.game_settings IS 'Single-row global game configuration (Settings → Game Configuration)';
+COMMENT ON FUNCTION public.update_game_settings IS 'Super admin: validate and save game settings, logging the changed fields';
@@ -0,0 +1,268 @@
+-- ============================================================================
+-- Migration: 021_settings_history.sql
+-- Purpose: Versioned history for economy settings, with rollback
+-- ============================================================================
+-- Every change to game_settings (020), distribution_config (004) and the
+-- sponsor zone fees is captured as an immutable row in settings_versions by an
+-- AFTER INSERT/UPDATE trigger, with author and timestamp. Settings → History
+-- diffs any two versions; rollback_settings() re-applies an old version, which
+-- (through the same trigger) creates a new version and logs an admin_action.
+--
+-- The sponsor zone fees get a single-row table, edited in Settings → Sponsor
+-- Zone Fees and read by the sponsor dialogs that quote them, so they can be
+-- versioned like the rest. DEFAULT_SPONSOR_ZONE_FEES
+-- (src/components/maps/sponsor-config.ts) is only the fallback.
+-- ============================================================================
+
+-- ============================================================================
+-- SPONSOR ZONE FEE CONFIG
+-- ============================================================================
+-- Mirrors the SponsorZoneFeeConfig type. Defaults match DEFAULT_SPONSOR_ZONE_FEES.
+
+CREATE TABLE IF NOT EXISTS public.sponsor_zone_fee_config (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+
+  -- Base fees
+  zone_creation_fee DECIMAL(10, 2) NOT NULL DEFAULT 99.00 CHECK (zone_creation_fee >= 0),
+  monthly_maintenance_fee DECIMAL(10, 2) NOT NULL DEFAULT 49.00 CHECK (monthly_maintenance_fee >= 0),
+
+  -- Coin placement fees
+  coin_placement_fee_per_coin DECIMAL(10, 2) NOT NULL DEFAULT 0.25 CHECK (coin_placement_fee_per_coin >= 0),
+  bulk_placement_discount_percentage DECIMAL(5, 2) NOT NULL DEFAULT 10 CHECK (bulk_placement_discount_percentage BETWEEN 0 AND 100),
+
+  -- Performance-based fees
+  collection_fee_percentage DECIMAL(5, 2) NOT NULL DEFAULT 5 CHECK (collection_fee_percentage BETWEEN 0 AND 100),
+
+  -- Minimums
+  minimum_zone_size_km2 DECIMAL(10, 3) NOT NULL DEFAULT 0.1 CHECK (minimum_zone_size_km2 >= 0),
+  minimum_coins_per_zone INTEGER NOT NULL DEFAULT 10 CHECK (minimum_coins_per_zone >= 0),
+  minimum_monthly_spend DECIMAL(10, 2) NOT NULL DEFAULT 100.00 CHECK (minimum_monthly_spend >= 0),
+
+  -- Audit
+  updated_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS sponsor_zone_fee_config_updated_at ON public.sponsor_zone_fee_config;
+CREATE TRIGGER sponsor_zone_fee_config_updated_at
+  BEFORE UPDATE ON public.sponsor_zone_fee_config
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.sponsor_zone_fee_config ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage sponsor zone fees" ON public.sponsor_zone_fee_config;
+CREATE POLICY "Admins can manage sponsor zone fees" ON public.sponsor_zone_fee_config
+  FOR ALL USING (public.is_super_admin());
+
+-- ============================================================================
+-- SETTINGS VERSIONS
+-- ============================================================================
+-- setting_key: 'game_settings' | 'distribution_config' | 'sponsor_zone_fees'
+-- settings holds the full row (minus id / audit columns) as of that version.
+
+CREATE TABLE IF NOT EXISTS public.settings_versions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  setting_key TEXT NOT NULL CHECK (setting_key IN ('game_settings', 'distribution_config', 'sponsor_zone_fees')),
+  version INTEGER NOT NULL,
+  settings JSONB NOT NULL,
+  changed_by UUID REFERENCES public.profiles(id),
+  rolled_back_from UUID REFERENCES public.settings_versions(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE (setting_key, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_settings_versions_key
+  ON public.settings_versions(setting_key, version DESC);
+
+ALTER TABLE public.settings_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view settings versions" ON public.settings_versions;
+CREATE POLICY "Admins can view settings versions" ON public.settings_versions
+  FOR SELECT USING (public.is_super_admin());
+
+-- Versions are immutable, even for the service role
+CREATE OR REPLACE FUNCTION public.prevent_settings_version_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'settings_versions rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS settings_versions_immutable ON public.settings_versions;
+CREATE TRIGGER settings_versions_immutable
+  BEFORE UPDATE OR DELETE ON public.settings_versions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_settings_version_change();
+
+-- ============================================================================
+-- RECORD A VERSION (trigger)
+-- ============================================================================
+-- TG_ARGV[0] is the setting_key. Saves that don't change any value (e.g.
+-- "Save Configuration" with nothing edited) don't create a version.
+-- rollback_settings() sets app.settings_rollback_of so the new version points
+-- back at the version it restored.
+
+CREATE OR REPLACE FUNCTION public.record_settings_version()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_key TEXT := TG_ARGV[0];
+  v_settings JSONB;
+  v_latest public.settings_versions;
+  v_rollback_of TEXT;
+BEGIN
+  v_settings := to_jsonb(NEW) - 'id' - 'updated_by' - 'created_at' - 'updated_at';
+
+  SELECT * INTO v_latest
+  FROM public.settings_versions
+  WHERE setting_key = v_key
+  ORDER BY version DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_latest.id IS NOT NULL AND v_latest.settings = v_settings THEN
+    RETURN NEW;
+  END IF;
+
+  v_rollback_of := NULLIF(current_setting('app.settings_rollback_of', true), '');
+
+  INSERT INTO public.settings_versions (setting_key, version, settings, changed_by, rolled_back_from)
+  VALUES (
+    v_key,
+    COALESCE(v_latest.version, 0) + 1,
+    v_settings,
+    COALESCE(auth.uid(), NEW.updated_by),
+    v_rollback_of::UUID
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS game_settings_versioned ON public.game_settings;
+CREATE TRIGGER game_settings_versioned
+  AFTER INSERT OR UPDATE ON public.game_settings
+  FOR EACH ROW EXECUTE FUNCTION public.record_settings_version('game_settings');
+
+DROP TRIGGER IF EXISTS distribution_config_versioned ON public.distribution_config;
+CREATE TRIGGER distribution_config_versioned
+  AFTER INSERT OR UPDATE ON public.distribution_config
+  FOR EACH ROW EXECUTE FUNCTION public.record_settings_version('distribution_config');
+
+DROP TRIGGER IF EXISTS sponsor_zone_fee_config_versioned ON public.sponsor_zone_fee_config;
+CREATE TRIGGER sponsor_zone_fee_config_versioned
+  AFTER INSERT OR UPDATE ON public.sponsor_zone_fee_config
+  FOR EACH ROW EXECUTE FUNCTION public.record_settings_version('sponsor_zone_fees');
+
+-- Seed: the fee row (version 1 via the trigger) and version 1 of the
+-- existing rows
+INSERT INTO public.sponsor_zone_fee_config (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.settings_versions (setting_key, version, settings, changed_by)
+SELECT 'game_settings', 1, to_jsonb(g) - 'id' - 'updated_by' - 'created_at' - 'updated_at', g.updated_by
+FROM public.game_settings g
+WHERE NOT EXISTS (SELECT 1 FROM public.settings_versions WHERE setting_key = 'game_settings');
+
+INSERT INTO public.settings_versions (setting_key, version, settings, changed_by)
+SELECT 'distribution_config', 1, to_jsonb(d) - 'id' - 'updated_by' - 'created_at' - 'updated_at', d.updated_by
+FROM (SELECT * FROM public.distribution_config LIMIT 1) d
+WHERE NOT EXISTS (SELECT 1 FROM public.settings_versions WHERE setting_key = 'distribution_config');
+
+-- ============================================================================
+-- ROLLBACK (super admin)
+-- ============================================================================
+-- Re-applies the values of p_version. The update goes through the versioning
+-- trigger, so history only ever grows: the restored values become the newest
+-- version, with rolled_back_from pointing at p_version.
+
+CREATE OR REPLACE FUNCTION public.rollback_settings(
+  p_setting_key TEXT,
+  p_version INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_target public.settings_versions;
+  v_new public.settings_versions;
+  v_table TEXT;
+  v_columns TEXT;
+BEGIN
+  IF NOT public.is_super_admin(v_admin_id) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'FORBIDDEN', 'error', 'Only super admins can roll back settings');
+  END IF;
+
+  v_table := CASE p_setting_key
+    WHEN 'game_settings' THEN 'game_settings'
+    WHEN 'distribution_config' THEN 'distribution_config'
+    WHEN 'sponsor_zone_fees' THEN 'sponsor_zone_fee_config'
+  END;
+
+  IF v_table IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'code', 'INVALID_SETTING', 'error', 'Unknown setting');
+  END IF;
+
+  SELECT * INTO v_target
+  FROM public.settings_versions
+  WHERE setting_key = p_setting_key AND version = p_version;
+
+  IF v_target.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'code', 'NOT_FOUND', 'error', 'Version not found');
+  END IF;
+
+  -- Only columns that still exist on the table are restored
+  SELECT string_agg(format('%I = r.%I', c.column_name, c.column_name), ', ')
+  INTO v_columns
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+    AND c.table_name = v_table
+    AND v_target.settings ? c.column_name;
+
+  PERFORM set_config('app.settings_rollback_of', v_target.id::TEXT, true);
+
+  BEGIN
+    EXECUTE format(
+      'UPDATE public.%I t SET %s, updated_by = $2 FROM jsonb_populate_record(NULL::public.%I, $1) r',
+      v_table, v_columns, v_table
+    ) USING v_target.settings, v_admin_id;
+  EXCEPTION WHEN check_violation OR invalid_text_representation OR numeric_value_out_of_range THEN
+    PERFORM set_config('app.settings_rollback_of', '', true);
+    RETURN jsonb_build_object('success', false, 'code', 'INVALID_SETTINGS', 'error', SQLERRM);
+  END;
+
+  PERFORM set_config('app.settings_rollback_of', '', true);
+
+  SELECT * INTO v_new
+  FROM public.settings_versions
+  WHERE setting_key = p_setting_key
+  ORDER BY version DESC
+  LIMIT 1;
+
+  IF v_new.rolled_back_from IS DISTINCT FROM v_target.id THEN
+    RETURN jsonb_build_object('success', false, 'code', 'NO_CHANGES', 'error', 'Current settings already match this version');
+  END IF;
+
+  INSERT INTO public.activity_logs (user_id, activity_type, severity, description, metadata)
+  VALUES (
+    v_admin_id,
+    'admin_action',
+    'warning',
+    format('Rolled back %s to version %s (now version %s)', p_setting_key, p_version, v_new.version),
+    jsonb_build_object(
+      'action', 'settings_rolled_back',
+      'setting_key', p_setting_key,
+      'restored_version', p_version,
+      'new_version', v_new.version
+    )
+  );
+
+  RETURN jsonb_build_object('success', true, 'version', to_jsonb(v_new));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE public.sponsor_zone_fee_config IS 'Single-row sponsor zone fee configuration (SponsorZoneFeeConfig)';
+COMMENT ON TABLE public.settings_versions IS 'Immutable version history of game settings, distribution config and sponsor zone fees';
+COMMENT ON FUNCTION public.rollback_settings IS 'Super admin: restore a settings version as a new version, logging an admin_action';
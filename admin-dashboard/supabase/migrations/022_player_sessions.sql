@@ -0,0 +1,145 @@
+-- ============================================================================
+-- Migration: 022_player_sessions.sql
+-- Purpose: Per-device session registry with remote sign-out
+-- ============================================================================
+-- One row per Supabase auth session (the session_id claim of the access
+-- token). Written by the API on /auth/login and on every /player/location
+-- update, so each row knows the device, app version and when it was last
+-- seen. Admins can sign out one device or every device from the Users page;
+-- that deletes the auth session, so its refresh token stops working and
+-- /auth/me, /auth/refresh and the bearer-authenticated routes reject it.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.player_sessions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  auth_session_id UUID NOT NULL,       -- auth.sessions.id (JWT session_id claim)
+
+  -- Device info (from /player/location; login only knows the user agent)
+  device_id TEXT,
+  device_model TEXT,
+  app_version TEXT,
+  ip_address TEXT,
+  user_agent TEXT,
+
+  -- Lifecycle
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  signed_out_at TIMESTAMP WITH TIME ZONE,
+  signed_out_by UUID REFERENCES public.profiles(id),   -- NULL when the player logged out
+
+  UNIQUE (user_id, auth_session_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_sessions_user
+  ON public.player_sessions(user_id, last_seen_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_player_sessions_active
+  ON public.player_sessions(last_seen_at DESC)
+  WHERE signed_out_at IS NULL;
+
+-- ============================================================================
+-- RLS
+-- ============================================================================
+-- Writes come from the API (service role) and the functions below.
+
+ALTER TABLE public.player_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own sessions" ON public.player_sessions;
+CREATE POLICY "Users can view own sessions" ON public.player_sessions
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view all sessions" ON public.player_sessions;
+CREATE POLICY "Admins can view all sessions" ON public.player_sessions
+  FOR SELECT USING (public.is_super_admin());
+
+-- ============================================================================
+-- SIGN OUT (super admin)
+-- ============================================================================
+-- p_session_id = one player_sessions row ("sign out this device");
+-- sign_out_player_everywhere() ends every open session of a player.
+
+CREATE OR REPLACE FUNCTION public.sign_out_player_session(p_session_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_session public.player_sessions;
+BEGIN
+  IF NOT public.is_super_admin(v_admin_id) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'FORBIDDEN', 'error', 'Only super admins can sign out players');
+  END IF;
+
+  SELECT * INTO v_session FROM public.player_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF v_session.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'code', 'NOT_FOUND', 'error', 'Session not found');
+  END IF;
+
+  IF v_session.signed_out_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'code', 'ALREADY_SIGNED_OUT', 'error', 'Session already signed out');
+  END IF;
+
+  -- Deleting the auth session revokes its refresh tokens (FK cascade)
+  DELETE FROM auth.sessions WHERE id = v_session.auth_session_id;
+
+  UPDATE public.player_sessions
+  SET signed_out_at = NOW(), signed_out_by = v_admin_id
+  WHERE id = p_session_id;
+
+  INSERT INTO public.activity_logs (user_id, activity_type, severity, description, metadata)
+  VALUES (
+    v_admin_id,
+    'admin_action',
+    'warning',
+    format('Signed out a device of player %s (%s)', v_session.user_id, COALESCE(v_session.device_model, 'unknown device')),
+    jsonb_build_object(
+      'action', 'session_signed_out',
+      'target_user_id', v_session.user_id,
+      'session_id', v_session.id,
+      'device_id', v_session.device_id
+    )
+  );
+
+  RETURN jsonb_build_object('success', true, 'signed_out', 1);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.sign_out_player_everywhere(p_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_count INTEGER;
+BEGIN
+  IF NOT public.is_super_admin(v_admin_id) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'FORBIDDEN', 'error', 'Only super admins can sign out players');
+  END IF;
+
+  -- Every auth session, including ones the registry hasn't seen yet
+  DELETE FROM auth.sessions WHERE user_id = p_user_id;
+
+  UPDATE public.player_sessions
+  SET signed_out_at = NOW(), signed_out_by = v_admin_id
+  WHERE user_id = p_user_id AND signed_out_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  INSERT INTO public.activity_logs (user_id, activity_type, severity, description, metadata)
+  VALUES (
+    v_admin_id,
+    'admin_action',
+    'warning',
+    format('Signed out player %s everywhere (%s sessions)', p_user_id, v_count),
+    jsonb_build_object('action', 'sessions_signed_out', 'target_user_id', p_user_id, 'count', v_count)
+  );
+
+  RETURN jsonb_build_object('success', true, 'signed_out', v_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE public.player_sessions IS 'Per-device auth sessions, updated on login and location updates';
+COMMENT ON FUNCTION public.sign_out_player_session IS 'Super admin: revoke one player session (device)';
+COMMENT ON FUNCTION public.sign_out_player_everywhere IS 'Super admin: revoke every session of a player';
@@ -0,0 +1,70 @@
+-- ============================================================================
+-- Migration: 023_account_enforcement.sql
+-- Purpose: Suspensions always end
+-- ============================================================================
+-- The mobile API refuses play for accounts that get_account_restriction()
+-- (migration 018) reports as suspended or banned. A suspension without
+-- duration_days or expires_at never expired, so every suspension now gets
+-- an expires_at when it is recorded (default 7 days). Once it passes,
+-- get_account_restriction() returns NULL again and the player can play -
+-- nothing has to run to lift it.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.set_suspension_expiry()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.action = 'suspended' AND NEW.expires_at IS NULL THEN
+    NEW.duration_days := COALESCE(NEW.duration_days, 7);
+    NEW.expires_at := COALESCE(NEW.performed_at, NOW()) + make_interval(days => NEW.duration_days);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS player_actions_suspension_expiry ON public.player_actions;
+CREATE TRIGGER player_actions_suspension_expiry
+  BEFORE INSERT ON public.player_actions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_suspension_expiry();
+
+-- Open-ended suspensions recorded before this migration get the default
+UPDATE public.player_actions
+SET duration_days = 7,
+    expires_at = performed_at + INTERVAL '7 days'
+WHERE action = 'suspended'
+  AND expires_at IS NULL
+  AND duration_days IS NULL;
+
+UPDATE public.player_actions
+SET expires_at = performed_at + make_interval(days => duration_days)
+WHERE action = 'suspended'
+  AND expires_at IS NULL;
+
+-- ============================================================================
+-- ACCESS
+-- ============================================================================
+-- get_account_restriction() takes any player's ID, so only the API (service
+-- role) may call it. The Anti-Cheat panel reads it through
+-- get_player_restriction(), which checks for a super admin first.
+
+REVOKE EXECUTE ON FUNCTION public.get_account_restriction(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_account_restriction(UUID) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.get_player_restriction(p_user_id UUID)
+RETURNS JSONB AS $$
+BEGIN
+  IF NOT public.is_super_admin(auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'FORBIDDEN', 'error', 'Only super admins can view account restrictions');
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'restriction', public.get_account_restriction(p_user_id));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON FUNCTION public.set_suspension_expiry IS 'Gives every suspension an expires_at (duration_days, default 7 days)';
+COMMENT ON FUNCTION public.get_player_restriction IS 'Super admin: a player''s active ban / suspension (get_account_restriction)';
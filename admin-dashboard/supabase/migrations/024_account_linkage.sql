@@ -0,0 +1,164 @@
+-- ============================================================================
+-- Migration: 024_account_linkage.sql
+-- Purpose: Find accounts that belong together ("account rings") and ban them
+-- ============================================================================
+-- get_account_links() returns pairs of accounts that share something:
+--   device   - the same device ID (player_sessions / player_locations)
+--   ip_range - sessions from the same IPv4 /24 (or the same IPv6 address)
+--   trail    - location history that kept overlapping (same place, same time)
+-- The dashboard joins the pairs into rings (lib/account-linkage.ts).
+--
+-- ban_account_ring() bans every member of a ring at once; each member gets
+-- their own player_actions entry, so the mobile API refuses them all.
+-- ============================================================================
+
+-- ============================================================================
+-- LINKS (super admin)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_account_links(
+  p_days INTEGER DEFAULT 30,              -- Devices / IPs seen in this window
+  p_trail_hours INTEGER DEFAULT 72,       -- Location history compared
+  p_trail_meters DOUBLE PRECISION DEFAULT 30,
+  p_trail_seconds INTEGER DEFAULT 120,
+  p_min_trail_matches INTEGER DEFAULT 5
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_since TIMESTAMP WITH TIME ZONE := NOW() - make_interval(days => p_days);
+  v_trail_since TIMESTAMP WITH TIME ZONE := NOW() - make_interval(hours => p_trail_hours);
+  -- Degrees of latitude per meter (longitude is scaled by cos(latitude) below)
+  v_deg DOUBLE PRECISION := p_trail_meters / 111320.0;
+  v_links JSONB;
+BEGIN
+  IF NOT public.is_super_admin(auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'FORBIDDEN', 'error', 'Only super admins can view account links');
+  END IF;
+
+  WITH devices AS (
+    SELECT DISTINCT user_id, device_id
+    FROM public.player_sessions
+    WHERE device_id IS NOT NULL AND last_seen_at >= v_since
+    UNION
+    SELECT DISTINCT user_id, device_id
+    FROM public.player_locations
+    WHERE device_id IS NOT NULL AND updated_at >= v_since
+  ),
+  device_links AS (
+    SELECT a.user_id AS user_a, b.user_id AS user_b, 'device' AS kind, a.device_id AS value, 1 AS matches
+    FROM devices a
+    JOIN devices b ON a.device_id = b.device_id AND a.user_id < b.user_id
+  ),
+  ip_ranges AS (
+    SELECT DISTINCT
+      user_id,
+      CASE
+        WHEN ip_address ~ '^\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}$'
+          THEN regexp_replace(ip_address, '\.\d{1,3}$', '.0/24')
+        ELSE ip_address
+      END AS ip_range
+    FROM public.player_sessions
+    WHERE ip_address IS NOT NULL AND last_seen_at >= v_since
+  ),
+  ip_links AS (
+    SELECT a.user_id AS user_a, b.user_id AS user_b, 'ip_range' AS kind, a.ip_range AS value, 1 AS matches
+    FROM ip_ranges a
+    JOIN ip_ranges b ON a.ip_range = b.ip_range AND a.user_id < b.user_id
+  ),
+  trail_links AS (
+    SELECT a.user_id AS user_a, b.user_id AS user_b, 'trail' AS kind, NULL::TEXT AS value, COUNT(*)::INTEGER AS matches
+    FROM public.player_location_history a
+    JOIN public.player_location_history b
+      ON a.user_id < b.user_id
+      AND b.recorded_at BETWEEN a.recorded_at - make_interval(secs => p_trail_seconds)
+                            AND a.recorded_at + make_interval(secs => p_trail_seconds)
+      AND ABS(a.latitude - b.latitude) <= v_deg
+      AND ABS(a.longitude - b.longitude) <= v_deg / GREATEST(COS(RADIANS(a.latitude)), 0.01)
+    WHERE a.recorded_at >= v_trail_since
+      AND b.recorded_at >= v_trail_since
+    GROUP BY a.user_id, b.user_id
+    HAVING COUNT(*) >= p_min_trail_matches
+  ),
+  links AS (
+    SELECT * FROM device_links
+    UNION ALL SELECT * FROM ip_links
+    UNION ALL SELECT * FROM trail_links
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'user_a', user_a,
+    'user_b', user_b,
+    'kind', kind,
+    'value', value,
+    'matches', matches
+  )), '[]'::jsonb)
+  INTO v_links
+  FROM links;
+
+  RETURN jsonb_build_object('success', true, 'links', v_links);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- RING BAN (super admin)
+-- ============================================================================
+-- Super admins in the list are skipped, never banned.
+
+CREATE OR REPLACE FUNCTION public.ban_account_ring(
+  p_user_ids UUID[],
+  p_reason TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_ring_id UUID := uuid_generate_v4();
+  v_banned UUID[];
+BEGIN
+  IF NOT public.is_super_admin(v_admin_id) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'FORBIDDEN', 'error', 'Only super admins can ban players');
+  END IF;
+
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RETURN jsonb_build_object('success', false, 'code', 'MISSING_REASON', 'error', 'A reason is required');
+  END IF;
+
+  SELECT array_agg(id) INTO v_banned
+  FROM public.profiles
+  WHERE id = ANY(p_user_ids)
+    AND NOT public.is_super_admin(id);
+
+  IF v_banned IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'code', 'NOT_FOUND', 'error', 'No players to ban');
+  END IF;
+
+  INSERT INTO public.player_actions (user_id, action, reason, performed_by, notes)
+  SELECT member, 'banned', p_reason, v_admin_id, format('Account ring ban %s (%s accounts)', v_ring_id, array_length(v_banned, 1))
+  FROM unnest(v_banned) AS member;
+
+  UPDATE public.cheat_flags
+  SET action_taken = 'banned', updated_at = NOW()
+  WHERE user_id = ANY(v_banned) AND action_taken = 'none';
+
+  INSERT INTO public.activity_logs (user_id, activity_type, severity, description, metadata)
+  VALUES (
+    v_admin_id,
+    'admin_action',
+    'warning',
+    format('Banned an account ring of %s players: %s', array_length(v_banned, 1), p_reason),
+    jsonb_build_object(
+      'action', 'account_ring_banned',
+      'ring_id', v_ring_id,
+      'target_user_ids', to_jsonb(v_banned),
+      'reason', p_reason
+    )
+  );
+
+  RETURN jsonb_build_object('success', true, 'ring_id', v_ring_id, 'banned', array_length(v_banned, 1));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON FUNCTION public.get_account_links IS 'Super admin: pairs of accounts sharing a device, IP range or location trail';
+COMMENT ON FUNCTION public.ban_account_ring IS 'Super admin: ban every member of an account ring (one player_actions row each)';
@@ -0,0 +1,240 @@
+-- ============================================================================
+-- Migration: 025_anti_cheat_rules.sql
+-- Purpose: Named, versioned anti-cheat rules evaluated by the API
+-- ============================================================================
+-- Each detection (mock_location, gps_spoofing, teleportation,
+-- impossible_speed, location_inconsistency) is a row in anti_cheat_rules with
+-- an enabled switch and a JSONB of thresholds. Every change bumps the rule's
+-- version and is kept in anti_cheat_rule_versions, so a flag's evidence
+-- (evidence.rules) says which version fired.
+--
+-- Only the API evaluates these rows (lib/anti-cheat-rules.ts); nothing in
+-- SQL or in a batch job does. The SQL detectors from 007 and their
+-- player_locations trigger are dropped here so the rules only have one
+-- implementation.
+--
+-- Defaults match DEFAULT_ANTI_CHEAT_RULES (from anti-cheat-config.ts).
+-- ============================================================================
+
+-- ============================================================================
+-- RULES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.anti_cheat_rules (
+  rule_key TEXT PRIMARY KEY CHECK (rule_key IN (
+    'mock_location',
+    'gps_spoofing',
+    'teleportation',
+    'impossible_speed',
+    'location_inconsistency'
+  )),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  thresholds JSONB NOT NULL DEFAULT '{}'::jsonb,
+  version INTEGER NOT NULL DEFAULT 1,
+
+  -- Audit
+  updated_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS anti_cheat_rules_updated_at ON public.anti_cheat_rules;
+CREATE TRIGGER anti_cheat_rules_updated_at
+  BEFORE UPDATE ON public.anti_cheat_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.anti_cheat_rules ENABLE ROW LEVEL SECURITY;
+
+-- Changes go through update_anti_cheat_rule()
+DROP POLICY IF EXISTS "Admins can view anti-cheat rules" ON public.anti_cheat_rules;
+CREATE POLICY "Admins can view anti-cheat rules" ON public.anti_cheat_rules
+  FOR SELECT USING (public.is_super_admin());
+
+-- ============================================================================
+-- RULE VERSIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.anti_cheat_rule_versions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  rule_key TEXT NOT NULL REFERENCES public.anti_cheat_rules(rule_key) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  enabled BOOLEAN NOT NULL,
+  thresholds JSONB NOT NULL,
+  changed_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE (rule_key, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_anti_cheat_rule_versions_key
+  ON public.anti_cheat_rule_versions(rule_key, version DESC);
+
+ALTER TABLE public.anti_cheat_rule_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view anti-cheat rule versions" ON public.anti_cheat_rule_versions;
+CREATE POLICY "Admins can view anti-cheat rule versions" ON public.anti_cheat_rule_versions
+  FOR SELECT USING (public.is_super_admin());
+
+-- Versions are immutable, even for the service role
+CREATE OR REPLACE FUNCTION public.prevent_anti_cheat_rule_version_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'anti_cheat_rule_versions rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS anti_cheat_rule_versions_immutable ON public.anti_cheat_rule_versions;
+CREATE TRIGGER anti_cheat_rule_versions_immutable
+  BEFORE UPDATE OR DELETE ON public.anti_cheat_rule_versions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_anti_cheat_rule_version_change();
+
+-- ============================================================================
+-- VERSIONING (triggers)
+-- ============================================================================
+-- An update that changes enabled or thresholds bumps the version; every new
+-- version (including the seeded version 1) is copied to the history.
+
+CREATE OR REPLACE FUNCTION public.bump_anti_cheat_rule_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.enabled IS DISTINCT FROM OLD.enabled OR NEW.thresholds IS DISTINCT FROM OLD.thresholds THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS anti_cheat_rules_bump_version ON public.anti_cheat_rules;
+CREATE TRIGGER anti_cheat_rules_bump_version
+  BEFORE UPDATE ON public.anti_cheat_rules
+  FOR EACH ROW EXECUTE FUNCTION public.bump_anti_cheat_rule_version();
+
+CREATE OR REPLACE FUNCTION public.record_anti_cheat_rule_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.version = OLD.version THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.anti_cheat_rule_versions (rule_key, version, enabled, thresholds, changed_by)
+  VALUES (NEW.rule_key, NEW.version, NEW.enabled, NEW.thresholds, COALESCE(auth.uid(), NEW.updated_by));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS anti_cheat_rules_versioned ON public.anti_cheat_rules;
+CREATE TRIGGER anti_cheat_rules_versioned
+  AFTER INSERT OR UPDATE ON public.anti_cheat_rules
+  FOR EACH ROW EXECUTE FUNCTION public.record_anti_cheat_rule_version();
+
+-- Seed the defaults (version 1 via the trigger)
+INSERT INTO public.anti_cheat_rules (rule_key, thresholds) VALUES
+  ('mock_location', '{}'::jsonb),
+  ('gps_spoofing', '{"max_accuracy_meters": 100, "max_speed_kmh": 130}'::jsonb),
+  ('teleportation', '{"max_speed_kmh": 1000, "max_distance_meters": 10000, "min_time_seconds": 5}'::jsonb),
+  ('impossible_speed', '{"max_speed_kmh": 200, "max_speed_after_walking_kmh": 25, "max_speed_after_running_kmh": 130}'::jsonb),
+  ('location_inconsistency', '{"max_speed_mismatch_kmh": 50}'::jsonb)
+ON CONFLICT (rule_key) DO NOTHING;
+
+-- ============================================================================
+-- UPDATE A RULE (super admin)
+-- ============================================================================
+-- p_thresholds may only contain the rule's existing threshold keys, each a
+-- positive number; keys left out keep their value. NULL arguments leave that
+-- part unchanged.
+
+CREATE OR REPLACE FUNCTION public.update_anti_cheat_rule(
+  p_rule_key TEXT,
+  p_enabled BOOLEAN DEFAULT NULL,
+  p_thresholds JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_before public.anti_cheat_rules;
+  v_after public.anti_cheat_rules;
+  v_key TEXT;
+  v_value JSONB;
+BEGIN
+  IF NOT public.is_super_admin(v_admin_id) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'FORBIDDEN', 'error', 'Only super admins can change anti-cheat rules');
+  END IF;
+
+  SELECT * INTO v_before
+  FROM public.anti_cheat_rules
+  WHERE rule_key = p_rule_key
+  FOR UPDATE;
+
+  IF v_before.rule_key IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'code', 'NOT_FOUND', 'error', 'Unknown rule');
+  END IF;
+
+  IF p_thresholds IS NOT NULL THEN
+    IF jsonb_typeof(p_thresholds) <> 'object' THEN
+      RETURN jsonb_build_object('success', false, 'code', 'INVALID_THRESHOLDS', 'error', 'Thresholds must be an object');
+    END IF;
+
+    FOR v_key, v_value IN SELECT * FROM jsonb_each(p_thresholds) LOOP
+      IF NOT v_before.thresholds ? v_key THEN
+        RETURN jsonb_build_object('success', false, 'code', 'INVALID_THRESHOLDS', 'error', format('Unknown threshold %s', v_key));
+      END IF;
+      IF jsonb_typeof(v_value) <> 'number' OR (v_value #>> '{}')::NUMERIC <= 0 THEN
+        RETURN jsonb_build_object('success', false, 'code', 'INVALID_THRESHOLDS', 'error', format('%s must be a positive number', v_key));
+      END IF;
+    END LOOP;
+  END IF;
+
+  UPDATE public.anti_cheat_rules
+  SET
+    enabled = COALESCE(p_enabled, enabled),
+    thresholds = thresholds || COALESCE(p_thresholds, '{}'::jsonb),
+    updated_by = v_admin_id
+  WHERE rule_key = p_rule_key
+  RETURNING * INTO v_after;
+
+  IF v_after.version = v_before.version THEN
+    RETURN jsonb_build_object('success', true, 'rule', to_jsonb(v_after));
+  END IF;
+
+  INSERT INTO public.activity_logs (user_id, activity_type, severity, description, metadata)
+  VALUES (
+    v_admin_id,
+    'admin_action',
+    'warning',
+    format('Changed anti-cheat rule %s (now version %s)', p_rule_key, v_after.version),
+    jsonb_build_object(
+      'action', 'anti_cheat_rule_updated',
+      'rule_key', p_rule_key,
+      'version', v_after.version,
+      'before', jsonb_build_object('enabled', v_before.enabled, 'thresholds', v_before.thresholds),
+      'after', jsonb_build_object('enabled', v_after.enabled, 'thresholds', v_after.thresholds)
+    )
+  );
+
+  RETURN jsonb_build_object('success', true, 'rule', to_jsonb(v_after));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- SQL DETECTORS (retired)
+-- ============================================================================
+-- The API (lib/anti-cheat-rules.ts) is the only place these rules are
+-- evaluated. The 007 detectors each had their own copy of the logic that
+-- drifted from it (no walking / running speed caps, no spoofing speed check,
+-- no dedupe), so they are dropped with their location trigger.
+
+DROP TRIGGER IF EXISTS trigger_check_cheating ON public.player_locations;
+DROP FUNCTION IF EXISTS public.check_player_location_for_cheating();
+DROP FUNCTION IF EXISTS public.detect_impossible_speed(UUID, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE);
+DROP FUNCTION IF EXISTS public.detect_gps_spoofing(UUID, BOOLEAN, DOUBLE PRECISION, TEXT);
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE public.anti_cheat_rules IS 'Anti-cheat rules (enabled + thresholds) evaluated by the API';
+COMMENT ON TABLE public.anti_cheat_rule_versions IS 'Immutable version history of anti-cheat rules';
+COMMENT ON FUNCTION public.update_anti_cheat_rule IS 'Super admin: change an anti-cheat rule (new version + admin_action log)';
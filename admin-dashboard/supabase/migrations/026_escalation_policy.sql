@@ -0,0 +1,401 @@
+-- ============================================================================
+-- Migration: 026_escalation_policy.sql
+-- Purpose: Turn repeat cheat flags into player actions automatically
+-- ============================================================================
+-- escalation_policy holds a ladder of steps, e.g.
+--   1. 1 medium+ flag in 30 days            -> warn
+--   2. 2 medium+ flags in 30 days           -> 7-day suspension
+--   3. 1 confirmed critical flag in 90 days -> ban
+-- Whenever a flag is created, or confirmed without an action, the highest
+-- step the player now meets is applied - unless it (or a higher step) was
+-- already applied since their last 'cleared' action.
+--
+-- mode:
+--   off       - nothing happens
+--   recommend - the step is written to escalation_recommendations for an
+--               admin to approve or dismiss on the Anti-Cheat panel
+--   automatic - the step is recorded in player_actions right away, with
+--               detected_by 'system' and no performed_by
+-- ============================================================================
+
+-- ============================================================================
+-- PLAYER ACTIONS: system entries
+-- ============================================================================
+
+ALTER TABLE public.player_actions ALTER COLUMN performed_by DROP NOT NULL;
+
+ALTER TABLE public.player_actions
+  ADD COLUMN IF NOT EXISTS detected_by TEXT,                 -- 'system' for escalation steps
+  ADD COLUMN IF NOT EXISTS escalation_step INTEGER,          -- Ladder step (1-based) that produced it
+  ADD COLUMN IF NOT EXISTS cheat_flag_id UUID REFERENCES public.cheat_flags(id) ON DELETE SET NULL;
+
+ALTER TABLE public.player_actions DROP CONSTRAINT IF EXISTS player_actions_performer;
+ALTER TABLE public.player_actions ADD CONSTRAINT player_actions_performer
+  CHECK (performed_by IS NOT NULL OR detected_by = 'system');
+
+-- ============================================================================
+-- POLICY
+-- ============================================================================
+-- steps: [{ min_severity, flag_count, window_days, confirmed_only, action,
+--           duration_days }], mildest first. Changes go through
+-- update_escalation_policy().
+
+CREATE TABLE IF NOT EXISTS public.escalation_policy (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  mode TEXT NOT NULL DEFAULT 'recommend' CHECK (mode IN ('off', 'recommend', 'automatic')),
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  -- Audit
+  updated_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS escalation_policy_updated_at ON public.escalation_policy;
+CREATE TRIGGER escalation_policy_updated_at
+  BEFORE UPDATE ON public.escalation_policy
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.escalation_policy ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view the escalation policy" ON public.escalation_policy;
+CREATE POLICY "Admins can view the escalation policy" ON public.escalation_policy
+  FOR SELECT USING (public.is_super_admin());
+
+-- Defaults match DEFAULT_ESCALATION_STEPS (lib/escalation-policy.ts)
+INSERT INTO public.escalation_policy (id, mode, steps) VALUES (
+  1,
+  'recommend',
+  '[
+    {"min_severity": "medium", "flag_count": 1, "window_days": 30, "confirmed_only": false, "action": "warned", "duration_days": null},
+    {"min_severity": "medium", "flag_count": 2, "window_days": 30, "confirmed_only": false, "action": "suspended", "duration_days": 7},
+    {"min_severity": "critical", "flag_count": 1, "window_days": 90, "confirmed_only": true, "action": "banned", "duration_days": null}
+  ]'::jsonb
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================================================
+-- RECOMMENDATIONS ("recommend" mode)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.escalation_recommendations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  cheat_flag_id UUID REFERENCES public.cheat_flags(id) ON DELETE SET NULL,
+  step INTEGER NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('warned', 'suspended', 'banned')),
+  duration_days INTEGER,
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'dismissed')),
+  player_action_id UUID REFERENCES public.player_actions(id) ON DELETE SET NULL,
+  reviewed_by UUID REFERENCES public.profiles(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_escalation_recommendations_pending
+  ON public.escalation_recommendations(created_at DESC) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_escalation_recommendations_user
+  ON public.escalation_recommendations(user_id, created_at DESC);
+
+ALTER TABLE public.escalation_recommendations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view escalation recommendations" ON public.escalation_recommendations;
+CREATE POLICY "Admins can view escalation recommendations" ON public.escalation_recommendations
+  FOR SELECT USING (public.is_super_admin());
+
+-- ============================================================================
+-- APPLY THE LADDER (trigger on cheat_flags)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.cheat_severity_rank(p_severity TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE p_severity
+    WHEN 'low' THEN 1
+    WHEN 'medium' THEN 2
+    WHEN 'high' THEN 3
+    WHEN 'critical' THEN 4
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Runs after a flag is inserted, or its status changes to 'confirmed'. Flags
+-- that already carry an action (an admin picked one while reviewing) are
+-- left to that admin.
+CREATE OR REPLACE FUNCTION public.apply_escalation_policy()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_policy public.escalation_policy;
+  v_cleared_at TIMESTAMP WITH TIME ZONE;
+  v_done INTEGER;
+  v_step JSONB;
+  v_index INTEGER;
+  v_match INTEGER;
+  v_count INTEGER;
+  v_reason TEXT;
+  v_action_id UUID;
+BEGIN
+  IF NEW.action_taken <> 'none' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (NEW.status IS NOT DISTINCT FROM OLD.status OR NEW.status <> 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_policy FROM public.escalation_policy WHERE id = 1;
+
+  IF v_policy.id IS NULL OR v_policy.mode = 'off' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Banned players can't escalate further
+  IF public.get_account_restriction(NEW.user_id) ->> 'action' = 'banned' THEN
+    RETURN NEW;
+  END IF;
+
+  -- A 'cleared' action starts the ladder over
+  SELECT MAX(performed_at) INTO v_cleared_at
+  FROM public.player_actions
+  WHERE user_id = NEW.user_id AND action = 'cleared';
+
+  v_cleared_at := COALESCE(v_cleared_at, '-infinity'::TIMESTAMP WITH TIME ZONE);
+
+  -- Highest step already applied, pending or dismissed since then
+  SELECT GREATEST(
+    (SELECT MAX(escalation_step) FROM public.player_actions
+      WHERE user_id = NEW.user_id AND performed_at > v_cleared_at),
+    (SELECT MAX(step) FROM public.escalation_recommendations
+      WHERE user_id = NEW.user_id AND status IN ('pending', 'dismissed') AND created_at > v_cleared_at),
+    0
+  ) INTO v_done;
+
+  FOR v_index IN REVERSE jsonb_array_length(v_policy.steps)..1 LOOP
+    EXIT WHEN v_index <= v_done;
+    v_step := v_policy.steps -> (v_index - 1);
+
+    SELECT COUNT(*) INTO v_count
+    FROM public.cheat_flags
+    WHERE user_id = NEW.user_id
+      AND status <> 'false_positive'
+      AND (NOT (v_step ->> 'confirmed_only')::BOOLEAN OR status = 'confirmed')
+      AND public.cheat_severity_rank(severity) >= public.cheat_severity_rank(v_step ->> 'min_severity')
+      AND detected_at >= NOW() - make_interval(days => (v_step ->> 'window_days')::INTEGER)
+      AND detected_at > v_cleared_at;
+
+    IF v_count >= (v_step ->> 'flag_count')::INTEGER THEN
+      v_match := v_index;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF v_match IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_step := v_policy.steps -> (v_match - 1);
+  v_reason := format(
+    'Escalation step %s: %s %s%s+ flag(s) in %s days',
+    v_match,
+    v_count,
+    CASE WHEN (v_step ->> 'confirmed_only')::BOOLEAN THEN 'confirmed ' ELSE '' END,
+    v_step ->> 'min_severity',
+    v_step ->> 'window_days'
+  );
+
+  IF v_policy.mode = 'recommend' THEN
+    INSERT INTO public.escalation_recommendations (user_id, cheat_flag_id, step, action, duration_days, reason)
+    VALUES (
+      NEW.user_id,
+      NEW.id,
+      v_match,
+      v_step ->> 'action',
+      (v_step ->> 'duration_days')::INTEGER,
+      v_reason
+    );
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.player_actions (user_id, action, reason, duration_days, detected_by, escalation_step, cheat_flag_id)
+  VALUES (
+    NEW.user_id,
+    v_step ->> 'action',
+    v_reason,
+    (v_step ->> 'duration_days')::INTEGER,
+    'system',
+    v_match,
+    NEW.id
+  )
+  RETURNING id INTO v_action_id;
+
+  -- Only action_taken changes here, which doesn't re-fire this trigger
+  UPDATE public.cheat_flags
+  SET action_taken = v_step ->> 'action', updated_at = NOW()
+  WHERE user_id = NEW.user_id AND action_taken = 'none';
+
+  INSERT INTO public.activity_logs (user_id, activity_type, severity, description, metadata)
+  VALUES (
+    NEW.user_id,
+    'suspicious_activity',
+    'warning',
+    format('Automatic %s: %s', v_step ->> 'action', v_reason),
+    jsonb_build_object(
+      'action', 'escalation_applied',
+      'player_action_id', v_action_id,
+      'cheat_flag_id', NEW.id,
+      'step', v_match
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS cheat_flags_escalation ON public.cheat_flags;
+CREATE TRIGGER cheat_flags_escalation
+  AFTER INSERT OR UPDATE OF status ON public.cheat_flags
+  FOR EACH ROW EXECUTE FUNCTION public.apply_escalation_policy();
+
+-- ============================================================================
+-- UPDATE THE POLICY (super admin)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.update_escalation_policy(
+  p_mode TEXT,
+  p_steps JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_before public.escalation_policy;
+  v_after public.escalation_policy;
+  v_step JSONB;
+BEGIN
+  IF NOT public.is_super_admin(v_admin_id) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'FORBIDDEN', 'error', 'Only super admins can change the escalation policy');
+  END IF;
+
+  IF p_mode NOT IN ('off', 'recommend', 'automatic') THEN
+    RETURN jsonb_build_object('success', false, 'code', 'INVALID_MODE', 'error', 'Unknown mode');
+  END IF;
+
+  IF jsonb_typeof(p_steps) <> 'array' THEN
+    RETURN jsonb_build_object('success', false, 'code', 'INVALID_STEPS', 'error', 'Steps must be a list');
+  END IF;
+
+  FOR v_step IN SELECT * FROM jsonb_array_elements(p_steps) LOOP
+    IF v_step ->> 'action' NOT IN ('warned', 'suspended', 'banned')
+      OR v_step ->> 'min_severity' NOT IN ('low', 'medium', 'high', 'critical')
+      OR jsonb_typeof(v_step -> 'flag_count') <> 'number' OR (v_step ->> 'flag_count')::NUMERIC < 1
+      OR jsonb_typeof(v_step -> 'window_days') <> 'number' OR (v_step ->> 'window_days')::NUMERIC < 1
+      OR jsonb_typeof(v_step -> 'confirmed_only') <> 'boolean'
+      OR (v_step ->> 'action' = 'suspended' AND (
+        jsonb_typeof(v_step -> 'duration_days') <> 'number' OR (v_step ->> 'duration_days')::NUMERIC < 1
+      )) THEN
+      RETURN jsonb_build_object('success', false, 'code', 'INVALID_STEPS', 'error', format('Invalid step: %s', v_step));
+    END IF;
+  END LOOP;
+
+  SELECT * INTO v_before FROM public.escalation_policy WHERE id = 1 FOR UPDATE;
+
+  INSERT INTO public.escalation_policy (id, mode, steps, updated_by)
+  VALUES (1, p_mode, p_steps, v_admin_id)
+  ON CONFLICT (id) DO UPDATE
+  SET mode = EXCLUDED.mode, steps = EXCLUDED.steps, updated_by = EXCLUDED.updated_by
+  RETURNING * INTO v_after;
+
+  INSERT INTO public.activity_logs (user_id, activity_type, severity, description, metadata)
+  VALUES (
+    v_admin_id,
+    'admin_action',
+    'warning',
+    format('Changed the escalation policy (%s, %s steps)', p_mode, jsonb_array_length(p_steps)),
+    jsonb_build_object(
+      'action', 'escalation_policy_updated',
+      'before', jsonb_build_object('mode', v_before.mode, 'steps', v_before.steps),
+      'after', jsonb_build_object('mode', v_after.mode, 'steps', v_after.steps)
+    )
+  );
+
+  RETURN jsonb_build_object('success', true, 'policy', to_jsonb(v_after));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- REVIEW A RECOMMENDATION (super admin)
+-- ============================================================================
+-- Approving records the action as the admin's (performed_by) while keeping
+-- detected_by 'system' and the step, so the ladder won't suggest it again.
+
+CREATE OR REPLACE FUNCTION public.review_escalation_recommendation(
+  p_recommendation_id UUID,
+  p_approve BOOLEAN
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_rec public.escalation_recommendations;
+  v_action_id UUID;
+BEGIN
+  IF NOT public.is_super_admin(v_admin_id) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'FORBIDDEN', 'error', 'Only super admins can review recommendations');
+  END IF;
+
+  SELECT * INTO v_rec
+  FROM public.escalation_recommendations
+  WHERE id = p_recommendation_id
+  FOR UPDATE;
+
+  IF v_rec.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'code', 'NOT_FOUND', 'error', 'Recommendation not found');
+  END IF;
+
+  IF v_rec.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'code', 'ALREADY_REVIEWED', 'error', 'This recommendation was already reviewed');
+  END IF;
+
+  IF p_approve THEN
+    INSERT INTO public.player_actions (user_id, action, reason, duration_days, performed_by, detected_by, escalation_step, cheat_flag_id)
+    VALUES (v_rec.user_id, v_rec.action, v_rec.reason, v_rec.duration_days, v_admin_id, 'system', v_rec.step, v_rec.cheat_flag_id)
+    RETURNING id INTO v_action_id;
+
+    UPDATE public.cheat_flags
+    SET action_taken = v_rec.action, updated_at = NOW()
+    WHERE user_id = v_rec.user_id AND action_taken = 'none';
+  END IF;
+
+  UPDATE public.escalation_recommendations
+  SET
+    status = CASE WHEN p_approve THEN 'approved' ELSE 'dismissed' END,
+    player_action_id = v_action_id,
+    reviewed_by = v_admin_id,
+    reviewed_at = NOW()
+  WHERE id = v_rec.id;
+
+  INSERT INTO public.activity_logs (user_id, activity_type, severity, description, metadata)
+  VALUES (
+    v_admin_id,
+    'admin_action',
+    CASE WHEN p_approve THEN 'warning' ELSE 'info' END,
+    format('%s escalation step %s (%s)', CASE WHEN p_approve THEN 'Approved' ELSE 'Dismissed' END, v_rec.step, v_rec.action),
+    jsonb_build_object(
+      'action', CASE WHEN p_approve THEN 'escalation_approved' ELSE 'escalation_dismissed' END,
+      'recommendation_id', v_rec.id,
+      'target_user_id', v_rec.user_id,
+      'player_action_id', v_action_id
+    )
+  );
+
+  RETURN jsonb_build_object('success', true, 'player_action_id', v_action_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE public.escalation_policy IS 'Single-row escalation ladder turning repeat cheat flags into player actions';
+COMMENT ON TABLE public.escalation_recommendations IS 'Escalation steps awaiting admin approval (recommend mode)';
+COMMENT ON COLUMN public.player_actions.detected_by IS '''system'' when the action came from the escalation policy';
+COMMENT ON FUNCTION public.apply_escalation_policy IS 'Trigger: apply or recommend the highest escalation step a flagged player meets';
+COMMENT ON FUNCTION public.update_escalation_policy IS 'Super admin: change the escalation mode and ladder (admin_action log)';
+COMMENT ON FUNCTION public.review_escalation_recommendation IS 'Super admin: approve (records the player action) or dismiss a recommendation';
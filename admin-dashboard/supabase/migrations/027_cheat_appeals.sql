@@ -0,0 +1,246 @@
+-- ============================================================================
+-- Migration: 027_cheat_appeals.sql
+-- Purpose: Let flagged players appeal, and admins overturn false positives
+-- ============================================================================
+-- A player appeals one of their cheat flags with an explanation
+-- (POST /api/v1/appeals -> submit_cheat_appeal). The appeal remembers the
+-- player action that flag led to. An admin resolves it from Security →
+-- Appeals (resolve_cheat_appeal):
+--   upheld     - the flag stands and is confirmed
+--   overturned - the flag becomes a false_positive and, if the appealed
+--                action is still the player's latest, a 'cleared' action
+--                reverses it (which also restarts the escalation ladder)
+-- The player sees the outcome and the admin's note in /auth/me.
+-- ============================================================================
+
+-- ============================================================================
+-- APPEALS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.cheat_appeals (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  cheat_flag_id UUID REFERENCES public.cheat_flags(id) ON DELETE CASCADE NOT NULL,
+  player_action_id UUID REFERENCES public.player_actions(id) ON DELETE SET NULL,  -- Action being appealed
+
+  message TEXT NOT NULL CHECK (char_length(message) BETWEEN 10 AND 2000),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'upheld', 'overturned')),
+
+  -- Resolution
+  resolution_note TEXT,                          -- Shown to the player
+  reversal_action_id UUID REFERENCES public.player_actions(id) ON DELETE SET NULL,
+  resolved_by UUID REFERENCES public.profiles(id),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE (cheat_flag_id)                         -- One appeal per flag
+);
+
+CREATE INDEX IF NOT EXISTS idx_cheat_appeals_user ON public.cheat_appeals(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_cheat_appeals_pending
+  ON public.cheat_appeals(created_at) WHERE status = 'pending';
+
+DROP TRIGGER IF EXISTS cheat_appeals_updated_at ON public.cheat_appeals;
+CREATE TRIGGER cheat_appeals_updated_at
+  BEFORE UPDATE ON public.cheat_appeals
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.cheat_appeals ENABLE ROW LEVEL SECURITY;
+
+-- Players go through the API (service role); admins read the queue
+DROP POLICY IF EXISTS "Admins can view cheat appeals" ON public.cheat_appeals;
+CREATE POLICY "Admins can view cheat appeals" ON public.cheat_appeals
+  FOR SELECT USING (public.is_super_admin());
+
+-- ============================================================================
+-- SUBMIT (mobile API, service role)
+-- ============================================================================
+-- p_flag_id NULL appeals the player's most recent flag that isn't already
+-- a false positive.
+
+CREATE OR REPLACE FUNCTION public.submit_cheat_appeal(
+  p_user_id UUID,
+  p_flag_id UUID,
+  p_message TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_flag public.cheat_flags;
+  v_action_id UUID;
+  v_appeal public.cheat_appeals;
+BEGIN
+  IF p_message IS NULL OR char_length(btrim(p_message)) < 10 THEN
+    RETURN jsonb_build_object('success', false, 'code', 'MESSAGE_TOO_SHORT', 'error', 'Please explain what happened (at least 10 characters)');
+  END IF;
+
+  IF char_length(p_message) > 2000 THEN
+    RETURN jsonb_build_object('success', false, 'code', 'MESSAGE_TOO_LONG', 'error', 'Appeals are limited to 2000 characters');
+  END IF;
+
+  SELECT * INTO v_flag
+  FROM public.cheat_flags
+  WHERE user_id = p_user_id
+    AND (p_flag_id IS NULL OR id = p_flag_id)
+    AND (p_flag_id IS NOT NULL OR status <> 'false_positive')
+  ORDER BY detected_at DESC
+  LIMIT 1;
+
+  IF v_flag.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'code', 'FLAG_NOT_FOUND', 'error', 'No flag to appeal');
+  END IF;
+
+  IF v_flag.status = 'false_positive' THEN
+    RETURN jsonb_build_object('success', false, 'code', 'FLAG_CLEARED', 'error', 'This flag has already been cleared');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.cheat_appeals WHERE cheat_flag_id = v_flag.id) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'ALREADY_APPEALED', 'error', 'This flag has already been appealed');
+  END IF;
+
+  -- The action this flag led to: linked by the escalation policy (026),
+  -- otherwise the latest action taken since the flag
+  SELECT id INTO v_action_id
+  FROM public.player_actions
+  WHERE user_id = p_user_id
+    AND action IN ('warned', 'suspended', 'banned')
+    AND (cheat_flag_id = v_flag.id OR (cheat_flag_id IS NULL AND performed_at >= v_flag.detected_at))
+  ORDER BY (cheat_flag_id = v_flag.id) DESC NULLS LAST, performed_at DESC
+  LIMIT 1;
+
+  INSERT INTO public.cheat_appeals (user_id, cheat_flag_id, player_action_id, message)
+  VALUES (p_user_id, v_flag.id, v_action_id, btrim(p_message))
+  RETURNING * INTO v_appeal;
+
+  INSERT INTO public.activity_logs (user_id, activity_type, severity, description, metadata)
+  VALUES (
+    p_user_id,
+    'suspicious_activity',
+    'info',
+    format('Appealed %s flag', v_flag.reason),
+    jsonb_build_object(
+      'action', 'cheat_appeal_submitted',
+      'appeal_id', v_appeal.id,
+      'cheat_flag_id', v_flag.id,
+      'player_action_id', v_action_id
+    )
+  );
+
+  RETURN jsonb_build_object('success', true, 'appeal', to_jsonb(v_appeal));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- API only: submit_cheat_appeal trusts the user it is given
+REVOKE EXECUTE ON FUNCTION public.submit_cheat_appeal(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_cheat_appeal(UUID, UUID, TEXT) TO service_role;
+
+-- ============================================================================
+-- RESOLVE (super admin)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.resolve_cheat_appeal(
+  p_appeal_id UUID,
+  p_outcome TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_appeal public.cheat_appeals;
+  v_latest_action_id UUID;
+  v_reversal_id UUID;
+BEGIN
+  IF NOT public.is_super_admin(v_admin_id) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'FORBIDDEN', 'error', 'Only super admins can resolve appeals');
+  END IF;
+
+  IF p_outcome NOT IN ('upheld', 'overturned') THEN
+    RETURN jsonb_build_object('success', false, 'code', 'INVALID_OUTCOME', 'error', 'Outcome must be upheld or overturned');
+  END IF;
+
+  SELECT * INTO v_appeal
+  FROM public.cheat_appeals
+  WHERE id = p_appeal_id
+  FOR UPDATE;
+
+  IF v_appeal.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'code', 'NOT_FOUND', 'error', 'Appeal not found');
+  END IF;
+
+  IF v_appeal.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'code', 'ALREADY_RESOLVED', 'error', 'This appeal was already resolved');
+  END IF;
+
+  IF p_outcome = 'overturned' THEN
+    UPDATE public.cheat_flags
+    SET status = 'false_positive',
+        action_taken = 'cleared',
+        reviewed_by = v_admin_id,
+        reviewed_at = NOW(),
+        notes = COALESCE(p_note, notes)
+    WHERE id = v_appeal.cheat_flag_id;
+
+    -- Only lift the appealed action if nothing newer replaced it
+    SELECT id INTO v_latest_action_id
+    FROM public.player_actions
+    WHERE user_id = v_appeal.user_id
+    ORDER BY performed_at DESC
+    LIMIT 1;
+
+    IF v_appeal.player_action_id IS NOT NULL AND v_latest_action_id = v_appeal.player_action_id THEN
+      INSERT INTO public.player_actions (user_id, action, reason, performed_by, notes)
+      VALUES (
+        v_appeal.user_id,
+        'cleared',
+        'Appeal overturned',
+        v_admin_id,
+        format('Reverses %s (appeal %s)', v_appeal.player_action_id, v_appeal.id)
+      )
+      RETURNING id INTO v_reversal_id;
+    END IF;
+  ELSE
+    UPDATE public.cheat_flags
+    SET status = 'confirmed',
+        reviewed_by = v_admin_id,
+        reviewed_at = NOW()
+    WHERE id = v_appeal.cheat_flag_id
+      AND status IN ('pending', 'investigating');
+  END IF;
+
+  UPDATE public.cheat_appeals
+  SET status = p_outcome,
+      resolution_note = NULLIF(btrim(p_note), ''),
+      reversal_action_id = v_reversal_id,
+      resolved_by = v_admin_id,
+      resolved_at = NOW()
+  WHERE id = v_appeal.id
+  RETURNING * INTO v_appeal;
+
+  INSERT INTO public.activity_logs (user_id, activity_type, severity, description, metadata)
+  VALUES (
+    v_admin_id,
+    'admin_action',
+    'warning',
+    format('Appeal %s%s', p_outcome, CASE WHEN v_reversal_id IS NOT NULL THEN ' (action reversed)' ELSE '' END),
+    jsonb_build_object(
+      'action', 'cheat_appeal_resolved',
+      'appeal_id', v_appeal.id,
+      'outcome', p_outcome,
+      'target_user_id', v_appeal.user_id,
+      'cheat_flag_id', v_appeal.cheat_flag_id,
+      'reversal_action_id', v_reversal_id
+    )
+  );
+
+  RETURN jsonb_build_object('success', true, 'appeal', to_jsonb(v_appeal));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE public.cheat_appeals IS 'Player appeals against cheat flags and the actions they led to';
+COMMENT ON FUNCTION public.submit_cheat_appeal IS 'Mobile API: appeal a cheat flag (defaults to the latest one)';
+COMMENT ON FUNCTION public.resolve_cheat_appeal IS 'Super admin: uphold or overturn an appeal (overturning clears the flag and reverses the action)';
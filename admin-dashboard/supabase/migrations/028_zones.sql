@@ -0,0 +1,191 @@
+-- ============================================================================
+-- Migration: 028_zones.sql
+-- Purpose: The zones table, matching the Zone type (types/database.ts)
+-- ============================================================================
+-- Auto-distribution (004), timed releases (005) and sponsor features (006)
+-- all reference public.zones, but no migration created it; databases got a
+-- hand-made table. This creates it when missing and otherwise brings an
+-- existing table up to the Zone shape column by column, so it is safe to run
+-- either way.
+--
+-- geometry, auto_spawn_config, timed_release_config and hunt_config are JSONB
+-- in the same shape as ZoneGeometry, ZoneAutoSpawnConfig,
+-- ZoneTimedReleaseConfig and ZoneHuntConfig; the SQL spawners read them as is.
+--
+-- Zones are never deleted from the dashboard - they are archived
+-- (status = 'archived'), so coins, releases and analytics keep their zone.
+-- ============================================================================
+
+-- ============================================================================
+-- ZONES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.zones (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  zone_type TEXT NOT NULL DEFAULT 'player',
+  status TEXT NOT NULL DEFAULT 'active',
+  geometry JSONB NOT NULL,
+
+  -- Ownership
+  owner_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  sponsor_id UUID REFERENCES public.sponsors(id) ON DELETE SET NULL,
+
+  -- Configuration
+  auto_spawn_config JSONB,
+  timed_release_config JSONB,
+  hunt_config JSONB,
+
+  -- Scheduling
+  start_time TIMESTAMP WITH TIME ZONE,
+  end_time TIMESTAMP WITH TIME ZONE,
+
+  -- Statistics
+  coins_placed INTEGER NOT NULL DEFAULT 0,
+  coins_collected INTEGER NOT NULL DEFAULT 0,
+  total_value_distributed DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  active_players INTEGER NOT NULL DEFAULT 0,
+
+  -- Styling
+  fill_color TEXT,
+  border_color TEXT,
+  opacity DOUBLE PRECISION NOT NULL DEFAULT 0.3,
+
+  -- Metadata
+  metadata JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Bring a hand-made table up to the same columns
+ALTER TABLE public.zones
+  ADD COLUMN IF NOT EXISTS description TEXT,
+  ADD COLUMN IF NOT EXISTS zone_type TEXT NOT NULL DEFAULT 'player',
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active',
+  ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS sponsor_id UUID REFERENCES public.sponsors(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS auto_spawn_config JSONB,
+  ADD COLUMN IF NOT EXISTS timed_release_config JSONB,
+  ADD COLUMN IF NOT EXISTS hunt_config JSONB,
+  ADD COLUMN IF NOT EXISTS start_time TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS end_time TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS coins_placed INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS coins_collected INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS total_value_distributed DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS active_players INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS fill_color TEXT,
+  ADD COLUMN IF NOT EXISTS border_color TEXT,
+  ADD COLUMN IF NOT EXISTS opacity DOUBLE PRECISION NOT NULL DEFAULT 0.3,
+  ADD COLUMN IF NOT EXISTS metadata JSONB,
+  ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- ============================================================================
+-- CONSTRAINTS
+-- ============================================================================
+
+ALTER TABLE public.zones DROP CONSTRAINT IF EXISTS zones_zone_type_check;
+ALTER TABLE public.zones ADD CONSTRAINT zones_zone_type_check
+  CHECK (zone_type IN ('player', 'sponsor', 'hunt', 'grid'));
+
+ALTER TABLE public.zones DROP CONSTRAINT IF EXISTS zones_status_check;
+ALTER TABLE public.zones ADD CONSTRAINT zones_status_check
+  CHECK (status IN ('active', 'inactive', 'scheduled', 'completed', 'archived'));
+
+ALTER TABLE public.zones DROP CONSTRAINT IF EXISTS zones_opacity_check;
+ALTER TABLE public.zones ADD CONSTRAINT zones_opacity_check
+  CHECK (opacity BETWEEN 0 AND 1);
+
+-- A circle needs a center and a positive radius; a polygon at least 3 points
+ALTER TABLE public.zones DROP CONSTRAINT IF EXISTS zones_geometry_check;
+ALTER TABLE public.zones ADD CONSTRAINT zones_geometry_check
+  CHECK (
+    (geometry ->> 'type' = 'circle'
+      AND geometry -> 'center' ? 'latitude'
+      AND geometry -> 'center' ? 'longitude'
+      AND (geometry ->> 'radius_meters')::DOUBLE PRECISION > 0)
+    OR
+    (geometry ->> 'type' = 'polygon'
+      AND jsonb_typeof(geometry -> 'polygon') = 'array'
+      AND jsonb_array_length(geometry -> 'polygon') >= 3)
+  ) NOT VALID;
+
+ALTER TABLE public.zones DROP CONSTRAINT IF EXISTS zones_schedule_check;
+ALTER TABLE public.zones ADD CONSTRAINT zones_schedule_check
+  CHECK (end_time IS NULL OR start_time IS NULL OR end_time > start_time);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_zones_status ON public.zones(status);
+CREATE INDEX IF NOT EXISTS idx_zones_type ON public.zones(zone_type);
+CREATE INDEX IF NOT EXISTS idx_zones_sponsor ON public.zones(sponsor_id) WHERE sponsor_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_zones_created ON public.zones(created_at DESC);
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS zones_updated_at ON public.zones;
+CREATE TRIGGER zones_updated_at
+  BEFORE UPDATE ON public.zones
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+-- Super admins manage every zone. Sponsor admins see and edit their own
+-- sponsor's zones (sponsor zones only). No one deletes from the dashboard;
+-- zones are archived instead. The mobile API uses the service role.
+
+ALTER TABLE public.zones ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage zones" ON public.zones;
+CREATE POLICY "Admins can manage zones" ON public.zones
+  FOR ALL USING (public.is_super_admin())
+  WITH CHECK (public.is_super_admin());
+
+DROP POLICY IF EXISTS "Sponsor admins can view own zones" ON public.zones;
+CREATE POLICY "Sponsor admins can view own zones" ON public.zones
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.sponsors
+      WHERE id = zones.sponsor_id AND admin_user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Sponsor admins can create own zones" ON public.zones;
+CREATE POLICY "Sponsor admins can create own zones" ON public.zones
+  FOR INSERT WITH CHECK (
+    zone_type = 'sponsor'
+    AND EXISTS (
+      SELECT 1 FROM public.sponsors
+      WHERE id = zones.sponsor_id AND admin_user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Sponsor admins can update own zones" ON public.zones;
+CREATE POLICY "Sponsor admins can update own zones" ON public.zones
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.sponsors
+      WHERE id = zones.sponsor_id AND admin_user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    zone_type = 'sponsor'
+    AND EXISTS (
+      SELECT 1 FROM public.sponsors
+      WHERE id = zones.sponsor_id AND admin_user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON TABLE public.zones IS 'Coin zones (Zone type): geometry, auto spawn, timed release, hunt config, styling and stats';
+COMMENT ON COLUMN public.zones.geometry IS 'ZoneGeometry: {type: circle, center, radius_meters} or {type: polygon, polygon: [{latitude, longitude}]}';
+COMMENT ON COLUMN public.zones.status IS 'active | inactive | scheduled | completed | archived (zones are archived, not deleted)';
@@ -0,0 +1,386 @@
+-- ============================================================================
+-- Migration: 029_exclusion_zones.sql
+-- Purpose: Exclusion zones - areas where coins can't be hidden or spawned
+-- ============================================================================
+-- An 'exclusion' zone (schools, private property, water, ...) marks ground
+-- no coin may land on. /coins/hide and the dashboard check it in TypeScript
+-- (findExclusionZoneAt in lib/zones.ts, isPointExcluded in zone-config.ts);
+-- this migration enforces the same rule for the spawn functions:
+--
+-- - spawn_coin resamples random spawn points that fall in an active
+--   exclusion zone, and refuses a fixed location inside one
+-- - check_and_queue_spawns never queues spawns for an exclusion zone
+--
+-- point_in_zone_geometry mirrors isPointInZone: haversine distance for
+-- circles, ray casting for polygons.
+-- ============================================================================
+
+-- ============================================================================
+-- ZONE TYPE
+-- ============================================================================
+
+ALTER TABLE public.zones DROP CONSTRAINT IF EXISTS zones_zone_type_check;
+ALTER TABLE public.zones ADD CONSTRAINT zones_zone_type_check
+  CHECK (zone_type IN ('player', 'sponsor', 'hunt', 'grid', 'exclusion'));
+
+CREATE INDEX IF NOT EXISTS idx_zones_active_exclusion
+  ON public.zones(zone_type) WHERE zone_type = 'exclusion' AND status = 'active';
+
+-- ============================================================================
+-- POINT IN ZONE GEOMETRY
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.point_in_zone_geometry(JSONB, DOUBLE PRECISION, DOUBLE PRECISION);
+
+CREATE OR REPLACE FUNCTION public.point_in_zone_geometry(
+  p_geometry JSONB,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_points JSONB;
+  v_count INTEGER;
+  v_center_lat DOUBLE PRECISION;
+  v_center_lng DOUBLE PRECISION;
+  v_dlat DOUBLE PRECISION;
+  v_dlng DOUBLE PRECISION;
+  v_a DOUBLE PRECISION;
+  v_xi DOUBLE PRECISION;
+  v_yi DOUBLE PRECISION;
+  v_xj DOUBLE PRECISION;
+  v_yj DOUBLE PRECISION;
+  v_inside BOOLEAN := FALSE;
+  j INTEGER;
+BEGIN
+  IF p_geometry IS NULL OR p_latitude IS NULL OR p_longitude IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_geometry->>'type' = 'circle' THEN
+    IF p_geometry->'center' IS NULL OR p_geometry->>'radius_meters' IS NULL THEN
+      RETURN FALSE;
+    END IF;
+
+    v_center_lat := (p_geometry->'center'->>'latitude')::DOUBLE PRECISION;
+    v_center_lng := (p_geometry->'center'->>'longitude')::DOUBLE PRECISION;
+    v_dlat := radians(p_latitude - v_center_lat);
+    v_dlng := radians(p_longitude - v_center_lng);
+    v_a := sin(v_dlat / 2) ^ 2
+      + cos(radians(v_center_lat)) * cos(radians(p_latitude)) * sin(v_dlng / 2) ^ 2;
+
+    RETURN 6371000 * 2 * atan2(sqrt(v_a), sqrt(1 - v_a))
+      <= (p_geometry->>'radius_meters')::DOUBLE PRECISION;
+  END IF;
+
+  v_points := p_geometry->'polygon';
+  IF v_points IS NULL OR jsonb_typeof(v_points) <> 'array' THEN
+    RETURN FALSE;
+  END IF;
+
+  v_count := jsonb_array_length(v_points);
+  IF v_count < 3 THEN
+    RETURN FALSE;
+  END IF;
+
+  j := v_count - 1;
+  FOR i IN 0..v_count - 1 LOOP
+    v_xi := (v_points->i->>'longitude')::DOUBLE PRECISION;
+    v_yi := (v_points->i->>'latitude')::DOUBLE PRECISION;
+    v_xj := (v_points->j->>'longitude')::DOUBLE PRECISION;
+    v_yj := (v_points->j->>'latitude')::DOUBLE PRECISION;
+
+    IF ((v_yi > p_latitude) <> (v_yj > p_latitude))
+      AND p_longitude < (v_xj - v_xi) * (p_latitude - v_yi) / (v_yj - v_yi) + v_xi THEN
+      v_inside := NOT v_inside;
+    END IF;
+
+    j := i;
+  END LOOP;
+
+  RETURN v_inside;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================================================
+-- IS POINT EXCLUDED
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.is_point_excluded(DOUBLE PRECISION, DOUBLE PRECISION);
+
+CREATE OR REPLACE FUNCTION public.is_point_excluded(
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.zones z
+    WHERE z.zone_type = 'exclusion'
+      AND z.status = 'active'
+      AND public.point_in_zone_geometry(z.geometry, p_latitude, p_longitude)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- SPAWN COIN FUNCTION (replaces 004)
+-- ============================================================================
+-- Same signature and bookkeeping as 004. Random points are resampled up to
+-- 30 times (MAX_SPAWN_ATTEMPTS in distribution-config.ts) until one lands
+-- inside the zone and outside every exclusion zone. Polygons are sampled
+-- from their bounding box; 004 read a polygon's 'center', which polygon
+-- geometries don't have.
+
+CREATE OR REPLACE FUNCTION public.spawn_coin(
+  p_zone_id UUID,
+  p_trigger_type TEXT DEFAULT 'auto',
+  p_coin_type TEXT DEFAULT 'fixed',
+  p_tier TEXT DEFAULT 'bronze',
+  p_value DECIMAL DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_zone RECORD;
+  v_coin_id UUID;
+  v_value DECIMAL;
+  v_lat DOUBLE PRECISION;
+  v_lng DOUBLE PRECISION;
+  v_radius DOUBLE PRECISION;
+  v_angle DOUBLE PRECISION;
+  v_distance DOUBLE PRECISION;
+  v_min_lat DOUBLE PRECISION;
+  v_max_lat DOUBLE PRECISION;
+  v_min_lng DOUBLE PRECISION;
+  v_max_lng DOUBLE PRECISION;
+  v_found BOOLEAN := FALSE;
+  v_max_attempts CONSTANT INTEGER := 30;
+BEGIN
+  -- Get zone details
+  SELECT * INTO v_zone FROM public.zones WHERE id = p_zone_id;
+  IF v_zone IS NULL THEN
+    RAISE EXCEPTION 'Zone not found: %', p_zone_id;
+  END IF;
+
+  IF v_zone.zone_type = 'exclusion' THEN
+    RAISE EXCEPTION 'Cannot spawn coins in exclusion zone: %', p_zone_id;
+  END IF;
+
+  -- Calculate value if not provided
+  IF p_value IS NULL THEN
+    CASE p_tier
+      WHEN 'bronze' THEN v_value := 0.10 + random() * 0.40;
+      WHEN 'silver' THEN v_value := 0.50 + random() * 1.50;
+      WHEN 'gold' THEN v_value := 2.00 + random() * 8.00;
+      ELSE v_value := 0.10;
+    END CASE;
+  ELSE
+    v_value := p_value;
+  END IF;
+
+  -- Round to 2 decimal places
+  v_value := ROUND(v_value, 2);
+
+  -- Calculate spawn location if not provided
+  IF p_latitude IS NULL OR p_longitude IS NULL THEN
+    IF v_zone.geometry->>'type' <> 'circle' THEN
+      SELECT
+        MIN((p->>'latitude')::DOUBLE PRECISION),
+        MAX((p->>'latitude')::DOUBLE PRECISION),
+        MIN((p->>'longitude')::DOUBLE PRECISION),
+        MAX((p->>'longitude')::DOUBLE PRECISION)
+      INTO v_min_lat, v_max_lat, v_min_lng, v_max_lng
+      FROM jsonb_array_elements(COALESCE(v_zone.geometry->'polygon', '[]'::JSONB)) AS p;
+
+      IF v_min_lat IS NULL THEN
+        RAISE EXCEPTION 'Zone has no polygon to spawn in: %', p_zone_id;
+      END IF;
+    END IF;
+
+    FOR attempt IN 1..v_max_attempts LOOP
+      IF v_zone.geometry->>'type' = 'circle' THEN
+        -- Random point in circle
+        v_radius := (v_zone.geometry->>'radius_meters')::DOUBLE PRECISION;
+        v_angle := random() * 2 * PI();
+        v_distance := sqrt(random()) * v_radius;
+
+        v_lat := (v_zone.geometry->'center'->>'latitude')::DOUBLE PRECISION
+          + (v_distance / 111320) * cos(v_angle);
+        v_lng := (v_zone.geometry->'center'->>'longitude')::DOUBLE PRECISION
+          + (v_distance / (111320 * cos(radians((v_zone.geometry->'center'->>'latitude')::DOUBLE PRECISION)))) * sin(v_angle);
+      ELSE
+        -- Random point in the polygon's bounding box, kept if inside
+        v_lat := v_min_lat + random() * (v_max_lat - v_min_lat);
+        v_lng := v_min_lng + random() * (v_max_lng - v_min_lng);
+
+        CONTINUE WHEN NOT public.point_in_zone_geometry(v_zone.geometry, v_lat, v_lng);
+      END IF;
+
+      IF NOT public.is_point_excluded(v_lat, v_lng) THEN
+        v_found := TRUE;
+        EXIT;
+      END IF;
+    END LOOP;
+
+    IF NOT v_found THEN
+      RAISE EXCEPTION 'No spawn point outside exclusion zones after % attempts: %', v_max_attempts, p_zone_id;
+    END IF;
+  ELSE
+    IF public.is_point_excluded(p_latitude, p_longitude) THEN
+      RAISE EXCEPTION 'Location is inside an exclusion zone: %, %', p_latitude, p_longitude;
+    END IF;
+
+    v_lat := p_latitude;
+    v_lng := p_longitude;
+  END IF;
+
+  -- Create the coin
+  INSERT INTO public.coins (
+    coin_type,
+    value,
+    tier,
+    latitude,
+    longitude,
+    status,
+    hidden_at,
+    is_mythical,
+    multi_find,
+    finds_remaining
+  ) VALUES (
+    p_coin_type,
+    v_value,
+    p_tier,
+    v_lat,
+    v_lng,
+    'visible',
+    NOW(),
+    FALSE,
+    FALSE,
+    1
+  ) RETURNING id INTO v_coin_id;
+
+  -- Record in spawn history
+  INSERT INTO public.spawn_history (
+    coin_id,
+    zone_id,
+    trigger_type,
+    coin_value,
+    coin_tier,
+    spawn_latitude,
+    spawn_longitude
+  ) VALUES (
+    v_coin_id,
+    p_zone_id,
+    p_trigger_type,
+    v_value,
+    p_tier,
+    v_lat,
+    v_lng
+  );
+
+  -- Update zone statistics
+  UPDATE public.zones
+  SET
+    coins_placed = coins_placed + 1,
+    total_value_distributed = total_value_distributed + v_value,
+    updated_at = NOW()
+  WHERE id = p_zone_id;
+
+  RETURN v_coin_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- CHECK AND QUEUE SPAWNS FUNCTION (replaces 004)
+-- ============================================================================
+-- Unchanged from 004 except that exclusion zones are skipped even if their
+-- auto_spawn_config was left enabled.
+
+CREATE OR REPLACE FUNCTION public.check_and_queue_spawns()
+RETURNS INTEGER AS $$
+DECLARE
+  v_zone RECORD;
+  v_current_count INTEGER;
+  v_coins_needed INTEGER;
+  v_queued INTEGER := 0;
+  v_tier TEXT;
+  v_random DOUBLE PRECISION;
+  v_tier_weights RECORD;
+BEGIN
+  -- Loop through zones with auto-spawn enabled
+  FOR v_zone IN
+    SELECT z.*,
+      (z.auto_spawn_config->>'enabled')::BOOLEAN as auto_enabled,
+      (z.auto_spawn_config->>'min_coins')::INTEGER as min_coins,
+      (z.auto_spawn_config->>'max_coins')::INTEGER as max_coins,
+      (z.auto_spawn_config->>'coin_type')::TEXT as spawn_coin_type,
+      (z.auto_spawn_config->>'min_value')::DECIMAL as spawn_min_value,
+      (z.auto_spawn_config->>'max_value')::DECIMAL as spawn_max_value,
+      (z.auto_spawn_config->'tier_weights'->>'gold')::INTEGER as gold_weight,
+      (z.auto_spawn_config->'tier_weights'->>'silver')::INTEGER as silver_weight,
+      (z.auto_spawn_config->'tier_weights'->>'bronze')::INTEGER as bronze_weight
+    FROM public.zones z
+    WHERE z.status = 'active'
+      AND z.zone_type <> 'exclusion'
+      AND (z.auto_spawn_config->>'enabled')::BOOLEAN = TRUE
+  LOOP
+    -- Count current coins in zone (simplified - doesn't check geometry containment)
+    SELECT COUNT(*) INTO v_current_count
+    FROM public.coins c
+    WHERE c.status IN ('visible', 'hidden')
+      -- TODO: Add proper geometry containment check
+      ;
+
+    -- Calculate how many coins needed
+    v_coins_needed := GREATEST(0, v_zone.min_coins - v_current_count);
+
+    -- Queue spawns
+    FOR i IN 1..v_coins_needed LOOP
+      -- Select tier based on weights
+      v_random := random() * (v_zone.gold_weight + v_zone.silver_weight + v_zone.bronze_weight);
+      IF v_random < v_zone.bronze_weight THEN
+        v_tier := 'bronze';
+      ELSIF v_random < v_zone.bronze_weight + v_zone.silver_weight THEN
+        v_tier := 'silver';
+      ELSE
+        v_tier := 'gold';
+      END IF;
+
+      -- Insert into spawn queue
+      INSERT INTO public.spawn_queue (
+        zone_id,
+        trigger_type,
+        coin_type,
+        tier,
+        min_value,
+        max_value,
+        status
+      ) VALUES (
+        v_zone.id,
+        'auto',
+        COALESCE(v_zone.spawn_coin_type, 'fixed'),
+        v_tier,
+        COALESCE(v_zone.spawn_min_value, 0.10),
+        COALESCE(v_zone.spawn_max_value, 1.00),
+        'pending'
+      );
+
+      v_queued := v_queued + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_queued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON FUNCTION public.point_in_zone_geometry IS 'Whether a point is inside a ZoneGeometry (circle or polygon)';
+COMMENT ON FUNCTION public.is_point_excluded IS 'Whether a point is inside any active exclusion zone';
+COMMENT ON FUNCTION public.spawn_coin IS 'Spawn a single coin in a zone, outside exclusion zones';
+COMMENT ON FUNCTION public.check_and_queue_spawns IS 'Check zones and queue spawns for those below minimum (exclusion zones skipped)';
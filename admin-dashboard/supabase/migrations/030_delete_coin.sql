@@ -0,0 +1,109 @@
+-- ============================================================================
+-- Migration: 030_delete_coin.sql
+-- Purpose: Delete a hidden coin and refund what its hider paid
+-- ============================================================================
+-- DELETE /api/v1/coins/[id] lets a player take back a coin they hid, and an
+-- admin remove any coin. delete_coin() runs it in one transaction:
+-- - only the hider or a super admin may delete, and only before anyone
+--   has found the coin
+-- - the hide's 'hidden' debit is cancelled; the status-change trigger (016)
+--   posts the refund as an adjustment
+-- - hides recorded with metadata.backfilled were never charged, so they
+--   are not refunded
+-- - the coin's ledger rows keep the coin ID in metadata and drop the
+--   reference, so the coin row can go
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.delete_coin(
+  p_coin_id UUID,
+  p_user_id UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_coin public.coins;
+  v_is_admin BOOLEAN := public.is_super_admin(p_user_id);
+  v_refunded DECIMAL(10, 2);
+  v_balance DECIMAL(10, 2);
+BEGIN
+  SELECT * INTO v_coin
+  FROM public.coins
+  WHERE id = p_coin_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'code', 'NOT_FOUND', 'error', 'Coin not found');
+  END IF;
+
+  IF NOT v_is_admin AND v_coin.hider_id IS DISTINCT FROM p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'code', 'FORBIDDEN', 'error', 'Only the coin''s hider or an admin can delete it');
+  END IF;
+
+  IF v_coin.status = 'collected' OR EXISTS (
+    SELECT 1 FROM public.transactions
+    WHERE coin_id = p_coin_id
+      AND transaction_type = 'found'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'code', 'ALREADY_COLLECTED', 'error', 'Cannot delete a coin that has been found');
+  END IF;
+
+  WITH refunded AS (
+    UPDATE public.transactions
+    SET
+      status = 'cancelled',
+      metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object(
+        'cancelled_reason', 'coin_deleted',
+        'deleted_by', p_user_id,
+        'cancelled_at', NOW()
+      )
+    WHERE coin_id = p_coin_id
+      AND transaction_type = 'hidden'
+      AND status = 'confirmed'
+      AND NOT COALESCE((metadata->>'backfilled')::BOOLEAN, false)
+    RETURNING amount
+  )
+  SELECT SUM(amount) INTO v_refunded FROM refunded;
+
+  UPDATE public.transactions
+  SET
+    coin_id = NULL,
+    metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('coin_id', p_coin_id)
+  WHERE coin_id = p_coin_id;
+
+  DELETE FROM public.coins WHERE id = p_coin_id;
+
+  IF v_coin.hider_id IS NOT NULL THEN
+    SELECT balance INTO v_balance FROM public.wallets WHERE user_id = v_coin.hider_id;
+  END IF;
+
+  INSERT INTO public.activity_logs (user_id, activity_type, severity, description, metadata)
+  VALUES (
+    p_user_id,
+    CASE WHEN v_is_admin THEN 'admin_action' ELSE 'coin_deleted' END,
+    'info',
+    format('Deleted coin %s%s', p_coin_id, CASE
+      WHEN v_refunded > 0 THEN format(' (refunded $%s)', to_char(v_refunded, 'FM999999990.00'))
+      ELSE ''
+    END),
+    jsonb_build_object(
+      'action', 'coin_deleted',
+      'coin_id', p_coin_id,
+      'hider_id', v_coin.hider_id,
+      'value', v_coin.value,
+      'refunded', COALESCE(v_refunded, 0)
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'coin_id', p_coin_id,
+    'refunded', COALESCE(v_refunded, 0),
+    'hider_balance', v_balance
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- API only: delete_coin trusts the user it is given
+REVOKE EXECUTE ON FUNCTION public.delete_coin(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_coin(UUID, UUID) TO service_role;
+
+COMMENT ON FUNCTION public.delete_coin IS 'Hider or super admin: delete an unfound coin and refund its charged hide';